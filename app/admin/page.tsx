@@ -5,14 +5,23 @@ import React from "react"
 import { useEffect, useState, useMemo, useRef, Fragment } from "react";
 import { AppShell } from "@/components/app-shell";
 import { PivotedCrewRow, TradeType } from "@/lib/types";
-import { getPivotedRosterData, updateRosterRow, createRosterRow, deleteRosterRow, deleteCrewFromRoster, deleteCrewByName, getCrewList } from "@/lib/actions";
+import { getPivotedRosterData, updateRosterRow, createRosterRow, deleteRosterRow, deleteCrewFromRoster, deleteCrewByName, getCrewList, getApprovedPeriods, applyRosterChanges, type RosterLockOverride, type NewRosterRow } from "@/lib/actions";
 import { safeParseDate, getTradeRank, shortenPost, formatDate, getFullTradeName } from "@/lib/logic";
 import { getClients, getPostsForClient, getLocationsForClientPost } from "@/lib/client-location-map";
+import { isCycleLocked, type ApprovedPeriod } from "@/lib/roster-lock";
+import { analyseRoster, monthWindow, ISSUE_LABELS, type RosterIssueKind } from "@/lib/roster-health";
 import { getUser } from "@/lib/auth";
 import { useProject } from "@/hooks/use-project";
 import { SyncingPlaceholder } from "@/components/syncing-placeholder";
+import { HistoryDrawer } from "@/components/history-drawer";
+import { RotationPlanner } from "@/components/rotation-planner";
+import { ReliefRecommender } from "@/components/relief-recommender";
+import { reliefName, type ReliefCandidate, type ReliefRequest } from "@/lib/relief-recommender";
+import type { PlannedCycle } from "@/lib/rotation-planner";
+import { RosterImport } from "@/components/roster-import";
+import type { ImportedCycle } from "@/lib/roster-import";
 
-interface CrewListItem { id: string; crew_name: string; clean_name: string; post: string; client: string; location: string; status?: string }
+interface CrewListItem { id: string; crew_name: string; clean_name: string; post: string; client: string; location: string; status?: string; resign_date?: string | null }
 
 export default function AdminPage() {
   const project = useProject();
@@ -30,10 +39,15 @@ export default function AdminPage() {
   // Disable add/remove for L2A and L2B
   const currentUser = getUser();
   const canAddRemove = currentUser?.role !== "L2A" && currentUser?.role !== "L2B";
+  // Only L1 may override a period whose statement is already approved
+  const canOverrideLock = currentUser?.role === "L1";
+
+  // Month/client periods with an approved statement -- roster cells there are locked
+  const [approvedPeriods, setApprovedPeriods] = useState<ApprovedPeriod[]>([]);
 
   const [notification, setNotification] = useState<{
     message: string;
-    type: "success" | "error";
+    type: "success" | "error" | "warning";
   } | null>(null);
   const [activeNote, setActiveNote] = useState<{
     crewId: string;
@@ -50,6 +64,8 @@ export default function AdminPage() {
     medevac_dates: string[];
     al_dates: string[];
   } | null>(null);
+  // Roster cycle whose change history is open in the drawer
+  const [historyCell, setHistoryCell] = useState<{ recordId: number; title: string } | null>(null);
   const [hoveredNote, setHoveredNote] = useState<{
     text: string;
     x: number;
@@ -92,7 +108,8 @@ export default function AdminPage() {
     setLoading(true);
     setRosterUnavailable(false);
     try {
-      const [pivotedData, crewResult] = await Promise.all([getPivotedRosterData(project), getCrewList(project)]);
+      const [pivotedData, crewResult, periods] = await Promise.all([getPivotedRosterData(project), getCrewList(project), getApprovedPeriods(project)]);
+      setApprovedPeriods(periods);
       if (project === "OTHERS" && pivotedData.length === 0 && (!crewResult.data || crewResult.data.length === 0)) {
         setRosterUnavailable(true);
         setData([]);
@@ -179,11 +196,121 @@ export default function AdminPage() {
     return locs.sort();
   }, [data]);
 
-  const showNotification = (message: string, type: "success" | "error") => {
+  const showNotification = (message: string, type: "success" | "error" | "warning") => {
     setNotification({ message, type });
-    setTimeout(() => setNotification(null), 3000);
+    setTimeout(() => setNotification(null), type === "warning" ? 6000 : 3000);
+  };
+
+  // A save that went through with certificate warnings is reported as a warning
+  const notifySaved = (message: string, warnings?: string[]) => {
+    if (warnings && warnings.length > 0) showNotification(`${message} -- ${warnings.join("; ")}`, "warning");
+    else showNotification(message, "success");
   };
 
+  // Run a roster write; if it hits an approved period, L1 may retry with a recorded reason
+  const withLockOverride = async <T extends { success: boolean; error?: string; locked?: boolean }>(
+    run: (override?: RosterLockOverride) => Promise<T>
+  ): Promise<T> => {
+    const result = await run();
+    if (result.success || !result.locked || !canOverrideLock) return result;
+    const reason = window.prompt(`${result.error}\n\nL1 override: enter the reason for changing an approved period.`);
+    if (!reason || !reason.trim()) return result;
+    return run({ reason: reason.trim() });
+  };
+
+  // Rotation planner
+  const [showPlanner, setShowPlanner] = useState(false);
+  const resignDates = useMemo(
+    () => Object.fromEntries(crewList.map((c) => [c.id, c.resign_date])),
+    [crewList]
+  );
+
+  // Updates and new cycles go through one server action, so the plan is applied
+  // whole or not at all and an L1 override reason is asked for once; imported
+  // cycles carry their own post/client/location for crew not yet on the roster
+  const commitCycleChanges = async (changes: (PlannedCycle | ImportedCycle)[], label: string): Promise<boolean> => {
+    const updates = changes
+      .filter((c) => c.rosterId !== null)
+      .map((c) => ({ id: c.rosterId!, updates: { sign_on: c.after.sign_on, sign_off: c.after.sign_off } }));
+    const creates: NewRosterRow[] = [];
+    for (const c of changes.filter((ch) => ch.rosterId === null)) {
+      const row = "post" in c ? c : data.find((r) => r.crew_id === c.crew_id && r.crew_name === c.crew_name);
+      if (!row) continue;
+      creates.push({
+        crew_id: row.crew_id,
+        crew_name: row.crew_name,
+        post: row.post,
+        client: row.client,
+        location: row.location,
+        cycle_number: c.cycle_number,
+        sign_on: c.after.sign_on,
+        sign_off: c.after.sign_off,
+      });
+    }
+
+    setIsSyncing(true);
+    const result = await withLockOverride((override) => applyRosterChanges(updates, creates, project, override));
+    setIsSyncing(false);
+    fetchData();
+    if (!result.success) {
+      showNotification(result.error || `${label} failed`, "error");
+      return false;
+    }
+    setLastSynced(new Date());
+    notifySaved(`${label} saved (${changes.length} cycles)`, result.warnings);
+    return true;
+  };
+
+  const handlePlanCommit = (changes: PlannedCycle[]) => commitCycleChanges(changes, "Rotation plan");
+
+  // Spreadsheet import: only the changes accepted in the preview reach here
+  const [showImport, setShowImport] = useState(false);
+  const handleImportCommit = (changes: ImportedCycle[]) => commitCycleChanges(changes, "Roster import");
+
+  // Relief recommender, optionally prefilled from a Roster Health coverage gap
+  const [reliefPrefill, setReliefPrefill] = useState<{ location?: string; from?: string; to?: string } | null>(null);
+
+  // Accepting a relief adds a cycle to the crew's "(R)" row, creating the row if needed
+  const handleReliefAccept = async (candidate: ReliefCandidate, request: ReliefRequest, site: PivotedCrewRow): Promise<boolean> => {
+    const name = reliefName(candidate.crew);
+    const existing = data.find((r) => r.crew_id === candidate.crew.id && r.crew_name === name);
+    const cycleNum = existing ? Math.max(0, ...Object.keys(existing.cycles).map(Number)) + 1 : 1;
+    if (cycleNum > 24) {
+      showNotification(`${name} already has 24 cycles`, "error");
+      return false;
+    }
+    setIsSyncing(true);
+    const result = await withLockOverride((override) => createRosterRow({
+      crew_id: candidate.crew.id,
+      crew_name: name,
+      post: site.post,
+      client: site.client,
+      location: request.location,
+      cycle_number: cycleNum,
+      sign_on: request.from,
+      sign_off: request.to,
+    }, project, override));
+    setIsSyncing(false);
+    if (!result.success) {
+      showNotification(result.error || "Relief assignment failed", "error");
+      return false;
+    }
+    setLastSynced(new Date());
+    notifySaved(`${name} assigned to ${request.location}`, result.warnings);
+    fetchData();
+    return true;
+  };
+
+  // Roster Health panel: checks run over the whole roster, coverage over one month
+  const [showHealth, setShowHealth] = useState(false);
+  const [healthMonth, setHealthMonth] = useState(() => {
+    const now = new Date();
+    return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
+  });
+  const [healthKind, setHealthKind] = useState<RosterIssueKind | "ALL">("ALL");
+  const healthIssues = useMemo(() => analyseRoster(data, monthWindow(healthMonth)), [data, healthMonth]);
+  const healthErrors = healthIssues.filter((i) => i.severity === "error").length;
+
   // Overlap detection using normalized cycles
   const getOverlaps = useMemo(() => {
     const alerts: Record<string, string[]> = {};
@@ -242,7 +369,7 @@ export default function AdminPage() {
 
     if (cycle?.id) {
       // Update existing cycle row
-      const result = await updateRosterRow(cycle.id, { [field]: finalValue }, project);
+      const result = await withLockOverride((override) => updateRosterRow(cycle.id, { [field]: finalValue }, project, override));
       setIsSyncing(false);
       if (result.success) {
         setLastSynced(new Date());
@@ -255,14 +382,14 @@ export default function AdminPage() {
           }
           return { ...row, cycles: newCycles };
         }));
-        showNotification("Update Synced", "success");
+        notifySaved("Update Synced", result.warnings);
       } else {
         showNotification(result.error || "Update failed", "error");
         fetchData();
       }
     } else {
       // Create new cycle row
-      const result = await createRosterRow({
+      const result = await withLockOverride((override) => createRosterRow({
         crew_id: crewRow.crew_id,
         crew_name: crewRow.crew_name,
         post: crewRow.post,
@@ -270,7 +397,7 @@ export default function AdminPage() {
         location: crewRow.location,
         cycle_number: cycleNum,
         [field]: finalValue,
-      }, project);
+      }, project, override));
       setIsSyncing(false);
       if (result.success && result.data) {
         setLastSynced(new Date());
@@ -292,7 +419,7 @@ export default function AdminPage() {
           };
           return { ...row, cycles: newCycles };
         }));
-        showNotification("Update Synced", "success");
+        notifySaved("Update Synced", result.warnings);
       } else {
         showNotification(result.error || "Update failed", "error");
         fetchData();
@@ -322,7 +449,12 @@ export default function AdminPage() {
       };
 
       if (activeNote.cycleRowId) {
-        await updateRosterRow(activeNote.cycleRowId, updates, project);
+        const cycleRowId = activeNote.cycleRowId;
+        const result = await withLockOverride((override) => updateRosterRow(cycleRowId, updates, project, override));
+        if (!result.success) {
+          showNotification(result.error || "Save failed", "error");
+          return;
+        }
       } else {
         // Create cycle row with all fields
         const result = await createRosterRow({
@@ -334,7 +466,13 @@ export default function AdminPage() {
           cycle_number: activeNote.rotationIdx,
         }, project);
         if (result.success && result.data) {
-          await updateRosterRow(result.data.id, updates, project);
+          const newId = result.data.id;
+          const updated = await withLockOverride((override) => updateRosterRow(newId, updates, project, override));
+          if (!updated.success) {
+            showNotification(updated.error || "Save failed", "error");
+            fetchData();
+            return;
+          }
         }
       }
       showNotification("Saved", "success");
@@ -492,7 +630,7 @@ export default function AdminPage() {
     
     setIsSyncing(true);
     // Use name-specific delete so suffixed entries don't wipe the original
-    const result = await deleteCrewByName(crewId, name, project);
+    const result = await withLockOverride((override) => deleteCrewByName(crewId, name, project, override));
     setIsSyncing(false);
     
     if (result.success) {
@@ -546,7 +684,7 @@ export default function AdminPage() {
         {notification && !isSyncing && (
           <div
             className={`fixed top-24 right-4 z-[2000] px-6 py-3 rounded-2xl shadow-2xl text-white font-black text-[11px] uppercase tracking-widest animate-in slide-in-from-right duration-300 ${
-              notification.type === "success" ? "bg-emerald-600" : "bg-red-600"
+              notification.type === "success" ? "bg-emerald-600" : notification.type === "warning" ? "bg-amber-600" : "bg-red-600"
             }`}
           >
             {notification.message}
@@ -586,6 +724,40 @@ export default function AdminPage() {
               onChange={(e) => setSearch(e.target.value)}
               className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none w-32 placeholder:normal-case"
             />
+            <button
+              type="button"
+              onClick={() => setReliefPrefill({ location: locationFilter !== "ALL" ? locationFilter : undefined })}
+              className="px-2.5 py-1 rounded-lg bg-amber-500/10 hover:bg-amber-500/20 text-amber-700 font-bold text-[10px] uppercase tracking-wider transition-all border border-amber-200"
+            >
+              Find Relief
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowPlanner(true)}
+              className="px-2.5 py-1 rounded-lg bg-blue-500/10 hover:bg-blue-500/20 text-blue-700 font-bold text-[10px] uppercase tracking-wider transition-all border border-blue-200"
+            >
+              Plan Rotation
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowImport(true)}
+              className="px-2.5 py-1 rounded-lg bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-700 font-bold text-[10px] uppercase tracking-wider transition-all border border-emerald-200"
+            >
+              Import
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowHealth((v) => !v)}
+              className={`px-2.5 py-1 rounded-lg font-bold text-[10px] uppercase tracking-wider transition-all border ${
+                healthErrors > 0
+                  ? "bg-red-500/10 hover:bg-red-500/20 text-red-600 border-red-200"
+                  : healthIssues.length > 0
+                    ? "bg-amber-500/10 hover:bg-amber-500/20 text-amber-700 border-amber-200"
+                    : "bg-emerald-500/10 hover:bg-emerald-500/20 text-emerald-700 border-emerald-200"
+              }`}
+            >
+              Roster Health ({healthIssues.length})
+            </button>
             {(tradeFilter !== "ALL" || locationFilter !== "ALL" || search) && (
               <button
                 type="button"
@@ -598,6 +770,99 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* ROSTER HEALTH */}
+        {showHealth && (
+          <div className="mx-1 mt-1 bg-card rounded-xl border border-border shadow-xl overflow-hidden flex-shrink-0">
+            <div className="px-5 py-3 bg-slate-900 flex flex-wrap items-center justify-between gap-2">
+              <h3 className="text-[11px] font-black text-white uppercase tracking-widest">Roster Health</h3>
+              <div className="flex items-center gap-2">
+                <span className="text-[9px] font-black text-white/60 uppercase tracking-wider">Coverage month</span>
+                <input
+                  type="month"
+                  value={healthMonth}
+                  onChange={(e) => e.target.value && setHealthMonth(e.target.value)}
+                  className="bg-slate-800 border border-slate-700 rounded-md px-2 py-0.5 text-[11px] font-bold text-white outline-none"
+                />
+                <button type="button" onClick={() => setShowHealth(false)} className="text-white/60 hover:text-white text-xs font-black px-1">
+                  &times;
+                </button>
+              </div>
+            </div>
+            <div className="px-5 py-2 border-b border-border flex flex-wrap gap-1.5">
+              {(["ALL", ...Object.keys(ISSUE_LABELS)] as (RosterIssueKind | "ALL")[]).map((kind) => {
+                const count = kind === "ALL" ? healthIssues.length : healthIssues.filter((i) => i.kind === kind).length;
+                return (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => setHealthKind(kind)}
+                    className={`px-2 py-0.5 rounded-md text-[9px] font-black uppercase tracking-wider border transition-colors ${
+                      healthKind === kind ? "bg-slate-900 text-white border-slate-900" : "bg-muted text-muted-foreground border-border hover:text-foreground"
+                    }`}
+                  >
+                    {kind === "ALL" ? "All" : ISSUE_LABELS[kind]} ({count})
+                  </button>
+                );
+              })}
+            </div>
+            <div className="max-h-48 overflow-y-auto">
+              {healthIssues.filter((i) => healthKind === "ALL" || i.kind === healthKind).length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-4">No issues found.</p>
+              ) : (
+                <table className="w-full text-[10px]">
+                  <tbody>
+                    {healthIssues
+                      .filter((i) => healthKind === "ALL" || i.kind === healthKind)
+                      .map((issue, idx) => (
+                        <tr
+                          key={idx}
+                          onClick={() => {
+                            if (issue.kind === "COVERAGE_GAP" || issue.kind === "DOUBLE_MANNED") {
+                              setLocationFilter(issue.location);
+                              setSearch("");
+                            } else {
+                              setLocationFilter("ALL");
+                              setSearch(issue.crew_name || "");
+                            }
+                          }}
+                          className="border-b border-border/50 hover:bg-muted/50 cursor-pointer"
+                        >
+                          <td className="px-5 py-1.5 w-40">
+                            <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-wider ${
+                              issue.severity === "error" ? "bg-red-500/15 text-red-600 border-red-500/30" : "bg-amber-500/15 text-amber-600 border-amber-500/30"
+                            }`}>
+                              {ISSUE_LABELS[issue.kind]}
+                            </span>
+                          </td>
+                          <td className="px-2 py-1.5 font-bold text-muted-foreground w-24">{issue.client}</td>
+                          <td className="px-2 py-1.5 text-foreground">{issue.message}</td>
+                          <td className="px-5 py-1.5 text-right w-28">
+                            {issue.kind === "COVERAGE_GAP" && (
+                              <button
+                                type="button"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  // Gap `to` is the last uncovered day; the relief signs off the day after
+                                  const end = new Date(`${issue.to}T00:00:00`);
+                                  end.setDate(end.getDate() + 1);
+                                  const signOff = `${end.getFullYear()}-${String(end.getMonth() + 1).padStart(2, "0")}-${String(end.getDate()).padStart(2, "0")}`;
+                                  setReliefPrefill({ location: issue.location, from: issue.from, to: signOff });
+                                }}
+                                className="px-2 py-0.5 rounded-md text-[8px] font-black uppercase tracking-wider bg-amber-500/10 text-amber-700 border border-amber-200 hover:bg-amber-500/20"
+                              >
+                                Find Relief
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* TIMELINE NAVIGATION */}
         <div className="bg-blue-600 backdrop-blur-md px-3 py-1 border-b border-blue-700 flex items-center gap-2 flex-shrink-0 shadow-md rounded mx-1 mt-0.5">
           <span className="text-[8px] font-black text-white/80 uppercase tracking-wider shrink-0">
@@ -746,6 +1011,8 @@ export default function AdminPage() {
                               const conflicts = getOverlaps[alertKey];
                               const isRelief = cycle?.relief_all && cycle.relief_all > 0;
                               const dateWarnKey = `${row.crew_id}::${row.crew_name}::${rotationIdx}`;
+                              const isLocked = isCycleLocked(approvedPeriods, row.client, cycle);
+                              const lockedForUser = isLocked && !canOverrideLock;
                               const hasDateWarning = dateWarnings.has(dateWarnKey) || ((!mVal && !!dVal) || (!!mVal && !dVal));
 
                               const shouldShowSlot =
@@ -766,7 +1033,10 @@ export default function AdminPage() {
                                       conflicts
                                         ? "ring-2 ring-red-500 bg-red-50"
                                         : ""
-                                    } ${isRelief ? "ring-2 ring-amber-400" : ""} ${hasDateWarning ? "ring-2 ring-orange-500 bg-orange-50" : ""}`}
+                                    } ${isRelief ? "ring-2 ring-amber-400" : ""} ${hasDateWarning ? "ring-2 ring-orange-500 bg-orange-50" : ""} ${
+                                      isLocked ? "bg-slate-100 dark:bg-slate-800 border-dashed border-slate-400" : ""
+                                    }`}
+                                    title={isLocked ? `Statement approved for this period -- ${canOverrideLock ? "changes need an L1 override reason" : "locked"}` : undefined}
                                   >
                                     <div className="flex flex-col">
                                       <div className="flex justify-between items-center mb-0.5">
@@ -784,6 +1054,12 @@ export default function AdminPage() {
                                             MISSING DATE
                                           </span>
                                         )}
+                                        {isLocked && !conflicts && !hasDateWarning && (
+                                          <span className="flex items-center gap-0.5 text-slate-500 text-[7px] font-black">
+                                            <svg className="w-2.5 h-2.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" /></svg>
+                                            LOCKED
+                                          </span>
+                                        )}
                                       </div>
                                       <input
                                         type="date"
@@ -791,7 +1067,8 @@ export default function AdminPage() {
                                         onChange={(e) =>
                                           handleUpdate(row, rotationIdx, 'sign_on', e.target.value)
                                         }
-                                        className="border border-border rounded-xl px-2.5 py-1.5 text-[11px] font-black w-36 outline-none focus:ring-2 focus:ring-slate-400 bg-muted text-foreground transition-all"
+                                        disabled={lockedForUser}
+                                        className="border border-border rounded-xl px-2.5 py-1.5 text-[11px] font-black w-36 outline-none focus:ring-2 focus:ring-slate-400 bg-muted text-foreground transition-all disabled:opacity-60 disabled:cursor-not-allowed"
                                       />
                                     </div>
                                     <div className="flex flex-col">
@@ -804,7 +1081,8 @@ export default function AdminPage() {
                                         onChange={(e) =>
                                           handleUpdate(row, rotationIdx, 'sign_off', e.target.value)
                                         }
-                                        className="border border-border rounded-xl px-2.5 py-1.5 text-[11px] font-black w-36 outline-none focus:ring-2 focus:ring-red-400 bg-muted text-foreground transition-all"
+                                        disabled={lockedForUser}
+                                        className="border border-border rounded-xl px-2.5 py-1.5 text-[11px] font-black w-36 outline-none focus:ring-2 focus:ring-red-400 bg-muted text-foreground transition-all disabled:opacity-60 disabled:cursor-not-allowed"
                                       />
                                     </div>
                                     <div className="flex flex-col gap-1.5 items-center justify-center h-full px-1">
@@ -871,6 +1149,16 @@ export default function AdminPage() {
                                           />
                                         </svg>
                                       </button>
+                                      {cycle?.id && (
+                                        <button
+                                          type="button"
+                                          onClick={() => setHistoryCell({ recordId: cycle.id, title: `${row.crew_name} -- Sign On ${rotationIdx}` })}
+                                          title="Change history"
+                                          className="p-1 rounded-lg border bg-muted border-border hover:bg-card text-muted-foreground hover:text-foreground transition-all"
+                                        >
+                                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                                        </button>
+                                      )}
                                     </div>
                                   </div>
                                   {/* Arrow separator between filled rotations */}
@@ -1056,6 +1344,44 @@ export default function AdminPage() {
         })()}
 
         {/* HOVERED NOTE PREVIEW */}
+        {reliefPrefill && (
+          <ReliefRecommender
+            rows={data}
+            crew={crewList}
+            initial={reliefPrefill}
+            onClose={() => setReliefPrefill(null)}
+            onAccept={handleReliefAccept}
+          />
+        )}
+
+        {showPlanner && (
+          <RotationPlanner
+            rows={data}
+            resignDates={resignDates}
+            onClose={() => setShowPlanner(false)}
+            onCommit={handlePlanCommit}
+          />
+        )}
+
+        {showImport && (
+          <RosterImport
+            rows={data}
+            crew={crewList}
+            onClose={() => setShowImport(false)}
+            onCommit={handleImportCommit}
+          />
+        )}
+
+        {historyCell && (
+          <HistoryDrawer
+            title={historyCell.title}
+            subject="roster"
+            recordId={historyCell.recordId}
+            project={project}
+            onClose={() => setHistoryCell(null)}
+          />
+        )}
+
         {hoveredNote && (
           <div
             className="fixed z-[3000] bg-slate-900 text-white px-3 py-2 rounded-lg shadow-xl border border-white/10 pointer-events-none max-w-[220px] animate-in zoom-in-95 duration-150"
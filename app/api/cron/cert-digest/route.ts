@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { runCertExpiryDigest } from '@/lib/cert-digest'
+
+export const dynamic = 'force-dynamic'
+
+// Nightly certificate expiry digest. The scheduler calls this with
+// `Authorization: Bearer $CRON_SECRET`; ?dryRun=1 reports without sending.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const dryRun = request.nextUrl.searchParams.get('dryRun') === '1'
+  const summary = await runCertExpiryDigest({ dryRun })
+  return NextResponse.json(summary, { status: summary.errors.length ? 500 : 200 })
+}
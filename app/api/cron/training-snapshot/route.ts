@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { runTrainingSnapshot } from '@/lib/training-snapshot'
+
+export const dynamic = 'force-dynamic'
+
+// Monthly training compliance snapshot, called by the scheduler with
+// `Authorization: Bearer $CRON_SECRET`.
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const summary = await runTrainingSnapshot()
+  return NextResponse.json(summary, { status: summary.errors.length ? 500 : 200 })
+}
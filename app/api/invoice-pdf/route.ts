@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getInvoicePdf } from '@/lib/actions'
+import { isForbidden } from '@/lib/authz'
+
+export const dynamic = 'force-dynamic'
+
+// Invoice PDF for ?id=<cms_invoices.id>&project=PCSB, rendered from the stored invoice row
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const id = Number(params.get('id'))
+  if (!Number.isInteger(id) || id <= 0) return NextResponse.json({ error: 'id is required' }, { status: 400 })
+
+  const result = await getInvoicePdf(id, params.get('project') || 'PCSB')
+  if (!result.success || !result.pdf) {
+    const status = isForbidden(result) ? 403 : 404
+    return NextResponse.json({ error: result.error || 'Invoice not found' }, { status })
+  }
+
+  return new NextResponse(Buffer.from(result.pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${params.get('download') ? 'attachment' : 'inline'}; filename="${result.fileName}"`,
+      'Cache-Control': 'no-store',
+    },
+  })
+}
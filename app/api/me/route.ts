@@ -0,0 +1,14 @@
+import { NextResponse } from 'next/server'
+import { getSessionUser, loadAccessMatrix } from '@/lib/session'
+import type { MeResponse } from '@/lib/authz'
+
+export const dynamic = 'force-dynamic'
+
+// The signed-in user and the access matrix, as the server sees them
+export async function GET() {
+  const user = await getSessionUser()
+  if (!user) return NextResponse.json({ error: 'Not signed in' }, { status: 401 })
+
+  const body: MeResponse = { user, permissions: await loadAccessMatrix() }
+  return NextResponse.json(body, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { getStatementPdf } from '@/lib/actions'
+import { isForbidden } from '@/lib/authz'
+
+export const dynamic = 'force-dynamic'
+
+// Statement PDF for ?month=YYYY-MM&client=SBA|SKA|ALL&project=PCSB -- the archived
+// copy once the statement is approved, otherwise a draft from the live roster.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const result = await getStatementPdf(params.get('month') || '', params.get('client') || 'ALL', params.get('project') || 'PCSB')
+  if (!result.success || !result.pdf) {
+    const status = isForbidden(result) ? 403 : 400
+    return NextResponse.json({ error: result.error || 'Could not render the statement' }, { status })
+  }
+
+  return new NextResponse(Buffer.from(result.pdf), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${params.get('download') ? 'attachment' : 'inline'}; filename="${result.fileName}"`,
+      'Cache-Control': 'no-store',
+      'X-Statement-Archived': result.archived ? '1' : '0',
+    },
+  })
+}
@@ -3,6 +3,8 @@ import type { Metadata, Viewport } from 'next'
 import { Geist, Geist_Mono } from 'next/font/google'
 import { Analytics } from '@vercel/analytics/next'
 import { Toaster } from '@/components/ui/toaster'
+import { SessionProvider } from '@/components/session-provider'
+import { getSessionUser, loadAccessMatrix } from '@/lib/session'
 import './globals.css'
 
 const _geist = Geist({ subsets: ["latin"] });
@@ -39,15 +41,18 @@ export const metadata: Metadata = {
   },
 }
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const user = await getSessionUser()
+  const permissions = user ? await loadAccessMatrix() : {}
+
   return (
     <html lang="en">
       <body className={`font-sans antialiased`}>
-        {children}
+        <SessionProvider user={user} permissions={permissions}>{children}</SessionProvider>
         <Toaster />
         <Analytics />
       </body>
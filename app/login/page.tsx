@@ -4,7 +4,7 @@ import React from "react";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
-import { setSession, isAuthenticated, getFirstAccessiblePage } from "@/lib/auth";
+import { setSession, setPermissionMatrix, isAuthenticated, getFirstAccessiblePage, type PagePermission } from "@/lib/auth";
 import { signInWithEmail, recordLoginLog, getMaintenanceMode } from "@/lib/actions";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -63,6 +63,7 @@ export default function LoginPage() {
 
     // Store user profile in session
     const user = setSession(result.user);
+    setPermissionMatrix((result.permissions || {}) as Record<string, PagePermission>);
 
     // Block non-L1 users during maintenance
     if (maintenanceMode && user.role !== "L1") {
@@ -0,0 +1,549 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AppShell } from "@/components/app-shell";
+import {
+  getPayrollRun, getPayrollRuns, getPayrollLayout, savePayrollLayout, exportPayrollRun, downloadPayrollExport, reopenPayrollRun,
+} from "@/lib/actions";
+import { getUser, canEdit } from "@/lib/auth";
+import { toISODay } from "@/lib/rate-card";
+import {
+  PAYROLL_FIELDS, PAYROLL_DELIMITERS, DEFAULT_PAYROLL_LAYOUT, payrollTotals, formatPayrollExport, checkPayrollFit,
+  type PayrollLine, type PayrollRun, type PayrollLayout, type PayrollField,
+} from "@/lib/payroll";
+import { useProject } from "@/hooks/use-project";
+
+const MONTH_NAMES = [
+  "JAN", "FEB", "MAR", "APR", "MAY", "JUN",
+  "JUL", "AUG", "SEP", "OCT", "NOV", "DEC",
+];
+
+const DELIMITER_LABELS: Record<string, string> = { ",": "Comma (,)", ";": "Semicolon (;)", "|": "Pipe (|)", "\t": "Tab" };
+
+const fmtAmt = (val: number) =>
+  val === 0 ? "-" : val.toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function monthLabel(monthYear: string): string {
+  const [y, m] = monthYear.split("-").map(Number);
+  return `${MONTH_NAMES[m - 1] || "?"} ${y}`;
+}
+
+function fmtStamp(iso: string | null | undefined): string {
+  if (!iso) return "-";
+  return new Date(iso).toLocaleString("en-MY", { day: "2-digit", month: "short", year: "numeric", hour: "2-digit", minute: "2-digit" });
+}
+
+function downloadText(fileName: string, content: string) {
+  const blob = new Blob([content], { type: fileName.endsWith(".csv") ? "text/csv;charset=utf-8" : "text/plain;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+
+type Dialog =
+  | { kind: "payslip"; line: PayrollLine }
+  | { kind: "layout"; layout: PayrollLayout }
+  | { kind: "reopen"; reason: string };
+
+export default function PayrollPage() {
+  const project = useProject();
+  const user = typeof window !== "undefined" ? getUser() : null;
+  const editable = !!user && canEdit("/payroll", project, user.role);
+
+  const [monthYear, setMonthYear] = useState(() => (toISODay(new Date()) || "").slice(0, 7));
+  const [lines, setLines] = useState<PayrollLine[]>([]);
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [runs, setRuns] = useState<PayrollRun[]>([]);
+  const [layout, setLayout] = useState<PayrollLayout>(DEFAULT_PAYROLL_LAYOUT);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [search, setSearch] = useState("");
+  const [dialog, setDialog] = useState<Dialog | null>(null);
+  const [notification, setNotification] = useState<{ message: string; type: "success" | "error" } | null>(null);
+
+  const notify = useCallback((message: string, type: "success" | "error") => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  }, []);
+
+  const load = useCallback(async () => {
+    if (!/^\d{4}-\d{2}$/.test(monthYear)) return;
+    setLoading(true);
+    const [result, history, lay] = await Promise.all([getPayrollRun(monthYear, project), getPayrollRuns(project), getPayrollLayout(project)]);
+    if (!result.success) notify(result.error || "Failed to load payroll", "error");
+    setLines(result.lines || []);
+    setRun(result.run ?? null);
+    setRuns(history);
+    setLayout(lay);
+    setLoading(false);
+  }, [project, monthYear, notify]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const totals = useMemo(() => payrollTotals(lines), [lines]);
+  const filtered = useMemo(() => {
+    const q = search.trim().toUpperCase();
+    return q ? lines.filter((l) => `${l.employee_name} ${l.employee_id} ${l.nric_passport}`.toUpperCase().includes(q)) : lines;
+  }, [lines, search]);
+  const missingBank = lines.filter((l) => !l.acc_no).length;
+
+  const handleExport = async () => {
+    if (!window.confirm(`Export payroll for ${monthLabel(monthYear)}? The month is locked once exported.`)) return;
+    setBusy(true);
+    const result = await exportPayrollRun(monthYear, project);
+    setBusy(false);
+    if (!result.success || !result.content || !result.fileName) {
+      notify(result.error || "Failed to export payroll", "error");
+      return;
+    }
+    downloadText(result.fileName, result.content);
+    notify(`Payroll ${monthLabel(monthYear)} exported and locked`, "success");
+    load();
+  };
+
+  const handleDownload = async () => {
+    const result = await downloadPayrollExport(monthYear, project);
+    if (!result.success || !result.content || !result.fileName) {
+      notify(result.error || "Failed to download payroll", "error");
+      return;
+    }
+    downloadText(result.fileName, result.content);
+  };
+
+  const handleSaveDialog = async () => {
+    if (!dialog || dialog.kind === "payslip") return;
+    setBusy(true);
+    const result = dialog.kind === "layout"
+      ? await savePayrollLayout(project, dialog.layout)
+      : await reopenPayrollRun(monthYear, dialog.reason, project);
+    setBusy(false);
+    if (!result.success) {
+      notify(result.error || "Failed", "error");
+      return;
+    }
+    notify(dialog.kind === "layout" ? "Export layout saved" : `Payroll ${monthLabel(monthYear)} reopened`, "success");
+    setDialog(null);
+    load();
+  };
+
+  // Layout editor helpers
+  const editColumns = (update: (cols: PayrollLayout["columns"]) => PayrollLayout["columns"]) => {
+    if (dialog?.kind !== "layout") return;
+    setDialog({ ...dialog, layout: { ...dialog.layout, columns: update([...dialog.layout.columns]) } });
+  };
+  const moveColumn = (i: number, delta: number) =>
+    editColumns((cols) => {
+      const j = i + delta;
+      if (j < 0 || j >= cols.length) return cols;
+      [cols[i], cols[j]] = [cols[j], cols[i]];
+      return cols;
+    });
+  const layoutPreview = dialog?.kind === "layout" ? formatPayrollExport(lines.slice(0, 3), monthYear, dialog.layout) : "";
+  const layoutProblem = dialog?.kind === "layout" ? checkPayrollFit(lines, monthYear, dialog.layout) : null;
+
+  return (
+    <AppShell>
+      <div className="space-y-4 animate-in fade-in duration-300">
+        {/* NOTIFICATION */}
+        {notification && (
+          <div
+            className={`fixed top-24 right-4 z-[2000] px-6 py-3 rounded-2xl shadow-2xl text-white font-black text-[11px] uppercase tracking-widest animate-in slide-in-from-right duration-300 ${
+              notification.type === "success" ? "bg-emerald-600" : "bg-red-600"
+            }`}
+          >
+            {notification.message}
+          </div>
+        )}
+
+        {/* PAGE HEADER */}
+        <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border pb-1.5">
+          <div>
+            <h2 className="text-lg font-black text-foreground uppercase italic tracking-tighter leading-none">
+              Payroll
+            </h2>
+            <p className="text-[10px] text-muted-foreground font-bold uppercase tracking-wide mt-1">
+              {project} &middot; Basic, fixed and variable allowances per employee for the payroll system
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              type="month"
+              value={monthYear}
+              onChange={(e) => e.target.value && setMonthYear(e.target.value)}
+              className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold uppercase outline-none cursor-pointer"
+            />
+            {editable && (
+              <button
+                type="button"
+                onClick={() => setDialog({ kind: "layout", layout: { ...layout, columns: layout.columns.map((c) => ({ ...c })) } })}
+                className="px-3 py-1 rounded-lg bg-muted hover:bg-muted/80 text-foreground font-bold text-[10px] uppercase tracking-wider transition-all border border-border"
+              >
+                Export Layout
+              </button>
+            )}
+            {run ? (
+              <>
+                <button
+                  type="button"
+                  onClick={handleDownload}
+                  className="px-3 py-1 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white font-bold text-[10px] uppercase tracking-wider transition-all"
+                >
+                  Download {run.file_name.endsWith(".csv") ? "CSV" : "File"}
+                </button>
+                {user?.role === "L1" && (
+                  <button
+                    type="button"
+                    onClick={() => setDialog({ kind: "reopen", reason: "" })}
+                    className="px-3 py-1 rounded-lg bg-red-600 hover:bg-red-700 text-white font-bold text-[10px] uppercase tracking-wider transition-all"
+                  >
+                    Reopen
+                  </button>
+                )}
+              </>
+            ) : editable && (
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={busy || loading || lines.length === 0}
+                className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold text-[10px] uppercase tracking-wider transition-all"
+              >
+                {busy ? "Exporting..." : "Export & Lock"}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* LOCK STATUS */}
+        {run ? (
+          <div className="rounded-xl border border-emerald-500/30 bg-emerald-500/10 px-4 py-2 text-[11px] font-bold text-emerald-700">
+            Locked &middot; exported by {run.exported_by} on {fmtStamp(run.exported_at)} (version {run.version}, {run.file_name}). Figures below are the exported ones.
+          </div>
+        ) : !loading && lines.length > 0 && (
+          <div className="rounded-xl border border-amber-500/30 bg-amber-500/10 px-4 py-2 text-[11px] font-bold text-amber-700">
+            Preview &middot; approved statements are paid as approved; clients not yet approved are worked out live from the roster. Exporting locks {monthLabel(monthYear)}.
+            {missingBank > 0 && ` ${missingBank} employee${missingBank === 1 ? " has" : "s have"} no bank account number.`}
+          </div>
+        )}
+
+        {/* SUMMARY */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+          {[
+            { label: "Employees", val: String(lines.length), cls: "text-foreground" },
+            { label: "Basic + Fixed", val: `RM ${fmtAmt(totals.basic + totals.fixed_all)}`, cls: "text-foreground" },
+            { label: "Variable Allowances", val: `RM ${fmtAmt(totals.allowances)}`, cls: "text-blue-600" },
+            { label: "Gross Pay", val: `RM ${fmtAmt(totals.gross)}`, cls: "text-emerald-600" },
+          ].map((c) => (
+            <div key={c.label} className="rounded-xl border border-border bg-card px-3 py-2">
+              <p className="text-[8px] font-bold text-muted-foreground uppercase tracking-wider">{c.label}</p>
+              <p className={`text-base font-black tabular-nums ${c.cls}`}>{c.val}</p>
+            </div>
+          ))}
+        </div>
+
+        {/* EMPLOYEES TABLE */}
+        <div className="bg-card rounded-xl border border-border overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-border">
+            <p className="text-[10px] font-black uppercase tracking-wider text-muted-foreground">{monthLabel(monthYear)} &middot; {filtered.length} employees</p>
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name / ID / NRIC"
+              className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none w-56"
+            />
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-muted/50 border-b border-border">
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Employee</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Post / Client</th>
+                  {["Basic", "Fixed All.", "Offshore", "Relief", "Standby", "MEDEVAC", "Gross"].map((h) => (
+                    <th key={h} className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide text-right">{h}</th>
+                  ))}
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {loading ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-12 text-center">
+                      <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground mx-auto" />
+                    </td>
+                  </tr>
+                ) : filtered.length === 0 ? (
+                  <tr>
+                    <td colSpan={10} className="px-4 py-12 text-center">
+                      <p className="text-sm text-muted-foreground">Nothing to pay for {monthLabel(monthYear)}</p>
+                    </td>
+                  </tr>
+                ) : (
+                  filtered.map((l) => (
+                    <tr key={l.employee_id} className="hover:bg-muted/30 transition-colors">
+                      <td className="px-4 py-2.5">
+                        <p className="text-xs font-bold text-foreground">{l.employee_name}</p>
+                        <p className="text-[10px] text-muted-foreground">{l.nric_passport || "No NRIC"}{!l.acc_no && <span className="ml-2 font-bold text-amber-600">No bank acc.</span>}</p>
+                      </td>
+                      <td className="px-4 py-2.5 text-xs">
+                        {l.post}
+                        <span className="block text-[10px] text-muted-foreground">{l.client} &middot; {l.location}</span>
+                      </td>
+                      {[l.basic, l.fixed_all, l.offshore, l.relief, l.standby, l.medevac].map((v, i) => (
+                        <td key={i} className="px-4 py-2.5 text-xs text-right tabular-nums">{fmtAmt(v)}</td>
+                      ))}
+                      <td className="px-4 py-2.5 text-xs text-right tabular-nums font-bold">{fmtAmt(l.gross)}</td>
+                      <td className="px-4 py-2.5 text-right">
+                        <button type="button" onClick={() => setDialog({ kind: "payslip", line: l })} className="text-[10px] font-bold uppercase text-blue-600 hover:underline">Payslip</button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+              {!loading && lines.length > 0 && (
+                <tfoot>
+                  <tr className="bg-muted/50 border-t border-border font-bold">
+                    <td colSpan={2} className="px-4 py-2.5 text-[11px] uppercase">Total</td>
+                    {[totals.basic, totals.fixed_all, totals.offshore, totals.relief, totals.standby, totals.medevac, totals.gross].map((v, i) => (
+                      <td key={i} className="px-4 py-2.5 text-xs text-right tabular-nums">{fmtAmt(v)}</td>
+                    ))}
+                    <td />
+                  </tr>
+                </tfoot>
+              )}
+            </table>
+          </div>
+        </div>
+
+        {/* EXPORT HISTORY */}
+        {runs.length > 0 && (
+          <div className="bg-card rounded-xl border border-border overflow-hidden">
+            <p className="px-4 py-2 border-b border-border text-[10px] font-black uppercase tracking-wider text-muted-foreground">Export History</p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <tbody className="divide-y divide-border">
+                  {runs.map((r) => (
+                    <tr key={r.id} className="text-xs">
+                      <td className="px-4 py-2 font-bold">{monthLabel(r.month_year)} v{r.version}</td>
+                      <td className="px-4 py-2">
+                        <span className={`inline-flex px-2 py-0.5 rounded border text-[9px] font-bold uppercase ${r.status === "LOCKED" ? "bg-emerald-500/15 text-emerald-600 border-emerald-500/30" : "bg-slate-500/15 text-slate-500 border-slate-500/30"}`}>
+                          {r.status}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 tabular-nums">{r.employee_count} employees &middot; RM {fmtAmt(Number(r.gross_total))}</td>
+                      <td className="px-4 py-2 text-muted-foreground">{r.exported_by}, {fmtStamp(r.exported_at)}</td>
+                      <td className="px-4 py-2 text-muted-foreground">{r.status === "REOPENED" ? `Reopened by ${r.reopened_by}: ${r.reopen_reason}` : ""}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        <div className="text-xs text-muted-foreground px-1">
+          Basic and fixed allowance come from the crew master record and are paid once per employee; offshore, relief, standby and MEDEVAC follow the Statement rules.
+        </div>
+
+        {/* DIALOGS */}
+        {dialog && (
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div className={`bg-card rounded-2xl w-full ${dialog.kind === "layout" ? "max-w-2xl" : "max-w-md"} shadow-2xl border border-border flex flex-col max-h-[85vh]`}>
+              <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+                <h3 className="text-xs font-black uppercase tracking-wider text-white">
+                  {dialog.kind === "payslip" ? `Payslip - ${monthLabel(monthYear)}` : dialog.kind === "layout" ? "Payroll Export Layout" : `Reopen ${monthLabel(monthYear)}`}
+                </h3>
+                <button type="button" onClick={() => setDialog(null)} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+              </div>
+
+              <div className="px-5 py-4 space-y-3 overflow-y-auto">
+                {dialog.kind === "payslip" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-x-4 gap-y-2 text-[11px]">
+                      {[
+                        ["Employee", dialog.line.employee_name],
+                        ["Employee ID", dialog.line.employee_id],
+                        ["NRIC / Passport", dialog.line.nric_passport || "-"],
+                        ["Post", dialog.line.post],
+                        ["Client / Location", `${dialog.line.client} / ${dialog.line.location}`],
+                        ["Bank", dialog.line.acc_no ? `${dialog.line.bank} ${dialog.line.acc_no}` : "-"],
+                      ].map(([label, value]) => (
+                        <div key={label}>
+                          <span className={labelCls}>{label}</span>
+                          <p className="font-bold text-foreground">{value}</p>
+                        </div>
+                      ))}
+                    </div>
+                    <table className="w-full text-[11px]">
+                      <thead>
+                        <tr className="border-b border-border text-muted-foreground">
+                          <th className="py-1.5 text-left font-black uppercase text-[9px] tracking-widest">Earnings</th>
+                          <th className="py-1.5 text-right font-black uppercase text-[9px] tracking-widest">Days</th>
+                          <th className="py-1.5 text-right font-black uppercase text-[9px] tracking-widest">RM</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-border">
+                        {[
+                          ["Basic Salary", null, dialog.line.basic],
+                          ["Fixed Allowance", null, dialog.line.fixed_all],
+                          ["Offshore Allowance", dialog.line.offshore_days, dialog.line.offshore],
+                          ["Relief Allowance", dialog.line.relief_days, dialog.line.relief],
+                          ["Standby Allowance", dialog.line.standby_days, dialog.line.standby],
+                          ["MEDEVAC Allowance", dialog.line.medevac_days, dialog.line.medevac],
+                        ].map(([label, days, amount]) => (
+                          <tr key={String(label)}>
+                            <td className="py-1.5">{label}</td>
+                            <td className="py-1.5 text-right tabular-nums">{days ? days : ""}</td>
+                            <td className="py-1.5 text-right tabular-nums">{fmtAmt(Number(amount))}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="border-t-2 border-foreground font-black">
+                          <td className="py-2 uppercase">Gross Pay</td>
+                          <td />
+                          <td className="py-2 text-right tabular-nums">{fmtAmt(dialog.line.gross)}</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                    <p className="text-[10px] text-muted-foreground">Preview of earnings only; statutory deductions are worked out by the payroll system.</p>
+                  </>
+                )}
+
+                {dialog.kind === "layout" && (
+                  <>
+                    <div className="grid grid-cols-4 gap-3">
+                      <div>
+                        <label className={labelCls}>Format</label>
+                        <select value={dialog.layout.format} onChange={(e) => setDialog({ ...dialog, layout: { ...dialog.layout, format: e.target.value as PayrollLayout["format"] } })} className={inputCls}>
+                          <option value="CSV">CSV</option>
+                          <option value="FIXED">Fixed-width</option>
+                        </select>
+                      </div>
+                      {dialog.layout.format === "CSV" ? (
+                        <div>
+                          <label className={labelCls}>Delimiter</label>
+                          <select value={dialog.layout.delimiter} onChange={(e) => setDialog({ ...dialog, layout: { ...dialog.layout, delimiter: e.target.value } })} className={inputCls}>
+                            {PAYROLL_DELIMITERS.map((d) => (
+                              <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ) : (
+                        <div>
+                          <label className={labelCls}>Number Padding</label>
+                          <select value={dialog.layout.zero_pad ? "ZERO" : "SPACE"} onChange={(e) => setDialog({ ...dialog, layout: { ...dialog.layout, zero_pad: e.target.value === "ZERO" } })} className={inputCls}>
+                            <option value="SPACE">Spaces</option>
+                            <option value="ZERO">Zeros</option>
+                          </select>
+                        </div>
+                      )}
+                      <div>
+                        <label className={labelCls}>Amounts</label>
+                        <select value={dialog.layout.amount_format} onChange={(e) => setDialog({ ...dialog, layout: { ...dialog.layout, amount_format: e.target.value as PayrollLayout["amount_format"] } })} className={inputCls}>
+                          <option value="DECIMAL">1234.50</option>
+                          <option value="SEN">123450 (sen)</option>
+                        </select>
+                      </div>
+                      <div>
+                        <label className={labelCls}>Header Row</label>
+                        <select value={dialog.layout.include_header ? "Y" : "N"} onChange={(e) => setDialog({ ...dialog, layout: { ...dialog.layout, include_header: e.target.value === "Y" } })} className={inputCls}>
+                          <option value="Y">Include</option>
+                          <option value="N">Omit</option>
+                        </select>
+                      </div>
+                    </div>
+
+                    <div>
+                      <label className={labelCls}>Columns</label>
+                      <div className="space-y-1.5">
+                        {dialog.layout.columns.map((c, i) => (
+                          <div key={i} className="flex items-center gap-1.5">
+                            <span className="w-5 text-[10px] font-bold text-muted-foreground text-right">{i + 1}</span>
+                            <select
+                              value={c.field}
+                              onChange={(e) => editColumns((cols) => { cols[i] = { ...c, field: e.target.value as PayrollField }; return cols; })}
+                              className={`${inputCls} flex-1`}
+                            >
+                              {PAYROLL_FIELDS.map((f) => (
+                                <option key={f.field} value={f.field}>{f.label}</option>
+                              ))}
+                            </select>
+                            <input
+                              value={c.header}
+                              onChange={(e) => editColumns((cols) => { cols[i] = { ...c, header: e.target.value }; return cols; })}
+                              placeholder="Header"
+                              className={`${inputCls} flex-1`}
+                            />
+                            {dialog.layout.format === "FIXED" && (
+                              <input
+                                type="number"
+                                min="1"
+                                max="100"
+                                value={c.width}
+                                onChange={(e) => editColumns((cols) => { cols[i] = { ...c, width: Number(e.target.value) }; return cols; })}
+                                className={`${inputCls} w-16`}
+                                title="Width (characters)"
+                              />
+                            )}
+                            <button type="button" onClick={() => moveColumn(i, -1)} className="text-[11px] font-black text-muted-foreground hover:text-foreground px-1">&uarr;</button>
+                            <button type="button" onClick={() => moveColumn(i, 1)} className="text-[11px] font-black text-muted-foreground hover:text-foreground px-1">&darr;</button>
+                            <button type="button" onClick={() => editColumns((cols) => cols.filter((_, j) => j !== i))} className="text-[11px] font-black text-red-600 hover:text-red-500 px-1">&times;</button>
+                          </div>
+                        ))}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={() => editColumns((cols) => [...cols, { field: "gross", header: "GROSS", width: 12 }])}
+                        className="mt-2 text-[10px] font-black uppercase text-blue-600 hover:underline"
+                      >
+                        + Add Column
+                      </button>
+                    </div>
+
+                    <div>
+                      <label className={labelCls}>Preview (first {Math.min(3, lines.length)} employees)</label>
+                      <pre className="bg-muted border border-border rounded-lg px-2.5 py-2 text-[10px] font-mono whitespace-pre overflow-x-auto">{layoutPreview.replace(/\t/g, "→") || "No employees this month"}</pre>
+                      {layoutProblem && <p className="text-[10px] font-bold text-red-600 mt-1">{layoutProblem}</p>}
+                    </div>
+                    <p className="text-[10px] text-muted-foreground">Applies to exports from now on; exported months keep the file they were exported with.</p>
+                  </>
+                )}
+
+                {dialog.kind === "reopen" && (
+                  <div>
+                    <label className={labelCls}>Reason</label>
+                    <textarea rows={3} value={dialog.reason} onChange={(e) => setDialog({ ...dialog, reason: e.target.value })} className={inputCls} placeholder="Why does this month need to be exported again?" />
+                    <p className="text-[10px] text-muted-foreground mt-1">The exported file stays in the history; the next export becomes a new version.</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="px-5 py-3 border-t border-border flex justify-end gap-2 shrink-0">
+                <button type="button" onClick={() => setDialog(null)} className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-muted text-muted-foreground hover:bg-muted/80 transition-colors">
+                  {dialog.kind === "payslip" ? "Close" : "Cancel"}
+                </button>
+                {dialog.kind !== "payslip" && (
+                  <button
+                    type="button"
+                    onClick={handleSaveDialog}
+                    disabled={busy || (dialog.kind === "reopen" && !dialog.reason.trim())}
+                    className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase text-white disabled:opacity-40 transition-colors ${dialog.kind === "reopen" ? "bg-red-600 hover:bg-red-500" : "bg-emerald-600 hover:bg-emerald-500"}`}
+                  >
+                    {busy ? "Saving..." : dialog.kind === "reopen" ? "Reopen Month" : "Save"}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AppShell>
+  );
+}
@@ -0,0 +1,345 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { AppShell } from "@/components/app-shell";
+import { getRateCard, upsertRateCardEntry, deleteRateCardEntry } from "@/lib/actions";
+import { getUser, canEdit } from "@/lib/auth";
+import { formatDate } from "@/lib/logic";
+import { RATE_TYPES, RATE_TYPE_LABELS, isRateEffective, toISODay } from "@/lib/rate-card";
+import type { RateCardEntry, RateType, TradeType } from "@/lib/types";
+import { useProject } from "@/hooks/use-project";
+
+const TRADES: TradeType[] = ["OM", "EM", "IMP/OHN"];
+const CLIENTS = ["SKA", "SBA"];
+
+const EMPTY_FORM = {
+  rate_type: "OFFSHORE" as RateType,
+  client: "",
+  trade: "",
+  amount: "",
+  effective_from: "",
+  effective_to: "",
+  notes: "",
+};
+
+export default function RateCardPage() {
+  const project = useProject();
+  const user = typeof window !== "undefined" ? getUser() : null;
+  const editable = !!user && canEdit("/rates", project, user.role);
+
+  const [rates, setRates] = useState<RateCardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [typeFilter, setTypeFilter] = useState<RateType | "ALL">("ALL");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [notification, setNotification] = useState<{ message: string; type: "success" | "error" } | null>(null);
+
+  const notify = (message: string, type: "success" | "error") => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const fetchRates = useCallback(async () => {
+    setLoading(true);
+    setRates(await getRateCard(project));
+    setLoading(false);
+  }, [project]);
+
+  useEffect(() => {
+    fetchRates();
+  }, [fetchRates]);
+
+  const today = toISODay(new Date()) || "";
+  const filtered = useMemo(
+    () => rates.filter((r) => typeFilter === "ALL" || r.rate_type === typeFilter),
+    [rates, typeFilter]
+  );
+
+  const openAdd = () => {
+    setEditingId(null);
+    setForm({ ...EMPTY_FORM, effective_from: today });
+    setFormOpen(true);
+  };
+
+  const openEdit = (r: RateCardEntry) => {
+    setEditingId(r.id ?? null);
+    setForm({
+      rate_type: r.rate_type,
+      client: r.client || "",
+      trade: r.trade || "",
+      amount: String(r.amount),
+      effective_from: toISODay(r.effective_from) || "",
+      effective_to: toISODay(r.effective_to) || "",
+      notes: r.notes || "",
+    });
+    setFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.amount || !form.effective_from) {
+      notify("Amount and effective-from date are required", "error");
+      return;
+    }
+    setSaving(true);
+    const result = await upsertRateCardEntry({
+      id: editingId ?? undefined,
+      rate_type: form.rate_type,
+      project_code: project,
+      client: form.client || null,
+      trade: (form.trade || null) as TradeType | null,
+      amount: Number(form.amount),
+      effective_from: form.effective_from,
+      effective_to: form.effective_to || null,
+      notes: form.notes || null,
+    });
+    setSaving(false);
+    if (!result.success) {
+      notify(result.error || "Failed to save rate", "error");
+      return;
+    }
+    setFormOpen(false);
+    notify("Rate saved", "success");
+    fetchRates();
+  };
+
+  const handleDelete = async (r: RateCardEntry) => {
+    if (!r.id) return;
+    if (!window.confirm(`Delete ${r.rate_type} rate effective ${formatDate(r.effective_from)}?`)) return;
+    const result = await deleteRateCardEntry(r.id);
+    if (!result.success) {
+      notify(result.error || "Failed to delete rate", "error");
+      return;
+    }
+    notify("Rate deleted", "success");
+    fetchRates();
+  };
+
+  return (
+    <AppShell>
+      <div className="space-y-4 animate-in fade-in duration-300">
+        {/* NOTIFICATION */}
+        {notification && (
+          <div
+            className={`fixed top-24 right-4 z-[2000] px-6 py-3 rounded-2xl shadow-2xl text-white font-black text-[11px] uppercase tracking-widest animate-in slide-in-from-right duration-300 ${
+              notification.type === "success" ? "bg-emerald-600" : "bg-red-600"
+            }`}
+          >
+            {notification.message}
+          </div>
+        )}
+
+        {/* PAGE HEADER */}
+        <div className="flex flex-wrap items-center justify-between gap-2 border-b border-border pb-1.5">
+          <div>
+            <h2 className="text-lg font-black text-foreground uppercase italic tracking-tighter leading-none">
+              Rate Card
+            </h2>
+            <p className="text-[10px] text-muted-foreground font-bold uppercase tracking-wide mt-1">
+              {project} &middot; Offshore and MEDEVAC allowance rates by effective date
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as RateType | "ALL")}
+              className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold uppercase outline-none cursor-pointer"
+            >
+              <option value="ALL">All Rates</option>
+              {RATE_TYPES.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+            {editable && (
+              <button
+                type="button"
+                onClick={openAdd}
+                className="px-3 py-1 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-bold text-[10px] uppercase tracking-wider transition-all"
+              >
+                + Add Rate
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* RATES TABLE */}
+        <div className="bg-card rounded-xl border border-border overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-left">
+              <thead>
+                <tr className="bg-muted/50 border-b border-border">
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Rate</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Client</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Trade</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide text-right">Amount (RM)</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Effective</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Notes</th>
+                  <th className="px-4 py-3 text-[11px] font-semibold text-muted-foreground uppercase tracking-wide">Updated By</th>
+                  {editable && <th className="px-4 py-3" />}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {loading ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-12 text-center">
+                      <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground mx-auto" />
+                    </td>
+                  </tr>
+                ) : filtered.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-4 py-12 text-center">
+                      <p className="text-sm text-muted-foreground">No rates configured -- default rates apply</p>
+                    </td>
+                  </tr>
+                ) : (
+                  filtered.map((r) => {
+                    const active = isRateEffective(r, today);
+                    return (
+                      <tr key={r.id} className="hover:bg-muted/30 transition-colors">
+                        <td className="px-4 py-2.5">
+                          <span className="text-xs font-bold text-foreground">{RATE_TYPE_LABELS[r.rate_type]}</span>
+                          {active && (
+                            <span className="ml-2 inline-flex px-2 py-0.5 rounded text-[9px] font-bold uppercase bg-emerald-100 text-emerald-700">Current</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2.5 text-xs">{r.client || "All"}</td>
+                        <td className="px-4 py-2.5 text-xs">{r.trade || "All"}</td>
+                        <td className="px-4 py-2.5 text-xs text-right tabular-nums font-bold">
+                          {Number(r.amount).toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                        </td>
+                        <td className="px-4 py-2.5 text-xs tabular-nums">
+                          {formatDate(r.effective_from)} &ndash; {r.effective_to ? formatDate(r.effective_to) : "Open"}
+                        </td>
+                        <td className="px-4 py-2.5 text-xs text-muted-foreground">{r.notes || ""}</td>
+                        <td className="px-4 py-2.5 text-xs text-muted-foreground">{r.updated_by || ""}</td>
+                        {editable && (
+                          <td className="px-4 py-2.5 text-right whitespace-nowrap">
+                            <button type="button" onClick={() => openEdit(r)} className="text-[10px] font-bold uppercase text-blue-600 hover:underline mr-3">Edit</button>
+                            <button type="button" onClick={() => handleDelete(r)} className="text-[10px] font-bold uppercase text-red-600 hover:underline">Delete</button>
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <div className="text-xs text-muted-foreground px-1">
+          The most specific rate (client, then trade) in force on each working date is applied. An offshore rate on the crew master record is only used for dates the card does not cover.
+        </div>
+
+        {/* ADD / EDIT MODAL */}
+        {formOpen && (
+          <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+            <div className="bg-card rounded-2xl w-full max-w-sm shadow-2xl border border-border flex flex-col">
+              <div className="flex items-center justify-between px-5 py-2.5 border-b border-border bg-blue-600 rounded-t-2xl">
+                <h3 className="text-xs font-black uppercase tracking-wider text-white">{editingId ? "Edit Rate" : "Add Rate"}</h3>
+                <button type="button" onClick={() => setFormOpen(false)} className="text-white/80 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+              </div>
+              <div className="px-5 py-4 space-y-3">
+                <label className="block">
+                  <span className="text-[9px] font-black uppercase text-muted-foreground">Rate Type</span>
+                  <select
+                    value={form.rate_type}
+                    onChange={(e) => setForm({ ...form, rate_type: e.target.value as RateType })}
+                    className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                  >
+                    {RATE_TYPES.map((t) => (
+                      <option key={t} value={t}>{RATE_TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-[9px] font-black uppercase text-muted-foreground">Client</span>
+                    <select
+                      value={form.client}
+                      onChange={(e) => setForm({ ...form, client: e.target.value })}
+                      className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                    >
+                      <option value="">All</option>
+                      {CLIENTS.map((c) => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="text-[9px] font-black uppercase text-muted-foreground">Trade</span>
+                    <select
+                      value={form.trade}
+                      onChange={(e) => setForm({ ...form, trade: e.target.value })}
+                      className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                    >
+                      <option value="">All</option>
+                      {TRADES.map((t) => (
+                        <option key={t} value={t}>{t}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="text-[9px] font-black uppercase text-muted-foreground">Amount (RM)</span>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                    className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                  />
+                </label>
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="text-[9px] font-black uppercase text-muted-foreground">Effective From</span>
+                    <input
+                      type="date"
+                      value={form.effective_from}
+                      onChange={(e) => setForm({ ...form, effective_from: e.target.value })}
+                      className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="text-[9px] font-black uppercase text-muted-foreground">Effective To</span>
+                    <input
+                      type="date"
+                      value={form.effective_to}
+                      onChange={(e) => setForm({ ...form, effective_to: e.target.value })}
+                      className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                    />
+                  </label>
+                </div>
+                <label className="block">
+                  <span className="text-[9px] font-black uppercase text-muted-foreground">Notes</span>
+                  <input
+                    type="text"
+                    value={form.notes}
+                    onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                    placeholder="e.g. Contract revision 2026"
+                    className="w-full bg-muted border border-border rounded-lg px-3 py-2 text-[11px] font-bold outline-none"
+                  />
+                </label>
+              </div>
+              <div className="flex justify-end gap-2 px-4 py-2.5 border-t border-border bg-muted/30 rounded-b-2xl">
+                <button type="button" onClick={() => setFormOpen(false)} className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-foreground font-bold text-[10px] uppercase tracking-wider transition-all border border-border">
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-bold text-[10px] uppercase tracking-wider transition-all"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </AppShell>
+  );
+}
@@ -7,6 +7,8 @@ import { getPivotedRosterData, getCrewList, getOHNStaffFromMaster } from "@/lib/
 import { safeParseDate, getTradeRank, getFullTradeName } from "@/lib/logic";
 import { useProject } from "@/hooks/use-project";
 import { SyncingPlaceholder } from "@/components/syncing-placeholder";
+import { downloadXlsx } from "@/lib/spreadsheet";
+import { rosterWorkbook, type RosterExportGroup } from "@/lib/xlsx-export";
 
 // Generate months from Sep 2025 to Dec 2026
 const generateMonthRange = () => {
@@ -284,6 +286,30 @@ export default function RosterPage() {
     return currentStatus !== "OFF" && prevStatus !== "OFF";
   };
 
+  // Excel export of the grid as filtered, one coloured cell per day
+  const handleExport = () => {
+    const groups: RosterExportGroup[] = [];
+    for (const item of groupedData) {
+      if (item.type === "separator") groups.push({ label: item.label!, rows: [] });
+      else groups[groups.length - 1]?.rows.push({
+        name: getDisplayName(item.row!),
+        days: daysInMonth.map((d) => getDayStatus(item.row!, d.dayNum)),
+      });
+    }
+    const title = `${MONTH_NAMES[viewDate.getMonth()]} ${viewDate.getFullYear()}`;
+    downloadXlsx(`Roster_${project}_${MONTH_NAMES[viewDate.getMonth()]}_${viewDate.getFullYear()}`, rosterWorkbook(groups, {
+      year: viewDate.getFullYear(),
+      month: viewDate.getMonth(),
+      title,
+      filters: {
+        Project: project,
+        Client: clientFilter,
+        Trade: tradeFilter,
+        ...(search.trim() ? { Search: search.trim() } : {}),
+      },
+    }));
+  };
+
   if (project === "OTHERS" || rosterUnavailable) {
     return <AppShell><SyncingPlaceholder project={project} label="Roster" /></AppShell>;
   }
@@ -377,6 +403,15 @@ export default function RosterPage() {
                 onChange={(e) => setSearch(e.target.value)}
                 className="bg-gray-50 border border-gray-200 rounded-lg px-3 py-1.5 text-[10px] font-bold text-slate-700 uppercase outline-none w-36 placeholder:normal-case"
               />
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={loading || sortedData.length === 0}
+                className="p-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white transition-all shadow-sm disabled:opacity-40"
+                title="Export Roster to Excel"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" /></svg>
+              </button>
               <button
                 type="button"
                 onClick={() => { document.title = `Roster_${MONTH_NAMES[viewDate.getMonth()]}_${viewDate.getFullYear()}`; window.print(); }}
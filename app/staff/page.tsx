@@ -12,9 +12,19 @@ import {
   updateCrewDetail,
   createCrewMember,
   listCrewDocuments,
+  getRateCard,
+  getCertVersions,
+  recordCertVersion,
+  restoreCertVersion,
+  type CrewMasterRecord,
 } from "@/lib/actions";
+import { pivotRosterRows } from "@/lib/logic";
+import { buildPayContext, calcCrewPay, toSen } from "@/lib/pay-calc";
+import type { RateCardEntry, CertDocumentVersion, RosterRow } from "@/lib/types";
+import { extractCertMetadata } from "@/lib/cert-metadata";
 import { createClient } from "@/lib/supabase/client";
-import { Maximize, Printer, Download, Upload, X, Trash2 } from "lucide-react";
+import { Maximize, Printer, Download, Upload, X, Trash2, History } from "lucide-react";
+import { HistoryDrawer } from "@/components/history-drawer";
 import { getClients, getPostsForClient, getLocationsForClientPost } from "@/lib/client-location-map";
 
 // ─── Types ───
@@ -46,10 +56,8 @@ function daysUntil(d: string | null | undefined): number | null {
 }
 
 // ─── Movement Grid (Section C) - Mini roster with colored bars per month ───
-function MovementGrid({ rosterRows, offshoreRate = 0 }: { rosterRows: Record<string, unknown>[]; offshoreRate?: number }) {
+function MovementGrid({ rosterRows, master = null, rates = [], projectCode = "PCSB" }: { rosterRows: RosterRow[]; master?: CrewMasterRecord | null; rates?: RateCardEntry[]; projectCode?: string }) {
   const MO = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-  const OA_RATE = offshoreRate;
-  const MEDEVAC_RATE = 500;
 
   const cycles = useMemo(() => {
     return rosterRows
@@ -84,23 +92,22 @@ function MovementGrid({ rosterRows, offshoreRate = 0 }: { rosterRows: Record<str
     return result;
   }, [cycles]);
 
-  // Summary stats
+  // Summary stats, priced month by month through the same engine as the Statement
   const summary = useMemo(() => {
+    const ctx = buildPayContext(master ? [master] : [], rates, projectCode);
+    const crews = pivotRosterRows(rosterRows);
     let totalDays = 0;
     let totalAllow = 0;
-    for (const row of rosterRows) {
-      const signOn = row.sign_on ? new Date(String(row.sign_on)) : null;
-      const signOff = row.sign_off ? new Date(String(row.sign_off)) : null;
-      // Sign-off date excluded from days count
-      const oaDays = (signOn && signOff) ? Math.max(0, Math.ceil((signOff.getTime() - signOn.getTime()) / 86400000)) : 0;
-      const reliefAll = Number(row.relief_all) || 0;
-      const standbyAll = Number(row.standby_all) || 0;
-      const medevacDates = row.medevac_dates ? String(row.medevac_dates).split(",").filter(Boolean).length : 0;
-      totalDays += oaDays;
-      totalAllow += (oaDays * OA_RATE) + reliefAll + standbyAll + (medevacDates * MEDEVAC_RATE);
+    for (const { year, month } of months) {
+      for (const crew of crews) {
+        const pay = calcCrewPay(crew, ctx, year, month + 1);
+        if (!pay) continue;
+        totalDays += pay.offshoreDays;
+        totalAllow += pay.grandTotal;
+      }
     }
-    return { totalDays, totalAllow, totalCycles: cycles.length };
-  }, [rosterRows, cycles]);
+    return { totalDays, totalAllow: toSen(totalAllow), totalCycles: cycles.length };
+  }, [rosterRows, cycles, months, master, rates, projectCode]);
 
   if (months.length === 0) return <p className="text-xs text-muted-foreground italic p-2">No movement history found.</p>;
 
@@ -109,6 +116,8 @@ function MovementGrid({ rosterRows, offshoreRate = 0 }: { rosterRows: Record<str
       {/* Summary bar */}
       <div className="flex items-center gap-4 px-2 py-1.5 bg-slate-100 rounded-lg">
         <span className="text-[9px] font-black text-slate-500 uppercase tracking-wider">{summary.totalCycles} cycles</span>
+        <span className="text-[9px] font-black text-slate-500 uppercase tracking-wider">{summary.totalDays} offshore days</span>
+        <span className="text-[9px] font-black text-slate-500 uppercase tracking-wider">{fmtRM(summary.totalAllow)}</span>
       </div>
       {/* Mini Gantt grid */}
       <div className="overflow-auto flex-grow">
@@ -196,9 +205,11 @@ function ChangeStatusDialog({ currentStatus, onSave, onClose }: { currentStatus:
 }
 
 // ─── SEE DETAIL Overlay (covers Section B + C area) with inline editing ───
-function DetailOverlay({ detail, onClose, canEdit, onSave }: { detail: Record<string, unknown>; onClose: () => void; canEdit: boolean; onSave: (fields: Record<string, string>) => Promise<void> }) {
+function DetailOverlay({ detail, project, onClose, canEdit, onSave }: { detail: Record<string, unknown>; project: string; onClose: () => void; canEdit: boolean; onSave: (fields: Record<string, string>) => Promise<void> }) {
   const d = detail;
   const [editing, setEditing] = useState(false);
+  // null = drawer closed, "" = all fields, otherwise the field whose history is shown
+  const [historyField, setHistoryField] = useState<string | null>(null);
   const [editForm, setEditForm] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
   const [confirmSave, setConfirmSave] = useState(false);
@@ -275,9 +286,22 @@ function DetailOverlay({ detail, onClose, canEdit, onSave }: { detail: Record<st
                 </button>
               </>
             )}
+            <button type="button" onClick={() => setHistoryField("")} className="px-4 py-1.5 rounded-lg text-xs font-black uppercase bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors flex items-center gap-1.5">
+              <History className="w-3.5 h-3.5" /> History
+            </button>
             <button type="button" onClick={onClose} className="px-4 py-1.5 rounded-lg text-xs font-black uppercase bg-slate-200 text-slate-600 hover:bg-slate-300 transition-colors">Close</button>
           </div>
         </div>
+        {historyField !== null && (
+          <HistoryDrawer
+            title={String(d.crew_name || d.id)}
+            subject="master"
+            recordId={String(d.id)}
+            project={project}
+            field={historyField || undefined}
+            onClose={() => setHistoryField(null)}
+          />
+        )}
         {/* Payroll Info Box */}
         <div className="mb-5 bg-blue-50 border border-blue-200 rounded-xl px-5 py-4">
           <h4 className="text-xs font-black uppercase tracking-wider text-blue-700 mb-3">Payroll Information</h4>
@@ -310,8 +334,15 @@ function DetailOverlay({ detail, onClose, canEdit, onSave }: { detail: Record<st
                   const val = d[it.key];
                   const display = (val !== undefined && val !== null && val !== "") ? (it.fmt ? it.fmt(val) : String(val)) : "-";
                   return (
-                    <div key={it.key}>
-                      <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider">{it.label}</p>
+                    <div key={it.key} className="group">
+                      <p className="text-[10px] font-bold text-muted-foreground uppercase tracking-wider flex items-center gap-1">
+                        {it.label}
+                        {!editing && (
+                          <button type="button" onClick={() => setHistoryField(it.key)} title={`${it.label} history`} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-blue-600 transition-opacity">
+                            <History className="w-3 h-3" />
+                          </button>
+                        )}
+                      </p>
                       {editing ? (
                         it.key === "status" ? (
                           <select value={editForm[it.key] || ""} onChange={(e) => set(it.key, e.target.value)} className={inputCls}>
@@ -472,7 +503,8 @@ export default function StaffDetailPage() {
   const [selectedId, setSelectedId] = useState("");
   const [detail, setDetail] = useState<Record<string, unknown> | null>(null);
   const [matrix, setMatrix] = useState<MatrixRow[]>([]);
-  const [rosterRows, setRosterRows] = useState<Record<string, unknown>[]>([]);
+  const [rosterRows, setRosterRows] = useState<RosterRow[]>([]);
+  const [rateCard, setRateCard] = useState<RateCardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState("");
   const [showAutoComplete, setShowAutoComplete] = useState(false);
@@ -482,7 +514,11 @@ export default function StaffDetailPage() {
   const [uploading, setUploading] = useState(false);
   const [staffSearch, setStaffSearch] = useState("");
   const [staffListOpen, setStaffListOpen] = useState(false);
-  const [certModal, setCertModal] = useState<{ cert_type: string } | null>(null);
+  const [certModal, setCertModal] = useState<{ cert_type: string; matrix_id: string } | null>(null);
+  const [certVersions, setCertVersions] = useState<CertDocumentVersion[]>([]);
+  const [certViewing, setCertViewing] = useState<number | null>(null); // version shown; null = current
+  const [certLegacyPath, setCertLegacyPath] = useState<string | null>(null);
+  const [pendingCert, setPendingCert] = useState<{ file: File; cert_no: string; attended_date: string; expiry_date: string } | null>(null);
   const [certPdfUrl, setCertPdfUrl] = useState<string | null>(null);
   const [certLoading, setCertLoading] = useState(false);
   const [certNotFound, setCertNotFound] = useState(false);
@@ -513,6 +549,7 @@ export default function StaffDetailPage() {
     setMatrix([]);
     setRosterRows([]);
     setSelectedId("");
+    getRateCard(project).then(setRateCard).catch(() => setRateCard([]));
     getCrewList(project).then((res) => {
       if (res.success && res.data) {
         setCrewList(res.data);
@@ -532,11 +569,26 @@ export default function StaffDetailPage() {
     ]);
     if (detRes.success && detRes.data) setDetail(detRes.data);
     if (matRes.success && matRes.data) setMatrix(matRes.data);
-    if (rosRes.success && rosRes.data) setRosterRows(rosRes.data as Record<string, unknown>[]);
+    if (rosRes.success && rosRes.data) setRosterRows(rosRes.data);
   }, [project]);
 
   useEffect(() => { if (selectedId) { setShowDetailOverlay(false); loadDetail(selectedId); } }, [selectedId, loadDetail]);
 
+  // Master record for the pay engine, so the movement summary prices like the Statement
+  const crewMaster = useMemo((): CrewMasterRecord | null => {
+    if (!detail) return null;
+    return {
+      id: String(detail.id || ""),
+      crew_name: String(detail.crew_name || ""),
+      post: String(detail.post || ""),
+      client: String(detail.client || ""),
+      location: String(detail.location || ""),
+      basic: Number(detail.basic) || 0,
+      fixed_all: Number(detail.fixed_all) || 0,
+      offshore_rate: Number(detail.offshore_rate) || 0,
+    };
+  }, [detail]);
+
   // Filtered crew
   const filteredCrew = useMemo(() => {
     if (!search.trim()) return crewList;
@@ -558,14 +610,27 @@ export default function StaffDetailPage() {
     }
   };
 
-  // Open certificate modal for a specific course - tries pdf, jpg, jpeg, png
-  const openCertModal = async (certType: string) => {
+  const certPublicUrl = (path: string) => `${createClient().storage.from("certificates").getPublicUrl(path).data.publicUrl}?t=${Date.now()}`;
+
+  // Open certificate modal for a specific course: the current uploaded version,
+  // else the pre-versioning file ${crew_id}_${course_name} (tries pdf, jpg, jpeg, png)
+  const openCertModal = async (cert: { id: string; cert_type: string }) => {
     if (!selectedId) return;
-    const safeName = certType.replace(/[^a-zA-Z0-9_-]/g, "_");
-    setCertModal({ cert_type: certType });
+    const safeName = cert.cert_type.replace(/[^a-zA-Z0-9_-]/g, "_");
+    setCertModal({ cert_type: cert.cert_type, matrix_id: cert.id });
     setCertLoading(true);
     setCertNotFound(false);
     setCertPdfUrl(null);
+    setCertViewing(null);
+    setCertLegacyPath(null);
+    setPendingCert(null);
+    const versions = await getCertVersions(cert.id);
+    setCertVersions(versions);
+    if (versions.length > 0) {
+      setCertPdfUrl(certPublicUrl(versions[0].storage_path));
+      setCertLoading(false);
+      return;
+    }
     const supabase = createClient();
     const extensions = ["pdf", "jpg", "jpeg", "png"];
     const bust = Date.now();
@@ -580,6 +645,7 @@ export default function StaffDetailPage() {
         // Supabase may return 200 with XML/JSON for missing files
         if (res.ok && !ct.includes("xml") && !ct.includes("json")) {
           setCertPdfUrl(url);
+          setCertLegacyPath(filePath);
           found = true;
           break;
         }
@@ -589,31 +655,67 @@ export default function StaffDetailPage() {
     setCertLoading(false);
   };
 
-  // Context-aware upload: force filename to ${crew_id}_${course_name}.{ext}
-  // Explicitly remove ALL existing files first to avoid RLS upsert conflict
+  const viewCertVersion = (v: CertDocumentVersion) => {
+    setCertViewing(v.version === certVersions[0]?.version ? null : v.version);
+    setCertPdfUrl(certPublicUrl(v.storage_path));
+  };
+
+  // Pick a file: prefill cert no / dates from its name and PDF text, falling back to the matrix row
   const handleCertUpload = async (file: File) => {
     if (!selectedId || !certModal) return;
     if (file.size > 5 * 1024 * 1024) { alert("Max 5MB"); return; }
     const allowedExts = ["pdf", "jpg", "jpeg", "png"];
     const originalExt = file.name.split(".").pop()?.toLowerCase() || "";
     if (!allowedExts.includes(originalExt)) { alert("Only PDF, JPG, or PNG files allowed"); return; }
+    const row = matrix.find((m) => m.id === certModal.matrix_id);
+    const meta = await extractCertMetadata(file);
+    setPendingCert({
+      file,
+      cert_no: meta.cert_no || row?.cert_no || "",
+      attended_date: meta.attended_date || "",
+      expiry_date: meta.expiry_date || "",
+    });
+  };
+
+  // Upload as a new version under ${crew_id}/${course_name}/ -- earlier versions stay in the bucket
+  const confirmCertUpload = async () => {
+    if (!selectedId || !certModal || !pendingCert) return;
+    const { file } = pendingCert;
+    const ext = file.name.split(".").pop()?.toLowerCase() || "pdf";
     const safeName = certModal.cert_type.replace(/[^a-zA-Z0-9_-]/g, "_");
-    const targetPath = `${selectedId}_${safeName}.${originalExt}`;
+    const targetPath = `${selectedId}/${safeName}/v${Date.now()}.${ext}`;
     setUploading(true);
-    setCertPdfUrl(null);
     const supabase = createClient();
-    // Remove ALL extensions (including same name) to avoid RLS update conflict
-    const allPaths = allowedExts.map((ext) => `${selectedId}_${safeName}.${ext}`);
-    await supabase.storage.from("certificates").remove(allPaths);
-    // Fresh upload (no upsert needed since we deleted first)
-    const { error } = await supabase.storage.from("certificates").upload(targetPath, file);
+    const { error } = await supabase.storage.from("certificates").upload(targetPath, file, { contentType: file.type || undefined });
+    if (error) { setUploading(false); alert(error.message); return; }
+    const res = await recordCertVersion(certModal.matrix_id, {
+      storage_path: targetPath,
+      file_name: file.name,
+      content_type: file.type || null,
+      size_bytes: file.size,
+      cert_no: pendingCert.cert_no.trim() || null,
+      attended_date: pendingCert.attended_date || null,
+      expiry_date: pendingCert.expiry_date || null,
+    }, certLegacyPath || undefined);
+    setUploading(false);
+    if (!res.success) { alert(res.error || "Upload failed"); return; }
+    await loadDetail(selectedId);
+    await openCertModal({ id: certModal.matrix_id, cert_type: certModal.cert_type });
+  };
+
+  const handleCertRestore = async (v: CertDocumentVersion) => {
+    if (!selectedId || !certModal) return;
+    if (!window.confirm(`Restore version ${v.version} of "${certModal.cert_type}" as the current certificate?`)) return;
+    setUploading(true);
+    const res = await restoreCertVersion(v.id);
     setUploading(false);
-    if (error) { alert(error.message); return; }
-    // Refresh with cache bust
-    await openCertModal(certModal.cert_type);
+    if (!res.success) { alert(res.error || "Restore failed"); return; }
+    await loadDetail(selectedId);
+    await openCertModal({ id: certModal.matrix_id, cert_type: certModal.cert_type });
   };
 
-  // Delete certificate from bucket - hard reset state
+  // Delete a pre-versioning certificate from bucket - hard reset state
+  // (versioned documents keep their history and are replaced or restored instead)
   const handleCertDelete = async () => {
     if (!selectedId || !certModal) return;
     if (!window.confirm(`Delete certificate "${certModal.cert_type}"? This cannot be undone.`)) return;
@@ -880,7 +982,7 @@ export default function StaffDetailPage() {
 
           {/* Detail Overlay (covers B+C) */}
           {showDetailOverlay && detail && (
-            <DetailOverlay detail={detail} onClose={() => setShowDetailOverlay(false)} canEdit={isL1L2} onSave={handleDetailSave} />
+            <DetailOverlay detail={detail} project={project} onClose={() => setShowDetailOverlay(false)} canEdit={isL1L2} onSave={handleDetailSave} />
           )}
 
           {/* Add Staff Overlay (covers B+C) */}
@@ -905,7 +1007,7 @@ export default function StaffDetailPage() {
                       <button
                         type="button"
                         key={cert.id}
-                        onClick={() => openCertModal(cert.cert_type)}
+                        onClick={() => openCertModal(cert)}
                         className="flex flex-col px-1.5 py-1 rounded-md border border-border bg-accent/30 hover:bg-accent/60 hover:ring-1 hover:ring-blue-400/50 transition-all min-w-0 text-left cursor-pointer"
                       >
                         <p className="text-[9px] font-bold text-foreground uppercase truncate leading-tight">{cert.cert_type}</p>
@@ -932,7 +1034,7 @@ export default function StaffDetailPage() {
               </div>
             </div>
             <div className="flex-1 overflow-auto p-2">
-              <MovementGrid rosterRows={rosterRows} offshoreRate={Number(detail?.offshore_rate) || 0} />
+              <MovementGrid rosterRows={rosterRows} master={crewMaster} rates={rateCard} projectCode={project} />
             </div>
           </div>
         </div>
@@ -955,11 +1057,12 @@ export default function StaffDetailPage() {
                 <h3 className="text-xs font-black uppercase tracking-wider text-foreground truncate">{certModal.cert_type}</h3>
                 <p className="text-[9px] text-muted-foreground truncate">
                   {detail?.crew_name ? String(detail.crew_name) : "Staff"}
+                  {certVersions.length > 0 && ` · v${certViewing ?? certVersions[0].version}${certViewing ? ` (current v${certVersions[0].version})` : ""}`}
                 </p>
               </div>
               <button
                 type="button"
-                onClick={() => { setCertModal(null); setCertPdfUrl(null); setCertNotFound(false); setCertExpanded(false); }}
+                onClick={() => { setCertModal(null); setCertPdfUrl(null); setCertNotFound(false); setCertExpanded(false); setPendingCert(null); }}
                 className="w-7 h-7 rounded-lg flex items-center justify-center hover:bg-muted transition-colors text-muted-foreground hover:text-foreground shrink-0"
               >
                 <X className="w-4 h-4" />
@@ -1010,7 +1113,7 @@ export default function StaffDetailPage() {
                       title={certExpanded ? "Exit Full Screen" : "Close"}
                       onClick={() => {
                         if (certExpanded) { setCertExpanded(false); }
-                        else { setCertModal(null); setCertPdfUrl(null); setCertNotFound(false); setCertExpanded(false); }
+                        else { setCertModal(null); setCertPdfUrl(null); setCertNotFound(false); setCertExpanded(false); setPendingCert(null); }
                       }}
                       className="w-8 h-8 rounded-lg flex items-center justify-center text-white/80 hover:text-white hover:bg-white/15 transition-colors"
                     >
@@ -1054,10 +1157,80 @@ export default function StaffDetailPage() {
               ) : null}
             </div>
 
+            {/* Version history - newest first */}
+            {certVersions.length > 0 && !certExpanded && (
+              <div className="px-4 py-2 border-t border-border shrink-0 max-h-40 overflow-y-auto" style={{ scrollbarWidth: "thin" }}>
+                <p className="text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 flex items-center gap-1">
+                  <History className="w-3 h-3" /> Versions
+                </p>
+                <table className="w-full text-[10px]">
+                  <tbody>
+                    {certVersions.map((v) => {
+                      const shown = (certViewing ?? certVersions[0].version) === v.version;
+                      return (
+                        <tr key={v.id} className={`border-b border-border/50 ${shown ? "bg-muted" : ""}`}>
+                          <td className="py-1 font-black w-10">v{v.version}</td>
+                          <td className="py-1 text-muted-foreground">
+                            {new Date(v.uploaded_at).toLocaleDateString("en-GB")} &middot; {v.uploaded_by || "-"}
+                            {v.restored_from && <span className="ml-1 text-amber-600 font-bold">(restored v{v.restored_from})</span>}
+                          </td>
+                          <td className="py-1 font-bold">{v.cert_no || "-"}</td>
+                          <td className="py-1 text-muted-foreground tabular-nums">{v.attended_date || "-"} &rarr; {v.expiry_date || "-"}</td>
+                          <td className="py-1 text-right space-x-2 whitespace-nowrap">
+                            {!shown && (
+                              <button type="button" onClick={() => viewCertVersion(v)} className="text-[9px] font-black uppercase text-blue-600 hover:underline">View</button>
+                            )}
+                            {isL1L2 && v.version !== certVersions[0].version && (
+                              <button type="button" disabled={uploading} onClick={() => handleCertRestore(v)} className="text-[9px] font-black uppercase text-amber-600 hover:underline disabled:opacity-50">Restore</button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {/* Confirm the values read from the file before it becomes the current version */}
+            {isL1L2 && pendingCert && (
+              <div className="px-4 py-2 border-t border-border shrink-0 space-y-2">
+                <p className="text-[9px] font-black text-muted-foreground uppercase tracking-widest truncate">New version &middot; {pendingCert.file.name}</p>
+                <div className="grid grid-cols-3 gap-2">
+                  <input
+                    placeholder="Cert No"
+                    value={pendingCert.cert_no}
+                    onChange={(e) => setPendingCert({ ...pendingCert, cert_no: e.target.value })}
+                    className="bg-muted border border-border rounded-lg px-2 py-1 text-[10px] font-bold"
+                  />
+                  <label className="flex items-center gap-1 text-[9px] font-bold text-muted-foreground">
+                    Attended
+                    <input type="date" value={pendingCert.attended_date} onChange={(e) => setPendingCert({ ...pendingCert, attended_date: e.target.value })} className="flex-1 bg-muted border border-border rounded-lg px-2 py-1 text-[10px] font-bold text-foreground" />
+                  </label>
+                  <label className="flex items-center gap-1 text-[9px] font-bold text-muted-foreground">
+                    Expiry
+                    <input type="date" value={pendingCert.expiry_date} onChange={(e) => setPendingCert({ ...pendingCert, expiry_date: e.target.value })} className="flex-1 bg-muted border border-border rounded-lg px-2 py-1 text-[10px] font-bold text-foreground" />
+                  </label>
+                </div>
+                <p className="text-[9px] text-muted-foreground">Blank expiry is derived from the attended date and course validity. Values are copied to the Training Matrix.</p>
+                <div className="flex justify-end gap-2">
+                  <button type="button" onClick={() => setPendingCert(null)} className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-muted text-foreground hover:bg-muted/70">Cancel</button>
+                  <button
+                    type="button"
+                    disabled={uploading}
+                    onClick={confirmCertUpload}
+                    className="px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-50"
+                  >
+                    {uploading ? "Uploading..." : "Save Version"}
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Footer - Admin Controls (L1/L2 only) */}
-            {isL1L2 && (
+            {isL1L2 && !pendingCert && (
               <div className="px-4 py-2 border-t border-border flex items-center justify-end gap-2 shrink-0 bg-muted/30">
-                {certPdfUrl && (
+                {certPdfUrl && certVersions.length === 0 && (
                   <button
                     type="button"
                     disabled={uploading}
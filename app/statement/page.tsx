@@ -1,57 +1,28 @@
 "use client";
 
-import { Fragment, useEffect, useState, useMemo } from "react";
+import { Fragment, useCallback, useEffect, useState, useMemo } from "react";
 import { AppShell } from "@/components/app-shell";
-import { PivotedCrewRow, TradeType } from "@/lib/types";
-import { getPivotedRosterData, getCrewMasterData, getCrewList, type CrewMasterRecord, getApproval, submitForApproval, approveStatement, rejectApproval, type ApprovalRecord } from "@/lib/actions";
+import { PivotedCrewRow, TradeType, RateCardEntry } from "@/lib/types";
+import { getPivotedRosterData, getCrewMasterData, getCrewList, getRateCard, type CrewMasterRecord, getApproval, submitForApproval, approveStatement, rejectApproval, getLatestStatementSnapshot, getApprovalWorkflow, getApprovalHistory, type ApprovalRecord, type StatementSnapshot } from "@/lib/actions";
 import { getUser, getSelectedProject, type UserRole } from "@/lib/auth";
-import { safeParseDate, shortenPost, getTradeRank, formatDate } from "@/lib/logic";
+import { shortenPost, formatDate } from "@/lib/logic";
+import { buildPayContext, calcStatementRows, comparePay } from "@/lib/pay-calc";
+import { DEFAULT_APPROVAL_WORKFLOW, currentStageOf, canActOnStage, pendingStage, type ApprovalStage, type ApprovalHistoryEntry } from "@/lib/approval-workflow";
 import { useProject } from "@/hooks/use-project";
 import { SyncingPlaceholder } from "@/components/syncing-placeholder";
+import { downloadXlsx } from "@/lib/spreadsheet";
+import { statementWorkbook } from "@/lib/xlsx-export";
 
 const MONTH_NAMES = [
   "JANUARY", "FEBRUARY", "MARCH", "APRIL", "MAY", "JUNE",
   "JULY", "AUGUST", "SEPTEMBER", "OCTOBER", "NOVEMBER", "DECEMBER",
 ];
 
-interface StatementRow {
-  crew_id: string;
-  crew_name: string;
-  post: string;
-  client: string;
-  location: string;
-  displayLocation: string;
-  masterIndex: number;
-  offshoreDays: number;
-  offshoreTotal: number;
-  reliefDays: number;
-  reliefRate: number;
-  reliefTotal: number;
-  standbyDays: number;
-  standbyRate: number;
-  standbyTotal: number;
-  medevacDays: number;
-  medevacTotal: number;
-  grandTotal: number;
-  cycles: {
-    cycleNum: number;
-    sign_on: string | null;
-    sign_off: string | null;
-    days: number;
-    is_offshore: boolean;
-    day_relief: number;
-    relief_rate: number;
-    day_standby: number;
-    standby_rate: number;
-    medevac_dates: string[];
-    notes: string | null;
-  }[];
-}
-
 export default function StatementPage() {
   const project = useProject();
   const [data, setData] = useState<PivotedCrewRow[]>([]);
   const [masterData, setMasterData] = useState<CrewMasterRecord[]>([]);
+  const [rateCard, setRateCard] = useState<RateCardEntry[]>([]);
   const [crewList, setCrewList] = useState<{ id: string; crew_name: string; clean_name: string }[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedMonth, setSelectedMonth] = useState(() => {
@@ -62,31 +33,31 @@ export default function StatementPage() {
   const [clientFilter, setClientFilter] = useState<"ALL" | "SBA" | "SKA">("ALL");
   const [search, setSearch] = useState("");
 
-  // Two-stage approval system
+  // Multi-stage approval workflow (stages configured per project)
   const [approvalModal, setApprovalModal] = useState(false);
-  const [approverName, setApproverName] = useState("");
+  const [rejectModal, setRejectModal] = useState(false);
+  const [rejectComment, setRejectComment] = useState("");
+  const [workflow, setWorkflow] = useState<ApprovalStage[]>(DEFAULT_APPROVAL_WORKFLOW.PCSB);
+  const [approvalHistory, setApprovalHistory] = useState<ApprovalHistoryEntry[]>([]);
   const [submissionStatus, setSubmissionStatus] = useState<"Draft" | "Submitted" | "Approved">("Draft");
   const [approvalRecord, setApprovalRecord] = useState<ApprovalRecord | null>(null);
+  const [snapshot, setSnapshot] = useState<StatementSnapshot | null>(null);
+  const [showSnapshotDiff, setShowSnapshotDiff] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const user = typeof window !== "undefined" ? getUser() : null;
 
   useEffect(() => {
     setLoading(true);
-    Promise.all([getPivotedRosterData(project), getCrewMasterData(project), getCrewList(project)]).then(([pivotedData, master, crewResult]) => {
+    Promise.all([getPivotedRosterData(project), getCrewMasterData(project), getCrewList(project), getRateCard(project)]).then(([pivotedData, master, crewResult, rates]) => {
       setData(pivotedData);
       setMasterData(master);
+      setRateCard(rates);
       if (crewResult.success && crewResult.data) setCrewList(crewResult.data);
       setLoading(false);
     });
   }, [project]);
 
-  const masterMap = useMemo(() => {
-    const map = new Map<string, CrewMasterRecord>();
-    for (const m of masterData) {
-      map.set((m.crew_name || "").toUpperCase().trim(), m);
-    }
-    return map;
-  }, [masterData]);
+  const payContext = useMemo(() => buildPayContext(masterData, rateCard, project), [masterData, rateCard, project]);
 
   // Build crew_id -> clean display name from master for consistent naming
   const crewNameMap = useMemo(() => {
@@ -105,153 +76,39 @@ export default function StatementPage() {
     return suffixMatch ? `${masterName} ${suffixMatch[1]}` : masterName;
   };
 
-  // Map crew name to their index in master data for sorting
-  const masterIndexMap = useMemo(() => {
-    const map = new Map<string, number>();
-    masterData.forEach((m, idx) => {
-      map.set((m.crew_name || "").toUpperCase().trim(), idx);
-    });
-    return map;
-  }, [masterData]);
-
   const [selectedYear, selectedMonthNum] = useMemo(() => {
     const [y, m] = selectedMonth.split("-").map(Number);
     return [y, m];
   }, [selectedMonth]);
 
-  const statementRows = useMemo(() => {
-    // Use day-number arithmetic to avoid floating-point issues
-    const monthStartDate = new Date(selectedYear, selectedMonthNum - 1, 1);
-    const monthEndDate = new Date(selectedYear, selectedMonthNum, 0); // last day of month
-    const monthStartDay = Math.round(monthStartDate.getTime() / 86400000);
-    const monthEndDay = Math.round(monthEndDate.getTime() / 86400000);
-    const MEDEVAC_RATE = 500;
-    // Keep ms values for medevac date filtering
-    const monthStartTime = monthStartDate.getTime();
-    const monthEndTime = monthEndDate.getTime();
-
-    const rows: StatementRow[] = [];
-
-    for (const crew of data) {
-      const isOM = (crew.post || "").toUpperCase().includes("OFFSHORE MEDIC");
-      const isEM = (crew.post || "").toUpperCase().includes("ESCORT MEDIC");
-      const hasR = (crew.crew_name || "").includes("(R)");
-      // (R) crew: use their assigned location from master; non-(R): use roster location
-      const master = masterMap.get((crew.crew_name || "").toUpperCase().trim());
-      const displayLocation = hasR ? (master?.location || crew.location || "") : (crew.location || "");
-      const masterIdx = masterIndexMap.get((crew.crew_name || "").toUpperCase().trim()) ?? 9999;
-
-      const cycleDetails: StatementRow["cycles"] = [];
-      let totalOffshoreDays = 0;
-      let totalReliefDays = 0;
-      let totalReliefAmount = 0;
-      let totalStandbyDays = 0;
-      let totalStandbyAmount = 0;
-      let totalMedevacDays = 0;
-
-      for (const [cycleNumStr, cycle] of Object.entries(crew.cycles)) {
-        const signOn = safeParseDate(cycle.sign_on);
-        const signOff = safeParseDate(cycle.sign_off);
-        if (!signOn || !signOff) continue;
-
-        // sign_off date not counted: last working day = signOff - 1
-        const rotStartDay = Math.round(signOn.getTime() / 86400000);
-        const rotEndDay = Math.round(signOff.getTime() / 86400000) - 1;
-        if (rotStartDay > monthEndDay || rotEndDay < monthStartDay) continue;
-
-        // Clamp to month boundaries: endOfMonth - startDate + 1
-        const effectiveStartDay = Math.max(rotStartDay, monthStartDay);
-        const effectiveEndDay = Math.min(rotEndDay, monthEndDay);
-        const daysInMonth = effectiveEndDay - effectiveStartDay + 1;
-        if (daysInMonth <= 0) continue;
-
-        const isOffshore = cycle.is_offshore !== false;
-        if (isOM && isOffshore) totalOffshoreDays += daysInMonth;
-
-        const cycleReliefDays = cycle.day_relief ?? 0;
-        const cycleReliefRate = cycle.relief_all ?? 0;
-        totalReliefDays += cycleReliefDays;
-        totalReliefAmount += cycleReliefDays * cycleReliefRate;
-
-        const cycleStandbyDays = cycle.day_standby ?? 0;
-        const cycleStandbyRate = cycle.standby_all ?? 0;
-        totalStandbyDays += cycleStandbyDays;
-        totalStandbyAmount += cycleStandbyDays * cycleStandbyRate;
-
-        const cycleMedevacDates = (cycle.medevac_dates || []).filter((d) => {
-          const md = safeParseDate(d);
-          if (!md) return false;
-          return md.getTime() >= monthStartTime && md.getTime() <= monthEndTime;
-        });
-        totalMedevacDays += cycleMedevacDates.length;
-
-        cycleDetails.push({
-          cycleNum: parseInt(cycleNumStr),
-          sign_on: cycle.sign_on,
-          sign_off: cycle.sign_off,
-          days: daysInMonth,
-          is_offshore: isOffshore,
-          day_relief: cycleReliefDays,
-          relief_rate: cycleReliefRate,
-          day_standby: cycleStandbyDays,
-          standby_rate: cycleStandbyRate,
-          medevac_dates: cycleMedevacDates,
-          notes: cycle.notes,
-        });
-      }
-
-      if (cycleDetails.length === 0) continue;
-
-      const crewOARate = master?.offshore_rate || (isOM ? 200 : 0);
-      const offshoreTotal = isOM ? totalOffshoreDays * crewOARate : 0;
-      const medevacTotal = isEM ? totalMedevacDays * MEDEVAC_RATE : 0;
-      const grandTotal = offshoreTotal + totalReliefAmount + totalStandbyAmount + medevacTotal;
-
-      rows.push({
-        crew_id: crew.crew_id,
-        crew_name: crew.crew_name,
-        post: crew.post,
-        client: crew.client,
-        location: crew.location,
-        displayLocation,
-        masterIndex: masterIdx,
-        offshoreDays: isOM ? totalOffshoreDays : 0,
-        offshoreTotal,
-        reliefDays: totalReliefDays,
-        reliefRate: totalReliefAmount > 0 && totalReliefDays > 0 ? totalReliefAmount / totalReliefDays : 0,
-        reliefTotal: totalReliefAmount,
-        standbyDays: totalStandbyDays,
-        standbyRate: totalStandbyAmount > 0 && totalStandbyDays > 0 ? totalStandbyAmount / totalStandbyDays : 0,
-        standbyTotal: totalStandbyAmount,
-        medevacDays: isEM ? totalMedevacDays : 0,
-        medevacTotal,
-        grandTotal,
-        cycles: cycleDetails.sort((a, b) => a.cycleNum - b.cycleNum),
-      });
-    }
+  const statementRows = useMemo(
+    () => calcStatementRows(data, payContext, selectedYear, selectedMonthNum),
+    [data, payContext, selectedYear, selectedMonthNum]
+  );
 
-    // Sort: Trade (OM→EM→OHN), Location (alphabetical), Client (SKA→SBA), then Name
-    const clientRank = (c: string) => {
-      const u = (c || "").toUpperCase().trim();
-      if (u.includes("SKA")) return 1;
-      if (u.includes("SBA")) return 2;
-      return 3;
-    };
-    return rows.sort((a, b) => {
-      const tradeA = getTradeRank(a.post);
-      const tradeB = getTradeRank(b.post);
-      if (tradeA !== tradeB) return tradeA - tradeB;
-      const locCmp = (a.displayLocation || "").localeCompare(b.displayLocation || "");
-      if (locCmp !== 0) return locCmp;
-      const cA = clientRank(a.client);
-      const cB = clientRank(b.client);
-      if (cA !== cB) return cA - cB;
-      return a.crew_name.localeCompare(b.crew_name);
-    });
-  }, [data, masterMap, selectedYear, selectedMonthNum]);
+  // Approval scope is the client selector only (trade/search are view filters)
+  const approvalKey = clientFilter === "ALL" ? "ALL" : clientFilter;
+  const scopedLiveRows = useMemo(
+    () => statementRows.filter((r) => r.grandTotal !== 0 && (approvalKey === "ALL" || r.client === approvalKey)),
+    [statementRows, approvalKey]
+  );
+
+  // An approved month renders from its frozen snapshot, never from the live roster
+  const useSnapshot = submissionStatus === "Approved" && !!snapshot;
+  const sourceRows = useSnapshot ? snapshot!.rows : statementRows;
+
+  // Live-vs-snapshot differences, keyed the same way as expandedRow
+  const snapshotDiffs = useMemo(
+    () => (useSnapshot ? comparePay(snapshot!.rows, scopedLiveRows) : []),
+    [useSnapshot, snapshot, scopedLiveRows]
+  );
+  const snapshotDiffByKey = useMemo(
+    () => new Map(snapshotDiffs.map((d) => [`${d.crew_id}::${d.crew_name}`, d])),
+    [snapshotDiffs]
+  );
 
   const filteredRows = useMemo(() => {
-    return statementRows.filter((row) => {
+    return sourceRows.filter((row) => {
       if (row.grandTotal === 0) return false;
       const displayName = getDisplayName(row.crew_id, row.crew_name);
     const matchesSearch = !search.trim() || displayName.toLowerCase().includes(search.toLowerCase());
@@ -263,7 +120,7 @@ export default function StatementPage() {
       const matchesClient = clientFilter === "ALL" || row.client === clientFilter;
       return matchesSearch && matchesTrade && matchesClient;
     });
-  }, [statementRows, search, tradeFilter, clientFilter]);
+  }, [sourceRows, search, tradeFilter, clientFilter]);
 
   const totals = useMemo(() => {
     return filteredRows.reduce(
@@ -283,28 +140,37 @@ export default function StatementPage() {
   // Load approval record from Supabase
   const projectCode = typeof window !== "undefined" ? getSelectedProject() : "PCSB";
 
+  useEffect(() => {
+    getApprovalWorkflow(projectCode).then(setWorkflow);
+  }, [projectCode]);
+
+  // Approval row, snapshot and history always reload together after a transition
+  const refreshApproval = useCallback(async (key: string) => {
+    const [rec, snap, history] = await Promise.all([
+      getApproval(selectedMonth, key, projectCode),
+      getLatestStatementSnapshot(selectedMonth, key, projectCode),
+      getApprovalHistory(selectedMonth, key, projectCode),
+    ]);
+    setSnapshot(snap);
+    setApprovalHistory(history);
+    setApprovalRecord(rec);
+    setSubmissionStatus(((rec?.submission_status as "Draft" | "Submitted" | "Approved") || "Draft"));
+  }, [selectedMonth, projectCode]);
+
   useEffect(() => {
     if (!selectedMonth || !clientFilter) return;
-    const key = clientFilter === "ALL" ? "ALL" : clientFilter;
-    getApproval(selectedMonth, key, projectCode).then((rec) => {
-      if (rec) {
-        setApprovalRecord(rec);
-        setSubmissionStatus((rec.submission_status as "Draft" | "Submitted" | "Approved") || "Draft");
-      } else {
-        setApprovalRecord(null);
-        setSubmissionStatus("Draft");
-      }
-    });
-  }, [selectedMonth, clientFilter, projectCode]);
+    refreshApproval(clientFilter === "ALL" ? "ALL" : clientFilter);
+  }, [refreshApproval, selectedMonth, clientFilter]);
 
-  // Stage 1: Submit for Approval (L1/L2)
+  const currentStage = currentStageOf(approvalRecord, workflow);
+  const awaitingStage = submissionStatus === "Approved" ? null : pendingStage(workflow, currentStage);
+
+  // Stage 0: Submit for Approval (data lodger)
   const handleSubmitForApproval = async () => {
     if (submitting) return;
     setSubmitting(true);
     const key = clientFilter === "ALL" ? "ALL" : clientFilter;
-    const submitterName = user?.fullName || user?.username || "Unknown";
-
-    const result = await submitForApproval(selectedMonth, key, submitterName, projectCode);
+    const result = await submitForApproval(selectedMonth, key, projectCode);
 
     if (!result.success) {
       console.error("[Approval] submitForApproval FAILED:", result.error);
@@ -314,21 +180,18 @@ export default function StatementPage() {
     }
 
     // Only update UI after confirmed DB success
-    const rec = await getApproval(selectedMonth, key, projectCode);
-    if (rec) {
-      setApprovalRecord(rec);
-      setSubmissionStatus((rec.submission_status as "Draft" | "Submitted" | "Approved") || "Submitted");
-    }
+    await refreshApproval(key);
     setSubmitting(false);
   };
 
-  // Stage 2: Manager Approval (L5/L4/L1)
+  // Later stages: approve the pending stage (final stage certifies for payment)
   const handleApprove = async () => {
-    if (!approverName.trim() || submitting) return;
+    if (submitting) return;
     setSubmitting(true);
-    const key = clientFilter === "ALL" ? "ALL" : clientFilter;
+    const key = approvalKey;
 
-    const result = await approveStatement(selectedMonth, key, approverName.trim(), projectCode);
+    // The server records the signed-in user and, on the final stage, snapshots the statement it works out itself
+    const result = await approveStatement(selectedMonth, key, projectCode);
 
     if (!result.success) {
       console.error("[Approval] approveStatement FAILED:", result.error);
@@ -337,33 +200,29 @@ export default function StatementPage() {
       return;
     }
 
-    const rec = await getApproval(selectedMonth, key, projectCode);
-    if (rec) {
-      setApprovalRecord(rec);
-      setSubmissionStatus("Approved");
-    }
+    await refreshApproval(key);
     setApprovalModal(false);
-    setApproverName("");
     setSubmitting(false);
   };
 
-  // Reject / Unlock: reset to Draft (L1 only)
+  // Reject (pending stage) / Reset (approved, L1 only): back to Draft with a mandatory comment
   const handleReject = async () => {
-    if (submitting) return;
+    if (!rejectComment.trim() || submitting) return;
     setSubmitting(true);
     const key = clientFilter === "ALL" ? "ALL" : clientFilter;
 
-    const result = await rejectApproval(selectedMonth, key, projectCode);
+    const result = await rejectApproval(selectedMonth, key, projectCode, rejectComment.trim());
 
     if (!result.success) {
       console.error("[Approval] rejectApproval FAILED:", result.error);
-      alert("Reset Failed: " + result.error);
+      alert("Reject Failed: " + result.error);
       setSubmitting(false);
       return;
     }
 
-    setSubmissionStatus("Draft");
-    setApprovalRecord(null);
+    await refreshApproval(key);
+    setRejectModal(false);
+    setRejectComment("");
     setSubmitting(false);
   };
 
@@ -373,6 +232,28 @@ export default function StatementPage() {
       ? "-"
       : val.toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 
+  // Excel export of exactly what is on screen: the approved snapshot when frozen, the live roster otherwise
+  const handleExport = () => {
+    const period = `${MONTH_NAMES[selectedMonthNum - 1]} ${selectedYear}`;
+    downloadXlsx(`Statement_${project}_${selectedMonth}`, statementWorkbook(filteredRows, {
+      period,
+      status: useSnapshot ? `Approved (snapshot v${snapshot!.version})` : submissionStatus === "Submitted" ? "Pending Approval" : submissionStatus === "Approved" ? "Approved" : "Pending Submission",
+      filters: {
+        Project: project,
+        Client: clientFilter,
+        Grade: tradeFilter,
+        ...(search.trim() ? { Search: search.trim() } : {}),
+      },
+      displayName: (row) => getDisplayName(row.crew_id, row.crew_name),
+    }));
+  };
+
+  // Server-rendered PDF for the approval scope: the archived issued copy once approved, a draft otherwise
+  const handlePdf = () => {
+    const params = new URLSearchParams({ month: selectedMonth, client: approvalKey, project: projectCode });
+    window.open(`/api/statement-pdf?${params}`, "_blank");
+  };
+
   const hasActiveFilters = tradeFilter !== "ALL" || clientFilter !== "ALL" || search.trim() !== "";
   const resetFilters = () => {
     setTradeFilter("ALL");
@@ -502,11 +383,28 @@ export default function StatementPage() {
                   Reset
                 </button>
               )}
-              {/* Print icon pushed to far right */}
+              {/* Excel + print icons pushed to far right */}
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={filteredRows.length === 0}
+                className="self-end p-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white transition-all shadow-sm ml-auto disabled:opacity-40"
+                title="Export Statement to Excel"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" /></svg>
+              </button>
+              <button
+                type="button"
+                onClick={handlePdf}
+                className="self-end p-2 rounded-lg bg-red-600 hover:bg-red-700 text-white transition-all shadow-sm"
+                title={submissionStatus === "Approved" ? "Download issued statement PDF" : "Preview statement PDF (draft)"}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2zM9 13h6M9 17h4" /></svg>
+              </button>
               <button
                 type="button"
                 onClick={() => { document.title = `Statement_${new Date().toISOString().slice(0,10)}`; window.print(); }}
-                className="print-btn self-end p-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-all shadow-sm ml-auto"
+                className="print-btn self-end p-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-all shadow-sm"
                 title="Print Statement"
               >
                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
@@ -515,6 +413,77 @@ export default function StatementPage() {
           </div>
         </div>
 
+        {/* APPROVAL TIMELINE -- workflow progress plus every recorded transition */}
+        {(approvalHistory.length > 0 || currentStage > 0) && (
+          <div data-no-print className="rounded-xl border border-border bg-card px-4 py-2.5">
+            <div className="flex flex-wrap items-center gap-1.5 mb-2">
+              {workflow.map((stage, i) => {
+                const done = i < currentStage;
+                const active = i === currentStage && submissionStatus !== "Approved";
+                return (
+                  <Fragment key={stage.code}>
+                    {i > 0 && <span className={`h-px w-6 ${done || active ? "bg-blue-500" : "bg-border"}`} />}
+                    <span className={`px-2 py-0.5 rounded-full text-[9px] font-black uppercase tracking-wider border ${
+                      done ? "bg-emerald-500/15 border-emerald-500/30 text-emerald-600" : active ? "bg-blue-500/15 border-blue-500/30 text-blue-600" : "bg-muted border-border text-muted-foreground"
+                    }`}>
+                      {stage.label}
+                    </span>
+                  </Fragment>
+                );
+              })}
+            </div>
+            {approvalHistory.length > 0 && (
+              <ol className="relative border-l border-border ml-1.5 space-y-1.5">
+                {approvalHistory.map((h, i) => (
+                  <li key={h.id ?? i} className="ml-3 text-[10px]">
+                    <span className={`absolute -left-[4.5px] mt-1 w-2 h-2 rounded-full ${
+                      h.action === "REJECT" || h.action === "RESET" ? "bg-red-500" : h.action === "SUBMIT" ? "bg-orange-500" : "bg-emerald-500"
+                    }`} />
+                    <span className="font-black uppercase tracking-wider text-foreground">
+                      {h.action === "SUBMIT" ? "Submitted" : h.action === "APPROVE" ? `${h.stage_label} approved` : h.action === "RESET" ? "Approval reset" : `Rejected at ${h.stage_label}`}
+                    </span>
+                    <span className="ml-2 text-muted-foreground">
+                      {h.actor} ({h.actor_role}){h.created_at ? ` · ${new Date(h.created_at).toLocaleString("en-MY")}` : ""}
+                    </span>
+                    {h.comment && <div className="text-muted-foreground italic">&ldquo;{h.comment}&rdquo;</div>}
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        )}
+
+        {/* SNAPSHOT BANNER -- approved months render from the frozen snapshot */}
+        {useSnapshot && (
+          <div data-no-print className={`rounded-xl border px-4 py-2 text-[10px] ${snapshotDiffs.length > 0 ? "bg-amber-50 dark:bg-amber-950/30 border-amber-300 dark:border-amber-800" : "bg-emerald-50 dark:bg-emerald-950/30 border-emerald-200 dark:border-emerald-800"}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <span className="font-bold uppercase tracking-wider text-foreground">
+                Approved snapshot v{snapshot!.version} &middot; {snapshot!.crew_count} crew &middot; RM {fmtAmt(Number(snapshot!.grand_total))}
+                {snapshot!.created_at && <span className="ml-2 font-semibold normal-case text-muted-foreground">frozen {new Date(snapshot!.created_at).toLocaleString("en-MY")}</span>}
+              </span>
+              {snapshotDiffs.length > 0 ? (
+                <button type="button" onClick={() => setShowSnapshotDiff(!showSnapshotDiff)} className="font-black uppercase tracking-wider text-amber-700 dark:text-amber-300 hover:underline">
+                  {snapshotDiffs.length} crew differ from live roster ({fmtAmt(snapshotDiffs.reduce((s, d) => s + d.adjustment, 0))}) {showSnapshotDiff ? "▲" : "▼"}
+                </button>
+              ) : (
+                <span className="font-black uppercase tracking-wider text-emerald-700 dark:text-emerald-300">Matches live roster</span>
+              )}
+            </div>
+            {showSnapshotDiff && snapshotDiffs.length > 0 && (
+              <div className="mt-2 space-y-0.5">
+                {snapshotDiffs.map((d) => (
+                  <div key={`${d.crew_id}::${d.crew_name}`} className="flex flex-wrap gap-4 tabular-nums">
+                    <span className="font-bold uppercase w-56 truncate">{getDisplayName(d.crew_id, d.crew_name)}</span>
+                    <span>Snapshot {fmtAmt(d.frozenTotal)}</span>
+                    <span>Live {fmtAmt(d.recalculatedTotal)}</span>
+                    <span className={`font-black ${d.adjustment > 0 ? "text-emerald-600" : "text-red-600"}`}>{d.adjustment > 0 ? "+" : ""}{fmtAmt(d.adjustment)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* TABLE */}
         {loading ? (
           <div className="flex items-center justify-center h-48">
@@ -539,11 +508,8 @@ export default function StatementPage() {
                         {(() => {
                           const role = user?.role as UserRole | undefined;
                           const isL1 = role === "L1";
-                          const isL2 = role === "L2A" || role === "L2B";
-                          const isL5 = role === "L5A" || role === "L5B";
-                          const isL4 = role === "L4";
-                          const canSubmit = isL1 || isL2;
-                          const canApprove = isL1 || isL5 || isL4;
+                          const canSubmit = canActOnStage(workflow, 0, role);
+                          const canApprove = !!awaitingStage && currentStage > 0 && canActOnStage(workflow, currentStage, role);
 
                           return (
                             <div className="flex items-center gap-2 shrink-0">
@@ -557,14 +523,14 @@ export default function StatementPage() {
                                     <div className="flex flex-col leading-none gap-1">
                                       <span className="text-[11px] font-black text-white uppercase tracking-widest leading-none">Certified & Approved</span>
                                       <span className="text-[9px] font-black text-red-100 uppercase tracking-wider leading-none">For Payment</span>
-                                      <span className="text-[8px] font-bold text-red-200 whitespace-nowrap leading-none">{approvalRecord.approved_by} | Project Manager | {approvalRecord.approved_at}</span>
+                                      <span className="text-[8px] font-bold text-red-200 whitespace-nowrap leading-none">{approvalRecord.approved_by} | {approvalRecord.approved_role || "Project Manager"} | {approvalRecord.approved_at}</span>
                                     </div>
                                   </div>
                                   {/* L1 only: RESET APPROVAL */}
                                   {isL1 && (
                                     <button
                                       type="button"
-                                      onClick={handleReject}
+                                      onClick={() => setRejectModal(true)}
                                       disabled={submitting}
                                       className="flex items-center gap-1 px-2 py-1.5 bg-white/10 hover:bg-red-500/30 rounded-md border border-white/20 transition-all"
                                       title="Reset Approval back to Pending Submission"
@@ -582,12 +548,12 @@ export default function StatementPage() {
                                   <div className="flex items-center gap-1.5 px-2.5 py-2 bg-blue-500/15 rounded-lg border border-blue-400/30 shrink-0">
                                     <svg className="w-4 h-4 text-blue-300 shrink-0" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
                                     <div className="flex flex-col leading-none gap-0.5">
-                                      <span className="text-[9px] font-black text-blue-200 uppercase tracking-widest">Pending Approval</span>
+                                      <span className="text-[9px] font-black text-blue-200 uppercase tracking-widest">Pending {awaitingStage?.label || ""} Approval</span>
                                       <span className="text-[7px] font-bold text-blue-300/70 whitespace-nowrap">Submission by {approvalRecord?.submitted_by} | {approvalRecord?.submitted_at}</span>
                                     </div>
                                   </div>
 
-                                  {/* For Approvers (L5/L4/L1): Approved? [Y] [N] */}
+                                  {/* For roles assigned to the pending stage: Approved? [Y] [N] */}
                                   {canApprove ? (
                                     <div className="flex items-center gap-1.5 shrink-0">
                                       <span className="text-[9px] font-black text-white uppercase tracking-wider">Approved?</span>
@@ -603,7 +569,7 @@ export default function StatementPage() {
                                       </button>
                                       <button
                                         type="button"
-                                        onClick={handleReject}
+                                        onClick={() => setRejectModal(true)}
                                         disabled={submitting}
                                         className="flex items-center gap-1 px-2.5 py-1.5 bg-red-600 hover:bg-red-500 rounded-md border border-red-400 transition-all shadow-md"
                                         title="Reject - send back to Pending Submission"
@@ -613,7 +579,7 @@ export default function StatementPage() {
                                       </button>
                                     </div>
                                   ) : (
-                                    /* For Submitters (L2): show disabled "Pending Approval" */
+                                    /* Everyone else: show disabled "Pending Approval" */
                                     <div className="flex items-center gap-1.5 px-3 py-2 bg-slate-600/40 rounded-lg border border-slate-500/30 shrink-0 opacity-70">
                                       <svg className="w-4 h-4 text-slate-300 shrink-0 animate-spin" fill="none" stroke="currentColor" strokeWidth={2} viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
                                       <span className="text-[9px] font-bold text-slate-300 uppercase tracking-wider">Pending Approval</span>
@@ -696,7 +662,12 @@ export default function StatementPage() {
                             <div className="flex items-center gap-2">
                               <span className="text-[10px] text-muted-foreground font-bold tabular-nums w-4">{idx + 1}</span>
                               <div>
-                                <div className="text-[11px] font-bold text-foreground uppercase leading-tight whitespace-nowrap">{getDisplayName(row.crew_id, row.crew_name)}</div>
+                                <div className="text-[11px] font-bold text-foreground uppercase leading-tight whitespace-nowrap">
+                                  {getDisplayName(row.crew_id, row.crew_name)}
+                                  {snapshotDiffByKey.has(`${row.crew_id}::${row.crew_name}`) && (
+                                    <span className="ml-1.5 px-1 py-px rounded bg-amber-100 text-amber-700 text-[7px] font-black align-middle" title="Live roster differs from the approved snapshot">CHANGED</span>
+                                  )}
+                                </div>
                                 <div className="text-[9px] text-muted-foreground">
                                   {row.client} / {shortenPost(row.post)} / {row.displayLocation}
                                 </div>
@@ -752,10 +723,10 @@ export default function StatementPage() {
                                     <span className="font-bold text-foreground w-14">Cycle {c.cycleNum}</span>
                                     <span className="text-muted-foreground">{formatDate(c.sign_on)} - {formatDate(c.sign_off)}</span>
                                     <span className="text-muted-foreground">{c.days}d</span>
-                                    {c.is_offshore && <span className="text-emerald-600 font-semibold">Offshore</span>}
+                                    {c.is_offshore && <span className="text-emerald-600 font-semibold">Offshore{c.offshore_rate > 0 ? ` @ ${fmtAmt(c.offshore_rate)}` : ""}</span>}
                                     {c.day_relief > 0 && <span className="text-blue-600 font-semibold">Relief: {c.day_relief}d x {fmtAmt(c.relief_rate)}</span>}
                                     {c.day_standby > 0 && <span className="text-violet-600 font-semibold">Standby: {c.day_standby}d x {fmtAmt(c.standby_rate)}</span>}
-                                    {c.medevac_dates.length > 0 && <span className="text-amber-600 font-semibold">Medevac: {c.medevac_dates.map(d => formatDate(d)).join(", ")}</span>}
+                                    {c.medevac_dates.length > 0 && <span className="text-amber-600 font-semibold">Medevac: {c.medevac_dates.map(d => formatDate(d)).join(", ")} ({fmtAmt(c.medevac_total)})</span>}
                                     {c.notes && <span className="text-muted-foreground italic">{c.notes}</span>}
                                   </div>
                                 ))}
@@ -791,33 +762,58 @@ export default function StatementPage() {
         )}
       </div>
 
-      {/* PM Approval Modal (Stage 2) */}
+      {/* Reject / Reset Modal -- comment is mandatory and kept in the approval history */}
+      {rejectModal && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-card rounded-2xl w-full max-w-sm shadow-2xl border border-border">
+            <div className="px-5 py-3 border-b border-border bg-slate-800 rounded-t-2xl">
+              <h3 className="text-xs font-black uppercase tracking-wider text-white">{submissionStatus === "Approved" ? "Reset Approval" : "Reject Statement"}</h3>
+              <p className="text-[9px] font-bold text-slate-300">The statement returns to Pending Submission</p>
+            </div>
+            <div className="px-5 py-4">
+              <label className="text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1.5 block">Comment (required)</label>
+              <textarea
+                value={rejectComment}
+                onChange={(e) => setRejectComment(e.target.value)}
+                placeholder="What needs to be corrected?"
+                rows={3}
+                autoFocus
+                className="w-full bg-muted border border-border rounded-lg px-3 py-2.5 text-sm font-medium outline-none focus:ring-2 focus:ring-slate-400 resize-none"
+              />
+            </div>
+            <div className="flex justify-end gap-2 px-5 py-3 border-t border-border bg-muted/30 rounded-b-2xl">
+              <button type="button" onClick={() => { setRejectModal(false); setRejectComment(""); }} className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-foreground font-bold text-[10px] uppercase tracking-wider transition-all border border-border">Cancel</button>
+              <button type="button" onClick={handleReject} disabled={!rejectComment.trim() || submitting} className={`flex items-center gap-2 px-5 py-2 rounded-lg font-black text-[10px] uppercase tracking-wider transition-all ${rejectComment.trim() && !submitting ? "bg-slate-800 hover:bg-slate-700 text-white shadow-lg" : "bg-muted text-muted-foreground cursor-not-allowed"}`}>
+                {submitting && <div className="animate-spin rounded-full h-3 w-3 border-2 border-white border-t-transparent" />}
+                {submissionStatus === "Approved" ? "Reset" : "Reject"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Approval Modal (any stage after submission) */}
       {approvalModal && (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
           <div className="bg-card rounded-2xl w-full max-w-sm shadow-2xl border border-border">
             <div className="px-5 py-3 border-b border-border bg-red-600 rounded-t-2xl">
-              <h3 className="text-xs font-black uppercase tracking-wider text-white">Project Manager Approval</h3>
-              <p className="text-[9px] font-bold text-red-100">Enter your name to certify this statement for payment</p>
+              <h3 className="text-xs font-black uppercase tracking-wider text-white">{awaitingStage?.label || "Project Manager"} Approval</h3>
+              <p className="text-[9px] font-bold text-red-100">
+                {currentStage === workflow.length - 1 ? "Certify this statement for payment" : `Pass this statement to ${workflow[currentStage + 1]?.label || "the next stage"}`}
+              </p>
             </div>
             <div className="px-5 py-4 space-y-3">
               <div className="bg-amber-50 dark:bg-amber-950/30 border border-amber-200 dark:border-amber-800 rounded-lg px-3 py-2">
                 <p className="text-[9px] font-bold text-amber-700 dark:text-amber-300 uppercase tracking-wider">Statement submitted by {approvalRecord?.submitted_by} on {approvalRecord?.submitted_at}</p>
               </div>
               <div>
-                <label className="text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1.5 block">PM Full Name</label>
-                <input
-                  type="text"
-                  value={approverName}
-                  onChange={(e) => setApproverName(e.target.value)}
-                  placeholder="Enter your full name..."
-                  autoFocus
-                  className="w-full bg-muted border border-border rounded-lg px-3 py-2.5 text-sm font-bold outline-none focus:ring-2 focus:ring-red-400"
-                />
+                <label className="text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1.5 block">Approving As</label>
+                <p className="w-full bg-muted border border-border rounded-lg px-3 py-2.5 text-sm font-bold">{user?.fullName || user?.username || "Unknown"}</p>
               </div>
             </div>
             <div className="flex justify-end gap-2 px-5 py-3 border-t border-border bg-muted/30 rounded-b-2xl">
-              <button type="button" onClick={() => { setApprovalModal(false); setApproverName(""); }} className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-foreground font-bold text-[10px] uppercase tracking-wider transition-all border border-border">Cancel</button>
-  <button type="button" onClick={handleApprove} disabled={!approverName.trim() || submitting} className={`flex items-center gap-2 px-5 py-2 rounded-lg font-black text-[10px] uppercase tracking-wider transition-all ${approverName.trim() && !submitting ? "bg-red-600 hover:bg-red-500 text-white shadow-lg" : "bg-muted text-muted-foreground cursor-not-allowed"}`}>
+              <button type="button" onClick={() => setApprovalModal(false)} className="px-4 py-2 rounded-lg bg-muted hover:bg-muted/80 text-foreground font-bold text-[10px] uppercase tracking-wider transition-all border border-border">Cancel</button>
+  <button type="button" onClick={handleApprove} disabled={submitting} className={`flex items-center gap-2 px-5 py-2 rounded-lg font-black text-[10px] uppercase tracking-wider transition-all ${!submitting ? "bg-red-600 hover:bg-red-500 text-white shadow-lg" : "bg-muted text-muted-foreground cursor-not-allowed"}`}>
   {submitting && <div className="animate-spin rounded-full h-3 w-3 border-2 border-white border-t-transparent" />}
   {submitting ? "Approving..." : "Certify & Approve"}
   </button>
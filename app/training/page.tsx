@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useMemo, useCallback, Fragment } from "react";
 import { AppShell } from "@/components/app-shell";
-import { getMatrixData, updateMatrixCell, createMatrixRecord } from "@/lib/actions";
+import { getMatrixData, updateMatrixCell, createMatrixRecord, getCourseCatalogue } from "@/lib/actions";
 import { getUser } from "@/lib/auth";
 import type { MatrixRecord } from "@/lib/types";
 import type { AuthUser } from "@/lib/auth";
@@ -10,31 +10,15 @@ import { X } from "lucide-react";
 import { PieChart, Pie, Cell } from "recharts";
 import { useProject } from "@/hooks/use-project";
 import { SyncingPlaceholder } from "@/components/syncing-placeholder";
+import type { CourseConfig } from "@/lib/courses";
+import { getStatusTier } from "@/lib/cert-expiry";
+import { TrainingSessions } from "@/components/training-sessions";
+import { ExpiryRecompute } from "@/components/expiry-recompute";
+import { CourseCatalogue } from "@/components/course-catalogue";
+import { ComplianceTrend } from "@/components/compliance-trend";
+import { downloadXlsx } from "@/lib/spreadsheet";
+import { trainingWorkbook } from "@/lib/xlsx-export";
 
-// ─── Course Configuration ───
-interface CourseConfig {
-  name: string;
-  colType: "apc" | "standard" | "single";
-  colCount: number;
-  headerBg: string;
-}
-
-const COURSE_CONFIG: CourseConfig[] = [
-  { name: "APC",    colType: "apc",      colCount: 3, headerBg: "#4f46e5" }, // indigo
-  { name: "BLS",    colType: "standard",  colCount: 3, headerBg: "#0284c7" }, // sky
-  { name: "ACLS",   colType: "standard",  colCount: 3, headerBg: "#7c3aed" }, // violet
-  { name: "ATLS",   colType: "standard",  colCount: 3, headerBg: "#db2777" }, // pink
-  { name: "AMRO",   colType: "standard",  colCount: 3, headerBg: "#d97706" }, // amber
-  { name: "BOSIET", colType: "standard",  colCount: 3, headerBg: "#0d9488" }, // teal
-  { name: "HACCP",  colType: "standard",  colCount: 3, headerBg: "#0891b2" }, // cyan
-  { name: "H2S",    colType: "standard",  colCount: 3, headerBg: "#ea580c" }, // orange
-  { name: "MCM",    colType: "standard",  colCount: 3, headerBg: "#65a30d" }, // lime
-  { name: "MED",    colType: "single",    colCount: 1, headerBg: "#dc2626" }, // red
-  { name: "OSP",    colType: "single",    colCount: 1, headerBg: "#059669" }, // emerald
-  { name: "CCC",    colType: "single",    colCount: 1, headerBg: "#9333ea" }, // purple
-];
-
-const ALL_COURSE_NAMES = COURSE_CONFIG.map((c) => c.name);
 const FIXED_COLS = 2; // #, Name (Trade/Client shown in separator)
 
 // Pie chart colors
@@ -44,17 +28,6 @@ const PIE_ORANGE = "#f97316";
 const PIE_RED = "#dc2626";
 
 // ─── Status helpers (4-tier: green >6m, yellow 3-6m, orange <3m, red expired) ───
-function getStatusTier(expiryStr: string | null, today: Date): "green" | "yellow" | "orange" | "red" | "no-data" {
-  if (!expiryStr) return "no-data";
-  const expiry = new Date(expiryStr);
-  if (isNaN(expiry.getTime())) return "no-data";
-  const diff = (expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
-  if (diff < 0) return "red";        // expired (past due)
-  if (diff < 90) return "orange";    // <3 months (critical)
-  if (diff < 180) return "yellow";   // 3-6 months (warning)
-  return "green";                     // >6 months (safe)
-}
-
 // For cell styling: 4-tier matching the pie chart
 function getCellStatus(expiryStr: string | null, today: Date): "valid" | "warning" | "critical" | "expired" | "no-data" {
   if (!expiryStr) return "no-data";
@@ -117,6 +90,7 @@ interface CertEntry {
   attended_date: string | null;
   expiry_date: string | null;
   plan_date: string | null;
+  expiry_override: boolean;
 }
 
 interface PersonMatrix {
@@ -278,6 +252,7 @@ function EditableCell({
   inputType = "date",
   canEdit,
   className,
+  override = false,
   onSaved,
 }: {
   value: string | null;
@@ -289,6 +264,7 @@ function EditableCell({
   inputType?: "date" | "text";
   canEdit: boolean;
   className: string;
+  override?: boolean; // expiry typed by hand, differs from the course rule
   onSaved: () => void;
 }) {
   const [editing, setEditing] = useState(false);
@@ -336,9 +312,10 @@ function EditableCell({
         canEdit ? "cursor-pointer hover:ring-2 hover:ring-blue-400 hover:ring-inset" : ""
       } ${saving ? "opacity-50" : ""}`}
       onDoubleClick={() => canEdit && setEditing(true)}
-      title=""
+      title={override ? "Expiry set by hand (differs from the course validity rule)" : ""}
     >
       {saving ? "..." : displayValue}
+      {override && !saving && <sup className="ml-0.5 font-black">*</sup>}
     </td>
   );
 }
@@ -349,6 +326,7 @@ function EditableCell({
 export default function TrainingMatrixPage() {
   const project = useProject();
   const [rawData, setRawData] = useState<MatrixRecord[]>([]);
+  const [courses, setCourses] = useState<CourseConfig[]>([]);
   const [loading, setLoading] = useState(true);
   const [clientFilter, setClientFilter] = useState("ALL");
   const [tradeFilter, setTradeFilter] = useState("ALL");
@@ -359,6 +337,10 @@ export default function TrainingMatrixPage() {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [pieFilter, setPieFilter] = useState<{ course: string; tier: StatusTier } | null>(null);
   const [kpiCourse, setKpiCourse] = useState<string | null>(null); // null = all courses
+  const [showSessions, setShowSessions] = useState(false);
+  const [showRecompute, setShowRecompute] = useState(false);
+  const [showCatalogue, setShowCatalogue] = useState(false);
+  const [showTrend, setShowTrend] = useState(false);
   const today = useMemo(() => new Date(), []);
 
   const canEdit = user?.role === "L1" || user?.role === "L2A" || user?.role === "L2B";
@@ -370,11 +352,14 @@ export default function TrainingMatrixPage() {
       setLoading(false);
       return;
     }
-    const result = await getMatrixData();
+    const [result, catalogue] = await Promise.all([getMatrixData(), getCourseCatalogue(project)]);
     if (result.success && result.data) setRawData(result.data);
+    setCourses(catalogue);
     setLoading(false);
   }, [project]);
 
+  const courseNames = useMemo(() => courses.map((c) => c.name), [courses]);
+
   useEffect(() => {
     setUser(getUser());
     loadData();
@@ -406,6 +391,7 @@ export default function TrainingMatrixPage() {
           attended_date: row.attended_date,
           expiry_date: row.expiry_date,
           plan_date: row.plan_date || null,
+          expiry_override: !!row.expiry_override,
         };
       }
     }
@@ -424,9 +410,9 @@ export default function TrainingMatrixPage() {
 
   // Visible courses based on courseFilter
   const visibleCourses = useMemo(() => {
-    if (courseFilter === "ALL") return COURSE_CONFIG;
-    return COURSE_CONFIG.filter((c) => c.name === courseFilter);
-  }, [courseFilter]);
+    if (courseFilter === "ALL") return courses;
+    return courses.filter((c) => c.name === courseFilter);
+  }, [courses, courseFilter]);
 
   // Filter
   const filtered = useMemo(() => {
@@ -438,7 +424,7 @@ export default function TrainingMatrixPage() {
       if (statusFilter !== "ALL") {
         const tierMap: Record<string, string> = { safe: "green", warning: "yellow", critical: "orange", expired: "red" };
         const targetTier = tierMap[statusFilter];
-        const hasMatch = ALL_COURSE_NAMES.some((cn) => {
+        const hasMatch = courseNames.some((cn) => {
           const tier = getStatusTier(p.certs[cn]?.expiry_date || null, today);
           return tier === targetTier;
         });
@@ -451,7 +437,7 @@ export default function TrainingMatrixPage() {
       }
       return true;
     });
-  }, [personnel, clientFilter, tradeFilter, locationFilter, search, statusFilter, pieFilter, today]);
+  }, [personnel, courseNames, clientFilter, tradeFilter, locationFilter, search, statusFilter, pieFilter, today]);
 
   // Per-course stats for PIE CHARTS - based on personnel (excludes resigned, but NOT affected by pieFilter)
   const courseStatsBase = useMemo(() => {
@@ -464,7 +450,7 @@ export default function TrainingMatrixPage() {
       return true;
     });
     const stats: Record<string, { green: number; yellow: number; orange: number; red: number; planCount: number }> = {};
-    for (const cc of COURSE_CONFIG) {
+    for (const cc of courses) {
       const st = { green: 0, yellow: 0, orange: 0, red: 0, planCount: 0 };
       for (const p of base) {
         const tier = getStatusTier(p.certs[cc.name]?.expiry_date || null, today);
@@ -477,11 +463,11 @@ export default function TrainingMatrixPage() {
       stats[cc.name] = st;
     }
     return stats;
-  }, [personnel, clientFilter, tradeFilter, locationFilter, search, today]);
+  }, [personnel, courses, clientFilter, tradeFilter, locationFilter, search, today]);
 
   // KPI - dynamic: shows stats for kpiCourse if set, otherwise ALL courses
   const kpiStats = useMemo(() => {
-    const courses = kpiCourse ? COURSE_CONFIG.filter((c) => c.name === kpiCourse) : COURSE_CONFIG;
+    const kpiCourses = kpiCourse ? courses.filter((c) => c.name === kpiCourse) : courses;
     // Use personnel filtered by top-bar only (not pieFilter) for KPI
     const base = personnel.filter((p) => {
       if (clientFilter !== "ALL" && p.client !== clientFilter) return false;
@@ -492,7 +478,7 @@ export default function TrainingMatrixPage() {
     });
     let safe = 0, warning = 0, critical = 0, expired = 0, plan = 0;
     for (const p of base) {
-      for (const cc of courses) {
+      for (const cc of kpiCourses) {
         const tier = getStatusTier(p.certs[cc.name]?.expiry_date || null, today);
         if (tier === "green") safe++;
         else if (tier === "yellow") warning++;
@@ -502,7 +488,24 @@ export default function TrainingMatrixPage() {
       }
     }
     return { safe, warning, critical, expired, plan };
-  }, [personnel, kpiCourse, clientFilter, tradeFilter, locationFilter, search, today]);
+  }, [personnel, courses, kpiCourse, clientFilter, tradeFilter, locationFilter, search, today]);
+
+  // Excel export of the rows and course columns currently shown
+  const handleExport = () => {
+    downloadXlsx(`Training_Matrix_${project}_${new Date().toISOString().slice(0, 10)}`, trainingWorkbook(filtered, visibleCourses, {
+      today,
+      filters: {
+        Project: project,
+        Client: clientFilter,
+        Trade: tradeFilter,
+        Location: locationFilter,
+        Course: courseFilter,
+        Status: statusFilter,
+        ...(pieFilter ? { Chart: `${pieFilter.course} / ${pieFilter.tier}` } : {}),
+        ...(search ? { Search: search } : {}),
+      },
+    }));
+  };
 
   const totalSubCols = visibleCourses.reduce((acc, c) => acc + c.colCount, 0);
   const totalCols = FIXED_COLS + totalSubCols;
@@ -536,14 +539,59 @@ export default function TrainingMatrixPage() {
             <div>
               <h2 className="text-lg font-black text-foreground uppercase tracking-tight">Training Matrix</h2>
             </div>
-            <button
-              type="button"
-              onClick={() => { document.title = `Training_Matrix_${new Date().toISOString().slice(0,10)}`; window.print(); }}
-              className="print-btn p-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-all shadow-sm"
-              title="Print Training Matrix"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                type="button"
+                onClick={() => setShowTrend(true)}
+                className="px-3 py-2 rounded-lg bg-slate-900 hover:bg-slate-700 text-white text-[10px] font-black uppercase tracking-wider transition-all shadow-sm"
+              >
+                Trend
+              </button>
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => setShowCatalogue(true)}
+                  className="px-3 py-2 rounded-lg bg-slate-900 hover:bg-slate-700 text-white text-[10px] font-black uppercase tracking-wider transition-all shadow-sm"
+                >
+                  Courses
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => setShowRecompute(true)}
+                  className="px-3 py-2 rounded-lg bg-slate-900 hover:bg-slate-700 text-white text-[10px] font-black uppercase tracking-wider transition-all shadow-sm"
+                >
+                  Recompute Expiries
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => setShowSessions(true)}
+                  className="px-3 py-2 rounded-lg bg-slate-900 hover:bg-slate-700 text-white text-[10px] font-black uppercase tracking-wider transition-all shadow-sm"
+                >
+                  Sessions
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={handleExport}
+                disabled={loading || filtered.length === 0}
+                className="p-2 rounded-lg bg-emerald-600 hover:bg-emerald-700 text-white transition-all shadow-sm disabled:opacity-40"
+                title="Export Training Matrix to Excel"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M7 10l5 5 5-5M12 15V3" /></svg>
+              </button>
+              <button
+                type="button"
+                onClick={() => { document.title = `Training_Matrix_${new Date().toISOString().slice(0,10)}`; window.print(); }}
+                className="print-btn p-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-all shadow-sm"
+                title="Print Training Matrix"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z" /></svg>
+              </button>
+            </div>
           </div>
 
           {/* Filter Bar */}
@@ -580,7 +628,7 @@ export default function TrainingMatrixPage() {
               <label className="text-[9px] font-bold text-slate-300 uppercase tracking-wider">Course</label>
               <select value={courseFilter} onChange={(e) => setCourseFilter(e.target.value)} className="bg-slate-200 border border-slate-400 text-slate-900 rounded-lg px-2.5 py-1.5 text-xs font-bold outline-none cursor-pointer">
                 <option value="ALL">All Courses</option>
-                {ALL_COURSE_NAMES.map((c) => <option key={c} value={c}>{c}</option>)}
+                {courseNames.map((c) => <option key={c} value={c}>{c}</option>)}
               </select>
             </div>
             {/* Status */}
@@ -799,6 +847,7 @@ export default function TrainingMatrixPage() {
                                   field="expiry_date"
                                   canEdit={!!canEdit}
                                   className={`${expStyle.bg} ${expStyle.text}`}
+                                  override={!!cert?.expiry_override}
                                   onSaved={loadData}
                                 />
                                 <EditableCell
@@ -839,6 +888,7 @@ export default function TrainingMatrixPage() {
                                   field="expiry_date"
                                   canEdit={!!canEdit}
                                   className={`${expStyle.bg} ${expStyle.text}`}
+                                  override={!!cert?.expiry_override}
                                   onSaved={loadData}
                                 />
                                 <EditableCell
@@ -868,6 +918,7 @@ export default function TrainingMatrixPage() {
                               field="expiry_date"
                               canEdit={!!canEdit}
                               className={`${expStyle.bg} ${expStyle.text}`}
+                              override={!!cert?.expiry_override}
                               onSaved={loadData}
                             />
                           );
@@ -890,6 +941,28 @@ export default function TrainingMatrixPage() {
           )}
         </div>
       </div>
+      {showSessions && (
+        <TrainingSessions
+          crew={[...personnel].sort((a, b) => a.crew_name.localeCompare(b.crew_name))}
+          courseNames={courseNames}
+          onClose={() => setShowSessions(false)}
+          onChanged={loadData}
+        />
+      )}
+      {showRecompute && (
+        <ExpiryRecompute
+          crewNames={new Map(personnel.map((p) => [p.crew_id, p.crew_name]))}
+          courses={courses}
+          onClose={() => setShowRecompute(false)}
+          onApplied={loadData}
+        />
+      )}
+      {showCatalogue && (
+        <CourseCatalogue project={project} onClose={() => setShowCatalogue(false)} onChanged={loadData} />
+      )}
+      {showTrend && (
+        <ComplianceTrend courseNames={courseNames} canSnapshot={!!canEdit} onClose={() => setShowTrend(false)} />
+      )}
     </AppShell>
   );
 }
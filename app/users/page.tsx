@@ -6,12 +6,13 @@ import {
   getUser,
   ROLE_LABELS,
   getPermissionMatrix,
-  savePermissionMatrix,
+  setPermissionMatrix,
   getPermission,
   type AuthUser,
   type UserRole,
   type StoredUser,
   type PermissionLevel,
+  type PagePermission,
 } from "@/lib/auth";
 import {
   getLoginLogs,
@@ -21,8 +22,14 @@ import {
   deleteCmsUser,
   getAccessMatrixAsAppFormat,
   saveAccessMatrixBulk,
+  getApprovalWorkflow,
+  saveApprovalWorkflow,
+  getAccessMatrixAudit,
   type LoginLogEntry,
+  type AccessMatrixAuditEntry,
 } from "@/lib/actions";
+import type { ApprovalStage } from "@/lib/approval-workflow";
+import { ROUTE_TO_PAGE_CODE, PAGE_CODE_TO_ROUTE } from "@/lib/authz";
 import { useRouter } from "next/navigation";
 
 const ALL_ROLES: UserRole[] = ["L1", "L2A", "L2B", "L4", "L5A", "L5B", "L6", "L7"];
@@ -36,6 +43,8 @@ const PAGE_LABELS: Record<string, string> = {
   "/financial": "Financial",
   "/admin": "Data Mgr",
   "/users": "User Mgmt",
+  "/rates": "Rate Card",
+  "/payroll": "Payroll",
 };
 
 const PAGES = Object.keys(PAGE_LABELS);
@@ -67,6 +76,12 @@ export default function UsersPage() {
   const [matrixDirty, setMatrixDirty] = useState(false);
   const [matrixLoading, setMatrixLoading] = useState(true);
   const [matrixSaving, setMatrixSaving] = useState(false);
+  const [auditLog, setAuditLog] = useState<AccessMatrixAuditEntry[]>([]);
+  const [auditPage, setAuditPage] = useState("");
+  const [auditRole, setAuditRole] = useState("");
+  const [workflow, setWorkflow] = useState<ApprovalStage[]>([]);
+  const [workflowDirty, setWorkflowDirty] = useState(false);
+  const [workflowSaving, setWorkflowSaving] = useState(false);
   const [loginLogs, setLoginLogs] = useState<LoginLogEntry[]>([]);
   const [logsLoading, setLogsLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
@@ -107,8 +122,7 @@ export default function UsersPage() {
     getAccessMatrixAsAppFormat().then(dbMatrix => {
       if (Object.keys(dbMatrix).length > 0) {
         setMatrix(dbMatrix);
-        // Also sync to local for canAccessPage / getPermission to use
-        savePermissionMatrix(dbMatrix as Record<string, import("@/lib/auth").PagePermission>);
+        setPermissionMatrix(dbMatrix as Record<string, PagePermission>);
       }
       setMatrixLoading(false);
     }).catch(() => {
@@ -266,9 +280,10 @@ export default function UsersPage() {
     setMatrixSaving(true);
     const result = await saveAccessMatrixBulk(matrix);
     if (result.success) {
-      // Also sync to localStorage for runtime permission checks
-      savePermissionMatrix(matrix as Record<string, import("@/lib/auth").PagePermission>);
+      // Keep this tab's runtime permission checks in step with the database
+      setPermissionMatrix(matrix as Record<string, PagePermission>);
       setMatrixDirty(false);
+      refreshAudit();
       showNotif("Access matrix saved to database successfully.", "success");
     } else {
       showNotif("Failed to save matrix: " + (result.error || "Unknown error"), "error");
@@ -276,6 +291,14 @@ export default function UsersPage() {
     setMatrixSaving(false);
   };
 
+  const refreshAudit = useCallback(() => {
+    getAccessMatrixAudit({ pageCode: auditPage || undefined, role: auditRole || undefined }).then(setAuditLog);
+  }, [auditPage, auditRole]);
+
+  useEffect(() => {
+    refreshAudit();
+  }, [refreshAudit]);
+
   const handleResetMatrix = async () => {
     setMatrixLoading(true);
     const dbMatrix = await getAccessMatrixAsAppFormat();
@@ -288,6 +311,46 @@ export default function UsersPage() {
     setMatrixLoading(false);
   };
 
+  // Approval workflow follows the project selected on the access matrix
+  useEffect(() => {
+    getApprovalWorkflow(matrixProject).then((stages) => {
+      setWorkflow(stages);
+      setWorkflowDirty(false);
+    });
+  }, [matrixProject]);
+
+  const updateStage = (idx: number, patch: Partial<ApprovalStage>) => {
+    setWorkflow((prev) => prev.map((s, i) => (i === idx ? { ...s, ...patch } : s)));
+    setWorkflowDirty(true);
+  };
+
+  const toggleStageRole = (idx: number, role: UserRole) => {
+    const roles = workflow[idx].roles;
+    updateStage(idx, { roles: roles.includes(role) ? roles.filter((r) => r !== role) : [...roles, role] });
+  };
+
+  const addStage = () => {
+    setWorkflow((prev) => [...prev, { code: `STAGE_${Date.now().toString(36).toUpperCase()}`, label: "", roles: ["L1"] }]);
+    setWorkflowDirty(true);
+  };
+
+  const removeStage = (idx: number) => {
+    setWorkflow((prev) => prev.filter((_, i) => i !== idx));
+    setWorkflowDirty(true);
+  };
+
+  const handleSaveWorkflow = async () => {
+    setWorkflowSaving(true);
+    const result = await saveApprovalWorkflow(matrixProject, workflow);
+    if (result.success) {
+      setWorkflowDirty(false);
+      showNotif(`${matrixProject} approval workflow saved.`, "success");
+    } else {
+      showNotif("Failed to save workflow: " + (result.error || "Unknown error"), "error");
+    }
+    setWorkflowSaving(false);
+  };
+
   const getRoleBadge = (role: UserRole) => {
     const colors: Record<UserRole, string> = {
       L1: "bg-amber-500/15 text-amber-400 border-amber-500/40",
@@ -790,6 +853,163 @@ export default function UsersPage() {
           </div>
         </div>
 
+        {/* Access Matrix Change Log (cms_access_matrix_audit) */}
+        <div className="bg-card rounded-xl border border-border shadow-xl overflow-hidden">
+          <div className="px-5 py-3 bg-slate-900 border-b border-slate-800 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <h2 className="text-xs font-black text-white uppercase tracking-widest">
+                Access Matrix Change Log
+              </h2>
+              <span className="text-[8px] font-bold text-slate-500 bg-slate-800 px-2 py-0.5 rounded">
+                Source: Supabase / cms_access_matrix_audit
+              </span>
+            </div>
+            <div className="flex items-center gap-1.5">
+              <select
+                value={auditPage}
+                onChange={(e) => setAuditPage(e.target.value)}
+                className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-[10px] font-bold"
+              >
+                <option value="">All pages</option>
+                {PAGES.map((page) => (
+                  <option key={page} value={ROUTE_TO_PAGE_CODE[page]}>{PAGE_LABELS[page]}</option>
+                ))}
+              </select>
+              <select
+                value={auditRole}
+                onChange={(e) => setAuditRole(e.target.value)}
+                className="px-2 py-1 rounded-md bg-slate-800 border border-slate-700 text-white text-[10px] font-bold"
+              >
+                <option value="">All roles</option>
+                {ALL_ROLES.map((role) => (
+                  <option key={role} value={role}>{role}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {auditLog.length === 0 ? (
+            <div className="px-6 py-6 text-center">
+              <p className="text-xs text-muted-foreground font-medium">No permission changes recorded.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto max-h-[300px]">
+              <table className="w-full">
+                <thead className="sticky top-0 z-10">
+                  <tr className="bg-slate-50 dark:bg-slate-900/50 border-b-2 border-border">
+                    <th className="px-3 py-1.5 text-left text-[10px] font-black uppercase tracking-widest text-muted-foreground">Time</th>
+                    <th className="px-3 py-1.5 text-left text-[10px] font-black uppercase tracking-widest text-muted-foreground">Page</th>
+                    <th className="px-3 py-1.5 text-left text-[10px] font-black uppercase tracking-widest text-muted-foreground">Project</th>
+                    <th className="px-3 py-1.5 text-left text-[10px] font-black uppercase tracking-widest text-muted-foreground">Role</th>
+                    <th className="px-3 py-1.5 text-center text-[10px] font-black uppercase tracking-widest text-muted-foreground">Change</th>
+                    <th className="px-3 py-1.5 text-left text-[10px] font-black uppercase tracking-widest text-muted-foreground">By</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {auditLog.map((entry, idx) => (
+                    <tr key={entry.id ?? idx} className="hover:bg-blue-50/50 dark:hover:bg-blue-500/5 transition-colors">
+                      <td className="px-3 py-1 text-[10px] font-mono text-muted-foreground whitespace-nowrap">
+                        {entry.changed_at ? new Date(entry.changed_at).toLocaleString("en-MY", { day: "2-digit", month: "2-digit", year: "2-digit", hour: "2-digit", minute: "2-digit" }) : "-"}
+                      </td>
+                      <td className="px-3 py-1 text-[10px] font-bold text-foreground">
+                        {PAGE_LABELS[PAGE_CODE_TO_ROUTE[entry.page_code]] || entry.page_code}
+                      </td>
+                      <td className="px-3 py-1 text-[10px] font-bold text-muted-foreground">{entry.project_scope}</td>
+                      <td className="px-3 py-1">
+                        <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-wider border ${getRoleBadge(entry.role as UserRole)}`}>
+                          {entry.role}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1 text-center whitespace-nowrap">
+                        <span className={`inline-block px-1.5 py-0.5 rounded text-[9px] font-black ${getPermBadge(entry.old_value as PermissionLevel)}`}>{entry.old_value}</span>
+                        <span className="mx-1 text-[10px] text-muted-foreground">&rarr;</span>
+                        <span className={`inline-block px-1.5 py-0.5 rounded text-[9px] font-black ${getPermBadge(entry.new_value as PermissionLevel)}`}>{entry.new_value}</span>
+                      </td>
+                      <td className="px-3 py-1 text-[10px] font-semibold text-muted-foreground">{entry.changed_by}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Statement Approval Workflow (cms_settings approval_workflow_<PROJECT>) */}
+        <div className="bg-card rounded-xl border border-border shadow-xl overflow-hidden">
+          <div className="px-5 py-3 bg-slate-900 border-b border-slate-800 flex items-center justify-between">
+            <div className="flex items-center gap-3">
+              <h2 className="text-xs font-black text-white uppercase tracking-widest">
+                Statement Approval Workflow &middot; {matrixProject}
+              </h2>
+              {workflowDirty && (
+                <span className="text-[8px] font-black text-amber-400 bg-amber-500/15 px-2 py-0.5 rounded border border-amber-500/30 animate-pulse">
+                  UNSAVED
+                </span>
+              )}
+            </div>
+            <div className="flex items-center gap-1.5">
+              <button
+                type="button"
+                onClick={addStage}
+                className="px-3 py-1.5 rounded-md bg-slate-700 hover:bg-slate-600 text-white text-[10px] font-black uppercase tracking-wider transition-all"
+              >
+                + Stage
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveWorkflow}
+                disabled={!workflowDirty || workflowSaving}
+                className="px-3 py-1.5 rounded-md bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white text-[10px] font-black uppercase tracking-wider transition-all"
+              >
+                {workflowSaving ? "Saving..." : "Save Workflow"}
+              </button>
+            </div>
+          </div>
+          <div className="divide-y divide-border">
+            {workflow.map((stage, idx) => (
+              <div key={idx} className="px-4 py-2 flex flex-wrap items-center gap-3">
+                <span className="text-[10px] font-black text-muted-foreground w-16 uppercase tracking-wider">
+                  {idx === 0 ? "Submit" : `Stage ${idx}`}
+                </span>
+                <input
+                  type="text"
+                  value={stage.label}
+                  onChange={(e) => updateStage(idx, { label: e.target.value })}
+                  placeholder="Stage label"
+                  className="px-2 py-1 rounded-md border border-border bg-background text-xs font-semibold w-44"
+                />
+                <div className="flex flex-wrap gap-1">
+                  {ALL_ROLES.map((role) => (
+                    <button
+                      key={role}
+                      type="button"
+                      onClick={() => toggleStageRole(idx, role)}
+                      className={`px-1.5 py-0.5 rounded text-[9px] font-black uppercase tracking-wider border transition-all ${
+                        stage.roles.includes(role) ? getRoleBadge(role) : "border-border text-muted-foreground/50"
+                      }`}
+                    >
+                      {role}
+                    </button>
+                  ))}
+                </div>
+                {idx > 0 && workflow.length > 2 && (
+                  <button
+                    type="button"
+                    onClick={() => removeStage(idx)}
+                    className="ml-auto text-[10px] font-black text-red-500 hover:text-red-400 uppercase tracking-wider"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="px-3 py-1.5 bg-slate-50 dark:bg-slate-900/30 border-t border-border">
+            <span className="text-[8px] text-muted-foreground font-semibold">
+              Stages run top to bottom; the last stage signs off and freezes the statement. Statements already in flight keep their stage index.
+            </span>
+          </div>
+        </div>
+
         {/* Login Activity Logs */}
         <div className="bg-card rounded-xl border border-border shadow-xl overflow-hidden">
           <div className="px-5 py-3 bg-slate-900 border-b border-slate-800 flex items-center justify-between">
@@ -7,8 +7,9 @@ import Link from "next/link";
 import Image from "next/image";
 import { usePathname, useRouter } from "next/navigation";
 import { cn } from "@/lib/utils";
-import { getUser, logout, canAccessPage, getFirstAccessiblePage, getPermission, setupIdleTimeout, getSelectedProject, setSelectedProject, savePermissionMatrix, ROLE_LABELS, type AuthUser, type UserRole, type ProjectKey } from "@/lib/auth";
-import { getMaintenanceMode, setMaintenanceMode, signOutServer, getAccessMatrixAsAppFormat } from "@/lib/actions";
+import { getUser, setSession, logout, canAccessPage, getFirstAccessiblePage, getPermission, setupIdleTimeout, getSelectedProject, setSelectedProject, setPermissionMatrix, ROLE_LABELS, type PagePermission, type AuthUser, type UserRole, type ProjectKey } from "@/lib/auth";
+import { getMaintenanceMode, setMaintenanceMode, signOutServer } from "@/lib/actions";
+import type { MeResponse } from "@/lib/authz";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import {
@@ -36,6 +37,8 @@ const allNavItems: NavItem[] = [
   { id: "financial", label: "Financial", href: "/financial", roles: ["L1","L2A","L2B","L4","L5A","L5B","L6","L7"] },
   { id: "admin", label: "Data Manager", href: "/admin", roles: ["L1","L2A","L2B"] },
   { id: "users", label: "User Mgmt", href: "/users", roles: ["L1"] },
+  { id: "rates", label: "Rate Card", href: "/rates", roles: ["L1","L4","L5A","L5B","L6","L7"] },
+  { id: "payroll", label: "Payroll", href: "/payroll", roles: ["L1","L6","L7"] },
 ];
 
 export function AppShell({ children }: { children: React.ReactNode }) {
@@ -70,23 +73,22 @@ export function AppShell({ children }: { children: React.ReactNode }) {
   };
 
   useEffect(() => {
-    const currentUser = getUser();
-    if (!currentUser) {
+    if (!getUser()) {
       router.push("/login");
       return;
     }
 
-    // Fetch access matrix from Supabase, sync to localStorage, then check access
+    // Re-check the session against the server: role and access matrix come from /api/me
     const initSession = async () => {
-      try {
-        const dbMatrix = await getAccessMatrixAsAppFormat();
-        if (dbMatrix && Object.keys(dbMatrix).length > 0) {
-          // Sync Supabase matrix -> localStorage so canAccessPage / getPermission use it
-          savePermissionMatrix(dbMatrix as any);
-        }
-      } catch {
-        // Supabase unavailable -- fall through to DEFAULT_PERMISSION_MATRIX
+      const res = await fetch("/api/me", { cache: "no-store" }).catch(() => null);
+      if (!res?.ok) {
+        logout();
+        router.push("/login");
+        return;
       }
+      const me: MeResponse = await res.json();
+      const currentUser = setSession(me.user);
+      setPermissionMatrix(me.permissions as Record<string, PagePermission>);
 
       if (!canAccessPage(currentUser.role, pathname)) {
         const fallback = getFirstAccessiblePage(currentUser.role);
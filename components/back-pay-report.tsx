@@ -0,0 +1,203 @@
+"use client";
+
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { PivotedCrewRow } from "@/lib/types";
+import { getApprovedStatements, type ApprovalRecord } from "@/lib/actions";
+import { shortenPost } from "@/lib/logic";
+import { calcStatementRows, comparePay, toSen, type PayAdjustment, type PayContext } from "@/lib/pay-calc";
+
+const MONTH_NAMES = [
+  "JAN", "FEB", "MAR", "APR", "MAY", "JUN",
+  "JUL", "AUG", "SEP", "OCT", "NOV", "DEC",
+];
+
+const fmtSigned = (val: number) =>
+  val === 0
+    ? "-"
+    : `${val > 0 ? "+" : "-"}${Math.abs(val).toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const fmtAmt = (val: number) =>
+  val === 0 ? "-" : val.toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function monthLabel(monthYear: string): string {
+  const [y, m] = monthYear.split("-").map(Number);
+  return `${MONTH_NAMES[m - 1] || "?"} ${y}`;
+}
+
+interface BackPayMonth {
+  approval: ApprovalRecord;
+  adjustments: PayAdjustment[];
+  frozenTotal: number;
+  recalculatedTotal: number;
+  net: number;
+}
+
+interface BackPayReportProps {
+  data: PivotedCrewRow[];
+  payContext: PayContext;
+  project: string;
+  getDisplayName: (crewId: string, crewName: string) => string;
+}
+
+// Re-runs every approved statement under the current rate card and lists the
+// per-crew arrears / claw-back against the amounts frozen at approval
+export function BackPayReport({ data, payContext, project, getDisplayName }: BackPayReportProps) {
+  const [approvals, setApprovals] = useState<ApprovalRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fromMonth, setFromMonth] = useState("");
+  const [toMonth, setToMonth] = useState("");
+
+  useEffect(() => {
+    setLoading(true);
+    getApprovedStatements(project, fromMonth || undefined, toMonth || undefined).then((rows) => {
+      setApprovals(rows);
+      setLoading(false);
+    });
+  }, [project, fromMonth, toMonth]);
+
+  const { months, unfrozen } = useMemo(() => {
+    const months: BackPayMonth[] = [];
+    const unfrozen: ApprovalRecord[] = [];
+    for (const approval of approvals) {
+      if (!approval.frozen_lines) {
+        unfrozen.push(approval);
+        continue;
+      }
+      const [y, m] = approval.month_year.split("-").map(Number);
+      const live = calcStatementRows(data, payContext, y, m).filter(
+        (r) => r.grandTotal !== 0 && (approval.client === "ALL" || r.client === approval.client)
+      );
+      const adjustments = comparePay(approval.frozen_lines, live);
+      const frozenTotal = toSen(approval.frozen_lines.reduce((s, l) => s + l.grandTotal, 0));
+      const recalculatedTotal = toSen(live.reduce((s, r) => s + r.grandTotal, 0));
+      months.push({ approval, adjustments, frozenTotal, recalculatedTotal, net: toSen(recalculatedTotal - frozenTotal) });
+    }
+    return { months, unfrozen };
+  }, [approvals, data, payContext]);
+
+  const totals = useMemo(() => {
+    let arrears = 0, clawback = 0;
+    for (const m of months) {
+      for (const a of m.adjustments) {
+        if (a.adjustment > 0) arrears += a.adjustment;
+        else clawback += a.adjustment;
+      }
+    }
+    return { arrears: toSen(arrears), clawback: toSen(clawback), net: toSen(arrears + clawback) };
+  }, [months]);
+
+  return (
+    <div className="space-y-3">
+      {/* Filters + summary */}
+      <div className="flex flex-wrap items-end justify-between gap-3">
+        <div className="flex items-center gap-2" data-no-print>
+          <label className="text-[9px] font-black uppercase text-muted-foreground">From</label>
+          <input
+            type="month"
+            value={fromMonth}
+            onChange={(e) => setFromMonth(e.target.value)}
+            className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none"
+          />
+          <label className="text-[9px] font-black uppercase text-muted-foreground">To</label>
+          <input
+            type="month"
+            value={toMonth}
+            onChange={(e) => setToMonth(e.target.value)}
+            className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none"
+          />
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {[
+            { label: "Arrears", val: totals.arrears, cls: "text-emerald-600" },
+            { label: "Claw-back", val: totals.clawback, cls: "text-red-600" },
+            { label: "Net Adjustment", val: totals.net, cls: "text-foreground" },
+          ].map((c) => (
+            <div key={c.label} className="rounded-xl border border-border bg-card px-3 py-2 min-w-[120px]">
+              <p className="text-[8px] font-bold text-muted-foreground uppercase tracking-wider">{c.label}</p>
+              <p className={`text-base font-black tabular-nums ${c.cls}`}>RM {fmtSigned(c.val)}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500" />
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border bg-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="bg-muted/50 border-b border-border text-[9px] font-black uppercase tracking-wider text-muted-foreground">
+                  <th className="px-3 py-2 text-left">Crew</th>
+                  <th className="px-3 py-2 text-left">Post</th>
+                  <th className="px-3 py-2 text-right">Offshore</th>
+                  <th className="px-3 py-2 text-right">Relief</th>
+                  <th className="px-3 py-2 text-right">Standby</th>
+                  <th className="px-3 py-2 text-right">MEDEVAC</th>
+                  <th className="px-3 py-2 text-right">Approved</th>
+                  <th className="px-3 py-2 text-right">Recalculated</th>
+                  <th className="px-3 py-2 text-right">Adjustment</th>
+                </tr>
+              </thead>
+              <tbody>
+                {months.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-10 text-center text-muted-foreground">No approved statements with frozen amounts in this range</td>
+                  </tr>
+                )}
+                {months.map((m) => (
+                  <Fragment key={`${m.approval.month_year}-${m.approval.client}`}>
+                    <tr className="bg-slate-100 dark:bg-slate-800 border-y border-border">
+                      <td colSpan={6} className="px-3 py-1.5 font-black uppercase tracking-wider text-[10px]">
+                        {monthLabel(m.approval.month_year)} &middot; {m.approval.client === "ALL" ? "All Clients" : m.approval.client}
+                        <span className="ml-2 font-bold normal-case text-muted-foreground">
+                          approved by {m.approval.approved_by || "--"}{m.approval.approved_at ? ` on ${m.approval.approved_at}` : ""}
+                        </span>
+                      </td>
+                      <td className="px-3 py-1.5 text-right tabular-nums font-bold">{fmtAmt(m.frozenTotal)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums font-bold">{fmtAmt(m.recalculatedTotal)}</td>
+                      <td className={`px-3 py-1.5 text-right tabular-nums font-black ${m.net > 0 ? "text-emerald-600" : m.net < 0 ? "text-red-600" : ""}`}>{fmtSigned(m.net)}</td>
+                    </tr>
+                    {m.adjustments.length === 0 ? (
+                      <tr className="border-b border-border">
+                        <td colSpan={9} className="px-3 py-1.5 text-muted-foreground italic">No change</td>
+                      </tr>
+                    ) : (
+                      m.adjustments.map((a) => (
+                        <tr key={`${a.crew_id}-${a.crew_name}`} className="border-b border-border hover:bg-muted/30">
+                          <td className="px-3 py-1.5 font-bold uppercase">{getDisplayName(a.crew_id, a.crew_name)}</td>
+                          <td className="px-3 py-1.5 text-muted-foreground">{shortenPost(a.post)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtSigned(a.offshoreDelta)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtSigned(a.reliefDelta)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtSigned(a.standbyDelta)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtSigned(a.medevacDelta)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtAmt(a.frozenTotal)}</td>
+                          <td className="px-3 py-1.5 text-right tabular-nums">{fmtAmt(a.recalculatedTotal)}</td>
+                          <td className={`px-3 py-1.5 text-right tabular-nums font-black ${a.adjustment > 0 ? "text-emerald-600" : "text-red-600"}`}>
+                            {fmtSigned(a.adjustment)}
+                            <span className="ml-1 text-[8px] font-bold uppercase">{a.adjustment > 0 ? "Arrears" : "Claw-back"}</span>
+                          </td>
+                        </tr>
+                      ))
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {unfrozen.length > 0 && (
+        <p className="text-[10px] text-muted-foreground px-1">
+          {unfrozen.length} approved statement{unfrozen.length > 1 ? "s were" : " was"} approved before amounts were frozen and cannot be compared:{" "}
+          {unfrozen.map((a) => `${monthLabel(a.month_year)} (${a.client})`).join(", ")}
+        </p>
+      )}
+      <p className="text-[10px] text-muted-foreground px-1">
+        Recalculated amounts use the current rate card and roster. Positive adjustments are arrears owed to crew; negative are claw-backs.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { getComplianceSnapshots, getTierChanges, takeTrainingSnapshot } from "@/lib/actions";
+import { trendSeries, type SnapshotCount, type TierChange, type TrendFilter } from "@/lib/training-trend";
+import type { ExpiryTier } from "@/lib/cert-expiry";
+
+interface ComplianceTrendProps {
+  courseNames: string[];
+  canSnapshot: boolean;
+  onClose: () => void;
+}
+
+const TIER_BADGE: Record<ExpiryTier, { label: string; cls: string }> = {
+  green: { label: "S", cls: "bg-green-500/15 text-green-600 border-green-500/30" },
+  yellow: { label: "W", cls: "bg-yellow-500/15 text-yellow-600 border-yellow-500/30" },
+  orange: { label: "C", cls: "bg-orange-500/15 text-orange-600 border-orange-500/30" },
+  red: { label: "E", cls: "bg-red-500/15 text-red-600 border-red-500/30" },
+  "no-data": { label: "-", cls: "bg-slate-500/15 text-slate-500 border-slate-500/30" },
+};
+
+function monthLabel(month: string): string {
+  const [y, m] = month.split("-").map(Number);
+  return new Date(y, m - 1, 1).toLocaleDateString("en-GB", { month: "short", year: "2-digit" });
+}
+
+// Compliance % per monthly snapshot, with the crew who changed tier in a chosen month
+export function ComplianceTrend({ courseNames, canSnapshot, onClose }: ComplianceTrendProps) {
+  const [counts, setCounts] = useState<SnapshotCount[] | null>(null);
+  const [filter, setFilter] = useState<TrendFilter>({});
+  const [month, setMonth] = useState<string | null>(null);
+  const [drill, setDrill] = useState<{ previousMonth: string | null; changes: TierChange[] } | null>(null);
+  const [snapshotting, setSnapshotting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setCounts(await getComplianceSnapshots());
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const series = useMemo(() => trendSeries(counts || [], filter), [counts, filter]);
+  const clients = useMemo(() => Array.from(new Set((counts || []).map((c) => c.client))).filter(Boolean).sort(), [counts]);
+  const trades = useMemo(() => Array.from(new Set((counts || []).map((c) => c.trade))).sort(), [counts]);
+
+  useEffect(() => {
+    setDrill(null);
+    if (!month) return;
+    getTierChanges(month, filter).then(setDrill);
+  }, [month, filter]);
+
+  const handleSnapshot = async () => {
+    setSnapshotting(true);
+    setError(null);
+    const res = await takeTrainingSnapshot();
+    setSnapshotting(false);
+    if (!res.success) {
+      setError(res.error || "Snapshot failed");
+      return;
+    }
+    await load();
+    if (res.month) setMonth(res.month);
+  };
+
+  const selectCls = "bg-muted border border-border rounded-lg px-2 py-1 text-[10px] font-bold";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-4xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Compliance Trend</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">Held certificates not expired &middot; monthly snapshots</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {canSnapshot && (
+              <button
+                type="button"
+                onClick={handleSnapshot}
+                disabled={snapshotting}
+                className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+              >
+                {snapshotting ? "Saving..." : "Snapshot Now"}
+              </button>
+            )}
+            <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+          </div>
+        </div>
+
+        <div className="px-5 py-2.5 flex items-center gap-2 border-b border-border shrink-0">
+          <select value={filter.client || ""} onChange={(e) => setFilter({ ...filter, client: e.target.value || undefined })} className={selectCls}>
+            <option value="">All clients</option>
+            {clients.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select value={filter.trade || ""} onChange={(e) => setFilter({ ...filter, trade: e.target.value || undefined })} className={selectCls}>
+            <option value="">All trades</option>
+            {trades.map((t) => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <select value={filter.course || ""} onChange={(e) => setFilter({ ...filter, course: e.target.value || undefined })} className={selectCls}>
+            <option value="">All courses</option>
+            {courseNames.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+          {error && <span className="ml-auto text-[10px] font-bold text-red-600">{error}</span>}
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {counts === null ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : series.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">No snapshots yet. The first one is taken at month end.</p>
+          ) : (
+            <>
+              <div className="h-44">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={series.map((p) => ({ ...p, label: monthLabel(p.month) }))} margin={{ top: 12, right: 12, left: 5, bottom: 3 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#334155" strokeOpacity={0.2} />
+                    <XAxis dataKey="label" tick={{ fill: "#94a3b8", fontSize: 8, fontWeight: 700 }} />
+                    <YAxis domain={[0, 100]} tick={{ fill: "#94a3b8", fontSize: 8, fontWeight: 700 }} tickFormatter={(v) => `${v}%`} width={36} />
+                    <Tooltip formatter={(v) => [`${v}%`, "Compliance"]} />
+                    <Line type="monotone" dataKey="pct" stroke="#22c55e" strokeWidth={2} dot={{ r: 3 }} connectNulls animationDuration={800} />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+
+              <table className="w-full text-[10px] mt-2">
+                <thead>
+                  <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                    <th className="text-left py-1.5">Month</th>
+                    <th className="text-right py-1.5">S</th>
+                    <th className="text-right py-1.5">W</th>
+                    <th className="text-right py-1.5">C</th>
+                    <th className="text-right py-1.5">E</th>
+                    <th className="text-right py-1.5">Plan</th>
+                    <th className="text-right py-1.5">Compliance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...series].reverse().map((p) => (
+                    <tr
+                      key={p.month}
+                      onClick={() => setMonth(p.month === month ? null : p.month)}
+                      className={`border-b border-border/50 cursor-pointer hover:bg-muted/50 tabular-nums ${p.month === month ? "bg-muted" : ""}`}
+                    >
+                      <td className="py-1.5 font-bold text-foreground">{monthLabel(p.month)}</td>
+                      <td className="py-1.5 text-right text-green-600">{p.green}</td>
+                      <td className="py-1.5 text-right text-yellow-600">{p.yellow}</td>
+                      <td className="py-1.5 text-right text-orange-600">{p.orange}</td>
+                      <td className="py-1.5 text-right text-red-600">{p.red}</td>
+                      <td className="py-1.5 text-right text-blue-600">{p.plan}</td>
+                      <td className="py-1.5 text-right font-black">{p.pct === null ? "-" : `${p.pct}%`}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {month && (
+                <div className="mt-3">
+                  <p className="text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1">
+                    Tier changes {drill?.previousMonth ? `${monthLabel(drill.previousMonth)} → ` : ""}{monthLabel(month)}
+                  </p>
+                  {!drill ? (
+                    <p className="text-[10px] text-muted-foreground">Loading...</p>
+                  ) : drill.changes.length === 0 ? (
+                    <p className="text-[10px] text-muted-foreground">{drill.previousMonth ? "No crew changed tier." : "First snapshot -- nothing to compare with."}</p>
+                  ) : (
+                    <ul className="space-y-0.5">
+                      {drill.changes.map((c) => (
+                        <li key={`${c.crew_id}|${c.course}`} className="text-[10px] flex items-center gap-2">
+                          <span className={`w-3 font-black ${c.improved ? "text-emerald-600" : "text-red-600"}`}>{c.improved ? "▲" : "▼"}</span>
+                          <span className="font-bold text-foreground w-48 truncate">{c.crew_name}</span>
+                          <span className="font-bold w-14">{c.course}</span>
+                          <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black ${TIER_BADGE[c.from].cls}`}>{TIER_BADGE[c.from].label}</span>
+                          <span className="text-muted-foreground">→</span>
+                          <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black ${TIER_BADGE[c.to].cls}`}>{TIER_BADGE[c.to].label}</span>
+                          <span className="text-muted-foreground">{c.client} &middot; {c.trade}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
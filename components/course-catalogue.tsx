@@ -0,0 +1,270 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { getCourseCatalogue, saveCourse, reorderCourses } from "@/lib/actions";
+import { getClients } from "@/lib/client-location-map";
+import { COL_COUNT, type CertGateLevel, type CourseColType, type CourseConfig } from "@/lib/courses";
+import type { TradeType } from "@/lib/types";
+
+interface CourseCatalogueProps {
+  project: string;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+const TRADES: TradeType[] = ["OM", "EM", "IMP/OHN"];
+
+const COL_TYPE_LABELS: Record<CourseColType, string> = {
+  apc: "Cert No / Expiry / Plan",
+  standard: "Attended / Expiry / Plan",
+  single: "Expiry only",
+};
+
+const EMPTY_COURSE: CourseConfig = {
+  name: "", colType: "standard", colCount: COL_COUNT.standard, headerBg: "#475569", mandatory: {}, clients: [], active: true,
+};
+
+// Add, edit, reorder and retire Training Matrix courses for a project
+export function CourseCatalogue({ project, onClose, onChanged }: CourseCatalogueProps) {
+  const [courses, setCourses] = useState<CourseConfig[] | null>(null);
+  const [draft, setDraft] = useState<CourseConfig | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setCourses(await getCourseCatalogue(project, true));
+  }, [project]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Catalogue not seeded yet: the built-in defaults are shown read-only
+  const seeded = (courses || []).some((c) => c.id);
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setSaving(true);
+    setError(null);
+    const res = await saveCourse(project, draft);
+    setSaving(false);
+    if (!res.success) {
+      setError(res.error || "Save failed");
+      return;
+    }
+    setDraft(null);
+    await load();
+    onChanged();
+  };
+
+  const handleMove = async (index: number, delta: number) => {
+    if (!courses) return;
+    const next = [...courses];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + delta, 0, moved);
+    setCourses(next);
+    const res = await reorderCourses(project, next.map((c) => c.id!));
+    if (!res.success) setError(res.error || "Reorder failed");
+    await load();
+    onChanged();
+  };
+
+  const setLevel = (trade: TradeType, level: CertGateLevel | "") => {
+    if (!draft) return;
+    const mandatory = { ...draft.mandatory };
+    if (level) mandatory[trade] = level;
+    else delete mandatory[trade];
+    setDraft({ ...draft, mandatory });
+  };
+
+  const toggleClient = (client: string) => {
+    if (!draft) return;
+    const clients = draft.clients || [];
+    setDraft({ ...draft, clients: clients.includes(client) ? clients.filter((c) => c !== client) : [...clients, client] });
+  };
+
+  const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+  const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-4xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Course Catalogue</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">{project} &middot; Training Matrix columns</p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => { setDraft({ ...EMPTY_COURSE }); setError(null); }}
+              disabled={!seeded}
+              className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+            >
+              + Add Course
+            </button>
+            <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+          </div>
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {courses === null ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : (
+            <>
+              {!seeded && (
+                <p className="mb-2 px-3 py-2 rounded-lg text-[10px] font-bold border bg-amber-500/10 text-amber-600 border-amber-500/30">
+                  Showing the built-in courses -- run scripts/create-cms-course-catalogue.sql to manage them here.
+                </p>
+              )}
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                    <th className="w-12" />
+                    <th className="text-left py-1.5">Course</th>
+                    <th className="text-left py-1.5">Columns</th>
+                    <th className="text-right py-1.5">Validity</th>
+                    <th className="text-left py-1.5 pl-3">Mandatory</th>
+                    <th className="text-left py-1.5">Clients</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {courses.map((c, i) => (
+                    <tr key={c.id ?? c.name} className={`border-b border-border/50 ${c.active === false ? "opacity-40" : ""}`}>
+                      <td className="py-1.5 space-x-1">
+                        <button type="button" disabled={!seeded || i === 0} onClick={() => handleMove(i, -1)} className="font-black text-muted-foreground hover:text-foreground disabled:opacity-30">&uarr;</button>
+                        <button type="button" disabled={!seeded || i === courses.length - 1} onClick={() => handleMove(i, 1)} className="font-black text-muted-foreground hover:text-foreground disabled:opacity-30">&darr;</button>
+                      </td>
+                      <td className="py-1.5">
+                        <span className="inline-block w-2.5 h-2.5 rounded-sm mr-1.5 align-middle" style={{ backgroundColor: c.headerBg }} />
+                        <span className="font-bold text-foreground">{c.name}</span>
+                      </td>
+                      <td className="py-1.5 text-muted-foreground">{COL_TYPE_LABELS[c.colType]}</td>
+                      <td className="py-1.5 text-right tabular-nums">{c.validityMonths ? `${c.validityMonths} mo` : "-"}</td>
+                      <td className="py-1.5 pl-3">
+                        {Object.entries(c.mandatory || {}).map(([trade, level]) => (
+                          <span
+                            key={trade}
+                            className={`mr-1 px-1.5 py-0.5 rounded border text-[8px] font-black uppercase ${
+                              level === "BLOCK" ? "bg-red-500/15 text-red-600 border-red-500/30" : "bg-amber-500/15 text-amber-600 border-amber-500/30"
+                            }`}
+                          >
+                            {trade} {level}
+                          </span>
+                        ))}
+                      </td>
+                      <td className="py-1.5 text-muted-foreground">{c.clients?.length ? c.clients.join(", ") : "All"}</td>
+                      <td className="py-1.5 text-right">
+                        {seeded && (
+                          <button type="button" onClick={() => { setDraft({ ...c }); setError(null); }} className="text-[9px] font-black uppercase text-blue-600 hover:underline">Edit</button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        {draft && (
+          <div className="px-5 py-4 border-t border-border space-y-3 shrink-0">
+            <div className="grid grid-cols-5 gap-3">
+              <div>
+                <label className={labelCls}>Name</label>
+                <input
+                  value={draft.name}
+                  disabled={!!draft.id}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value.toUpperCase() })}
+                  className={`${inputCls} disabled:opacity-60`}
+                />
+              </div>
+              <div>
+                <label className={labelCls}>Colour</label>
+                <input type="color" value={draft.headerBg} onChange={(e) => setDraft({ ...draft, headerBg: e.target.value })} className="w-full h-[30px] rounded-lg border border-border bg-muted" />
+              </div>
+              <div>
+                <label className={labelCls}>Columns</label>
+                <select
+                  value={draft.colType}
+                  onChange={(e) => {
+                    const colType = e.target.value as CourseColType;
+                    setDraft({ ...draft, colType, colCount: COL_COUNT[colType] });
+                  }}
+                  className={inputCls}
+                >
+                  {(Object.keys(COL_TYPE_LABELS) as CourseColType[]).map((t) => <option key={t} value={t}>{COL_TYPE_LABELS[t]}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelCls}>Validity (months)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.validityMonths ?? ""}
+                  onChange={(e) => setDraft({ ...draft, validityMonths: e.target.value ? Number(e.target.value) : undefined })}
+                  className={inputCls}
+                />
+              </div>
+              <div className="flex items-end">
+                <label className="flex items-center gap-1.5 text-[9px] font-black uppercase text-muted-foreground pb-2">
+                  <input type="checkbox" checked={draft.active !== false} onChange={(e) => setDraft({ ...draft, active: e.target.checked })} />
+                  Active
+                </label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-5 gap-3">
+              {TRADES.map((trade) => (
+                <div key={trade}>
+                  <label className={labelCls}>{trade} requires</label>
+                  <select value={draft.mandatory?.[trade] || ""} onChange={(e) => setLevel(trade, e.target.value as CertGateLevel | "")} className={inputCls}>
+                    <option value="">Not required</option>
+                    <option value="WARN">Warn</option>
+                    <option value="BLOCK">Block</option>
+                  </select>
+                </div>
+              ))}
+              <div className="col-span-2">
+                <label className={labelCls}>Clients (none = all)</label>
+                <div className="flex flex-wrap gap-1">
+                  {getClients().map((client) => (
+                    <button
+                      key={client}
+                      type="button"
+                      onClick={() => toggleClient(client)}
+                      className={`px-2 py-1 rounded-lg text-[9px] font-black uppercase border transition-colors ${
+                        draft.clients?.includes(client) ? "bg-slate-900 text-white border-slate-900" : "bg-muted text-muted-foreground border-border hover:text-foreground"
+                      }`}
+                    >
+                      {client}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-[10px] font-bold text-red-600">{error}</p>
+              <div className="flex gap-2">
+                <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-muted text-foreground hover:bg-muted/70">Discard</button>
+                <button
+                  type="button"
+                  onClick={handleSave}
+                  disabled={saving}
+                  className="px-4 py-1.5 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+                >
+                  {saving ? "Saving..." : "Save"}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+        {!draft && error && <p className="px-5 pb-3 text-[10px] font-bold text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
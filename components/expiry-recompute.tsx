@@ -0,0 +1,138 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { getExpiryDiscrepancies, applyRuleExpiries } from "@/lib/actions";
+import { formatDate } from "@/lib/logic";
+import type { CourseConfig, ExpiryDiscrepancy } from "@/lib/courses";
+
+interface ExpiryRecomputeProps {
+  crewNames: Map<string, string>;
+  courses: CourseConfig[];
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+function validityLabel(months: number): string {
+  return months % 12 === 0 ? `${months / 12}y` : `${months}m`;
+}
+
+// Lists records whose expiry disagrees with the course rule; hand overrides start unticked
+export function ExpiryRecompute({ crewNames, courses, onClose, onApplied }: ExpiryRecomputeProps) {
+  const [rows, setRows] = useState<ExpiryDiscrepancy[] | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    const data = await getExpiryDiscrepancies();
+    setRows(data);
+    setSelected(new Set(data.filter((d) => !d.override).map((d) => d.matrix_id)));
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Sorted at render so a new crewNames map from the parent does not refetch
+  const sorted = useMemo(
+    () => rows && [...rows].sort((a, b) => (crewNames.get(a.crew_id) || "").localeCompare(crewNames.get(b.crew_id) || "") || a.cert_type.localeCompare(b.cert_type)),
+    [rows, crewNames]
+  );
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    setError(null);
+    const res = await applyRuleExpiries(Array.from(selected));
+    setApplying(false);
+    if (!res.success) {
+      setError(res.error || "Recompute failed");
+      return;
+    }
+    onApplied();
+    await load();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-3xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Recompute Expiries</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">
+              {courses.filter((c) => c.validityMonths).map((c) => `${c.name} ${validityLabel(c.validityMonths!)}`).join(" · ")}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {sorted === null ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : sorted.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">Every expiry matches its course rule.</p>
+          ) : (
+            <table className="w-full text-[10px]">
+              <thead>
+                <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                  <th className="w-6 py-1.5">
+                    <input
+                      type="checkbox"
+                      checked={selected.size === sorted.length}
+                      onChange={(e) => setSelected(new Set(e.target.checked ? sorted.map((r) => r.matrix_id) : []))}
+                    />
+                  </th>
+                  <th className="text-left py-1.5">Crew</th>
+                  <th className="text-left py-1.5">Course</th>
+                  <th className="text-left py-1.5">Attended</th>
+                  <th className="text-left py-1.5">Stored Expiry</th>
+                  <th className="text-left py-1.5">Rule Expiry</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((r) => (
+                  <tr key={r.matrix_id} className="border-b border-border/50">
+                    <td className="py-1.5 text-center">
+                      <input type="checkbox" checked={selected.has(r.matrix_id)} onChange={() => toggle(r.matrix_id)} />
+                    </td>
+                    <td className="py-1.5 font-bold text-foreground">{crewNames.get(r.crew_id) || r.crew_id}</td>
+                    <td className="py-1.5 font-bold">{r.cert_type}</td>
+                    <td className="py-1.5 font-mono">{formatDate(r.attended_date)}</td>
+                    <td className="py-1.5 font-mono text-red-600">{r.stored ? formatDate(r.stored) : "-"}</td>
+                    <td className="py-1.5 font-mono text-emerald-600">{formatDate(r.expected)}</td>
+                    <td className="py-1.5 text-right">
+                      {r.override && (
+                        <span className="px-1.5 py-0.5 rounded border text-[8px] font-black uppercase bg-amber-500/15 text-amber-600 border-amber-500/30">Override</span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-border flex items-center justify-between shrink-0">
+          <p className="text-[10px] font-bold text-red-600">{error}</p>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={applying || selected.size === 0}
+            className="px-4 py-1.5 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+          >
+            {applying ? "Applying..." : `Apply Rule to ${selected.size}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
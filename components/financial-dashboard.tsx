@@ -2,11 +2,15 @@
 
 import { useEffect, useState, useMemo } from "react";
 import { AppShell } from "@/components/app-shell";
-import { PivotedCrewRow } from "@/lib/types";
-import { getPivotedRosterData, getCrewMasterData, getCrewList, type CrewMasterRecord } from "@/lib/actions";
-import { safeParseDate, shortenPost } from "@/lib/logic";
+import { PivotedCrewRow, RateCardEntry } from "@/lib/types";
+import { getPivotedRosterData, getCrewMasterData, getCrewList, getRateCard, getApprovedStatementRows, type ApprovedMonthRows, type CrewMasterRecord } from "@/lib/actions";
+import { shortenPost } from "@/lib/logic";
+import { buildPayContext, calcCrewPay, masterKey, toSen, type PayContext, type StatementRow } from "@/lib/pay-calc";
 import { useProject } from "@/hooks/use-project";
 import { SyncingPlaceholder } from "@/components/syncing-placeholder";
+import { BackPayReport } from "@/components/back-pay-report";
+import { InvoiceRegister } from "@/components/invoice-register";
+import { getUser, canEdit } from "@/lib/auth";
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer,
   PieChart, Pie, Cell, CartesianGrid, Area, AreaChart, Legend,
@@ -59,51 +63,36 @@ interface CrewMonthCost {
   basic: number; fixedAll: number; offshore: number; relief: number; standby: number; medevac: number; total: number;
 }
 
-function calcMonthCosts(rosterData: PivotedCrewRow[], masterData: CrewMasterRecord[], masterMap: Map<string, CrewMasterRecord>, year: number, month: number): CrewMonthCost[] {
-  // Use day-number arithmetic to avoid floating-point issues
-  const monthStartDate = new Date(year, month - 1, 1);
-  const monthEndDate = new Date(year, month, 0); // last day of month
-  const monthStartDay = Math.round(monthStartDate.getTime() / 86400000);
-  const monthEndDay = Math.round(monthEndDate.getTime() / 86400000);
-  const monthStartTime = monthStartDate.getTime();
-  const monthEndTime = monthEndDate.getTime();
-  const medevacRate = 500;
+const monthKey = (year: number, month: number) => `${year}-${String(month).padStart(2, "0")}`;
+
+function calcMonthCosts(
+  rosterData: PivotedCrewRow[], masterData: CrewMasterRecord[], payContext: PayContext,
+  approvedRows: Record<string, ApprovedMonthRows>, year: number, month: number
+): CrewMonthCost[] {
   const basicCounted = new Set<string>();
   const results: CrewMonthCost[] = [];
 
-  for (const crew of rosterData) {
-    const isOM = (crew.post || "").toUpperCase().includes("OFFSHORE MEDIC");
-    const isEM = (crew.post || "").toUpperCase().includes("ESCORT MEDIC");
-    let offDays = 0, relief = 0, standby = 0, medevac = 0;
-    for (const cycle of Object.values(crew.cycles)) {
-      const signOn = safeParseDate(cycle.sign_on);
-      const signOff = safeParseDate(cycle.sign_off);
-      if (!signOn || !signOff) continue;
-      // sign_off date not counted: last working day = signOff - 1
-      const rotStartDay = Math.round(signOn.getTime() / 86400000);
-      const rotEndDay = Math.round(signOff.getTime() / 86400000) - 1;
-      if (rotStartDay > monthEndDay || rotEndDay < monthStartDay) continue;
-      // Clamp to month: endOfMonth - startDate + 1
-      const days = Math.min(rotEndDay, monthEndDay) - Math.max(rotStartDay, monthStartDay) + 1;
-      if (days <= 0) continue;
-      if (isOM && cycle.is_offshore !== false) offDays += days;
-      relief += (cycle.day_relief ?? 0) * (cycle.relief_all ?? 0);
-      standby += (cycle.day_standby ?? 0) * (cycle.standby_all ?? 0);
-      medevac += (cycle.medevac_dates || []).filter(d => {
-        const md = safeParseDate(d);
-        return md && md.getTime() >= monthStartTime && md.getTime() <= monthEndTime;
-      }).length;
-    }
-    const master = masterMap.get((crew.crew_name || "").toUpperCase().trim());
-    const crewOARate = master?.offshore_rate || (isOM ? 200 : 0);
-    const offshoreAmt = isOM ? offDays * crewOARate : 0;
-    const medevacAmt = isEM ? medevac * medevacRate : 0;
+  // Clients already approved for the month cost what their statement snapshot says;
+  // only the rest are priced live by the shared pay engine (same numbers as the Statement)
+  const approved = approvedRows[monthKey(year, month)];
+  const isApproved = (client: string) => !!approved && (approved.scopes.includes("ALL") || approved.scopes.includes(client));
+  const priced: { crew: PivotedCrewRow | StatementRow; pay: StatementRow | null }[] = [
+    ...(approved ? approved.rows.map((row) => ({ crew: row, pay: row })) : []),
+    ...rosterData.filter((crew) => !isApproved(crew.client)).map((crew) => ({ crew, pay: calcCrewPay(crew, payContext, year, month) })),
+  ];
+
+  for (const { crew, pay } of priced) {
+    const offshoreAmt = pay?.offshoreTotal ?? 0;
+    const relief = pay?.reliefTotal ?? 0;
+    const standby = pay?.standbyTotal ?? 0;
+    const medevacAmt = pay?.medevacTotal ?? 0;
+    const master = payContext.masterByName.get(masterKey(crew.crew_name));
     let basicAmt = 0, fixedAllAmt = 0;
     if (crew.crew_id && !basicCounted.has(crew.crew_id)) {
       if (master) { basicAmt = master.basic || 0; fixedAllAmt = master.fixed_all || 0; }
       basicCounted.add(crew.crew_id);
     }
-    const total = basicAmt + fixedAllAmt + offshoreAmt + relief + standby + medevacAmt;
+    const total = toSen(basicAmt + fixedAllAmt + offshoreAmt + relief + standby + medevacAmt);
     if (total === 0) continue;
     results.push({ crew_name: crew.crew_name, post: crew.post, client: crew.client, location: crew.location, basic: basicAmt, fixedAll: fixedAllAmt, offshore: offshoreAmt, relief, standby, medevac: medevacAmt, total });
   }
@@ -199,11 +188,14 @@ export default function FinancialDashboardPage() {
   const project = useProject();
   const [data, setData] = useState<PivotedCrewRow[]>([]);
   const [masterData, setMasterData] = useState<CrewMasterRecord[]>([]);
+  const [rateCard, setRateCard] = useState<RateCardEntry[]>([]);
+  const [approvedRows, setApprovedRows] = useState<Record<string, ApprovedMonthRows>>({});
   const [crewList, setCrewList] = useState<{ id: string; crew_name: string; clean_name: string }[]>([]);
   const [loading, setLoading] = useState(true);
+  const user = typeof window !== "undefined" ? getUser() : null;
 
-  // Tabs: Dashboard | Budgeting
-  type TabType = "dashboard" | "budgeting";
+  // Tabs: Dashboard | Budgeting | Back-Pay | Invoices
+  type TabType = "dashboard" | "budgeting" | "backpay" | "invoices";
   const [activeTab, setActiveTab] = useState<TabType>("dashboard");
 
   // Budgeting
@@ -211,18 +203,14 @@ export default function FinancialDashboardPage() {
 
   useEffect(() => {
   setLoading(true);
-  Promise.all([getPivotedRosterData(project), getCrewMasterData(project), getCrewList(project)]).then(([p, m, crewResult]) => {
-  setData(p); setMasterData(m);
+  Promise.all([getPivotedRosterData(project), getCrewMasterData(project), getCrewList(project), getRateCard(project), getApprovedStatementRows(project)]).then(([p, m, crewResult, rates, approved]) => {
+  setData(p); setMasterData(m); setRateCard(rates); setApprovedRows(approved);
   if (crewResult.success && crewResult.data) setCrewList(crewResult.data);
   setLoading(false);
   });
   }, [project]);
 
-  const masterMap = useMemo(() => {
-    const map = new Map<string, CrewMasterRecord>();
-    for (const m of masterData) map.set((m.crew_name || "").toUpperCase().trim(), m);
-    return map;
-  }, [masterData]);
+  const payContext = useMemo(() => buildPayContext(masterData, rateCard, project), [masterData, rateCard, project]);
 
   const crewNameMap = useMemo(() => {
     const map = new Map<string, string>();
@@ -242,7 +230,7 @@ export default function FinancialDashboardPage() {
   // ─── Dashboard Data ───
   const monthly = useMemo(() => {
     return monthRange.map(({ year, month, label, isFuture }) => {
-      const costs = calcMonthCosts(data, masterData, masterMap, year, month);
+      const costs = calcMonthCosts(data, masterData, payContext, approvedRows, year, month);
       const basic = costs.reduce((s, c) => s + c.basic, 0);
       const fixedAll = costs.reduce((s, c) => s + c.fixedAll, 0);
       const offshore = costs.reduce((s, c) => s + c.offshore, 0);
@@ -251,7 +239,7 @@ export default function FinancialDashboardPage() {
       const medevac = costs.reduce((s, c) => s + c.medevac, 0);
       return { label, isFuture, basic, fixedAll, offshore, relief, standby, medevac, total: basic + fixedAll + offshore + relief + standby + medevac };
     });
-  }, [data, masterData, masterMap, monthRange]);
+  }, [data, masterData, payContext, approvedRows, monthRange]);
 
   const actual = monthly.filter(m => !m.isFuture);
   const totalActual = actual.reduce((s, c) => s + c.total, 0);
@@ -264,22 +252,22 @@ export default function FinancialDashboardPage() {
   const clientData = useMemo(() => {
     const map = new Map<string, number>();
     for (const m of monthRange.filter(mr => !mr.isFuture)) {
-      for (const c of calcMonthCosts(data, masterData, masterMap, m.year, m.month)) {
+      for (const c of calcMonthCosts(data, masterData, payContext, approvedRows, m.year, m.month)) {
         map.set(c.client || "Unknown", (map.get(c.client || "Unknown") || 0) + c.total);
       }
     }
     return Array.from(map.entries()).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value);
-  }, [data, masterData, masterMap, monthRange]);
+  }, [data, masterData, payContext, approvedRows, monthRange]);
 
   const locData = useMemo(() => {
     const map = new Map<string, number>();
     for (const m of monthRange.filter(mr => !mr.isFuture)) {
-      for (const c of calcMonthCosts(data, masterData, masterMap, m.year, m.month)) {
+      for (const c of calcMonthCosts(data, masterData, payContext, approvedRows, m.year, m.month)) {
         map.set(c.location || "Unknown", (map.get(c.location || "Unknown") || 0) + c.total);
       }
     }
     return Array.from(map.entries()).map(([name, value]) => ({ name, value })).sort((a, b) => b.value - a.value).slice(0, 5);
-  }, [data, masterData, masterMap, monthRange]);
+  }, [data, masterData, payContext, approvedRows, monthRange]);
 
   const catData = useMemo(() => {
     let bas = 0, fix = 0, off = 0, rel = 0, stb = 0, med = 0;
@@ -314,7 +302,7 @@ export default function FinancialDashboardPage() {
 
     const clientMap = new Map<string, { client: string; fixed: number; variable: number; total: number }>();
     const tradeMap = new Map<string, { trade: string; fixed: number; variable: number; total: number }>();
-    const costs = calcMonthCosts(data, masterData, masterMap, by, bm);
+    const costs = calcMonthCosts(data, masterData, payContext, approvedRows, by, bm);
 
     for (const c of costs) {
       const fixedCost = c.basic + c.fixedAll;
@@ -342,13 +330,13 @@ export default function FinancialDashboardPage() {
       grandVariable: Array.from(clientMap.values()).reduce((s, r) => s + r.variable, 0),
       grandTotal: Array.from(clientMap.values()).reduce((s, r) => s + r.total, 0),
     };
-  }, [data, masterData, masterMap, budgetBuffer, budgetPeriod]);
+  }, [data, masterData, payContext, approvedRows, budgetBuffer, budgetPeriod]);
 
   // ─── SKA vs SBA category breakdown for Budgeting charts ───
   const budgetClientCategoryData = useMemo(() => {
     const [by, bm] = budgetPeriod.split("-").map(Number);
     const bufferMultiplier = 1 + budgetBuffer / 100;
-    const costs = calcMonthCosts(data, masterData, masterMap, by, bm);
+    const costs = calcMonthCosts(data, masterData, payContext, approvedRows, by, bm);
 
     const clientCats = new Map<string, { basic: number; fixedAll: number; offshore: number; relief: number; standby: number; medevac: number; total: number }>();
     for (const c of costs) {
@@ -383,7 +371,7 @@ export default function FinancialDashboardPage() {
       .sort((a, b) => b.total - a.total);
 
     return { barData, clientTotals, grandTotal, ska, sba };
-  }, [data, masterData, masterMap, budgetBuffer, budgetPeriod]);
+  }, [data, masterData, payContext, approvedRows, budgetBuffer, budgetPeriod]);
 
   if (project === "OTHERS") return (
   <AppShell><SyncingPlaceholder project={project} label="Financial" /></AppShell>
@@ -401,6 +389,8 @@ export default function FinancialDashboardPage() {
   const tabs: { id: TabType; label: string; hidden?: boolean }[] = [
     { id: "dashboard", label: "Dashboard" },
     { id: "budgeting", label: "Budgeting" },
+    { id: "backpay", label: "Back-Pay" },
+    { id: "invoices", label: "Invoices" },
   ];
 
   return (
@@ -428,7 +418,7 @@ export default function FinancialDashboardPage() {
             </div>
             {activeTab !== "dashboard" && (
               <button onClick={() => {
-                const titles: Record<TabType, string> = { dashboard: "Financial_Report", budgeting: "Budget_Projection" };
+                const titles: Record<TabType, string> = { dashboard: "Financial_Report", budgeting: "Budget_Projection", backpay: "Back_Pay_Report", invoices: "Invoice_Register" };
                 document.title = `${titles[activeTab]}_${new Date().toISOString().slice(0,10)}`;
                 window.print();
               }} className="print-btn p-2 rounded-lg bg-orange-500 hover:bg-orange-600 text-white transition-all shadow-sm" title="Print">
@@ -786,6 +776,15 @@ export default function FinancialDashboardPage() {
           </div>
         )}
 
+        {/* ═══════════════ BACK-PAY TAB ═══════════════ */}
+        {activeTab === "backpay" && (
+          <BackPayReport data={data} payContext={payContext} project={project} getDisplayName={getDisplayName} />
+        )}
+
+        {activeTab === "invoices" && (
+          <InvoiceRegister project={project} editable={!!user && canEdit("/financial", project, user.role)} />
+        )}
+
       </div>
     </AppShell>
   );
@@ -0,0 +1,118 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { X } from "lucide-react";
+import { getDataHistory } from "@/lib/actions";
+import { historyForField, fieldLabel, formatAuditValue, type AuditSubject, type DataAuditEntry } from "@/lib/data-audit";
+
+interface HistoryDrawerProps {
+  title: string;
+  subject: AuditSubject;
+  recordId?: string | number;
+  crewId?: string;
+  project?: string;
+  field?: string;
+  onClose: () => void;
+}
+
+const ACTION_STYLES: Record<DataAuditEntry["action"], string> = {
+  INSERT: "bg-emerald-500/15 text-emerald-600 border-emerald-500/30",
+  UPDATE: "bg-blue-500/15 text-blue-600 border-blue-500/30",
+  DELETE: "bg-red-500/15 text-red-600 border-red-500/30",
+};
+
+// Slide-over listing cms_data_audit entries for one record (or one crew), optionally narrowed to a field
+export function HistoryDrawer({ title, subject, recordId, crewId, project, field, onClose }: HistoryDrawerProps) {
+  const [entries, setEntries] = useState<DataAuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [fieldFilter, setFieldFilter] = useState(field || "");
+
+  useEffect(() => {
+    setLoading(true);
+    getDataHistory(subject, { recordId, crewId }, project).then((rows) => {
+      setEntries(rows);
+      setLoading(false);
+    });
+  }, [subject, recordId, crewId, project]);
+
+  const fields = useMemo(
+    () => Array.from(new Set(entries.flatMap((e) => Object.keys(e.changes || {})))).sort(),
+    [entries]
+  );
+  const visible = fieldFilter ? historyForField(entries, fieldFilter) : entries;
+
+  return (
+    <div className="fixed inset-0 z-[1000] flex justify-end bg-black/40 backdrop-blur-sm" onClick={onClose}>
+      <div
+        className="h-full w-full max-w-md bg-background border-l border-border shadow-2xl flex flex-col animate-in slide-in-from-right duration-200"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-5 py-3 border-b border-border flex items-center justify-between">
+          <div>
+            <h3 className="text-sm font-black uppercase tracking-wider text-foreground">History</h3>
+            <p className="text-[10px] font-semibold text-muted-foreground">{title}</p>
+          </div>
+          <button type="button" onClick={onClose} className="p-1.5 rounded-lg hover:bg-muted text-muted-foreground">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <div className="px-5 py-2 border-b border-border flex items-center gap-2">
+          <span className="text-[9px] font-black uppercase tracking-wider text-muted-foreground">Field</span>
+          <select
+            value={fieldFilter}
+            onChange={(e) => setFieldFilter(e.target.value)}
+            className="flex-1 bg-muted border border-border rounded-md px-2 py-1 text-[11px] font-bold text-foreground outline-none"
+          >
+            <option value="">All fields</option>
+            {fields.map((f) => (
+              <option key={f} value={f}>{fieldLabel(f)}</option>
+            ))}
+            {fieldFilter && !fields.includes(fieldFilter) && <option value={fieldFilter}>{fieldLabel(fieldFilter)}</option>}
+          </select>
+        </div>
+        <div className="flex-1 overflow-y-auto px-5 py-3">
+          {loading ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">No recorded changes.</p>
+          ) : (
+            <ol className="relative border-l border-border ml-1.5 space-y-4">
+              {visible.map((entry, idx) => (
+                <li key={entry.id ?? idx} className="ml-4">
+                  <span className="absolute -left-[4.5px] mt-1.5 w-2 h-2 rounded-full bg-slate-400" />
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-wider ${ACTION_STYLES[entry.action]}`}>
+                      {entry.action}
+                    </span>
+                    <span className="text-[10px] font-bold text-foreground">{entry.actor}</span>
+                    <span className="text-[9px] font-bold text-muted-foreground">({entry.actor_role})</span>
+                  </div>
+                  <p className="text-[9px] font-mono text-muted-foreground mb-1.5">
+                    {entry.created_at ? new Date(entry.created_at).toLocaleString("en-MY") : "-"}
+                    {entry.crew_name ? ` · ${entry.crew_name}` : ""}
+                  </p>
+                  <div className="space-y-0.5">
+                    {Object.entries(entry.changes || {})
+                      .filter(([f]) => !fieldFilter || f === fieldFilter)
+                      .map(([f, change]) => (
+                        <div key={f} className="grid grid-cols-[110px_1fr] gap-2 text-[10px]">
+                          <span className="font-black text-muted-foreground uppercase tracking-tight truncate" title={fieldLabel(f)}>{fieldLabel(f)}</span>
+                          <span className="text-foreground">
+                            <span className="line-through text-red-500/80">{formatAuditValue(change.before)}</span>
+                            <span className="mx-1 text-muted-foreground">&rarr;</span>
+                            <span className="font-bold text-emerald-600">{formatAuditValue(change.after)}</span>
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
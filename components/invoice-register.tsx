@@ -0,0 +1,440 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getInvoices, getApprovedStatements, getInvoiceSettings, saveInvoiceSettings, createInvoice, recordInvoicePayment, reopenInvoice, voidInvoice,
+  type ApprovalRecord,
+} from "@/lib/actions";
+import { toISODay } from "@/lib/rate-card";
+import {
+  billedVsCollected, invoiceCandidates, invoiceStatusOn, DEFAULT_INVOICE_SETTINGS,
+  type Invoice, type InvoiceDisplayStatus, type InvoiceSettings,
+} from "@/lib/invoicing";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, Legend } from "recharts";
+
+const MONTH_NAMES = [
+  "JAN", "FEB", "MAR", "APR", "MAY", "JUN",
+  "JUL", "AUG", "SEP", "OCT", "NOV", "DEC",
+];
+
+const CLIENTS = ["SBA", "SKA"];
+
+const fmtAmt = (val: number) =>
+  val === 0 ? "-" : val.toLocaleString("en-MY", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const fmtK = (v: number) => (v >= 1e6 ? `${(v / 1e6).toFixed(1)}M` : v >= 1e3 ? `${(v / 1e3).toFixed(0)}K` : `${v.toFixed(0)}`);
+
+function monthLabel(monthYear: string): string {
+  const [y, m] = monthYear.split("-").map(Number);
+  return `${MONTH_NAMES[m - 1] || "?"} ${y}`;
+}
+
+const STATUS_STYLES: Record<InvoiceDisplayStatus, string> = {
+  ISSUED: "bg-blue-500/15 text-blue-600 border-blue-500/30",
+  OVERDUE: "bg-red-500/15 text-red-600 border-red-500/30",
+  PAID: "bg-emerald-500/15 text-emerald-600 border-emerald-500/30",
+  VOID: "bg-slate-500/15 text-slate-500 border-slate-500/30",
+};
+
+const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+
+interface InvoiceRegisterProps {
+  project: string;
+  editable: boolean;
+}
+
+type Dialog =
+  | { kind: "pay"; invoice: Invoice; paid_date: string; paid_amount: string; payment_ref: string }
+  | { kind: "void"; invoice: Invoice; reason: string }
+  | { kind: "settings"; settings: InvoiceSettings };
+
+// Invoices raised from approved statements: what is ready to bill, the register with
+// payment / void actions, and billed vs. collected per statement month
+export function InvoiceRegister({ project, editable }: InvoiceRegisterProps) {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [approvals, setApprovals] = useState<ApprovalRecord[]>([]);
+  const [settings, setSettings] = useState<InvoiceSettings>(DEFAULT_INVOICE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<InvoiceDisplayStatus | "ALL">("ALL");
+  const [clientFilter, setClientFilter] = useState("ALL");
+  const [issueDate, setIssueDate] = useState(() => toISODay(new Date()) || "");
+  const [dialog, setDialog] = useState<Dialog | null>(null);
+  const [notification, setNotification] = useState<{ message: string; type: "success" | "error" } | null>(null);
+
+  const notify = (message: string, type: "success" | "error") => {
+    setNotification({ message, type });
+    setTimeout(() => setNotification(null), 3000);
+  };
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    const [inv, appr, set] = await Promise.all([getInvoices(project), getApprovedStatements(project), getInvoiceSettings(project)]);
+    setInvoices(inv);
+    setApprovals(appr);
+    setSettings(set);
+    setLoading(false);
+  }, [project]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const today = toISODay(new Date()) || "";
+  const candidates = useMemo(() => invoiceCandidates(approvals, invoices), [approvals, invoices]);
+  const months = useMemo(() => billedVsCollected(invoices, today), [invoices, today]);
+  const totals = useMemo(
+    () => months.reduce(
+      (acc, m) => ({ billed: acc.billed + m.billed, collected: acc.collected + m.collected, outstanding: acc.outstanding + m.outstanding, overdue: acc.overdue + m.overdue }),
+      { billed: 0, collected: 0, outstanding: 0, overdue: 0 }
+    ),
+    [months]
+  );
+  const chartData = months.map((m) => ({ label: monthLabel(m.month_year), Billed: m.billed, Collected: m.collected }));
+
+  const filtered = invoices.filter((inv) =>
+    (statusFilter === "ALL" || invoiceStatusOn(inv, today) === statusFilter) &&
+    (clientFilter === "ALL" || inv.client === clientFilter)
+  );
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string }>, done: string) => {
+    setBusy(true);
+    const result = await action();
+    setBusy(false);
+    if (!result.success) {
+      notify(result.error || "Failed", "error");
+      return false;
+    }
+    notify(done, "success");
+    setDialog(null);
+    await load();
+    return true;
+  };
+
+  const handleCreate = (monthYear: string, client: string) =>
+    run(async () => {
+      const r = await createInvoice(monthYear, client, project, issueDate);
+      return r.success ? { success: true } : r;
+    }, `Invoice issued for ${client} ${monthLabel(monthYear)}`);
+
+  const handleSaveDialog = () => {
+    if (!dialog) return;
+    if (dialog.kind === "pay") {
+      run(
+        () => recordInvoicePayment(dialog.invoice.id!, { paid_date: dialog.paid_date, paid_amount: Number(dialog.paid_amount), payment_ref: dialog.payment_ref }, project),
+        `${dialog.invoice.invoice_no} marked paid`
+      );
+    } else if (dialog.kind === "void") {
+      run(() => voidInvoice(dialog.invoice.id!, dialog.reason, project), `${dialog.invoice.invoice_no} voided`);
+    } else {
+      run(() => saveInvoiceSettings(project, dialog.settings), "Invoice settings saved");
+    }
+  };
+
+  const openPdf = (inv: Invoice) => {
+    window.open(`/api/invoice-pdf?${new URLSearchParams({ id: String(inv.id), project })}`, "_blank");
+  };
+
+  return (
+    <div className="space-y-3">
+      {notification && (
+        <div
+          className={`fixed top-24 right-4 z-[2000] px-6 py-3 rounded-2xl shadow-2xl text-white font-black text-[11px] uppercase tracking-widest animate-in slide-in-from-right duration-300 ${
+            notification.type === "success" ? "bg-emerald-600" : "bg-red-600"
+          }`}
+        >
+          {notification.message}
+        </div>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2">
+        {[
+          { label: "Billed", val: totals.billed, cls: "text-foreground" },
+          { label: "Collected", val: totals.collected, cls: "text-emerald-600" },
+          { label: "Outstanding", val: totals.outstanding, cls: "text-blue-600" },
+          { label: "Overdue", val: totals.overdue, cls: "text-red-600" },
+        ].map((c) => (
+          <div key={c.label} className="rounded-xl border border-border bg-card px-3 py-2">
+            <p className="text-[8px] font-bold text-muted-foreground uppercase tracking-wider">{c.label}</p>
+            <p className={`text-base font-black tabular-nums ${c.cls}`}>RM {fmtAmt(c.val)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-3">
+        {/* Billed vs collected */}
+        <div className="lg:col-span-2 rounded-xl border border-border bg-card p-3">
+          <p className="text-[10px] font-black uppercase tracking-wider text-muted-foreground mb-2">Billed vs. Collected by Statement Month</p>
+          {chartData.length === 0 ? (
+            <p className="text-[11px] text-muted-foreground text-center py-16">No invoices yet</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={chartData} margin={{ top: 4, right: 8, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#94a3b8" strokeOpacity={0.2} vertical={false} />
+                <XAxis dataKey="label" tick={{ fontSize: 9, fontWeight: 700 }} />
+                <YAxis tickFormatter={fmtK} tick={{ fontSize: 9 }} width={40} />
+                <Tooltip formatter={(v: number) => `RM ${fmtAmt(v)}`} contentStyle={{ fontSize: 10 }} />
+                <Legend wrapperStyle={{ fontSize: 10, fontWeight: 700 }} />
+                <Bar dataKey="Billed" fill="#1e40af" radius={[3, 3, 0, 0]} />
+                <Bar dataKey="Collected" fill="#10b981" radius={[3, 3, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
+        </div>
+
+        {/* Ready to invoice */}
+        <div className="rounded-xl border border-border bg-card p-3 flex flex-col">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[10px] font-black uppercase tracking-wider text-muted-foreground">Approved, Not Invoiced</p>
+            {editable && (
+              <button
+                type="button"
+                onClick={() => setDialog({ kind: "settings", settings: { ...settings, bill_to: { ...settings.bill_to } } })}
+                className="text-[9px] font-black uppercase text-blue-600 hover:underline"
+              >
+                Settings
+              </button>
+            )}
+          </div>
+          {editable && candidates.length > 0 && (
+            <div className="flex items-center gap-2 mb-2">
+              <label className="text-[9px] font-black uppercase text-muted-foreground shrink-0">Issue date</label>
+              <input type="date" value={issueDate} onChange={(e) => setIssueDate(e.target.value)} className={inputCls} />
+            </div>
+          )}
+          <div className="flex-1 overflow-y-auto max-h-48 space-y-1" style={{ scrollbarWidth: "thin" }}>
+            {loading ? null : candidates.length === 0 ? (
+              <p className="text-[11px] text-muted-foreground text-center py-6">Every approved statement is invoiced</p>
+            ) : (
+              candidates.map((c) => (
+                <div key={`${c.month_year}-${c.client}`} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg bg-muted/50">
+                  <div>
+                    <p className="text-[11px] font-black">{monthLabel(c.month_year)} &middot; {c.client}</p>
+                    <p className="text-[9px] text-muted-foreground tabular-nums">
+                      {c.approved_total === null ? "Approved before amounts were frozen" : `RM ${fmtAmt(c.approved_total)} before ${settings.tax_label}`}
+                    </p>
+                  </div>
+                  {editable && (
+                    <button
+                      type="button"
+                      disabled={busy}
+                      onClick={() => handleCreate(c.month_year, c.client)}
+                      className="px-2.5 py-1 rounded-md text-[9px] font-black uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 transition-colors"
+                    >
+                      Invoice
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Register */}
+      <div className="flex items-center gap-2" data-no-print>
+        <select value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as InvoiceDisplayStatus | "ALL")} className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none">
+          <option value="ALL">All Statuses</option>
+          <option value="ISSUED">Issued</option>
+          <option value="OVERDUE">Overdue</option>
+          <option value="PAID">Paid</option>
+          <option value="VOID">Void</option>
+        </select>
+        <select value={clientFilter} onChange={(e) => setClientFilter(e.target.value)} className="bg-muted border border-border rounded-lg px-2.5 py-1 text-[11px] font-bold outline-none">
+          <option value="ALL">All Clients</option>
+          {CLIENTS.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500" />
+        </div>
+      ) : (
+        <div className="rounded-xl border border-border bg-card overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full text-[11px]">
+              <thead>
+                <tr className="bg-muted/50 border-b border-border text-[9px] font-black uppercase tracking-wider text-muted-foreground">
+                  <th className="px-3 py-2 text-left">Invoice No</th>
+                  <th className="px-3 py-2 text-left">Period</th>
+                  <th className="px-3 py-2 text-left">Issued</th>
+                  <th className="px-3 py-2 text-left">Due</th>
+                  <th className="px-3 py-2 text-right">Subtotal</th>
+                  <th className="px-3 py-2 text-right">Tax</th>
+                  <th className="px-3 py-2 text-right">Total</th>
+                  <th className="px-3 py-2 text-left">Status</th>
+                  <th className="px-3 py-2 text-right" data-no-print></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.length === 0 && (
+                  <tr>
+                    <td colSpan={9} className="px-3 py-10 text-center text-muted-foreground">No invoices match</td>
+                  </tr>
+                )}
+                {filtered.map((inv) => {
+                  const status = invoiceStatusOn(inv, today);
+                  return (
+                    <tr key={inv.id} className={`border-b border-border hover:bg-muted/30 ${inv.status === "VOID" ? "opacity-50" : ""}`}>
+                      <td className="px-3 py-1.5 font-black font-mono">{inv.invoice_no}</td>
+                      <td className="px-3 py-1.5 font-bold">{monthLabel(inv.month_year)} &middot; {inv.client}</td>
+                      <td className="px-3 py-1.5 tabular-nums">{inv.issue_date}</td>
+                      <td className={`px-3 py-1.5 tabular-nums ${status === "OVERDUE" ? "text-red-600 font-bold" : ""}`}>{inv.due_date}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums">{fmtAmt(inv.subtotal)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums text-muted-foreground">{fmtAmt(inv.tax_amount)}</td>
+                      <td className="px-3 py-1.5 text-right tabular-nums font-black">{fmtAmt(inv.total)}</td>
+                      <td className="px-3 py-1.5">
+                        <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-wider ${STATUS_STYLES[status]}`}>{status}</span>
+                        {inv.status === "PAID" && (
+                          <span className="ml-1.5 text-[9px] text-muted-foreground">{inv.paid_date}{inv.payment_ref ? ` - ${inv.payment_ref}` : ""}</span>
+                        )}
+                        {inv.status === "VOID" && inv.void_reason && (
+                          <span className="ml-1.5 text-[9px] text-muted-foreground">{inv.void_reason}</span>
+                        )}
+                      </td>
+                      <td className="px-3 py-1.5 text-right whitespace-nowrap" data-no-print>
+                        <div className="flex items-center justify-end gap-1.5">
+                          <button type="button" onClick={() => openPdf(inv)} className="text-[9px] font-black uppercase text-slate-600 hover:underline">PDF</button>
+                          {editable && inv.status === "ISSUED" && (
+                            <>
+                              <button
+                                type="button"
+                                onClick={() => setDialog({ kind: "pay", invoice: inv, paid_date: today, paid_amount: String(inv.total), payment_ref: "" })}
+                                className="text-[9px] font-black uppercase text-emerald-600 hover:underline"
+                              >
+                                Paid
+                              </button>
+                              <button type="button" onClick={() => setDialog({ kind: "void", invoice: inv, reason: "" })} className="text-[9px] font-black uppercase text-red-600 hover:underline">Void</button>
+                            </>
+                          )}
+                          {editable && inv.status === "PAID" && (
+                            <button
+                              type="button"
+                              disabled={busy}
+                              onClick={() => run(() => reopenInvoice(inv.id!, project), `${inv.invoice_no} reopened`)}
+                              className="text-[9px] font-black uppercase text-amber-600 hover:underline disabled:opacity-40"
+                            >
+                              Reopen
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+      <p className="text-[10px] text-muted-foreground px-1">
+        Amounts are billed from the approved statement snapshot. Overdue = issued and past the due date. Void an invoice to re-issue that month under a new number.
+      </p>
+
+      {dialog && (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+          <div className="bg-card rounded-2xl w-full max-w-md shadow-2xl border border-border flex flex-col max-h-[85vh]">
+            <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+              <h3 className="text-xs font-black uppercase tracking-wider text-white">
+                {dialog.kind === "pay" ? `Record Payment - ${dialog.invoice.invoice_no}` : dialog.kind === "void" ? `Void ${dialog.invoice.invoice_no}` : "Invoice Settings"}
+              </h3>
+              <button type="button" onClick={() => setDialog(null)} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+            </div>
+
+            <div className="px-5 py-4 space-y-3 overflow-y-auto">
+              {dialog.kind === "pay" && (
+                <>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelCls}>Date Received</label>
+                      <input type="date" value={dialog.paid_date} onChange={(e) => setDialog({ ...dialog, paid_date: e.target.value })} className={inputCls} />
+                    </div>
+                    <div>
+                      <label className={labelCls}>Amount (RM)</label>
+                      <input type="number" step="0.01" min="0" value={dialog.paid_amount} onChange={(e) => setDialog({ ...dialog, paid_amount: e.target.value })} className={inputCls} />
+                    </div>
+                  </div>
+                  <div>
+                    <label className={labelCls}>Payment Reference</label>
+                    <input value={dialog.payment_ref} onChange={(e) => setDialog({ ...dialog, payment_ref: e.target.value })} placeholder="e.g. bank transfer ref." className={inputCls} />
+                  </div>
+                  {Number(dialog.paid_amount) < dialog.invoice.total ? (
+                    <p className="text-[10px] font-bold text-red-600">Less than the invoice total of RM {fmtAmt(dialog.invoice.total)} -- record the payment once it is settled in full</p>
+                  ) : Number(dialog.paid_amount) !== dialog.invoice.total && (
+                    <p className="text-[10px] font-bold text-amber-600">Amount differs from the invoice total of RM {fmtAmt(dialog.invoice.total)}</p>
+                  )}
+                </>
+              )}
+
+              {dialog.kind === "void" && (
+                <div>
+                  <label className={labelCls}>Reason</label>
+                  <textarea rows={3} value={dialog.reason} onChange={(e) => setDialog({ ...dialog, reason: e.target.value })} className={inputCls} placeholder="Why is this invoice cancelled?" />
+                  <p className="text-[10px] text-muted-foreground mt-1">The number stays used; {monthLabel(dialog.invoice.month_year)} {dialog.invoice.client} can then be invoiced again.</p>
+                </div>
+              )}
+
+              {dialog.kind === "settings" && (
+                <>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div>
+                      <label className={labelCls}>Number Prefix</label>
+                      <input value={dialog.settings.prefix} onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, prefix: e.target.value.toUpperCase() } })} className={inputCls} />
+                    </div>
+                    <div>
+                      <label className={labelCls}>Tax Label</label>
+                      <input value={dialog.settings.tax_label} onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, tax_label: e.target.value } })} className={inputCls} />
+                    </div>
+                    <div>
+                      <label className={labelCls}>Tax Rate (%)</label>
+                      <input type="number" step="0.01" min="0" value={dialog.settings.tax_rate} onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, tax_rate: Number(e.target.value) } })} className={inputCls} />
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className={labelCls}>Tax Registration No</label>
+                      <input value={dialog.settings.tax_reg_no} onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, tax_reg_no: e.target.value } })} className={inputCls} />
+                    </div>
+                    <div>
+                      <label className={labelCls}>Payment Terms (days)</label>
+                      <input type="number" min="0" value={dialog.settings.payment_terms_days} onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, payment_terms_days: Number(e.target.value) } })} className={inputCls} />
+                    </div>
+                  </div>
+                  {CLIENTS.map((client) => (
+                    <div key={client}>
+                      <label className={labelCls}>Bill To &middot; {client}</label>
+                      <textarea
+                        rows={3}
+                        value={dialog.settings.bill_to[client] || ""}
+                        onChange={(e) => setDialog({ ...dialog, settings: { ...dialog.settings, bill_to: { ...dialog.settings.bill_to, [client]: e.target.value } } })}
+                        placeholder="Company name, then address lines"
+                        className={inputCls}
+                      />
+                    </div>
+                  ))}
+                  <p className="text-[10px] text-muted-foreground">Changes apply to invoices issued from now on; issued invoices keep their own tax and address.</p>
+                </>
+              )}
+            </div>
+
+            <div className="px-5 py-3 border-t border-border flex justify-end gap-2 shrink-0">
+              <button type="button" onClick={() => setDialog(null)} className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-muted text-muted-foreground hover:bg-muted/80 transition-colors">
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveDialog}
+                disabled={busy || (dialog.kind === "void" && !dialog.reason.trim()) || (dialog.kind === "pay" && Number(dialog.paid_amount) < dialog.invoice.total)}
+                className={`px-4 py-1.5 rounded-lg text-[10px] font-black uppercase text-white disabled:opacity-40 transition-colors ${dialog.kind === "void" ? "bg-red-600 hover:bg-red-500" : "bg-emerald-600 hover:bg-emerald-500"}`}
+              >
+                {busy ? "Saving..." : dialog.kind === "pay" ? "Mark Paid" : dialog.kind === "void" ? "Void Invoice" : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
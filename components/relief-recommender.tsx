@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { PivotedCrewRow } from "@/lib/types";
+import { getMatrixData } from "@/lib/actions";
+import { formatDate, getTradeType, shortenPost } from "@/lib/logic";
+import { CLIENT_LOCATION_MAP } from "@/lib/client-location-map";
+import {
+  recommendRelief, isReliefRow, RELIEF_REQUIRED_CERTS,
+  type ReliefCandidate, type ReliefCert, type ReliefCrew, type ReliefRequest,
+} from "@/lib/relief-recommender";
+
+interface ReliefRecommenderProps {
+  rows: PivotedCrewRow[];
+  crew: ReliefCrew[];
+  initial?: { location?: string; from?: string; to?: string };
+  onClose: () => void;
+  // `site` is a regular row at the location, used for the relief row's post/client
+  onAccept: (candidate: ReliefCandidate, request: ReliefRequest, site: PivotedCrewRow) => Promise<boolean>;
+}
+
+// Pick a location and dates; lists eligible relief crew, most rested first
+export function ReliefRecommender({ rows, crew, initial, onClose, onAccept }: ReliefRecommenderProps) {
+  const [location, setLocation] = useState(initial?.location || "");
+  const [from, setFrom] = useState(initial?.from || "");
+  const [to, setTo] = useState(initial?.to || "");
+  const [certs, setCerts] = useState<ReliefCert[] | null>(null);
+  const [showExcluded, setShowExcluded] = useState(false);
+  const [accepting, setAccepting] = useState<string | null>(null);
+
+  useEffect(() => {
+    getMatrixData().then((res) => setCerts(res.success ? res.data || [] : []));
+  }, []);
+
+  const locations = useMemo(() => {
+    const locs = new Set(rows.map((r) => r.location).filter(Boolean));
+    if (initial?.location) locs.add(initial.location);
+    return Array.from(locs).sort();
+  }, [rows, initial?.location]);
+
+  // A rostered row at the location, else a stand-in from CLIENT_LOCATION_MAP for an empty location
+  const site = useMemo((): PivotedCrewRow | undefined => {
+    const rostered = rows.find((r) => r.location === location && !isReliefRow(r)) || rows.find((r) => r.location === location);
+    if (rostered || !location) return rostered;
+    for (const [client, posts] of Object.entries(CLIENT_LOCATION_MAP)) {
+      for (const [post, locs] of Object.entries(posts)) {
+        if (locs.includes(location)) return { crew_id: "", crew_name: "", post, client, location, cycles: {} };
+      }
+    }
+    return undefined;
+  }, [rows, location]);
+  const trade = site ? getTradeType(site.post) : null;
+
+  const result = useMemo(() => {
+    if (!certs || !trade || !from || !to || to <= from) return null;
+    return recommendRelief({ location, trade, from, to }, crew, rows, certs);
+  }, [certs, trade, location, from, to, crew, rows]);
+
+  const handleAccept = async (candidate: ReliefCandidate) => {
+    if (!site || !trade) return;
+    setAccepting(candidate.crew.id);
+    const ok = await onAccept(candidate, { location, trade, from, to }, site);
+    setAccepting(null);
+    if (ok) onClose();
+  };
+
+  const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+  const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-3xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Find Relief</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">
+              Off board &middot; same trade &middot; valid {RELIEF_REQUIRED_CERTS.join(" / ")}
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+        </div>
+
+        <div className="px-5 py-4 grid grid-cols-3 gap-3 border-b border-border shrink-0">
+          <div>
+            <label className={labelCls}>Location</label>
+            <select value={location} onChange={(e) => setLocation(e.target.value)} className={inputCls}>
+              <option value="">-- Select --</option>
+              {locations.map((l) => <option key={l} value={l}>{l}</option>)}
+            </select>
+            {site && <p className="text-[8px] font-bold text-muted-foreground mt-1 uppercase">{site.client} &middot; {shortenPost(site.post)}</p>}
+          </div>
+          <div>
+            <label className={labelCls}>Sign On</label>
+            <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className={labelCls}>Sign Off</label>
+            <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className={inputCls} />
+          </div>
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {certs === null ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : !result ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {from && to && to <= from ? "Sign Off must be after Sign On." : "Select a location and the dates that need cover."}
+            </p>
+          ) : (
+            <>
+              {result.candidates.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">No eligible relief for these dates.</p>
+              ) : (
+                <table className="w-full text-[10px]">
+                  <thead>
+                    <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                      <th className="text-left py-1.5">Crew</th>
+                      <th className="text-left py-1.5">Home Site</th>
+                      <th className="text-right py-1.5">Rest Days</th>
+                      <th className="text-left py-1.5 pl-3">Last Sign Off</th>
+                      {RELIEF_REQUIRED_CERTS.map((c) => <th key={c} className="text-left py-1.5">{c}</th>)}
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.candidates.map((cand) => (
+                      <tr key={cand.crew.id} className="border-b border-border/50">
+                        <td className="py-1.5 font-bold text-foreground">{cand.crew.clean_name || cand.crew.crew_name}</td>
+                        <td className="py-1.5 text-muted-foreground">{cand.crew.location || "-"}</td>
+                        <td className="py-1.5 text-right font-black tabular-nums">{cand.restDays ?? "-"}</td>
+                        <td className="py-1.5 pl-3 font-mono">{cand.lastSignOff ? formatDate(cand.lastSignOff) : "Never"}</td>
+                        {RELIEF_REQUIRED_CERTS.map((c) => (
+                          <td key={c} className="py-1.5 font-mono text-emerald-600">{formatDate(cand.certExpiry[c])}</td>
+                        ))}
+                        <td className="py-1.5 text-right">
+                          <button
+                            type="button"
+                            onClick={() => handleAccept(cand)}
+                            disabled={accepting !== null}
+                            className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+                          >
+                            {accepting === cand.crew.id ? "Saving..." : "Accept"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {result.excluded.length > 0 && (
+                <div className="mt-3">
+                  <button type="button" onClick={() => setShowExcluded((v) => !v)} className="text-[9px] font-black uppercase tracking-wider text-muted-foreground hover:text-foreground">
+                    {showExcluded ? "Hide" : "Show"} {result.excluded.length} not eligible
+                  </button>
+                  {showExcluded && (
+                    <ul className="mt-1.5 space-y-0.5">
+                      {result.excluded.map((ex) => (
+                        <li key={ex.crew.id} className="text-[10px] flex gap-2">
+                          <span className="font-bold text-foreground">{ex.crew.clean_name || ex.crew.crew_name}</span>
+                          <span className="text-red-500">{ex.reason}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import type { PivotedCrewRow } from "@/lib/types";
+import { formatDate } from "@/lib/logic";
+import { readSpreadsheet } from "@/lib/spreadsheet";
+import { previewRosterImport, type ImportCrew, type ImportedCycle, type RosterImportPreview } from "@/lib/roster-import";
+
+interface RosterImportProps {
+  rows: PivotedCrewRow[];
+  crew: ImportCrew[];
+  onClose: () => void;
+  onCommit: (changes: ImportedCycle[]) => Promise<boolean>;
+}
+
+const changeKey = (c: ImportedCycle) => `${c.crew_id}::${c.crew_name}::${c.cycle_number}`;
+
+const KIND_STYLES: Record<ImportedCycle["kind"], string> = {
+  CREATE: "bg-emerald-500/15 text-emerald-600 border-emerald-500/30",
+  UPDATE: "bg-blue-500/15 text-blue-600 border-blue-500/30",
+  CLEAR: "bg-red-500/15 text-red-600 border-red-500/30",
+};
+
+// Upload a client roster sheet, review the cycle diff row by row, apply the accepted changes
+export function RosterImport({ rows, crew, onClose, onCommit }: RosterImportProps) {
+  const [fileName, setFileName] = useState("");
+  const [preview, setPreview] = useState<RosterImportPreview | null>(null);
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  const [error, setError] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+  const [committing, setCommitting] = useState(false);
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setPreview(null);
+    setError(null);
+    setReading(true);
+    try {
+      const result = previewRosterImport(await readSpreadsheet(file), rows, crew);
+      if (typeof result === "string") {
+        setError(result);
+      } else {
+        setPreview(result);
+        // Clearing dates is never assumed -- blank cells are opt-in
+        setAccepted(new Set(result.changes.filter((c) => c.kind !== "CLEAR").map(changeKey)));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not read the file");
+    }
+    setReading(false);
+  };
+
+  const toggle = (key: string) => {
+    const next = new Set(accepted);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setAccepted(next);
+  };
+
+  const selected = preview ? preview.changes.filter((c) => accepted.has(changeKey(c))) : [];
+
+  const handleCommit = async () => {
+    if (selected.length === 0) return;
+    setCommitting(true);
+    const ok = await onCommit(selected);
+    setCommitting(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-4xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Import Roster</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">
+              .xlsx or .csv &middot; m1/d1 .. m24/d24 per crew, or one row per cycle
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+        </div>
+
+        <div className="px-5 py-3 flex items-center gap-3 border-b border-border shrink-0">
+          <label className={`px-3 py-1.5 rounded-lg text-[10px] font-black uppercase cursor-pointer bg-blue-600 text-white hover:bg-blue-500 transition-colors ${reading ? "opacity-50 pointer-events-none" : ""}`}>
+            {reading ? "Reading..." : "Choose File"}
+            <input
+              type="file"
+              className="hidden"
+              accept=".xlsx,.csv"
+              onChange={(e) => { const f = e.target.files?.[0]; if (f) handleFile(f); e.target.value = ""; }}
+            />
+          </label>
+          <span className="text-[10px] font-bold text-muted-foreground truncate">{fileName}</span>
+          {preview && (
+            <span className="ml-auto text-[9px] font-black uppercase text-muted-foreground">
+              {preview.layout} layout &middot; {preview.unchanged} unchanged
+            </span>
+          )}
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {error ? (
+            <p className="text-xs font-bold text-red-600 text-center py-6">{error}</p>
+          ) : !preview ? (
+            <p className="text-xs text-muted-foreground text-center py-6">Choose a roster sheet to preview its changes against the current roster.</p>
+          ) : (
+            <>
+              {preview.issues.length > 0 && (
+                <div className="mb-3 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 space-y-0.5 max-h-32 overflow-y-auto">
+                  {preview.issues.map((issue, i) => (
+                    <p key={i} className={`text-[10px] font-semibold ${issue.severity === "error" ? "text-red-600" : "text-amber-700"}`}>
+                      Line {issue.line} &middot; {issue.crew_name}: {issue.message}
+                    </p>
+                  ))}
+                </div>
+              )}
+              {preview.changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">The roster already matches this sheet.</p>
+              ) : (
+                <table className="w-full text-[10px]">
+                  <thead>
+                    <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                      <th className="w-8 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={selected.length === preview.changes.length}
+                          onChange={(e) => setAccepted(new Set(e.target.checked ? preview.changes.map(changeKey) : []))}
+                        />
+                      </th>
+                      <th className="text-left py-1.5">Line</th>
+                      <th className="text-left py-1.5">Crew</th>
+                      <th className="text-left py-1.5">Cycle</th>
+                      <th className="text-left py-1.5">Change</th>
+                      <th className="text-left py-1.5">Current</th>
+                      <th className="text-left py-1.5">Imported</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.changes.map((c) => {
+                      const key = changeKey(c);
+                      return (
+                        <tr key={key} onClick={() => toggle(key)} className={`border-b border-border/50 cursor-pointer hover:bg-muted/50 ${accepted.has(key) ? "" : "opacity-50"}`}>
+                          <td className="py-1.5 text-center">
+                            <input type="checkbox" checked={accepted.has(key)} onChange={() => toggle(key)} onClick={(e) => e.stopPropagation()} />
+                          </td>
+                          <td className="py-1.5 font-mono text-muted-foreground">{c.line}</td>
+                          <td className="py-1.5 font-bold text-foreground">
+                            {c.crew_name}
+                            <span className="ml-1.5 font-medium text-muted-foreground">{c.location}</span>
+                          </td>
+                          <td className="py-1.5 font-mono">{c.cycle_number}</td>
+                          <td className="py-1.5">
+                            <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-wider ${KIND_STYLES[c.kind]}`}>{c.kind}</span>
+                          </td>
+                          <td className="py-1.5 text-muted-foreground line-through">
+                            {c.before && (c.before.sign_on || c.before.sign_off) ? `${formatDate(c.before.sign_on)} - ${formatDate(c.before.sign_off)}` : ""}
+                          </td>
+                          <td className="py-1.5 font-bold text-emerald-600">
+                            {c.after.sign_on || c.after.sign_off ? `${formatDate(c.after.sign_on)} - ${formatDate(c.after.sign_off)}` : "-"}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-border flex items-center justify-between shrink-0">
+          <span className="text-[10px] font-bold text-muted-foreground">
+            {preview ? `${selected.length} of ${preview.changes.length} change${preview.changes.length === 1 ? "" : "s"} accepted` : ""}
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-muted text-muted-foreground hover:bg-muted/80 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={selected.length === 0 || committing}
+              className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+            >
+              {committing ? "Writing..." : "Apply Accepted"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { PivotedCrewRow } from "@/lib/types";
+import { formatDate } from "@/lib/logic";
+import { planRotation, ROTATION_PATTERNS, MAX_CYCLES, type RotationPattern, type PlannedCycle } from "@/lib/rotation-planner";
+
+interface RotationPlannerProps {
+  rows: PivotedCrewRow[];
+  resignDates: Record<string, string | null | undefined>; // crew_id -> resign_date
+  onClose: () => void;
+  onCommit: (changes: PlannedCycle[]) => Promise<boolean>;
+}
+
+const rowKey = (r: PivotedCrewRow) => `${r.crew_id}::${r.crew_name}`;
+
+const KIND_STYLES: Record<PlannedCycle["kind"], string> = {
+  CREATE: "bg-emerald-500/15 text-emerald-600 border-emerald-500/30",
+  UPDATE: "bg-blue-500/15 text-blue-600 border-blue-500/30",
+  CLEAR: "bg-red-500/15 text-red-600 border-red-500/30",
+};
+
+function todayISO(offsetMonths = 0): string {
+  const d = new Date();
+  d.setMonth(d.getMonth() + offsetMonths);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+// Pick a location, its two back-to-back medics and a pattern; preview the cycle diff, then commit
+export function RotationPlanner({ rows, resignDates, onClose, onCommit }: RotationPlannerProps) {
+  const [location, setLocation] = useState("");
+  const [medicA, setMedicA] = useState("");
+  const [medicB, setMedicB] = useState("");
+  const [pattern, setPattern] = useState<RotationPattern>("14/14");
+  const [start, setStart] = useState(todayISO());
+  const [until, setUntil] = useState(todayISO(12));
+  const [committing, setCommitting] = useState(false);
+
+  const locations = useMemo(() => Array.from(new Set(rows.map((r) => r.location).filter(Boolean))).sort(), [rows]);
+  const atLocation = useMemo(() => rows.filter((r) => r.location === location), [rows, location]);
+
+  const rowA = atLocation.find((r) => rowKey(r) === medicA);
+  const rowB = atLocation.find((r) => rowKey(r) === medicB);
+
+  const plan = useMemo(() => {
+    if (!rowA || !rowB || rowA === rowB || !start || !until || until <= start) return null;
+    return planRotation(
+      [
+        { row: rowA, resignDate: resignDates[rowA.crew_id] },
+        { row: rowB, resignDate: resignDates[rowB.crew_id] },
+      ],
+      pattern,
+      start,
+      until
+    );
+  }, [rowA, rowB, pattern, start, until, resignDates]);
+
+  const handleCommit = async () => {
+    if (!plan || plan.changes.length === 0) return;
+    setCommitting(true);
+    const ok = await onCommit(plan.changes);
+    setCommitting(false);
+    if (ok) onClose();
+  };
+
+  const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+  const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-3xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Rotation Planner</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">
+              Back-to-back hitches &middot; up to cycle {MAX_CYCLES} &middot; stops at resign date
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+        </div>
+
+        <div className="px-5 py-4 grid grid-cols-2 md:grid-cols-3 gap-3 border-b border-border shrink-0">
+          <div>
+            <label className={labelCls}>Location</label>
+            <select value={location} onChange={(e) => { setLocation(e.target.value); setMedicA(""); setMedicB(""); }} className={inputCls}>
+              <option value="">-- Select --</option>
+              {locations.map((l) => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelCls}>Medic A (first hitch)</label>
+            <select value={medicA} onChange={(e) => setMedicA(e.target.value)} disabled={!location} className={inputCls}>
+              <option value="">-- Select --</option>
+              {atLocation.map((r) => <option key={rowKey(r)} value={rowKey(r)} disabled={rowKey(r) === medicB}>{r.crew_name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelCls}>Medic B</label>
+            <select value={medicB} onChange={(e) => setMedicB(e.target.value)} disabled={!location} className={inputCls}>
+              <option value="">-- Select --</option>
+              {atLocation.map((r) => <option key={rowKey(r)} value={rowKey(r)} disabled={rowKey(r) === medicA}>{r.crew_name}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelCls}>Pattern</label>
+            <select value={pattern} onChange={(e) => setPattern(e.target.value as RotationPattern)} className={inputCls}>
+              {Object.keys(ROTATION_PATTERNS).map((p) => <option key={p} value={p}>{p}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelCls}>First Sign On</label>
+            <input type="date" value={start} onChange={(e) => setStart(e.target.value)} className={inputCls} />
+          </div>
+          <div>
+            <label className={labelCls}>Plan Until</label>
+            <input type="date" value={until} onChange={(e) => setUntil(e.target.value)} className={inputCls} />
+          </div>
+        </div>
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {!plan ? (
+            <p className="text-xs text-muted-foreground text-center py-6">
+              {until && start && until <= start ? "Plan Until must be after First Sign On." : "Select a location, two medics and a pattern to preview the cycles."}
+            </p>
+          ) : (
+            <>
+              {plan.warnings.length > 0 && (
+                <div className="mb-3 px-3 py-2 rounded-lg bg-amber-50 border border-amber-200 space-y-0.5">
+                  {plan.warnings.map((w, i) => (
+                    <p key={i} className="text-[10px] font-semibold text-amber-700">{w}</p>
+                  ))}
+                </div>
+              )}
+              {plan.changes.length === 0 ? (
+                <p className="text-xs text-muted-foreground text-center py-6">The roster already matches this plan.</p>
+              ) : (
+                <table className="w-full text-[10px]">
+                  <thead>
+                    <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                      <th className="text-left py-1.5">Crew</th>
+                      <th className="text-left py-1.5">Cycle</th>
+                      <th className="text-left py-1.5">Change</th>
+                      <th className="text-left py-1.5">Current</th>
+                      <th className="text-left py-1.5">Planned</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {plan.changes.map((c) => (
+                      <tr key={`${c.crew_id}::${c.crew_name}::${c.cycle_number}`} className="border-b border-border/50">
+                        <td className="py-1.5 font-bold text-foreground">{c.crew_name}</td>
+                        <td className="py-1.5 font-mono">{c.cycle_number}</td>
+                        <td className="py-1.5">
+                          <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase tracking-wider ${KIND_STYLES[c.kind]}`}>{c.kind}</span>
+                        </td>
+                        <td className="py-1.5 text-muted-foreground line-through">
+                          {c.before && (c.before.sign_on || c.before.sign_off) ? `${formatDate(c.before.sign_on)} - ${formatDate(c.before.sign_off)}` : ""}
+                        </td>
+                        <td className="py-1.5 font-bold text-emerald-600">
+                          {c.after.sign_on ? `${formatDate(c.after.sign_on)} - ${formatDate(c.after.sign_off)}` : "-"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-5 py-3 border-t border-border flex items-center justify-between shrink-0">
+          <span className="text-[10px] font-bold text-muted-foreground">
+            {plan ? `${plan.changes.length} cycle change${plan.changes.length === 1 ? "" : "s"}` : ""}
+          </span>
+          <div className="flex gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-muted text-muted-foreground hover:bg-muted/80 transition-colors">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleCommit}
+              disabled={!plan || plan.changes.length === 0 || committing}
+              className="px-4 py-1.5 rounded-lg text-[10px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+            >
+              {committing ? "Writing..." : "Commit Plan"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
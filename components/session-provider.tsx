@@ -0,0 +1,14 @@
+"use client";
+
+import React from "react";
+import { primeSession, setPermissionMatrix, getPermissionMatrix, type PagePermission } from "@/lib/auth";
+import type { AppAccessMatrix, SessionUser } from "@/lib/authz";
+
+// Hands the server-resolved user and access matrix to lib/auth before any page reads them
+export function SessionProvider({ user, permissions, children }: { user: SessionUser | null; permissions: AppAccessMatrix; children: React.ReactNode }) {
+  primeSession(user);
+  if (Object.keys(getPermissionMatrix()).length === 0) {
+    setPermissionMatrix(permissions as Record<string, PagePermission>);
+  }
+  return <>{children}</>;
+}
@@ -0,0 +1,390 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  getTrainingProviders, saveTrainingProvider, getTrainingSessions, saveTrainingSession,
+  cancelTrainingSession, getSessionClashes, enrolCrew, setEnrolmentStatus,
+} from "@/lib/actions";
+import { formatDate } from "@/lib/logic";
+import {
+  seatsTaken, seatsLeft, describeClashes,
+  type TrainingProvider, type TrainingSession, type SessionWithEnrolments, type SessionClash, type EnrolmentStatus,
+} from "@/lib/training-sessions";
+
+interface TrainingSessionsProps {
+  crew: { crew_id: string; crew_name: string }[];
+  courseNames: string[];
+  onClose: () => void;
+  // Enrolment and attendance write plan/attended/expiry dates into the matrix
+  onChanged: () => void;
+}
+
+const EMPTY_SESSION: TrainingSession = {
+  provider_id: null, course: "", start_date: "", end_date: "", venue: "", capacity: 10, status: "OPEN", notes: null,
+};
+
+const EMPTY_PROVIDER: TrainingProvider = { name: "", contact_name: null, email: null, phone: null, active: true };
+
+const ENROLMENT_BADGE: Record<EnrolmentStatus, string> = {
+  ENROLLED: "bg-blue-500/15 text-blue-600 border-blue-500/30",
+  ATTENDED: "bg-emerald-500/15 text-emerald-600 border-emerald-500/30",
+  NO_SHOW: "bg-red-500/15 text-red-600 border-red-500/30",
+  CANCELLED: "bg-slate-500/15 text-slate-500 border-slate-500/30",
+};
+
+// Providers, course sessions and seat booking for the Training page
+export function TrainingSessions({ crew, courseNames, onClose, onChanged }: TrainingSessionsProps) {
+  const [sessions, setSessions] = useState<SessionWithEnrolments[] | null>(null);
+  const [providers, setProviders] = useState<TrainingProvider[]>([]);
+  const [courseFilter, setCourseFilter] = useState("ALL");
+  const [view, setView] = useState<"list" | "providers">("list");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [draft, setDraft] = useState<TrainingSession | null>(null);
+  const [providerDraft, setProviderDraft] = useState<TrainingProvider>(EMPTY_PROVIDER);
+  const [enrolCrewId, setEnrolCrewId] = useState("");
+  const [clashes, setClashes] = useState<SessionClash[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: "error" | "warning" | "success"; text: string } | null>(null);
+
+  const load = useCallback(async () => {
+    const [s, p] = await Promise.all([getTrainingSessions(), getTrainingProviders()]);
+    setSessions(s);
+    setProviders(p);
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const selected = sessions?.find((s) => s.id === selectedId) || null;
+  const visible = useMemo(
+    () => (sessions || []).filter((s) => courseFilter === "ALL" || s.course === courseFilter),
+    [sessions, courseFilter]
+  );
+
+  // Clash check as soon as a crew member is picked, before the seat is booked
+  useEffect(() => {
+    setClashes([]);
+    if (!selectedId || !enrolCrewId) return;
+    getSessionClashes(selectedId, [enrolCrewId]).then((res) => setClashes(res[enrolCrewId] || []));
+  }, [selectedId, enrolCrewId]);
+
+  const run = async (action: () => Promise<{ success: boolean; error?: string; warnings?: string[] }>, done?: string) => {
+    setBusy(true);
+    setMessage(null);
+    const res = await action();
+    setBusy(false);
+    if (!res.success) {
+      setMessage({ type: "error", text: res.error || "Save failed" });
+      return false;
+    }
+    if (res.warnings?.length) setMessage({ type: "warning", text: res.warnings.join(" ") });
+    else if (done) setMessage({ type: "success", text: done });
+    await load();
+    onChanged();
+    return true;
+  };
+
+  const handleSaveSession = async () => {
+    if (!draft) return;
+    if (await run(() => saveTrainingSession(draft), "Session saved")) setDraft(null);
+  };
+
+  const handleEnrol = async () => {
+    if (!selectedId || !enrolCrewId) return;
+    if (await run(() => enrolCrew(selectedId, enrolCrewId), "Crew enrolled")) setEnrolCrewId("");
+  };
+
+  const handleStatus = (enrolmentId: number, status: Exclude<EnrolmentStatus, "ENROLLED">) =>
+    run(() => setEnrolmentStatus(enrolmentId, status));
+
+  const handleCancelSession = async () => {
+    if (!selected || !confirm(`Cancel ${selected.course} on ${formatDate(selected.start_date)}? All booked seats are released.`)) return;
+    await run(() => cancelTrainingSession(selected.id), "Session cancelled");
+  };
+
+  const handleSaveProvider = async () => {
+    if (await run(() => saveTrainingProvider(providerDraft), "Provider saved")) setProviderDraft(EMPTY_PROVIDER);
+  };
+
+  const enrolledIds = new Set((selected?.enrolments || []).filter((e) => e.status === "ENROLLED" || e.status === "ATTENDED").map((e) => e.crew_id));
+  const enrolName = crew.find((c) => c.crew_id === enrolCrewId)?.crew_name || "";
+
+  const inputCls = "w-full bg-muted border border-border rounded-lg px-2.5 py-1.5 text-[11px] font-bold text-foreground outline-none focus:ring-2 focus:ring-slate-400";
+  const labelCls = "text-[9px] font-black text-muted-foreground uppercase tracking-widest mb-1 block";
+  const tabCls = (active: boolean) =>
+    `px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-wider transition-colors ${active ? "bg-slate-900 text-white" : "bg-muted text-muted-foreground hover:text-foreground"}`;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[1000] flex items-center justify-center p-4 animate-in fade-in duration-200">
+      <div className="bg-card rounded-2xl w-full max-w-4xl shadow-2xl border border-border flex flex-col max-h-[85vh]">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-border bg-slate-900 rounded-t-2xl shrink-0">
+          <div>
+            <h3 className="text-xs font-black uppercase tracking-wider text-white">Training Sessions</h3>
+            <p className="text-[9px] font-bold text-blue-400 uppercase tracking-wide mt-0.5">
+              Enrolment sets plan date &middot; attendance renews expiry
+            </p>
+          </div>
+          <button type="button" onClick={onClose} className="text-white/60 hover:text-white text-lg font-bold w-7 h-7 flex items-center justify-center rounded-full hover:bg-white/20 transition-colors">&times;</button>
+        </div>
+
+        <div className="px-5 py-2.5 flex items-center gap-2 border-b border-border shrink-0">
+          <button type="button" className={tabCls(view !== "providers")} onClick={() => { setView("list"); setSelectedId(null); }}>Sessions</button>
+          <button type="button" className={tabCls(view === "providers")} onClick={() => setView("providers")}>Providers</button>
+          {view === "list" && (
+            <>
+              <select value={courseFilter} onChange={(e) => setCourseFilter(e.target.value)} className="ml-auto bg-muted border border-border rounded-lg px-2 py-1 text-[10px] font-bold">
+                <option value="ALL">All courses</option>
+                {courseNames.map((c) => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <button
+                type="button"
+                onClick={() => setDraft({ ...EMPTY_SESSION, course: courseFilter === "ALL" ? "" : courseFilter })}
+                className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 transition-colors"
+              >
+                + New Session
+              </button>
+            </>
+          )}
+        </div>
+
+        {message && (
+          <div className={`mx-5 mt-3 px-3 py-2 rounded-lg text-[10px] font-bold border ${
+            message.type === "error" ? "bg-red-500/10 text-red-600 border-red-500/30"
+              : message.type === "warning" ? "bg-amber-500/10 text-amber-600 border-amber-500/30"
+              : "bg-emerald-500/10 text-emerald-600 border-emerald-500/30"
+          }`}>
+            {message.text}
+          </div>
+        )}
+
+        <div className="px-5 py-3 overflow-y-auto flex-1 min-h-0" style={{ scrollbarWidth: "thin" }}>
+          {sessions === null ? (
+            <div className="flex items-center justify-center h-24">
+              <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-foreground" />
+            </div>
+          ) : view === "providers" ? (
+            <div className="space-y-3">
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                    <th className="text-left py-1.5">Provider</th>
+                    <th className="text-left py-1.5">Contact</th>
+                    <th className="text-left py-1.5">Email</th>
+                    <th className="text-left py-1.5">Phone</th>
+                    <th className="text-left py-1.5">Active</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {providers.map((p) => (
+                    <tr key={p.id} className="border-b border-border/50">
+                      <td className="py-1.5 font-bold text-foreground">{p.name}</td>
+                      <td className="py-1.5">{p.contact_name || "-"}</td>
+                      <td className="py-1.5">{p.email || "-"}</td>
+                      <td className="py-1.5">{p.phone || "-"}</td>
+                      <td className="py-1.5">{p.active ? "Yes" : "No"}</td>
+                      <td className="py-1.5 text-right">
+                        <button type="button" onClick={() => setProviderDraft(p)} className="text-[9px] font-black uppercase text-blue-600 hover:underline">Edit</button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <div className="grid grid-cols-5 gap-2 items-end">
+                <div>
+                  <label className={labelCls}>Name</label>
+                  <input value={providerDraft.name} onChange={(e) => setProviderDraft({ ...providerDraft, name: e.target.value })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Contact</label>
+                  <input value={providerDraft.contact_name || ""} onChange={(e) => setProviderDraft({ ...providerDraft, contact_name: e.target.value || null })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Email</label>
+                  <input value={providerDraft.email || ""} onChange={(e) => setProviderDraft({ ...providerDraft, email: e.target.value || null })} className={inputCls} />
+                </div>
+                <div>
+                  <label className={labelCls}>Phone</label>
+                  <input value={providerDraft.phone || ""} onChange={(e) => setProviderDraft({ ...providerDraft, phone: e.target.value || null })} className={inputCls} />
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1 text-[9px] font-black uppercase text-muted-foreground">
+                    <input type="checkbox" checked={providerDraft.active} onChange={(e) => setProviderDraft({ ...providerDraft, active: e.target.checked })} />
+                    Active
+                  </label>
+                  <button
+                    type="button"
+                    onClick={handleSaveProvider}
+                    disabled={busy || !providerDraft.name.trim()}
+                    className="flex-1 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+                  >
+                    {providerDraft.id ? "Update" : "Add"}
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : selected ? (
+            <div className="space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <button type="button" onClick={() => setSelectedId(null)} className="text-[9px] font-black uppercase text-muted-foreground hover:text-foreground">&larr; All sessions</button>
+                  <p className="text-sm font-black text-foreground mt-1">{selected.course} &middot; {selected.venue}</p>
+                  <p className="text-[10px] font-bold text-muted-foreground">
+                    {formatDate(selected.start_date)} - {formatDate(selected.end_date)}
+                    {selected.provider_name && <> &middot; {selected.provider_name}</>}
+                    {" "}&middot; {seatsTaken(selected)}/{selected.capacity} seats
+                  </p>
+                </div>
+                {selected.status === "OPEN" && (
+                  <div className="flex gap-2">
+                    <button type="button" onClick={() => { const { enrolments: _e, provider_name: _p, ...session } = selected; setDraft(session); }} className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-muted text-foreground hover:bg-muted/70">Edit</button>
+                    <button type="button" onClick={handleCancelSession} disabled={busy} className="px-3 py-1 rounded-lg text-[9px] font-black uppercase bg-red-600 text-white hover:bg-red-500 disabled:opacity-40">Cancel Session</button>
+                  </div>
+                )}
+              </div>
+
+              {selected.status === "OPEN" && seatsLeft(selected) > 0 && (
+                <div className="flex items-end gap-2">
+                  <div className="flex-1">
+                    <label className={labelCls}>Enrol Crew</label>
+                    <select value={enrolCrewId} onChange={(e) => setEnrolCrewId(e.target.value)} className={inputCls}>
+                      <option value="">-- Select --</option>
+                      {crew.filter((c) => !enrolledIds.has(c.crew_id)).map((c) => (
+                        <option key={c.crew_id} value={c.crew_id}>{c.crew_name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={handleEnrol}
+                    disabled={busy || !enrolCrewId}
+                    className="px-4 py-1.5 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+                  >
+                    {clashes.length ? "Enrol Anyway" : "Enrol"}
+                  </button>
+                </div>
+              )}
+              {clashes.length > 0 && (
+                <p className="px-3 py-2 rounded-lg text-[10px] font-bold border bg-amber-500/10 text-amber-600 border-amber-500/30">
+                  {describeClashes(enrolName, clashes)}
+                </p>
+              )}
+
+              <table className="w-full text-[10px]">
+                <thead>
+                  <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                    <th className="text-left py-1.5">Crew</th>
+                    <th className="text-left py-1.5">Status</th>
+                    <th className="text-left py-1.5">Enrolled By</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {selected.enrolments.length === 0 && (
+                    <tr><td colSpan={4} className="py-4 text-center text-muted-foreground">No crew enrolled yet.</td></tr>
+                  )}
+                  {selected.enrolments.map((e) => (
+                    <tr key={e.id} className="border-b border-border/50">
+                      <td className="py-1.5 font-bold text-foreground">{e.crew_name}</td>
+                      <td className="py-1.5">
+                        <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase ${ENROLMENT_BADGE[e.status]}`}>{e.status.replace("_", " ")}</span>
+                      </td>
+                      <td className="py-1.5 text-muted-foreground">{e.enrolled_by || "-"}</td>
+                      <td className="py-1.5 text-right space-x-1.5">
+                        {e.status === "ENROLLED" && (
+                          <>
+                            <button type="button" disabled={busy} onClick={() => handleStatus(e.id, "ATTENDED")} className="text-[9px] font-black uppercase text-emerald-600 hover:underline disabled:opacity-40">Attended</button>
+                            <button type="button" disabled={busy} onClick={() => handleStatus(e.id, "NO_SHOW")} className="text-[9px] font-black uppercase text-red-600 hover:underline disabled:opacity-40">No-show</button>
+                            <button type="button" disabled={busy} onClick={() => handleStatus(e.id, "CANCELLED")} className="text-[9px] font-black uppercase text-muted-foreground hover:underline disabled:opacity-40">Cancel</button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : visible.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-6">No sessions scheduled.</p>
+          ) : (
+            <table className="w-full text-[10px]">
+              <thead>
+                <tr className="text-[8px] font-black text-muted-foreground uppercase tracking-wider border-b border-border">
+                  <th className="text-left py-1.5">Course</th>
+                  <th className="text-left py-1.5">Dates</th>
+                  <th className="text-left py-1.5">Venue</th>
+                  <th className="text-left py-1.5">Provider</th>
+                  <th className="text-right py-1.5">Seats</th>
+                  <th className="text-left py-1.5 pl-3">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((s) => (
+                  <tr
+                    key={s.id}
+                    onClick={() => { setSelectedId(s.id); setEnrolCrewId(""); setMessage(null); }}
+                    className={`border-b border-border/50 cursor-pointer hover:bg-muted/50 ${s.status === "CANCELLED" ? "opacity-50" : ""}`}
+                  >
+                    <td className="py-1.5 font-bold text-foreground">{s.course}</td>
+                    <td className="py-1.5 font-mono">{formatDate(s.start_date)} - {formatDate(s.end_date)}</td>
+                    <td className="py-1.5">{s.venue}</td>
+                    <td className="py-1.5 text-muted-foreground">{s.provider_name || "-"}</td>
+                    <td className="py-1.5 text-right font-black tabular-nums">{seatsTaken(s)}/{s.capacity}</td>
+                    <td className="py-1.5 pl-3 text-[9px] font-black uppercase">{s.status}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {draft && (
+          <div className="px-5 py-4 border-t border-border grid grid-cols-4 gap-3 shrink-0">
+            <div>
+              <label className={labelCls}>Course</label>
+              <select value={draft.course} onChange={(e) => setDraft({ ...draft, course: e.target.value })} className={inputCls}>
+                <option value="">-- Select --</option>
+                {courseNames.map((c) => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Provider</label>
+              <select value={draft.provider_id ?? ""} onChange={(e) => setDraft({ ...draft, provider_id: e.target.value ? Number(e.target.value) : null })} className={inputCls}>
+                <option value="">-- None --</option>
+                {providers.filter((p) => p.active || p.id === draft.provider_id).map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelCls}>Start</label>
+              <input type="date" value={draft.start_date} onChange={(e) => setDraft({ ...draft, start_date: e.target.value })} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>End</label>
+              <input type="date" value={draft.end_date} onChange={(e) => setDraft({ ...draft, end_date: e.target.value })} className={inputCls} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelCls}>Venue</label>
+              <input value={draft.venue} onChange={(e) => setDraft({ ...draft, venue: e.target.value })} className={inputCls} />
+            </div>
+            <div>
+              <label className={labelCls}>Capacity</label>
+              <input type="number" min={1} value={draft.capacity} onChange={(e) => setDraft({ ...draft, capacity: Number(e.target.value) })} className={inputCls} />
+            </div>
+            <div className="flex items-end gap-2">
+              <button type="button" onClick={() => setDraft(null)} className="flex-1 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-muted text-foreground hover:bg-muted/70">Discard</button>
+              <button
+                type="button"
+                onClick={handleSaveSession}
+                disabled={busy}
+                className="flex-1 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-40 transition-colors"
+              >
+                {busy ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
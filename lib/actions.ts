@@ -1,7 +1,46 @@
 'use server'
 
 import { createClient, createAdminClient } from '@/lib/supabase/server'
-import type { RosterRow, PivotedCrewRow, MatrixRecord } from './types'
+import { fetchAllPages } from '@/lib/supabase/pages'
+import type { PermissionLevel, UserRole } from './auth'
+import { getSessionUser, loadAccessMatrix, invalidateAccessMatrix } from './session'
+import type { RosterRow, PivotedCrewRow, MatrixRecord, RateCardEntry, RateType, TradeType, CertDocumentVersion } from './types'
+import { RATE_TYPES, resolveRate, findOverlappingRate, toISODay } from './rate-card'
+import { freezeStatementRows, buildPayContext, calcStatementRows, type FrozenStatementLine, type StatementRow } from './pay-calc'
+import { renderStatementPdf, statementPdfFileName, statementPeriod, STATEMENT_LOGO_URL, type StatementPdfStatus } from './statement-pdf'
+import { decodePng, type PdfImage } from './pdf'
+import {
+  parseInvoiceSettings, validateInvoiceSettings, invoiceSettingsKey, formatInvoiceNo, buildInvoiceLines, invoiceAmounts, addDays,
+  type Invoice, type InvoiceSettings,
+} from './invoicing'
+import { renderInvoicePdf, invoicePdfFileName } from './invoice-pdf'
+import {
+  parsePayrollLayout, validatePayrollLayout, payrollLayoutKey, buildPayrollLines, payrollTotals, checkPayrollFit, formatPayrollExport, payrollFileName,
+  type PayrollLayout, type PayrollLine, type PayrollEmployee, type PayrollRun,
+} from './payroll'
+import { findLockedPeriods, describeLockedPeriods, type ApprovedPeriod, type LockableRow } from './roster-lock'
+import { diffRecords, actionOf, type AuditSubject, type DataAuditEntry } from './data-audit'
+import { checkCertValidity } from './cert-gate'
+import { getTradeType, pivotRosterRows } from './logic'
+import {
+  computeExpiry, findExpiryDiscrepancies, validateCourse, courseFromRow, DEFAULT_COURSES,
+  type ExpiryDiscrepancy, type CourseConfig,
+} from './courses'
+import {
+  validateSession, sessionClashes, describeClashes, enrolmentTransitionError,
+  type TrainingProvider, type TrainingSession, type TrainingEnrolment, type SessionWithEnrolments,
+  type SessionClash, type EnrolmentStatus,
+} from './training-sessions'
+import { tierChanges, type SnapshotCount, type SnapshotCrewTier, type TierChange, type TrendFilter } from './training-trend'
+import { runTrainingSnapshot } from './training-snapshot'
+import {
+  parseWorkflow, validateWorkflow, workflowSettingsKey, canActOnStage, isFinalStage, statusForStage, currentStageOf,
+  type ApprovalStage, type ApprovalHistoryEntry,
+} from './approval-workflow'
+import {
+  ROUTE_TO_PAGE_CODE, accessColumn, dbToApp, levelSatisfies, forbidden, matrixFromRows, defaultProjectFor,
+  type ForbiddenResult, type AccessMatrixRow, type AppAccessMatrix, type SessionUser,
+} from './authz'
 
 // ─── Supabase Auth: sign in with email/password ───
 
@@ -9,6 +48,7 @@ export async function signInWithEmail(email: string, password: string): Promise<
   success: boolean;
   error?: string;
   user?: { username: string; fullName: string; role: string; defaultProject: string };
+  permissions?: AppAccessMatrix;
 }> {
   const supabase = await createClient()
 
@@ -22,6 +62,9 @@ export async function signInWithEmail(email: string, password: string): Promise<
     return { success: false, error: authError?.message || 'Authentication failed' }
   }
 
+  // The access matrix travels with the login so the client never falls back to a stale copy
+  const permissions = await loadAccessMatrix()
+
   // Step 2: Fetch user profile from cms_users using admin client (bypasses RLS)
   // Real columns: id, email, crew_name, staff_id, role, phone, status
   const admin = createAdminClient()
@@ -46,11 +89,12 @@ export async function signInWithEmail(email: string, password: string): Promise<
       console.log('FINAL_SESSION_ROLE:', profileByEmail.role)
       return {
         success: true,
+        permissions,
         user: {
           username: profileByEmail.email,
           fullName: profileByEmail.crew_name || profileByEmail.email,
           role: profileByEmail.role || 'L7',
-          defaultProject: 'PCSB',
+          defaultProject: defaultProjectFor((profileByEmail.role || 'L7') as UserRole),
         },
       }
     }
@@ -59,6 +103,7 @@ export async function signInWithEmail(email: string, password: string): Promise<
     console.log('FINAL_SESSION_ROLE: FALLBACK L7 - no cms_users row for', authData.user.email)
     return {
       success: true,
+      permissions,
       user: {
         username: authData.user.email || 'user',
         fullName: authData.user.email || 'Unknown User',
@@ -71,11 +116,12 @@ export async function signInWithEmail(email: string, password: string): Promise<
   console.log('FINAL_SESSION_ROLE:', profile.role)
   return {
     success: true,
+    permissions,
     user: {
       username: profile.email,
       fullName: profile.crew_name || profile.email,
       role: profile.role || 'L7',
-      defaultProject: 'PCSB',
+      defaultProject: defaultProjectFor((profile.role || 'L7') as UserRole),
     },
   }
 }
@@ -97,9 +143,253 @@ function rosterTable(project?: string): string {
   return project === "OTHERS" ? "cms_others_roster" : "cms_pcsb_roster";
 }
 
+// ─── Authorization (cms_users role + cms_access_matrix) ───
+
+type Authorization = { ok: true; caller: SessionUser } | { ok: false; denied: ForbiddenResult }
+
+// The caller's cms_access_matrix level for one page/project (L1 always EDIT; a missing row is NONE)
+async function permissionFor(role: UserRole, page: string, project: 'PCSB' | 'OTHERS'): Promise<PermissionLevel> {
+  if (role === 'L1') return 'EDIT'
+  const matrix = await loadAccessMatrix()
+  return dbToApp(matrix[page]?.[project]?.[role])
+}
+
+// Exported actions call this first. `page` is the route the action belongs to, or the
+// routes whose screens share a read (the level on any one of them is enough);
+// null is for lookups that hold no pay or personal data, which only require a signed-in cms_users profile.
+async function authorize(page: string | string[] | null, project: string | undefined, required: PermissionLevel = 'VIEW'): Promise<Authorization> {
+  const scope = project === 'OTHERS' ? 'OTHERS' : 'PCSB'
+  const label = Array.isArray(page) ? page.join(' or ') : page
+  const caller = await getSessionUser()
+  if (!caller) return { ok: false, denied: forbidden(label, scope, required, 'Forbidden: sign in required') }
+  if (!page) return { ok: true, caller }
+
+  const pages = Array.isArray(page) ? page : [page]
+  const held = await Promise.all(pages.map((p) => permissionFor(caller.role, p, scope)))
+  if (!held.some((level) => levelSatisfies(level, required))) {
+    console.warn(`[Authz] ${caller.email} (${caller.role}) denied ${required} on ${label} (${scope})`)
+    return { ok: false, denied: forbidden(label, scope, required) }
+  }
+  return { ok: true, caller }
+}
+
+// Reads shared by several screens -- VIEW on any page that shows the data
+const ROSTER_PAGES = ['/roster', '/dashboard', '/admin', '/statement', '/financial']
+const PAY_PAGES = ['/statement', '/financial']
+const RATE_PAGES = ['/rates', '/statement', '/financial', '/staff']
+const MATRIX_PAGES = ['/training', '/admin']
+
+// ─── Roster Period Locks (approved statements in cms_pcsb_approvals) ───
+
+// L1-only escape hatch for editing an approved period; the reason is recorded
+export interface RosterLockOverride {
+  reason: string;
+}
+
+// warnings: non-blocking certificate problems the save went through with
+type RosterWriteResult = { success: boolean; error?: string; locked?: boolean; certBlocked?: boolean; warnings?: string[] }
+
+// Month/client scopes whose statements are approved for this project
+export async function getApprovedPeriods(project?: string): Promise<ApprovedPeriod[]> {
+  if (!(await authorize(null, project)).ok) return []
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('cms_pcsb_approvals')
+    .select('month_year, client')
+    .eq('project_code', project || 'PCSB')
+    .eq('submission_status', 'Approved')
+
+  if (error) {
+    console.error('[Lock] approved periods fetch error:', error.message)
+    return []
+  }
+  return (data || []) as ApprovedPeriod[]
+}
+
+// Refuse roster changes that alter an approved period unless an L1 override with a reason is given.
+// Returns null when the change may proceed.
+async function enforceRosterLock(
+  project: string | undefined,
+  changes: { rosterId?: number; before: LockableRow | null; after: LockableRow | null }[],
+  override?: RosterLockOverride
+): Promise<RosterWriteResult | null> {
+  const periods = await getApprovedPeriods(project)
+  if (periods.length === 0) return null
+
+  const hits = changes
+    .map((c) => ({ ...c, locked: findLockedPeriods(periods, c.before, c.after) }))
+    .filter((c) => c.locked.length > 0)
+  if (hits.length === 0) return null
+
+  const lockedLabel = describeLockedPeriods(
+    Array.from(new Map(hits.flatMap((h) => h.locked).map((p) => [`${p.month_year}|${p.client}`, p])).values())
+  )
+  if (!override) {
+    return { success: false, locked: true, error: `Statement already approved for ${lockedLabel} -- roster is locked for that period` }
+  }
+
+  const profile = await getSessionUser()
+  if (profile?.role !== 'L1') {
+    return { success: false, locked: true, error: 'Only L1 can override a locked statement period' }
+  }
+  // The override arrives from the browser; anything but a non-blank string is no reason
+  const reason = typeof override.reason === 'string' ? override.reason.trim() : ''
+  if (!reason) {
+    return { success: false, locked: true, error: 'A reason is required to override a locked period' }
+  }
+
+  const admin = createAdminClient()
+  const { error } = await admin.from('cms_roster_lock_overrides').insert(
+    hits.flatMap((h) => h.locked.map((p) => ({
+      project_code: project || 'PCSB',
+      month_year: p.month_year,
+      client: p.client,
+      roster_id: h.rosterId ?? null,
+      crew_name: h.after?.crew_name || h.before?.crew_name || null,
+      action: !h.before ? 'INSERT' : !h.after ? 'DELETE' : 'UPDATE',
+      reason,
+      overridden_by: profile.fullName,
+    })))
+  )
+  if (error) {
+    // An override that cannot be recorded is not allowed to go through
+    console.error('[Lock] override log error:', error.message)
+    return { success: false, error: 'Could not record override: ' + error.message }
+  }
+  return null
+}
+
+// Current rows by id -- the "before" side of a lock check
+async function fetchRosterRowsById(ids: number[], project?: string): Promise<Map<number, RosterRow>> {
+  if (ids.length === 0) return new Map()
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from(rosterTable(project))
+    .select('*')
+    .in('id', ids)
+  return new Map(((data || []) as RosterRow[]).map((r) => [r.id, r]))
+}
+
+// ─── Certificate Gate (mandatory courses in cms_pcsb_matrix) ───
+
+// Check rows whose sign_on/sign_off is being saved against the crew's certificate
+// expiries. Only PCSB crew have a training matrix; other projects are not gated.
+async function enforceCertGate(
+  project: string | undefined,
+  rows: LockableRow[]
+): Promise<{ blocked: RosterWriteResult | null; warnings: string[] }> {
+  const dated = rows.filter((r) => r.crew_id && toISODay(r.sign_off) && getTradeType(r.post))
+  if ((project || 'PCSB') !== 'PCSB' || dated.length === 0) return { blocked: null, warnings: [] }
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('cms_pcsb_matrix')
+    .select('crew_id, cert_type, expiry_date')
+    .in('crew_id', Array.from(new Set(dated.map((r) => r.crew_id!))))
+  if (error) {
+    console.error('[CertGate] matrix fetch error:', error.message)
+    return { blocked: null, warnings: ['Certificate check unavailable: ' + error.message] }
+  }
+
+  const courses = await loadCourseCatalogue('PCSB')
+  const blocking: string[] = []
+  const warnings: string[] = []
+  for (const row of dated) {
+    const certs = (data || []).filter((c) => c.crew_id === row.crew_id)
+    const issues = checkCertValidity(getTradeType(row.post)!, certs, toISODay(row.sign_off)!, courses, row.client || undefined)
+    const label = `${row.crew_name || row.crew_id}${row.cycle_number ? ` cycle ${row.cycle_number}` : ''}`
+    for (const issue of issues) (issue.level === 'BLOCK' ? blocking : warnings).push(`${label}: ${issue.message}`)
+  }
+  if (blocking.length > 0) {
+    return { blocked: { success: false, certBlocked: true, error: `Certificate check failed -- ${blocking.join('; ')}` }, warnings }
+  }
+  return { blocked: null, warnings }
+}
+
+function touchesDates(updates: Partial<RosterRow>): boolean {
+  return 'sign_on' in updates || 'sign_off' in updates
+}
+
+// ─── Data Change Audit (cms_data_audit) ───
+
+type AuditedChange = { recordId: string | number; before: object | null; after: object | null }
+
+// Page whose VIEW access is needed to read a subject's history
+const AUDIT_SUBJECT_PAGE: Record<AuditSubject, string> = { roster: '/admin', master: '/staff', matrix: '/training' }
+
+function auditTable(subject: AuditSubject, project?: string): string {
+  if (subject === 'roster') return rosterTable(project)
+  if (subject === 'master') return MASTER_TABLE
+  return 'cms_pcsb_matrix'
+}
+
+// Record what a write changed. Runs after the write succeeded, so a failed
+// audit insert is logged rather than reported as a failed save.
+async function recordDataChanges(table: string, project: string | undefined, caller: SessionUser, changes: AuditedChange[]): Promise<void> {
+  const rows: DataAuditEntry[] = changes
+    .map((c) => {
+      const before = c.before as Record<string, unknown> | null
+      const after = c.after as Record<string, unknown> | null
+      const ref = { ...before, ...after }
+      return {
+        table_name: table,
+        record_id: String(c.recordId),
+        crew_id: ref.crew_id ? String(ref.crew_id) : table === MASTER_TABLE ? String(c.recordId) : null,
+        crew_name: ref.crew_name ? String(ref.crew_name) : null,
+        project_code: project || 'PCSB',
+        action: actionOf(before, after),
+        changes: diffRecords(before, after),
+        actor: caller.fullName,
+        actor_role: caller.role,
+      }
+    })
+    .filter((r) => Object.keys(r.changes).length > 0)
+  if (rows.length === 0) return
+
+  const admin = createAdminClient()
+  const { error } = await admin.from('cms_data_audit').insert(rows)
+  if (error) console.error('[Audit] insert error:', error.message)
+}
+
+// Change history for one record (a roster cycle, crew master row or matrix cell row)
+// or for everything belonging to one crew member; newest first
+export async function getDataHistory(
+  subject: AuditSubject,
+  ref: { recordId?: string | number; crewId?: string },
+  project?: string
+): Promise<DataAuditEntry[]> {
+  if (!(await authorize(AUDIT_SUBJECT_PAGE[subject], project)).ok) return []
+  if (ref.recordId === undefined && !ref.crewId) return []
+
+  const supabase = await createClient()
+  let q = supabase
+    .from('cms_data_audit')
+    .select('*')
+    .eq('table_name', auditTable(subject, project))
+    .order('created_at', { ascending: false })
+    .limit(200)
+  if (ref.recordId !== undefined) q = q.eq('record_id', String(ref.recordId))
+  if (ref.crewId) q = q.eq('crew_id', ref.crewId)
+
+  const { data, error } = await q
+  if (error) {
+    if (error.code !== '42P01') console.error('[Audit] history fetch error:', error.message)
+    return []
+  }
+  return (data || []) as DataAuditEntry[]
+}
+
 // ─── Roster Actions (normalized: one row per crew per cycle) ───
 
 export async function getRosterData(project?: string): Promise<RosterRow[]> {
+  if (!(await authorize(ROSTER_PAGES, project)).ok) return []
+  return loadRosterRows(project)
+}
+
+// Caller is already authorized
+async function loadRosterRows(project?: string): Promise<RosterRow[]> {
   const supabase = await createClient()
 
   const { data: rosterData, error: rosterError } = await supabase
@@ -122,45 +412,27 @@ export async function getRosterData(project?: string): Promise<RosterRow[]> {
 // Fetches ONLY from cms_pcsb_roster
 // Key uses crew_id + crew_name so suffixed duplicates (e.g. "JOHN (R1)") get their own row
 export async function getPivotedRosterData(project?: string): Promise<PivotedCrewRow[]> {
-  const rows = await getRosterData(project)
-  const map = new Map<string, PivotedCrewRow>()
-
-  for (const row of rows) {
-    // Use both crew_id and crew_name as key so suffixed entries stay separate
-    const key = `${row.crew_id || ''}::${row.crew_name || ''}`
-    if (!map.has(key)) {
-      map.set(key, {
-        crew_id: row.crew_id || '',
-        crew_name: row.crew_name,
-        post: row.post,
-        client: row.client,
-        location: row.location,
-        roles_em: row.roles_em,
-        cycles: {},
-      })
-    }
-    const entry = map.get(key)!
-    if (row.cycle_number) {
-      entry.cycles[row.cycle_number] = {
-        id: row.id,
-        sign_on: row.sign_on,
-        sign_off: row.sign_off,
-        notes: row.notes,
-        relief_all: row.relief_all,
-        standby_all: row.standby_all,
-        day_relief: row.day_relief ?? null,
-        day_standby: row.day_standby ?? null,
-        is_offshore: row.is_offshore ?? null,
-        medevac_dates: row.medevac_dates ?? null,
-        al_dates: row.al_dates ?? null,
-      }
-    }
-  }
+  if (!(await authorize(ROSTER_PAGES, project)).ok) return []
+  return loadPivotedRoster(project)
+}
 
-  return Array.from(map.values())
+// Caller is already authorized
+async function loadPivotedRoster(project?: string): Promise<PivotedCrewRow[]> {
+  return pivotRosterRows(await loadRosterRows(project))
 }
 
-export async function updateRosterRow(id: number, updates: Partial<RosterRow>, project?: string): Promise<{ success: boolean; error?: string }> {
+export async function updateRosterRow(id: number, updates: Partial<RosterRow>, project?: string, override?: RosterLockOverride): Promise<RosterWriteResult> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const before = (await fetchRosterRowsById([id], project)).get(id)
+  if (!before) return { success: false, error: 'Roster row not found' }
+  const after = { ...before, ...updates }
+  const certs = touchesDates(updates) ? await enforceCertGate(project, [after]) : { blocked: null, warnings: [] }
+  if (certs.blocked) return certs.blocked
+  const lock = await enforceRosterLock(project, [{ rosterId: id, before, after }], override)
+  if (lock) return lock
+
   const supabase = await createClient()
 
   const { error } = await supabase
@@ -174,10 +446,11 @@ export async function updateRosterRow(id: number, updates: Partial<RosterRow>, p
     return { success: false, error: error.message }
   }
 
-  return { success: true }
+  await recordDataChanges(rosterTable(project), project, auth.caller, [{ recordId: id, before, after: updates }])
+  return { success: true, warnings: certs.warnings }
 }
 
-export async function createRosterRow(row: {
+export interface NewRosterRow {
   crew_id: string;
   crew_name: string;
   post: string;
@@ -186,21 +459,36 @@ export async function createRosterRow(row: {
   cycle_number?: number;
   sign_on?: string | null;
   sign_off?: string | null;
-}, project?: string): Promise<{ success: boolean; data?: RosterRow; error?: string }> {
+}
+
+// Only the columns a new cycle may set, whatever else the browser sent
+function newRosterRecord(row: NewRosterRow) {
+  return {
+    crew_id: row.crew_id,
+    crew_name: row.crew_name,
+    post: row.post,
+    client: row.client,
+    location: row.location,
+    cycle_number: row.cycle_number || 1,
+    sign_on: row.sign_on || null,
+    sign_off: row.sign_off || null,
+  }
+}
+
+export async function createRosterRow(row: NewRosterRow, project?: string, override?: RosterLockOverride): Promise<RosterWriteResult & { data?: RosterRow }> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const certs = await enforceCertGate(project, [row])
+  if (certs.blocked) return certs.blocked
+  const lock = await enforceRosterLock(project, [{ before: null, after: row }], override)
+  if (lock) return lock
+
   const supabase = await createClient()
 
   const { data: insertedRow, error } = await supabase
     .from(rosterTable(project))
-    .insert({
-      crew_id: row.crew_id,
-      crew_name: row.crew_name,
-      post: row.post,
-      client: row.client,
-      location: row.location,
-      cycle_number: row.cycle_number || 1,
-      sign_on: row.sign_on || null,
-      sign_off: row.sign_off || null,
-    })
+    .insert(newRosterRecord(row))
     .select()
     .single()
 
@@ -209,10 +497,18 @@ export async function createRosterRow(row: {
     return { success: false, error: error.message }
   }
 
-  return { success: true, data: insertedRow as RosterRow }
+  await recordDataChanges(rosterTable(project), project, auth.caller, [{ recordId: insertedRow.id, before: null, after: insertedRow }])
+  return { success: true, data: insertedRow as RosterRow, warnings: certs.warnings }
 }
 
-export async function deleteRosterRow(id: number, project?: string): Promise<{ success: boolean; error?: string }> {
+export async function deleteRosterRow(id: number, project?: string, override?: RosterLockOverride): Promise<RosterWriteResult> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const before = (await fetchRosterRowsById([id], project)).get(id) || null
+  const lock = await enforceRosterLock(project, [{ rosterId: id, before, after: null }], override)
+  if (lock) return lock
+
   const supabase = await createClient()
 
   const { error } = await supabase
@@ -225,12 +521,20 @@ export async function deleteRosterRow(id: number, project?: string): Promise<{ s
     return { success: false, error: error.message }
   }
 
+  if (before) await recordDataChanges(rosterTable(project), project, auth.caller, [{ recordId: id, before, after: null }])
   return { success: true }
 }
 
 // Delete all roster rows for a crew_id
-export async function deleteCrewFromRoster(crewId: string, project?: string): Promise<{ success: boolean; error?: string }> {
+export async function deleteCrewFromRoster(crewId: string, project?: string, override?: RosterLockOverride): Promise<RosterWriteResult> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
+
+  const { data: existing } = await supabase.from(rosterTable(project)).select('*').eq('crew_id', crewId)
+  const lock = await enforceRosterLock(project, ((existing || []) as RosterRow[]).map((r) => ({ rosterId: r.id, before: r, after: null })), override)
+  if (lock) return lock
   
   const { error } = await supabase
   .from(rosterTable(project))
@@ -242,12 +546,20 @@ export async function deleteCrewFromRoster(crewId: string, project?: string): Pr
   return { success: false, error: error.message }
   }
   
+  await recordDataChanges(rosterTable(project), project, auth.caller, ((existing || []) as RosterRow[]).map((r) => ({ recordId: r.id, before: r, after: null })))
   return { success: true }
   }
 
 // Delete roster rows for a specific crew_id + crew_name combo (for suffixed entries)
-export async function deleteCrewByName(crewId: string, crewName: string, project?: string): Promise<{ success: boolean; error?: string }> {
+export async function deleteCrewByName(crewId: string, crewName: string, project?: string, override?: RosterLockOverride): Promise<RosterWriteResult> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
+
+  const { data: existing } = await supabase.from(rosterTable(project)).select('*').eq('crew_id', crewId).eq('crew_name', crewName)
+  const lock = await enforceRosterLock(project, ((existing || []) as RosterRow[]).map((r) => ({ rosterId: r.id, before: r, after: null })), override)
+  if (lock) return lock
   
   const { error } = await supabase
   .from(rosterTable(project))
@@ -260,6 +572,7 @@ export async function deleteCrewByName(crewId: string, crewName: string, project
   return { success: false, error: error.message }
   }
   
+  await recordDataChanges(rosterTable(project), project, auth.caller, ((existing || []) as RosterRow[]).map((r) => ({ recordId: r.id, before: r, after: null })))
   return { success: true }
   }
 
@@ -287,6 +600,7 @@ export interface RecordLoginLogParams {
   error_message?: string | null;
 }
 
+// Public: failed sign-in attempts are logged before any session exists
 export async function recordLoginLog(params: RecordLoginLogParams): Promise<{ success: boolean; error?: string }> {
   try {
     const admin = createAdminClient()
@@ -314,6 +628,8 @@ export async function recordLoginLog(params: RecordLoginLogParams): Promise<{ su
 }
 
 export async function getLoginLogs(): Promise<LoginLogEntry[]> {
+  if (!(await authorize('/users', undefined)).ok) return []
+
   const admin = createAdminClient()
 
   const { data, error } = await admin
@@ -346,6 +662,8 @@ export async function getLoginLogs(): Promise<LoginLogEntry[]> {
   }
 
   export async function getSupabaseUsers(): Promise<CmsUser[]> {
+  if (!(await authorize('/users', undefined)).ok) return []
+
   const admin = createAdminClient()
   const { data, error } = await admin
   .from('cms_users')
@@ -367,6 +685,9 @@ export async function insertCmsUser(params: {
   role: string;
   phone?: string;
 }): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
   const email = params.email.trim().toLowerCase()
 
@@ -415,6 +736,9 @@ export async function updateCmsUser(params: {
   phone?: string;
   password?: string;
 }): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
 
   const { error } = await admin
@@ -454,12 +778,15 @@ export async function updateCmsUser(params: {
 }
 
 export async function deleteCmsUser(email: string): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
 
-  // Step 1: Get the user's auth UUID from cms_users
+  // Step 1: Get the user's auth UUID (and the row, for the audit trail) from cms_users
   const { data: row, error: fetchErr } = await admin
     .from('cms_users')
-    .select('id')
+    .select('*')
     .eq('email', email.toLowerCase())
     .single()
 
@@ -478,6 +805,7 @@ export async function deleteCmsUser(email: string): Promise<{ success: boolean;
     console.error('cms_users DELETE error:', error.message)
     return { success: false, error: error.message }
   }
+  await recordDataChanges('cms_users', undefined, auth.caller, [{ recordId: row.id, before: row, after: null }])
 
   // Step 3: Delete from auth.users
   const { error: authErr } = await admin.auth.admin.deleteUser(row.id)
@@ -503,6 +831,12 @@ export interface CrewMasterRecord {
 }
 
 export async function getCrewMasterData(project?: string): Promise<CrewMasterRecord[]> {
+  if (!(await authorize(PAY_PAGES, project)).ok) return []
+  return loadCrewMasterData(project)
+}
+
+// Caller is already authorized
+async function loadCrewMasterData(project?: string): Promise<CrewMasterRecord[]> {
   const supabase = await createClient()
 
   let q = supabase.from(MASTER_TABLE).select('*');
@@ -529,6 +863,9 @@ export async function getCrewMasterData(project?: string): Promise<CrewMasterRec
 // ─── Training Matrix Actions (cms_pcsb_matrix + cms_pcsb_master) ───
 
 export async function getMatrixData(): Promise<{ success: boolean; data?: MatrixRecord[]; error?: string }> {
+  const auth = await authorize(MATRIX_PAGES, undefined)
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
 
   // Fetch crew details from master table
@@ -544,7 +881,7 @@ export async function getMatrixData(): Promise<{ success: boolean; data?: Matrix
   // Fetch matrix records
   const { data: matrixData, error: matrixError } = await supabase
     .from('cms_pcsb_matrix')
-    .select('id, crew_id, cert_type, cert_no, expiry_date, attended_date, plan_date')
+    .select('id, crew_id, cert_type, cert_no, expiry_date, attended_date, plan_date, expiry_override')
 
   if (matrixError) {
     console.error('Error fetching matrix data:', matrixError)
@@ -569,6 +906,7 @@ export async function getMatrixData(): Promise<{ success: boolean; data?: Matrix
         expiry_date: row.expiry_date || null,
         attended_date: row.attended_date || null,
         plan_date: row.plan_date || null,
+        expiry_override: !!row.expiry_override,
         crew_name: crew?.crew_name || '',
         post: crew?.post || '',
         client: crew?.client || '',
@@ -605,12 +943,18 @@ export async function updateMatrixCell(
   matrixId: string,
   field: 'attended_date' | 'expiry_date' | 'plan_date' | 'cert_no',
   value: string | null
-): Promise<{ success: boolean; error?: string }> {
+): Promise<{ success: boolean; error?: string; expiry_date?: string | null }> {
+  const auth = await authorize('/training', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
+  const { data: before } = await supabase.from('cms_pcsb_matrix').select('*').eq('id', matrixId).limit(1).maybeSingle()
 
+  const courses = await loadCourseCatalogue('PCSB')
+  const changes: Record<string, string | boolean | null> = { [field]: value, ...expiryRuleFields(before, field, value, courses) }
   const { error } = await supabase
     .from('cms_pcsb_matrix')
-    .update({ [field]: value })
+    .update(changes)
     .eq('id', matrixId)
 
   if (error) {
@@ -618,7 +962,30 @@ export async function updateMatrixCell(
     return { success: false, error: error.message }
   }
 
-  return { success: true }
+  await recordDataChanges('cms_pcsb_matrix', 'PCSB', auth.caller, [{ recordId: matrixId, before: before || {}, after: changes }])
+  return { success: true, expiry_date: 'expiry_date' in changes ? (changes.expiry_date as string | null) : undefined }
+}
+
+// Course validity rule applied to a cell edit. A new attended date derives the
+// expiry unless the record's expiry was overridden by hand; a typed expiry that
+// differs from the rule becomes an override, one that matches clears it.
+function expiryRuleFields(
+  record: { cert_type?: string; attended_date?: string | null; expiry_override?: boolean } | null,
+  field: 'attended_date' | 'expiry_date' | 'plan_date' | 'cert_no',
+  value: string | null,
+  courses: CourseConfig[]
+): Record<string, string | boolean> {
+  const certType = record?.cert_type || ''
+  if (field === 'attended_date' && value && !record?.expiry_override) {
+    const expiry = computeExpiry(certType, value, courses)
+    return expiry ? { expiry_date: expiry } : {}
+  }
+  if (field === 'expiry_date') {
+    const attended = toISODay(record?.attended_date)
+    const expected = attended ? computeExpiry(certType, attended, courses) : null
+    return { expiry_override: !!value && !!expected && value !== expected }
+  }
+  return {}
 }
 
 // Create a new matrix record
@@ -628,15 +995,16 @@ export async function createMatrixRecord(
   field: 'attended_date' | 'expiry_date' | 'plan_date' | 'cert_no',
   value: string
 ): Promise<{ success: boolean; id?: string; error?: string }> {
+  const auth = await authorize('/training', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
+  const courses = await loadCourseCatalogue('PCSB')
+  const fields = { crew_id: crewId, cert_type: certType, [field]: value, ...expiryRuleFields({ cert_type: certType }, field, value, courses) }
 
   const { data, error } = await supabase
     .from('cms_pcsb_matrix')
-    .insert({
-      crew_id: crewId,
-      cert_type: certType,
-      [field]: value,
-    })
+    .insert(fields)
     .select('id')
     .single()
 
@@ -645,332 +1013,1884 @@ export async function createMatrixRecord(
     return { success: false, error: error.message }
   }
 
+  await recordDataChanges('cms_pcsb_matrix', 'PCSB', auth.caller, [{ recordId: data.id, before: null, after: fields }])
   return { success: true, id: data?.id }
 }
 
-// ─── Staff Detail Actions (cms_master_crew filtered by project) ───
+// Records whose stored expiry disagrees with their course's validity rule
+export async function getExpiryDiscrepancies(): Promise<ExpiryDiscrepancy[]> {
+  if (!(await authorize('/training', 'PCSB')).ok) return []
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('cms_pcsb_matrix')
+    .select('id, crew_id, cert_type, attended_date, expiry_date, expiry_override')
+    .not('attended_date', 'is', null)
+  if (error) {
+    console.error('[Training] expiry check error:', error.message)
+    return []
+  }
+  return findExpiryDiscrepancies(data || [], await loadCourseCatalogue('PCSB'))
+}
+
+// Reset the chosen records to the rule's expiry, dropping any manual override
+export async function applyRuleExpiries(matrixIds: string[]): Promise<{ success: boolean; updated?: number; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
 
-export async function getCrewList(project?: string): Promise<{ success: boolean; data?: { id: string; crew_name: string; clean_name: string; post: string; client: string; location: string; status?: string }[]; error?: string }> {
   const supabase = await createClient()
+  const { data, error: fetchError } = await supabase
+    .from('cms_pcsb_matrix')
+    .select('id, crew_id, cert_type, attended_date, expiry_date, expiry_override')
+    .in('id', matrixIds)
+  if (fetchError) return { success: false, error: fetchError.message }
+
+  const changes: AuditedChange[] = []
+  for (const d of findExpiryDiscrepancies(data || [], await loadCourseCatalogue('PCSB'))) {
+    const after = { expiry_date: d.expected, expiry_override: false }
+    const { error } = await supabase.from('cms_pcsb_matrix').update(after).eq('id', d.matrix_id)
+    if (error) {
+      console.error('[Training] expiry recompute error:', error.message)
+      return { success: false, error: error.message }
+    }
+    changes.push({ recordId: d.matrix_id, before: { expiry_date: d.stored, expiry_override: d.override }, after })
+  }
+  await recordDataChanges('cms_pcsb_matrix', 'PCSB', auth.caller, changes)
+  return { success: true, updated: changes.length }
+}
 
-  // Use select('*') to avoid column-not-found errors, then map to expected shape
-  let q = supabase.from(MASTER_TABLE).select('*');
-  if (project) q = q.eq('project_code', project);
-  const { data, error } = await q.order('crew_name', { ascending: true })
+// ─── Course Catalogue (cms_course_catalogue) ───
+// Per-project Training Matrix columns, validity rules and mandatory trades/clients.
+// Falls back to DEFAULT_COURSES until the table exists and is seeded.
+
+async function loadCourseCatalogue(project: string, includeInactive = false): Promise<CourseConfig[]> {
+  const supabase = await createClient()
+  let q = supabase.from('cms_course_catalogue').select('*').eq('project_code', project)
+  if (!includeInactive) q = q.eq('active', true)
+  const { data, error } = await q.order('display_order', { ascending: true }).order('name', { ascending: true })
 
   if (error) {
-    console.error('Error fetching crew list:', error)
-    return { success: false, error: error.message }
+    if (error.code !== '42P01') console.error('[Courses] catalogue fetch error:', error.message)
+    return DEFAULT_COURSES
+  }
+  if (!data || data.length === 0) {
+    // Only an unseeded project falls back; a project whose courses are all inactive shows none
+    const { count } = await supabase.from('cms_course_catalogue').select('id', { count: 'exact', head: true }).eq('project_code', project)
+    return count ? [] : DEFAULT_COURSES
   }
 
-  const mapped = (data || []).map((r: Record<string, unknown>) => ({
-    id: r.id as string,
-    crew_name: (r.crew_name as string) || '',
-    clean_name: (r.clean_name as string) || (r.crew_name as string || '').replace(/\s*\(R\)\s*/g, '').trim(),
-    post: (r.post as string) || '',
-    client: (r.client as string) || '',
-    location: (r.location as string) || '',
-    status: (r.status as string) || 'active',
-  }));
-  return { success: true, data: mapped }
+  return data.map(courseFromRow)
 }
 
+export async function getCourseCatalogue(project: string = 'PCSB', includeInactive = false): Promise<CourseConfig[]> {
+  if (!(await authorize('/training', project)).ok) return []
+  return loadCourseCatalogue(project, includeInactive)
+}
 
+// Add or edit a course. Names are fixed once created -- matrix records refer to them by name.
+export async function saveCourse(project: string, course: CourseConfig): Promise<{ success: boolean; id?: number; error?: string }> {
+  const auth = await authorize('/training', project, 'EDIT')
+  if (!auth.ok) return auth.denied
 
-export async function getCrewDetail(crewId: string, project?: string): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string }> {
   const supabase = await createClient()
-  const { data, error } = await supabase
-    .from(MASTER_TABLE)
-    .select('*')
-    .eq('id', crewId)
-    .single()
+  const { data: stored, error: fetchError } = await supabase.from('cms_course_catalogue').select('*').eq('project_code', project)
+  if (fetchError) return { success: false, error: fetchError.code === '42P01' ? 'Course catalogue table is not set up' : fetchError.message }
+
+  // An unseeded project shows DEFAULT_COURSES; store them before the first change so they stay
+  const existing = await loadCourseCatalogue(project, true)
+  const invalid = validateCourse(course, existing)
+  if (invalid) return { success: false, error: invalid }
+
+  let all = stored || []
+  if (all.length === 0) {
+    const { data: seeded, error: seedError } = await supabase
+      .from('cms_course_catalogue')
+      .insert(DEFAULT_COURSES.map((c, i) => ({
+        project_code: project,
+        name: c.name,
+        col_type: c.colType,
+        header_bg: c.headerBg,
+        validity_months: c.validityMonths || null,
+        mandatory: c.mandatory || {},
+        clients: c.clients || [],
+        display_order: i + 1,
+        updated_by: auth.caller.fullName,
+      })))
+      .select('*')
+    if (seedError) {
+      console.error('[Courses] seed error:', seedError.message)
+      return { success: false, error: seedError.message }
+    }
+    all = seeded || []
+  }
+
+  const before = course.id ? all.find((r) => Number(r.id) === course.id) : null
+  if (course.id && !before) return { success: false, error: 'Course not found' }
+  if (before && before.name !== course.name.trim()) return { success: false, error: 'Course name cannot be changed; add a new course instead' }
+
+  const payload = {
+    project_code: project,
+    name: course.name.trim(),
+    col_type: course.colType,
+    header_bg: course.headerBg,
+    validity_months: course.validityMonths || null,
+    mandatory: course.mandatory || {},
+    clients: course.clients || [],
+    display_order: course.displayOrder ?? all.length + 1,
+    active: course.active !== false,
+    updated_by: auth.caller.fullName,
+    updated_at: new Date().toISOString(),
+  }
+
+  const { data, error } = course.id
+    ? await supabase.from('cms_course_catalogue').update(payload).eq('id', course.id).select('id').single()
+    : await supabase.from('cms_course_catalogue').insert(payload).select('id').single()
 
   if (error) {
-    console.error('Error fetching crew detail:', error)
+    console.error('[Courses] save error:', error.message)
     return { success: false, error: error.message }
   }
-  return { success: true, data: data || {} }
+  await recordDataChanges('cms_course_catalogue', project, auth.caller, [{ recordId: data.id, before: before || null, after: payload }])
+  return { success: true, id: data.id }
 }
 
-export async function updateCrewDetail(crewId: string, updates: Record<string, unknown>, project?: string): Promise<{ success: boolean; error?: string }> {
+// Persist a new column order (ids first to last)
+export async function reorderCourses(project: string, ids: number[]): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/training', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
-  const { error } = await supabase
-    .from(MASTER_TABLE)
-    .update(updates)
-    .eq('id', crewId)
+  for (let i = 0; i < ids.length; i++) {
+    const { error } = await supabase
+      .from('cms_course_catalogue')
+      .update({ display_order: i + 1 })
+      .eq('id', ids[i])
+      .eq('project_code', project)
+    if (error) {
+      console.error('[Courses] reorder error:', error.message)
+      return { success: false, error: error.message }
+    }
+  }
+  return { success: true }
+}
 
+// ─── Training Compliance Trend (cms_training_snapshot_*) ───
+
+// Monthly tier counts, oldest first; the page filters and charts them with lib/training-trend.ts
+export async function getComplianceSnapshots(): Promise<SnapshotCount[]> {
+  if (!(await authorize('/training', 'PCSB')).ok) return []
+  const supabase = await createClient()
+  const { data, error } = await fetchAllPages<SnapshotCount>((from, to) => supabase
+    .from('cms_training_snapshot_counts')
+    .select('month, client, trade, course, green, yellow, orange, red, plan')
+    .order('month', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to))
   if (error) {
-    console.error('Error updating crew detail:', error)
-    return { success: false, error: error.message }
+    if (error.code !== '42P01') console.error('[Training] snapshot fetch error:', error.message)
+    return []
   }
-  return { success: true }
+  return data
 }
 
-export async function getCrewMatrix(crewId: string): Promise<{ success: boolean; data?: { id: string; cert_type: string; cert_no: string | null; expiry_date: string | null; attended_date: string | null; plan_date: string | null }[]; error?: string }> {
+// Crew whose tier moved between the snapshot before `month` and `month`
+export async function getTierChanges(month: string, filter: TrendFilter = {}): Promise<{ previousMonth: string | null; changes: TierChange[] }> {
+  if (!(await authorize('/training', 'PCSB')).ok) return { previousMonth: null, changes: [] }
   const supabase = await createClient()
-  const { data, error } = await supabase
-    .from('cms_pcsb_matrix')
-    .select('id, cert_type, cert_no, expiry_date, attended_date, plan_date')
-    .eq('crew_id', crewId)
-    .order('cert_type', { ascending: true })
 
+  const { data: prev } = await supabase
+    .from('cms_training_snapshot_counts')
+    .select('month')
+    .lt('month', month)
+    .order('month', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  const previousMonth = prev?.month || null
+
+  // One month's crew tiers. A previous-month row missing reads as no-data in
+  // tierChanges, so those are skipped; the current month keeps them, as a
+  // certificate that lost its record is a change.
+  const crewTiers = (snapshotMonth: string, skipNoData: boolean) => fetchAllPages<SnapshotCrewTier>((from, to) => {
+    let q = supabase
+      .from('cms_training_snapshot_crew')
+      .select('month, crew_id, crew_name, client, trade, course, tier')
+      .eq('month', snapshotMonth)
+    if (skipNoData) q = q.neq('tier', 'no-data')
+    if (filter.client) q = q.eq('client', filter.client)
+    if (filter.trade) q = q.eq('trade', filter.trade)
+    if (filter.course) q = q.eq('course', filter.course)
+    return q.order('id', { ascending: true }).range(from, to)
+  })
+  const [before, after] = await Promise.all([
+    previousMonth ? crewTiers(previousMonth, true) : Promise.resolve({ data: [] as SnapshotCrewTier[], error: null }),
+    crewTiers(month, false),
+  ])
+  const error = before.error || after.error
   if (error) {
-    console.error('Error fetching crew matrix:', error)
-    return { success: false, error: error.message }
+    console.error('[Training] tier change fetch error:', error.message)
+    return { previousMonth, changes: [] }
+  }
+
+  return {
+    previousMonth,
+    changes: tierChanges(before.data, after.data, filter),
   }
-  return { success: true, data: data || [] }
 }
 
-export async function getCrewRoster(crewId: string, project?: string): Promise<{ success: boolean; data?: RosterRow[]; error?: string }> {
+// Take (or re-take) this month's snapshot without waiting for the month-end job
+export async function takeTrainingSnapshot(): Promise<{ success: boolean; month?: string; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+  const summary = await runTrainingSnapshot()
+  if (summary.errors.length) return { success: false, error: summary.errors.join('; ') }
+  return { success: true, month: summary.month }
+}
+
+// ─── Training Sessions (cms_training_providers / _sessions / _enrolments) ───
+
+type MatrixDateFields = Partial<Record<'attended_date' | 'expiry_date' | 'plan_date', string | null> & { expiry_override: boolean }>
+
+// Write one crew/course cell set in cms_pcsb_matrix, creating the row when the crew has none yet
+async function writeMatrixFields(caller: SessionUser, crewId: string, certType: string, fields: MatrixDateFields): Promise<string | null> {
   const supabase = await createClient()
-  const { data, error } = await supabase
-    .from(rosterTable(project))
+  const { data: before } = await supabase
+    .from('cms_pcsb_matrix')
     .select('*')
     .eq('crew_id', crewId)
-    .order('cycle_number', { ascending: true })
+    .eq('cert_type', certType)
+    .limit(1)
+    .maybeSingle()
 
-  if (error) {
-    console.error('Error fetching crew roster:', error)
-    return { success: false, error: error.message }
+  if (before) {
+    const { error } = await supabase.from('cms_pcsb_matrix').update(fields).eq('id', before.id)
+    if (error) return error.message
+    await recordDataChanges('cms_pcsb_matrix', 'PCSB', caller, [{ recordId: before.id, before, after: fields }])
+    return null
   }
-  return { success: true, data: data || [] }
+
+  const { data, error } = await supabase
+    .from('cms_pcsb_matrix')
+    .insert({ crew_id: crewId, cert_type: certType, ...fields })
+    .select('id')
+    .single()
+  if (error) return error.message
+  await recordDataChanges('cms_pcsb_matrix', 'PCSB', caller, [{ recordId: data.id, before: null, after: { crew_id: crewId, cert_type: certType, ...fields } }])
+  return null
 }
 
-export async function listCrewDocuments(crewId: string): Promise<{ success: boolean; data?: { name: string; size: number; created_at: string }[]; error?: string }> {
+export async function getTrainingProviders(): Promise<TrainingProvider[]> {
+  if (!(await authorize('/training', 'PCSB')).ok) return []
   const supabase = await createClient()
-  const { data, error } = await supabase.storage
-    .from('pcsb-doc')
-    .list(crewId, { limit: 100, sortBy: { column: 'created_at', order: 'desc' } })
+  const { data, error } = await supabase.from('cms_training_providers').select('*').order('name')
+  if (error) {
+    if (error.code !== '42P01') console.error('[Training] providers fetch error:', error.message)
+    return []
+  }
+  return (data || []) as TrainingProvider[]
+}
 
+export async function saveTrainingProvider(provider: TrainingProvider): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (!provider.name.trim()) return { success: false, error: 'Provider name is required' }
+
+  const supabase = await createClient()
+  const { id, ...fields } = provider
+  const { error } = id
+    ? await supabase.from('cms_training_providers').update(fields).eq('id', id)
+    : await supabase.from('cms_training_providers').insert(fields)
   if (error) {
-    console.error('Error listing crew documents:', error)
+    console.error('[Training] provider save error:', error.message)
     return { success: false, error: error.message }
   }
-  return { success: true, data: (data || []).map(f => ({ name: f.name, size: f.metadata?.size || 0, created_at: f.created_at || '' })) }
+  return { success: true }
 }
 
-export async function deleteCrewDocument(crewId: string, fileName: string): Promise<{ success: boolean; error?: string }> {
+// Sessions with provider name and enrolments (crew names from the master), soonest first
+export async function getTrainingSessions(): Promise<SessionWithEnrolments[]> {
+  if (!(await authorize('/training', 'PCSB')).ok) return []
   const supabase = await createClient()
-  const { error } = await supabase.storage
-    .from('pcsb-doc')
-    .remove([`${crewId}/${fileName}`])
+  const [sessionsRes, providersRes, enrolRes] = await Promise.all([
+    supabase.from('cms_training_sessions').select('*').order('start_date', { ascending: true }),
+    supabase.from('cms_training_providers').select('id, name'),
+    supabase.from('cms_training_enrolments').select('*').order('created_at', { ascending: true }),
+  ])
+  if (sessionsRes.error) {
+    if (sessionsRes.error.code !== '42P01') console.error('[Training] sessions fetch error:', sessionsRes.error.message)
+    return []
+  }
+
+  const crewIds = Array.from(new Set((enrolRes.data || []).map((e) => e.crew_id)))
+  const { data: crew } = crewIds.length
+    ? await supabase.from(MASTER_TABLE).select('id, crew_name').in('id', crewIds)
+    : { data: [] as { id: string; crew_name: string }[] }
+  const crewName = new Map((crew || []).map((c) => [c.id, c.crew_name]))
+  const providerName = new Map((providersRes.data || []).map((p) => [p.id, p.name]))
+
+  return (sessionsRes.data || []).map((s) => ({
+    ...(s as TrainingSession & { id: number }),
+    provider_name: s.provider_id ? providerName.get(s.provider_id) || null : null,
+    enrolments: (enrolRes.data || [])
+      .filter((e) => e.session_id === s.id)
+      .map((e) => ({ ...e, crew_name: crewName.get(e.crew_id) || e.crew_id }) as TrainingEnrolment),
+  }))
+}
 
+export async function saveTrainingSession(session: TrainingSession): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+  const invalid = validateSession(session)
+  if (invalid) return { success: false, error: invalid }
+
+  const supabase = await createClient()
+  const { id, created_at: _createdAt, ...fields } = session
+  const { error } = id
+    ? await supabase.from('cms_training_sessions').update(fields).eq('id', id)
+    : await supabase.from('cms_training_sessions').insert({ ...fields, created_by: auth.caller.fullName })
   if (error) {
-    console.error('Error deleting crew document:', error)
+    console.error('[Training] session save error:', error.message)
     return { success: false, error: error.message }
   }
   return { success: true }
 }
 
-export async function createCrewMember(crewData: Record<string, unknown>, project?: string): Promise<{ success: boolean; id?: string; error?: string }> {
+// Roster cycles that overlap the session, per crew id
+export async function getSessionClashes(sessionId: number, crewIds: string[]): Promise<Record<string, SessionClash[]>> {
+  if (!(await authorize('/training', 'PCSB')).ok || crewIds.length === 0) return {}
   const supabase = await createClient()
-  const payload = { ...crewData, project_code: project || "PCSB" };
-  const { data, error } = await supabase
-  .from(MASTER_TABLE)
-  .insert(payload)
+  const { data: session } = await supabase.from('cms_training_sessions').select('start_date, end_date').eq('id', sessionId).maybeSingle()
+  if (!session) return {}
+  const { data: cycles } = await supabase
+    .from(rosterTable('PCSB'))
+    .select('crew_id, cycle_number, sign_on, sign_off, location')
+    .in('crew_id', crewIds)
+
+  const result: Record<string, SessionClash[]> = {}
+  for (const crewId of crewIds) {
+    const clashes = sessionClashes(session, (cycles || []).filter((c) => c.crew_id === crewId))
+    if (clashes.length) result[crewId] = clashes
+  }
+  return result
+}
+
+// Book a seat and set the crew's plan_date for the course; roster clashes come back as warnings
+export async function enrolCrew(sessionId: number, crewId: string): Promise<{ success: boolean; error?: string; warnings?: string[] }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data: session } = await supabase.from('cms_training_sessions').select('*').eq('id', sessionId).maybeSingle()
+  if (!session) return { success: false, error: 'Session not found' }
+  if (session.status !== 'OPEN') return { success: false, error: 'Session is not open for enrolment' }
+
+  const { data: existing } = await supabase
+    .from('cms_training_enrolments')
+    .select('id, crew_id, status')
+    .eq('session_id', sessionId)
+  const seats = (existing || []).filter((e) => e.status === 'ENROLLED' || e.status === 'ATTENDED')
+  if (seats.some((s) => s.crew_id === crewId)) return { success: false, error: 'Crew is already enrolled in this session' }
+  if (seats.length >= session.capacity) return { success: false, error: 'Session is full' }
+
+  // A cancelled or no-show booking for the same crew is re-used (one row per crew per session)
+  const previous = (existing || []).find((e) => e.crew_id === crewId)
+  const booking = { status: 'ENROLLED', enrolled_by: auth.caller.fullName, attended_at: null }
+  const { error } = previous
+    ? await supabase.from('cms_training_enrolments').update(booking).eq('id', previous.id)
+    : await supabase.from('cms_training_enrolments').insert({ session_id: sessionId, crew_id: crewId, ...booking })
+  if (error) {
+    // The seat limit is enforced in the database too, for concurrent bookings of the last seat
+    if (error.code === '23514') return { success: false, error: 'Session is full' }
+    console.error('[Training] enrol error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  const matrixError = await writeMatrixFields(auth.caller, crewId, session.course, { plan_date: session.start_date })
+  if (matrixError) console.error('[Training] plan_date update error:', matrixError)
+
+  const { data: crew } = await supabase.from(MASTER_TABLE).select('crew_name').eq('id', crewId).maybeSingle()
+  const clashes = (await getSessionClashes(sessionId, [crewId]))[crewId] || []
+  const warnings = clashes.length ? [describeClashes(crew?.crew_name || crewId, clashes)] : []
+  if (matrixError) warnings.push('Plan date not updated: ' + matrixError)
+  return { success: true, warnings }
+}
+
+// Cancel, mark no-show or mark attended. Attendance rolls attended_date and the
+// computed expiry forward, remembering what it replaced so a later no-show or
+// cancellation can put it back. The plan_date is cleared only while it is still
+// this session's start date.
+export async function setEnrolmentStatus(enrolmentId: number, status: Exclude<EnrolmentStatus, 'ENROLLED'>): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data: enrolment } = await supabase.from('cms_training_enrolments').select('*').eq('id', enrolmentId).maybeSingle()
+  if (!enrolment) return { success: false, error: 'Enrolment not found' }
+  const { data: session } = await supabase.from('cms_training_sessions').select('*').eq('id', enrolment.session_id).maybeSingle()
+  if (!session) return { success: false, error: 'Session not found' }
+  const invalid = enrolmentTransitionError(session, enrolment.status, status, toISODay(new Date())!)
+  if (invalid) return { success: false, error: invalid }
+
+  const { data: cell } = await supabase
+    .from('cms_pcsb_matrix')
+    .select('attended_date, expiry_date, expiry_override, plan_date')
+    .eq('crew_id', enrolment.crew_id)
+    .eq('cert_type', session.course)
+    .limit(1)
+    .maybeSingle()
+
+  const attending = status === 'ATTENDED'
+  const { error } = await supabase
+    .from('cms_training_enrolments')
+    .update({
+      status,
+      attended_at: attending ? new Date().toISOString() : null,
+      prior_attended_date: attending ? cell?.attended_date ?? null : null,
+      prior_expiry_date: attending ? cell?.expiry_date ?? null : null,
+      prior_expiry_override: attending ? cell?.expiry_override ?? null : null,
+    })
+    .eq('id', enrolmentId)
+  if (error) {
+    console.error('[Training] enrolment update error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  const fields: MatrixDateFields = {}
+  if (cell && toISODay(cell.plan_date) === toISODay(session.start_date)) fields.plan_date = null
+  if (attending) {
+    fields.attended_date = session.end_date
+    const expiry = computeExpiry(session.course, session.end_date, await loadCourseCatalogue('PCSB'))
+    if (expiry) Object.assign(fields, { expiry_date: expiry, expiry_override: false })
+  } else if (enrolment.status === 'ATTENDED' && cell && toISODay(cell.attended_date) === toISODay(session.end_date)) {
+    // Undo this session's attendance unless the cell has been edited since
+    Object.assign(fields, {
+      attended_date: enrolment.prior_attended_date ?? null,
+      expiry_date: enrolment.prior_expiry_date ?? null,
+      expiry_override: !!enrolment.prior_expiry_override,
+    })
+  }
+  if (Object.keys(fields).length === 0) return { success: true }
+  const matrixError = await writeMatrixFields(auth.caller, enrolment.crew_id, session.course, fields)
+  if (matrixError) return { success: false, error: 'Enrolment updated but matrix not: ' + matrixError }
+  return { success: true }
+}
+
+// Cancelling a session frees every booked seat and clears the plan dates it set
+export async function cancelTrainingSession(sessionId: number): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/training', 'PCSB', 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { error } = await supabase.from('cms_training_sessions').update({ status: 'CANCELLED' }).eq('id', sessionId)
+  if (error) return { success: false, error: error.message }
+
+  const { data: booked } = await supabase
+    .from('cms_training_enrolments')
+    .select('id')
+    .eq('session_id', sessionId)
+    .eq('status', 'ENROLLED')
+  for (const e of booked || []) {
+    const res = await setEnrolmentStatus(e.id, 'CANCELLED')
+    if (!res.success) return res
+  }
+  return { success: true }
+}
+
+// ─── Staff Detail Actions (cms_master_crew filtered by project) ───
+
+export async function getCrewList(project?: string): Promise<{ success: boolean; data?: { id: string; crew_name: string; clean_name: string; post: string; client: string; location: string; status?: string; resign_date?: string | null }[]; error?: string }> {
+  const auth = await authorize(null, project)
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+
+  // Use select('*') to avoid column-not-found errors, then map to expected shape
+  let q = supabase.from(MASTER_TABLE).select('*');
+  if (project) q = q.eq('project_code', project);
+  const { data, error } = await q.order('crew_name', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching crew list:', error)
+    return { success: false, error: error.message }
+  }
+
+  const mapped = (data || []).map((r: Record<string, unknown>) => ({
+    id: r.id as string,
+    crew_name: (r.crew_name as string) || '',
+    clean_name: (r.clean_name as string) || (r.crew_name as string || '').replace(/\s*\(R\)\s*/g, '').trim(),
+    post: (r.post as string) || '',
+    client: (r.client as string) || '',
+    location: (r.location as string) || '',
+    status: (r.status as string) || 'active',
+    resign_date: (r.resign_date as string) || null,
+  }));
+  return { success: true, data: mapped }
+}
+
+
+
+export async function getCrewDetail(crewId: string, project?: string): Promise<{ success: boolean; data?: Record<string, unknown>; error?: string }> {
+  const auth = await authorize('/staff', project)
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from(MASTER_TABLE)
+    .select('*')
+    .eq('id', crewId)
+    .single()
+
+  if (error) {
+    console.error('Error fetching crew detail:', error)
+    return { success: false, error: error.message }
+  }
+  return { success: true, data: data || {} }
+}
+
+export async function updateCrewDetail(crewId: string, updates: Record<string, unknown>, project?: string): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/staff', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data: before } = await supabase.from(MASTER_TABLE).select('*').eq('id', crewId).limit(1).maybeSingle()
+  const { error } = await supabase
+    .from(MASTER_TABLE)
+    .update(updates)
+    .eq('id', crewId)
+
+  if (error) {
+    console.error('Error updating crew detail:', error)
+    return { success: false, error: error.message }
+  }
+  await recordDataChanges(MASTER_TABLE, project, auth.caller, [{ recordId: crewId, before: before || {}, after: updates }])
+  return { success: true }
+}
+
+export async function getCrewMatrix(crewId: string): Promise<{ success: boolean; data?: { id: string; cert_type: string; cert_no: string | null; expiry_date: string | null; attended_date: string | null; plan_date: string | null }[]; error?: string }> {
+  const auth = await authorize('/staff', await crewProject(crewId))
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from('cms_pcsb_matrix')
+    .select('id, cert_type, cert_no, expiry_date, attended_date, plan_date')
+    .eq('crew_id', crewId)
+    .order('cert_type', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching crew matrix:', error)
+    return { success: false, error: error.message }
+  }
+  return { success: true, data: data || [] }
+}
+
+export async function getCrewRoster(crewId: string, project?: string): Promise<{ success: boolean; data?: RosterRow[]; error?: string }> {
+  const auth = await authorize('/staff', project)
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from(rosterTable(project))
+    .select('*')
+    .eq('crew_id', crewId)
+    .order('cycle_number', { ascending: true })
+
+  if (error) {
+    console.error('Error fetching crew roster:', error)
+    return { success: false, error: error.message }
+  }
+  return { success: true, data: data || [] }
+}
+
+export async function listCrewDocuments(crewId: string): Promise<{ success: boolean; data?: { name: string; size: number; created_at: string }[]; error?: string }> {
+  const auth = await authorize('/staff', await crewProject(crewId))
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data, error } = await supabase.storage
+    .from('pcsb-doc')
+    .list(crewId, { limit: 100, sortBy: { column: 'created_at', order: 'desc' } })
+
+  if (error) {
+    console.error('Error listing crew documents:', error)
+    return { success: false, error: error.message }
+  }
+  return { success: true, data: (data || []).map(f => ({ name: f.name, size: f.metadata?.size || 0, created_at: f.created_at || '' })) }
+}
+
+// Project a crew member belongs to (scopes document actions, which are keyed by crew id only)
+async function crewProject(crewId: string): Promise<string> {
+  const admin = createAdminClient()
+  const { data } = await admin.from(MASTER_TABLE).select('project_code').eq('id', crewId).limit(1).maybeSingle()
+  return data?.project_code || 'PCSB'
+}
+
+export async function deleteCrewDocument(crewId: string, fileName: string): Promise<{ success: boolean; error?: string }> {
+  const project = await crewProject(crewId)
+  const auth = await authorize('/staff', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { error } = await supabase.storage
+    .from('pcsb-doc')
+    .remove([`${crewId}/${fileName}`])
+
+  if (error) {
+    console.error('Error deleting crew document:', error)
+    return { success: false, error: error.message }
+  }
+  // Storage objects have no row id; the audit entry is keyed by the object path in the bucket
+  await recordDataChanges('pcsb-doc', project, auth.caller, [{ recordId: `${crewId}/${fileName}`, before: { crew_id: crewId, file_name: fileName }, after: null }])
+  return { success: true }
+}
+
+// ─── Certificate Documents (cms_cert_documents) ───
+
+export async function getCertVersions(matrixId: string): Promise<CertDocumentVersion[]> {
+  const supabase = await createClient()
+  const { data: matrix } = await supabase.from('cms_pcsb_matrix').select('crew_id').eq('id', matrixId).maybeSingle()
+  if (!matrix || !(await authorize('/staff', await crewProject(matrix.crew_id))).ok) return []
+  const { data, error } = await supabase
+    .from('cms_cert_documents')
+    .select('*')
+    .eq('matrix_id', matrixId)
+    .order('version', { ascending: false })
+  if (error) {
+    if (error.code !== '42P01') console.error('[CertDocs] fetch error:', error.message)
+    return []
+  }
+  return (data || []) as CertDocumentVersion[]
+}
+
+type CertVersionInput = Pick<CertDocumentVersion, 'storage_path' | 'file_name' | 'content_type' | 'size_bytes' | 'cert_no' | 'attended_date' | 'expiry_date'>
+
+// Append a version and copy its cert_no / dates onto the matrix row
+async function addCertVersion(
+  caller: SessionUser,
+  matrix: { id: string; crew_id: string; cert_type: string },
+  doc: CertVersionInput,
+  restoredFrom: number | null = null
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  const supabase = await createClient()
+  const { data: latest } = await supabase
+    .from('cms_cert_documents')
+    .select('version')
+    .eq('matrix_id', matrix.id)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  const version = (latest?.version || 0) + 1
+
+  const { error } = await supabase.from('cms_cert_documents').insert({
+    matrix_id: matrix.id,
+    crew_id: matrix.crew_id,
+    cert_type: matrix.cert_type,
+    version,
+    ...doc,
+    restored_from: restoredFrom,
+    uploaded_by: caller.fullName,
+  })
+  if (error) {
+    console.error('[CertDocs] insert error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  const fields: Record<string, string | boolean | null> = {}
+  if (doc.cert_no) fields.cert_no = doc.cert_no
+  if (doc.attended_date) fields.attended_date = doc.attended_date
+  if (doc.expiry_date || doc.attended_date) {
+    const courses = await loadCourseCatalogue('PCSB')
+    const expected = doc.attended_date ? computeExpiry(matrix.cert_type, doc.attended_date, courses) : null
+    fields.expiry_date = doc.expiry_date || expected
+    fields.expiry_override = !!doc.expiry_date && !!expected && doc.expiry_date !== expected
+  }
+  if (Object.keys(fields).length > 0) {
+    const { data: before } = await supabase.from('cms_pcsb_matrix').select('*').eq('id', matrix.id).maybeSingle()
+    const { error: matrixError } = await supabase.from('cms_pcsb_matrix').update(fields).eq('id', matrix.id)
+    if (matrixError) return { success: false, version, error: 'Document saved but matrix not updated: ' + matrixError.message }
+    await recordDataChanges('cms_pcsb_matrix', 'PCSB', caller, [{ recordId: matrix.id, before: before || {}, after: fields }])
+  }
+  return { success: true, version }
+}
+
+// Register a file the client has uploaded to the certificates bucket as the new
+// current version. A pre-versioning file (<crew_id>_<course>.<ext>) is kept as version 1.
+export async function recordCertVersion(
+  matrixId: string,
+  doc: CertVersionInput,
+  legacyPath?: string
+): Promise<{ success: boolean; version?: number; error?: string }> {
+  const supabase = await createClient()
+  const { data: matrix } = await supabase.from('cms_pcsb_matrix').select('id, crew_id, cert_type, cert_no, attended_date, expiry_date').eq('id', matrixId).maybeSingle()
+  if (!matrix) return { success: false, error: 'Certificate record not found' }
+  const auth = await authorize('/staff', await crewProject(matrix.crew_id), 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  if (legacyPath && (await getCertVersions(matrixId)).length === 0) {
+    const legacy = await addCertVersion(auth.caller, matrix, {
+      storage_path: legacyPath,
+      file_name: legacyPath,
+      content_type: null,
+      size_bytes: null,
+      cert_no: matrix.cert_no,
+      attended_date: toISODay(matrix.attended_date),
+      expiry_date: toISODay(matrix.expiry_date),
+    })
+    if (!legacy.success) return legacy
+  }
+  return addCertVersion(auth.caller, matrix, doc)
+}
+
+// Make an older version current again (recorded as a new version)
+export async function restoreCertVersion(versionId: number): Promise<{ success: boolean; version?: number; error?: string }> {
+  const supabase = await createClient()
+  const { data: old } = await supabase.from('cms_cert_documents').select('*').eq('id', versionId).maybeSingle()
+  if (!old) return { success: false, error: 'Version not found' }
+  const auth = await authorize('/staff', await crewProject(old.crew_id), 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  return addCertVersion(auth.caller, { id: old.matrix_id, crew_id: old.crew_id, cert_type: old.cert_type }, {
+    storage_path: old.storage_path,
+    file_name: old.file_name,
+    content_type: old.content_type,
+    size_bytes: old.size_bytes,
+    cert_no: old.cert_no,
+    attended_date: old.attended_date,
+    expiry_date: old.expiry_date,
+  }, old.version)
+}
+
+export async function createCrewMember(crewData: Record<string, unknown>, project?: string): Promise<{ success: boolean; id?: string; error?: string }> {
+  const auth = await authorize('/staff', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const payload = { ...crewData, project_code: project || "PCSB" };
+  const { data, error } = await supabase
+  .from(MASTER_TABLE)
+  .insert(payload)
     .select('id')
     .single()
 
   if (error) {
-    console.error('Error creating crew member:', error)
+    console.error('Error creating crew member:', error)
+    return { success: false, error: error.message }
+  }
+  await recordDataChanges(MASTER_TABLE, project, auth.caller, [{ recordId: data.id, before: null, after: payload }])
+  return { success: true, id: data?.id }
+}
+
+// Get total cycle count per crew_id from roster (for dynamic relief labeling)
+export async function getCrewCycleCounts(project?: string): Promise<Map<string, number>> {
+  if (!(await authorize(null, project)).ok) return new Map()
+
+  const supabase = await createClient()
+  const { data } = await supabase
+    .from(rosterTable(project))
+    .select('crew_id, cycle_number')
+    .order('crew_id')
+
+  const map = new Map<string, number>()
+  if (data) {
+    for (const row of data) {
+      const key = row.crew_id || ''
+      map.set(key, Math.max(map.get(key) || 0, row.cycle_number || 0))
+    }
+  }
+  return map
+}
+
+// Serializable version for client components
+export async function getCrewCycleCountsJSON(): Promise<Record<string, number>> {
+  const map = await getCrewCycleCounts()
+  const obj: Record<string, number> = {}
+  for (const [k, v] of map) obj[k] = v
+  return obj
+}
+
+// Get OHN/IM staff from master for hybrid POB (Dashboard only)
+export async function getOHNStaffFromMaster(): Promise<PivotedCrewRow[]> {
+  if (!(await authorize(null, undefined)).ok) return []
+
+  const supabase = await createClient()
+  const { data: ohnData } = await supabase
+    .from(MASTER_TABLE)
+    .select('id, crew_name, post, client, location')
+    .or('post.ilike.%IM%,post.ilike.%OHN%')
+    .order('crew_name', { ascending: true })
+
+  if (!ohnData) return []
+
+  return ohnData.map((staff) => ({
+    crew_id: staff.id || '',
+    crew_name: staff.crew_name || '',
+    post: staff.post || '',
+    client: staff.client || '',
+    location: staff.location || '',
+    roles_em: undefined,
+    cycles: {},
+  }))
+}
+
+// ─── Approval Workflow (cms_pcsb_approvals + cms_approval_history) ───
+// Stages are configured per project (lib/approval-workflow.ts). Every transition
+// is appended to cms_approval_history; the approval row only holds the current state.
+
+export interface ApprovalRecord {
+  month_year: string;
+  client: string;
+  project_code: string;
+  approved_by: string;
+  approved_role: string;
+  approved_at: string;
+  submission_status?: string;
+  submitted_by?: string;
+  submitted_at?: string;
+  current_stage?: number | null;
+  frozen_lines?: FrozenStatementLine[] | null;
+  frozen_total?: number | null;
+}
+
+// Get approval record by (month_year, client, project_code)
+export async function getApproval(monthYear: string, client: string, projectCode: string = 'PCSB'): Promise<ApprovalRecord | null> {
+  if (!(await authorize(null, projectCode)).ok) return null
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('cms_pcsb_approvals')
+    .select('*')
+    .eq('month_year', monthYear)
+    .eq('client', client)
+    .eq('project_code', projectCode)
+    .limit(1)
+
+  if (error) {
+    console.error('[Approval] fetch error:', error.message)
+    return null
+  }
+
+  if (!data || data.length === 0) return null
+  return data[0] as ApprovalRecord
+}
+
+export async function getApprovalWorkflow(projectCode: string = 'PCSB'): Promise<ApprovalStage[]> {
+  if (!(await authorize(null, projectCode)).ok) return parseWorkflow(null, projectCode)
+
+  const admin = createAdminClient()
+  const { data } = await admin
+    .from('cms_settings')
+    .select('value')
+    .eq('key', workflowSettingsKey(projectCode))
+    .limit(1)
+    .maybeSingle()
+  return parseWorkflow(data?.value, projectCode)
+}
+
+export async function saveApprovalWorkflow(projectCode: string, stages: ApprovalStage[]): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (auth.caller.role !== 'L1') return { success: false, error: 'Only L1 can change the approval workflow' }
+  if (!validateWorkflow(stages)) return { success: false, error: 'Workflow needs a submission stage and at least one approval stage, each with a role' }
+
+  const admin = createAdminClient()
+  const { error } = await admin
+    .from('cms_settings')
+    .upsert({ key: workflowSettingsKey(projectCode), value: JSON.stringify(stages), updated_at: new Date().toISOString() }, { onConflict: 'key' })
+
+  if (error) {
+    console.error('[Approval] workflow save error:', error.message)
+    return { success: false, error: error.message }
+  }
+  return { success: true }
+}
+
+// Full transition trail for one statement, oldest first
+export async function getApprovalHistory(monthYear: string, client: string, projectCode: string = 'PCSB'): Promise<ApprovalHistoryEntry[]> {
+  if (!(await authorize(null, projectCode)).ok) return []
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('cms_approval_history')
+    .select('*')
+    .eq('project_code', projectCode)
+    .eq('month_year', monthYear)
+    .eq('client', client)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    if (error.code !== '42P01') console.error('[Approval] history fetch error:', error.message)
+    return []
+  }
+  return (data || []) as ApprovalHistoryEntry[]
+}
+
+async function appendApprovalHistory(entry: ApprovalHistoryEntry): Promise<{ success: boolean; error?: string }> {
+  const admin = createAdminClient()
+  const { error } = await admin.from('cms_approval_history').insert(entry)
+  if (error) {
+    console.error('[Approval] history insert error:', error.message)
+    return { success: false, error: error.message }
+  }
+  return { success: true }
+}
+
+// Shared guard: load workflow + state and check the session user may act on the pending stage
+async function loadTransition(monthYear: string, client: string, projectCode: string) {
+  const [stages, rec, profile] = await Promise.all([
+    getApprovalWorkflow(projectCode),
+    getApproval(monthYear, client, projectCode),
+    getSessionUser(),
+  ])
+  return { stages, rec, profile, stage: currentStageOf(rec, stages) }
+}
+
+// Stage 0: Submit for approval (data lodger), recorded under the signed-in user
+// Uses upsert with unique constraint on (month_year, client, project_code)
+export async function submitForApproval(
+  monthYear: string,
+  client: string,
+  projectCode: string = 'PCSB'
+): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/statement', projectCode)
+  if (!auth.ok) return auth.denied
+  const submittedBy = auth.caller.fullName
+
+  const { stages, profile, stage } = await loadTransition(monthYear, client, projectCode)
+  if (stage !== 0) return { success: false, error: 'Statement has already been submitted' }
+  if (!canActOnStage(stages, 0, profile?.role)) return { success: false, error: `Only ${stages[0].label} can submit this statement` }
+
+  const supabase = await createClient()
+  const now = new Date().toLocaleDateString('en-MY', { day: '2-digit', month: 'short', year: 'numeric' })
+
+  const { error } = await supabase
+    .from('cms_pcsb_approvals')
+    .upsert(
+      {
+        month_year: monthYear,
+        client,
+        project_code: projectCode,
+        submission_status: statusForStage(stages, 1),
+        current_stage: 1,
+        submitted_by: submittedBy,
+        submitted_at: now || null,
+        approved_by: '',
+        approved_role: '',
+        approved_at: null,
+      },
+      { onConflict: 'month_year,client,project_code' }
+    )
+    .select()
+
+  if (error) {
+    console.error('[Approval] submitForApproval UPSERT error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  return appendApprovalHistory({
+    project_code: projectCode, month_year: monthYear, client,
+    action: 'SUBMIT', from_stage: 0, to_stage: 1, stage_label: stages[0].label,
+    actor: submittedBy, actor_role: auth.caller.role, comment: null,
+  })
+}
+
+// Approve the pending stage as the signed-in user. On the final stage the statement
+// becomes Approved: its rows are worked out here from the roster, master data and
+// rate card, persisted as an immutable snapshot version and frozen on the approval
+// for back-pay comparison.
+export async function approveStatement(
+  monthYear: string,
+  client: string,
+  projectCode: string = 'PCSB'
+): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/statement', projectCode)
+  if (!auth.ok) return auth.denied
+  if (!/^\d{4}-\d{2}$/.test(monthYear)) return { success: false, error: 'Month must be YYYY-MM' }
+
+  const { stages, rec, profile, stage } = await loadTransition(monthYear, client, projectCode)
+  if (stage === 0) return { success: false, error: 'Statement has not been submitted' }
+  if (stage >= stages.length) return { success: false, error: 'Statement is already approved' }
+  if (!canActOnStage(stages, stage, profile?.role)) return { success: false, error: `Waiting on ${stages[stage].label} approval` }
+
+  const supabase = await createClient()
+  const now = new Date().toLocaleDateString('en-MY', { day: '2-digit', month: 'short', year: 'numeric' })
+  const final = isFinalStage(stages, stage)
+  const approvedBy = auth.caller.fullName
+
+  const statementRows = final ? await liveStatementRows(monthYear, client, projectCode) : null
+  const frozenLines: FrozenStatementLine[] | null = statementRows ? freezeStatementRows(statementRows) : null
+
+  const { error } = await supabase
+    .from('cms_pcsb_approvals')
+    .upsert(
+      {
+        month_year: monthYear,
+        client,
+        project_code: projectCode,
+        submission_status: statusForStage(stages, stage + 1),
+        current_stage: stage + 1,
+        ...(final ? {
+          approved_by: approvedBy,
+          approved_role: stages[stage].label,
+          approved_at: now || null,
+          frozen_lines: frozenLines,
+          frozen_total: frozenLines ? Math.round(frozenLines.reduce((s, l) => s + l.grandTotal, 0) * 100) / 100 : null,
+        } : {}),
+      },
+      { onConflict: 'month_year,client,project_code' }
+    )
+    .select()
+
+  if (error) {
+    console.error('[Approval] approveStatement UPSERT error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  // Snapshots cannot be deleted, so the approval is written first and put back
+  // to the pending stage if its snapshot cannot be stored
+  if (statementRows) {
+    const snap = await createStatementSnapshot(monthYear, client, statementRows, approvedBy, projectCode)
+    if (!snap.success) {
+      const { error: revertError } = await supabase
+        .from('cms_pcsb_approvals')
+        .upsert(
+          {
+            month_year: monthYear,
+            client,
+            project_code: projectCode,
+            submission_status: statusForStage(stages, stage),
+            current_stage: stage,
+            approved_by: rec?.approved_by ?? '',
+            approved_role: rec?.approved_role ?? '',
+            approved_at: rec?.approved_at ?? null,
+            frozen_lines: null,
+            frozen_total: null,
+          },
+          { onConflict: 'month_year,client,project_code' }
+        )
+      if (revertError) console.error('[Approval] revert after snapshot failure error:', revertError.message)
+      return snap
+    }
+  }
+
+  const logged = await appendApprovalHistory({
+    project_code: projectCode, month_year: monthYear, client,
+    action: 'APPROVE', from_stage: stage, to_stage: stage + 1, stage_label: stages[stage].label,
+    actor: auth.caller.fullName, actor_role: auth.caller.role, comment: null,
+  })
+
+  // Issue the PDF now so the archive holds the document as approved
+  if (logged.success && statementRows) {
+    const archived = await loadStatementPdf(monthYear, client, projectCode)
+    if (!archived.archived) console.error('[StatementPdf] not archived on approval:', archived.error || 'upload failed')
+  }
+  return logged
+}
+
+// Reject (pending stage) or Reset (approved statement, L1 only): back to Draft.
+// A comment is mandatory; the earlier trail stays in cms_approval_history.
+export async function rejectApproval(
+  monthYear: string,
+  client: string,
+  projectCode: string = 'PCSB',
+  comment: string = ''
+): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/statement', projectCode)
+  if (!auth.ok) return auth.denied
+
+  if (!comment.trim()) return { success: false, error: 'A comment is required to reject a statement' }
+
+  const { stages, profile, stage } = await loadTransition(monthYear, client, projectCode)
+  if (stage === 0) return { success: false, error: 'Statement is already in Draft' }
+  const isReset = stage >= stages.length
+  if (isReset ? profile?.role !== 'L1' : !canActOnStage(stages, stage, profile?.role)) {
+    return { success: false, error: isReset ? 'Only L1 can reset an approved statement' : `Waiting on ${stages[stage].label} approval` }
+  }
+
+  const supabase = await createClient()
+
+  const { error } = await supabase
+    .from('cms_pcsb_approvals')
+    .upsert(
+      {
+        month_year: monthYear,
+        client,
+        project_code: projectCode,
+        submission_status: 'Draft',
+        current_stage: 0,
+        submitted_by: '',
+        submitted_at: null,
+        approved_by: '',
+        approved_role: '',
+        approved_at: null,
+        frozen_lines: null,
+        frozen_total: null,
+      },
+      { onConflict: 'month_year,client,project_code' }
+    )
+    .select()
+
+  if (error) {
+    console.error('[Approval] rejectApproval UPSERT error:', error.message)
+    return { success: false, error: error.message }
+  }
+
+  return appendApprovalHistory({
+    project_code: projectCode, month_year: monthYear, client,
+    action: isReset ? 'RESET' : 'REJECT', from_stage: stage, to_stage: 0,
+    stage_label: isReset ? 'Approved' : stages[stage].label,
+    actor: profile!.fullName, actor_role: profile!.role, comment: comment.trim(),
+  })
+}
+
+// ─── Statement Snapshots (cms_statement_snapshots) ───
+// Append-only: every approval writes a new version; rows are never updated or deleted.
+
+export interface StatementSnapshot {
+  id?: number;
+  project_code: string;
+  month_year: string;
+  client: string;
+  version: number;
+  rows: StatementRow[];
+  grand_total: number;
+  crew_count: number;
+  approved_by: string;
+  created_at?: string;
+}
+
+async function createStatementSnapshot(
+  monthYear: string,
+  client: string,
+  rows: StatementRow[],
+  approvedBy: string,
+  projectCode: string
+): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+
+  const { data: latest, error: versionError } = await supabase
+    .from('cms_statement_snapshots')
+    .select('version')
+    .eq('project_code', projectCode)
+    .eq('month_year', monthYear)
+    .eq('client', client)
+    .order('version', { ascending: false })
+    .limit(1)
+
+  if (versionError) {
+    console.error('[Snapshot] version lookup error:', versionError.message)
+    return { success: false, error: versionError.message }
+  }
+
+  const { error } = await supabase
+    .from('cms_statement_snapshots')
+    .insert({
+      project_code: projectCode,
+      month_year: monthYear,
+      client,
+      version: (latest?.[0]?.version ?? 0) + 1,
+      rows,
+      grand_total: Math.round(rows.reduce((s, r) => s + r.grandTotal, 0) * 100) / 100,
+      crew_count: rows.length,
+      approved_by: approvedBy,
+    })
+
+  if (error) {
+    console.error('[Snapshot] insert error:', error.message)
+    return { success: false, error: error.message }
+  }
+  return { success: true }
+}
+
+// Latest snapshot version for (month_year, client, project_code), or null if never approved
+export async function getLatestStatementSnapshot(monthYear: string, client: string, projectCode: string = 'PCSB'): Promise<StatementSnapshot | null> {
+  if (!(await authorize(null, projectCode)).ok) return null
+
+  const supabase = await createClient()
+
+  const { data, error } = await supabase
+    .from('cms_statement_snapshots')
+    .select('*')
+    .eq('project_code', projectCode)
+    .eq('month_year', monthYear)
+    .eq('client', client)
+    .order('version', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    // Table may not exist yet -- Statement page falls back to live calculation
+    if (error.code !== '42P01') console.error('[Snapshot] fetch error:', error.message)
+    return null
+  }
+
+  if (!data || data.length === 0) return null
+  return data[0] as StatementSnapshot
+}
+
+// All approved statements for a project, optionally limited to a month_year range (YYYY-MM, inclusive)
+export async function getApprovedStatements(
+  projectCode: string = 'PCSB',
+  fromMonth?: string,
+  toMonth?: string
+): Promise<ApprovalRecord[]> {
+  if (!(await authorize(PAY_PAGES, projectCode)).ok) return []
+
+  const supabase = await createClient()
+
+  let q = supabase
+    .from('cms_pcsb_approvals')
+    .select('*')
+    .eq('project_code', projectCode)
+    .eq('submission_status', 'Approved')
+  if (fromMonth) q = q.gte('month_year', fromMonth)
+  if (toMonth) q = q.lte('month_year', toMonth)
+  const { data, error } = await q.order('month_year', { ascending: true })
+
+  if (error) {
+    console.error('[Approval] approved statements fetch error:', error.message)
+    return []
+  }
+  return (data || []) as ApprovalRecord[]
+}
+
+// Rows an approved month was signed off on, and the approval scopes ('ALL' or a client) they cover
+export interface ApprovedMonthRows {
+  scopes: string[];
+  rows: StatementRow[];
+}
+
+// Approved statement rows per month_year for a project. As with payroll, an approved
+// all-clients snapshot stands for the whole month; otherwise each approved client
+// contributes its own snapshot. Clients absent from `scopes` are not yet approved.
+export async function getApprovedStatementRows(projectCode: string = 'PCSB'): Promise<Record<string, ApprovedMonthRows>> {
+  if (!(await authorize(PAY_PAGES, projectCode)).ok) return {}
+
+  const supabase = await createClient()
+
+  const [approvalsRes, snapshotsRes] = await Promise.all([
+    supabase
+      .from('cms_pcsb_approvals')
+      .select('month_year, client')
+      .eq('project_code', projectCode)
+      .eq('submission_status', 'Approved'),
+    fetchAllPages<StatementSnapshot>((from, to) => supabase
+      .from('cms_statement_snapshots')
+      .select('id, month_year, client, version, rows')
+      .eq('project_code', projectCode)
+      .order('id', { ascending: true })
+      .range(from, to)),
+  ])
+  if (approvalsRes.error) {
+    console.error('[Approval] approved statements fetch error:', approvalsRes.error.message)
+    return {}
+  }
+  if (snapshotsRes.error) {
+    // Table may not exist yet -- every month is priced live
+    if (snapshotsRes.error.code !== '42P01') console.error('[Snapshot] fetch error:', snapshotsRes.error.message)
+    return {}
+  }
+
+  const latest = new Map<string, StatementSnapshot>()
+  for (const snap of snapshotsRes.data) {
+    const key = `${snap.month_year}|${snap.client}`
+    const prev = latest.get(key)
+    if (!prev || snap.version > prev.version) latest.set(key, snap)
+  }
+
+  const approvedScopes = new Map<string, Set<string>>()
+  for (const a of (approvalsRes.data || []) as { month_year: string; client: string }[]) {
+    if (!latest.has(`${a.month_year}|${a.client}`)) continue
+    if (!approvedScopes.has(a.month_year)) approvedScopes.set(a.month_year, new Set())
+    approvedScopes.get(a.month_year)!.add(a.client)
+  }
+
+  const byMonth: Record<string, ApprovedMonthRows> = {}
+  for (const [monthYear, scopes] of approvedScopes) {
+    if (scopes.has('ALL')) {
+      byMonth[monthYear] = { scopes: ['ALL'], rows: latest.get(`${monthYear}|ALL`)!.rows }
+      continue
+    }
+    const clients = Array.from(scopes)
+    byMonth[monthYear] = {
+      scopes: clients,
+      rows: clients.flatMap((client) => latest.get(`${monthYear}|${client}`)!.rows.filter((r) => r.client === client)),
+    }
+  }
+  return byMonth
+}
+
+// ─── Statement PDFs (storage bucket cms-statements) ───
+// Approved statements are rendered once from their snapshot version and archived at
+// {project}/{month}/{client}-v{version}.pdf; later downloads return that exact file.
+// Draft and submitted statements are rendered from the live roster and never stored.
+
+const STATEMENT_PDF_BUCKET = 'cms-statements'
+
+type StatementPdfResult = { success: boolean; pdf?: Uint8Array; fileName?: string; archived?: boolean; error?: string }
+
+async function fetchStatementLogo(): Promise<PdfImage | null> {
+  try {
+    const res = await fetch(STATEMENT_LOGO_URL, { cache: 'force-cache' })
+    return res.ok ? decodePng(new Uint8Array(await res.arrayBuffer())) : null
+  } catch (err) {
+    console.error('[StatementPdf] logo fetch error:', err instanceof Error ? err.message : err)
+    return null
+  }
+}
+
+// Master clean_name, keeping a (P)/(S)/(R1) suffix -- same as the Statement page
+async function statementDisplayName(projectCode: string): Promise<(row: StatementRow) => string> {
+  const crew = await getCrewList(projectCode)
+  const names = new Map((crew.data || []).map((c) => [c.id, c.clean_name || c.crew_name]))
+  return (row) => {
+    const master = names.get(row.crew_id)
+    if (!master) return row.crew_name
+    const suffix = (row.crew_name || '').match(/\s*(\([A-Z]\d*\))\s*$/)
+    return suffix ? `${master} ${suffix[1]}` : master
+  }
+}
+
+// Payable statement lines for one month/client from the live roster, master data and
+// rate card -- what the Statement page shows before approval. Caller is already authorized.
+async function liveStatementRows(monthYear: string, client: string, projectCode: string): Promise<StatementRow[]> {
+  const [y, m] = monthYear.split('-').map(Number)
+  const [roster, master, rates] = await Promise.all([loadPivotedRoster(projectCode), loadCrewMasterData(projectCode), loadRateCard(projectCode)])
+  return calcStatementRows(roster, buildPayContext(master, rates, projectCode), y, m)
+    .filter((r) => r.grandTotal !== 0 && (client === 'ALL' || r.client === client))
+}
+
+// Caller is already authorized; also used by approveStatement to archive on approval
+async function loadStatementPdf(monthYear: string, client: string, projectCode: string): Promise<StatementPdfResult> {
+  const [rec, snapshot] = await Promise.all([
+    getApproval(monthYear, client, projectCode),
+    getLatestStatementSnapshot(monthYear, client, projectCode),
+  ])
+  const status = (rec?.submission_status || 'Draft') as StatementPdfStatus
+  const issued = status === 'Approved' && snapshot ? snapshot : null
+  const fileName = statementPdfFileName(projectCode, monthYear, client, issued?.version)
+  const admin = createAdminClient()
+  const path = issued ? `${projectCode}/${monthYear}/${client}-v${issued.version}.pdf` : null
+
+  if (path) {
+    const { data } = await admin.storage.from(STATEMENT_PDF_BUCKET).download(path)
+    if (data) return { success: true, pdf: new Uint8Array(await data.arrayBuffer()), fileName, archived: true }
+  }
+
+  const rows = issued ? issued.rows : await liveStatementRows(monthYear, client, projectCode)
+
+  const [logo, displayName] = await Promise.all([fetchStatementLogo(), statementDisplayName(projectCode)])
+  const pdf = renderStatementPdf({
+    rows, projectCode, monthYear, client, status, displayName, logo,
+    approval: rec, version: issued?.version ?? null,
+  })
+  if (!path) return { success: true, pdf, fileName, archived: false }
+
+  // upsert: false -- if another request archived this version first, theirs is the issued copy
+  const { error } = await admin.storage
+    .from(STATEMENT_PDF_BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: false })
+  if (error) {
+    console.error('[StatementPdf] archive upload error:', error.message)
+    const { data } = await admin.storage.from(STATEMENT_PDF_BUCKET).download(path)
+    if (data) return { success: true, pdf: new Uint8Array(await data.arrayBuffer()), fileName, archived: true }
+    return { success: true, pdf, fileName, archived: false }
+  }
+  return { success: true, pdf, fileName, archived: true }
+}
+
+// PDF of one month/client statement: the archived copy once approved, otherwise a live draft
+export async function getStatementPdf(monthYear: string, client: string, projectCode: string = 'PCSB'): Promise<StatementPdfResult> {
+  const auth = await authorize('/statement', projectCode)
+  if (!auth.ok) return auth.denied
+  if (!/^\d{4}-\d{2}$/.test(monthYear)) return { success: false, error: 'Month must be YYYY-MM' }
+  if (!['ALL', 'SBA', 'SKA'].includes(client)) return { success: false, error: 'Client must be SBA, SKA or ALL' }
+
+  return loadStatementPdf(monthYear, client, projectCode)
+}
+
+// ─── Client Invoices (cms_invoices) ───
+// An approved month/client is billed once from its snapshot; lines, tax and the
+// billing address are copied onto the row so a reprint always matches the original.
+
+const INVOICE_TABLE = 'cms_invoices'
+
+async function loadInvoiceSettings(projectCode: string): Promise<InvoiceSettings> {
+  const admin = createAdminClient()
+  const { data } = await admin
+    .from('cms_settings')
+    .select('value')
+    .eq('key', invoiceSettingsKey(projectCode))
+    .limit(1)
+    .maybeSingle()
+  return parseInvoiceSettings(data?.value)
+}
+
+export async function getInvoiceSettings(projectCode: string = 'PCSB'): Promise<InvoiceSettings> {
+  if (!(await authorize('/financial', projectCode)).ok) return parseInvoiceSettings(null)
+  return loadInvoiceSettings(projectCode)
+}
+
+export async function saveInvoiceSettings(projectCode: string, settings: InvoiceSettings): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/financial', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  const invalid = validateInvoiceSettings(settings)
+  if (invalid) return { success: false, error: invalid }
+
+  const admin = createAdminClient()
+  const { error } = await admin
+    .from('cms_settings')
+    .upsert({ key: invoiceSettingsKey(projectCode), value: JSON.stringify(settings), updated_at: new Date().toISOString() }, { onConflict: 'key' })
+
+  if (error) {
+    console.error('[Invoice] settings save error:', error.message)
+    return { success: false, error: error.message }
+  }
+  return { success: true }
+}
+
+// Every invoice for a project (voided included), newest statement month first
+export async function getInvoices(projectCode: string = 'PCSB'): Promise<Invoice[]> {
+  if (!(await authorize('/financial', projectCode)).ok) return []
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from(INVOICE_TABLE)
+    .select('*')
+    .eq('project_code', projectCode)
+    .order('month_year', { ascending: false })
+    .order('invoice_no', { ascending: true })
+
+  if (error) {
+    // Table may not exist yet -- the Invoices tab shows an empty register
+    if (error.code !== '42P01') console.error('[Invoice] fetch error:', error.message)
+    return []
+  }
+  return (data || []) as Invoice[]
+}
+
+// Bill one client for an approved month. An all-clients approval is billed per client.
+export async function createInvoice(
+  monthYear: string,
+  client: string,
+  projectCode: string = 'PCSB',
+  issueDate: string = toISODay(new Date()) || ''
+): Promise<{ success: boolean; invoice?: Invoice; error?: string }> {
+  const auth = await authorize('/financial', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (!client || client === 'ALL') return { success: false, error: 'Invoices are raised per client' }
+  const issued = toISODay(issueDate)
+  if (!issued) return { success: false, error: 'Issue date is not a valid date' }
+
+  // The client's own approval, else the all-clients one for that month
+  let scope = client
+  let rec = await getApproval(monthYear, client, projectCode)
+  if (rec?.submission_status !== 'Approved') {
+    scope = 'ALL'
+    rec = await getApproval(monthYear, 'ALL', projectCode)
+  }
+  if (rec?.submission_status !== 'Approved') return { success: false, error: `The ${monthYear} statement for ${client} is not approved` }
+  const snapshot = await getLatestStatementSnapshot(monthYear, scope, projectCode)
+  if (!snapshot) return { success: false, error: 'The approved statement has no snapshot; reset and re-approve it to invoice' }
+
+  const lines = buildInvoiceLines(snapshot.rows.filter((r) => r.client === client), statementPeriod(monthYear))
+  if (lines.length === 0) return { success: false, error: `Nothing payable for ${client} in the approved statement` }
+
+  const supabase = await createClient()
+  const { data: live } = await supabase
+    .from(INVOICE_TABLE)
+    .select('invoice_no')
+    .eq('project_code', projectCode)
+    .eq('client', client)
+    .eq('month_year', monthYear)
+    .neq('status', 'VOID')
+    .limit(1)
+  if (live?.[0]) return { success: false, error: `Already invoiced as ${live[0].invoice_no}` }
+
+  const settings = await loadInvoiceSettings(projectCode)
+  const base = {
+    project_code: projectCode,
+    client,
+    month_year: monthYear,
+    snapshot_version: snapshot.version,
+    bill_to: settings.bill_to[client] || '',
+    tax_reg_no: settings.tax_reg_no || null,
+    issue_date: issued,
+    due_date: addDays(issued, settings.payment_terms_days),
+    lines,
+    tax_label: settings.tax_label,
+    tax_rate: settings.tax_rate,
+    ...invoiceAmounts(lines, settings.tax_rate),
+    status: 'ISSUED' as const,
+    paid_date: null,
+    paid_amount: null,
+    payment_ref: null,
+    void_reason: null,
+    created_by: auth.caller.fullName,
+  }
+
+  // Next number in the client's sequence; a concurrent issue takes the same number
+  // and trips the unique constraint, so take the one after and try again
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const { data: last } = await supabase
+      .from(INVOICE_TABLE)
+      .select('sequence')
+      .eq('project_code', projectCode)
+      .eq('client', client)
+      .order('sequence', { ascending: false })
+      .limit(1)
+    const sequence = (last?.[0]?.sequence ?? 0) + 1
+    const row = { ...base, sequence, invoice_no: formatInvoiceNo(settings.prefix, client, sequence) }
+
+    const { data, error } = await supabase.from(INVOICE_TABLE).insert(row).select().single()
+    if (!error) {
+      const invoice = data as Invoice
+      await recordDataChanges(INVOICE_TABLE, projectCode, auth.caller, [{ recordId: invoice.id!, before: null, after: row }])
+      return { success: true, invoice }
+    }
+    // Only a taken number is worth retrying; the live-invoice index means the
+    // month was invoiced by someone else in the meantime
+    if (error.code === '23505' && error.message.includes('idx_cms_invoices_live')) {
+      return { success: false, error: `${monthYear} for ${client} was invoiced by someone else just now; reload to see it` }
+    }
+    if (error.code !== '23505') {
+      console.error('[Invoice] insert error:', error.message)
+      return { success: false, error: error.message }
+    }
+  }
+  return { success: false, error: 'Could not allocate an invoice number; try again' }
+}
+
+async function updateInvoice(
+  id: number,
+  projectCode: string,
+  patch: Partial<Invoice>,
+  guard: (before: Invoice) => string | null
+): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/financial', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data: before } = await supabase
+    .from(INVOICE_TABLE)
+    .select('*')
+    .eq('id', id)
+    .eq('project_code', projectCode)
+    .maybeSingle()
+  if (!before) return { success: false, error: 'Invoice not found' }
+  const blocked = guard(before as Invoice)
+  if (blocked) return { success: false, error: blocked }
+
+  const { error } = await supabase
+    .from(INVOICE_TABLE)
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq('id', id)
+
+  if (error) {
+    console.error('[Invoice] update error:', error.message)
+    return { success: false, error: error.message }
+  }
+  await recordDataChanges(INVOICE_TABLE, projectCode, auth.caller, [{ recordId: id, before, after: patch }])
+  return { success: true }
+}
+
+export async function recordInvoicePayment(
+  id: number,
+  payment: { paid_date: string; paid_amount: number; payment_ref: string },
+  projectCode: string = 'PCSB'
+): Promise<{ success: boolean; error?: string }> {
+  const paidDate = toISODay(payment.paid_date)
+  if (!paidDate) return { success: false, error: 'Payment date is not a valid date' }
+  if (!Number.isFinite(payment.paid_amount) || payment.paid_amount <= 0) return { success: false, error: 'Amount received must be more than zero' }
+
+  // PAID means settled: a part payment leaves the invoice ISSUED until the rest arrives
+  const paidAmount = Math.round(payment.paid_amount * 100) / 100
+  return updateInvoice(
+    id,
+    projectCode,
+    { status: 'PAID', paid_date: paidDate, paid_amount: paidAmount, payment_ref: payment.payment_ref.trim() || null },
+    (inv) => {
+      if (inv.status !== 'ISSUED') return `Invoice ${inv.invoice_no} is already ${inv.status.toLowerCase()}`
+      if (paidAmount < Number(inv.total)) return `Amount received is less than the invoice total of RM ${Number(inv.total).toFixed(2)}; record the payment once it is settled in full`
+      return null
+    }
+  )
+}
+
+// Paid invoices go back to ISSUED (e.g. a bounced payment); voiding needs a reason
+export async function reopenInvoice(id: number, projectCode: string = 'PCSB'): Promise<{ success: boolean; error?: string }> {
+  return updateInvoice(
+    id,
+    projectCode,
+    { status: 'ISSUED', paid_date: null, paid_amount: null, payment_ref: null },
+    (inv) => (inv.status === 'PAID' ? null : 'Only a paid invoice can be reopened')
+  )
+}
+
+export async function voidInvoice(id: number, reason: string, projectCode: string = 'PCSB'): Promise<{ success: boolean; error?: string }> {
+  if (!reason.trim()) return { success: false, error: 'A reason is required to void an invoice' }
+
+  return updateInvoice(
+    id,
+    projectCode,
+    { status: 'VOID', void_reason: reason.trim() },
+    (inv) => (inv.status === 'ISSUED' ? null : inv.status === 'PAID' ? 'Reopen a paid invoice before voiding it' : 'Invoice is already void')
+  )
+}
+
+export async function getInvoicePdf(id: number, projectCode: string = 'PCSB'): Promise<{ success: boolean; pdf?: Uint8Array; fileName?: string; error?: string }> {
+  const auth = await authorize('/financial', projectCode)
+  if (!auth.ok) return auth.denied
+
+  const supabase = await createClient()
+  const { data, error } = await supabase
+    .from(INVOICE_TABLE)
+    .select('*')
+    .eq('id', id)
+    .eq('project_code', projectCode)
+    .maybeSingle()
+  if (error || !data) return { success: false, error: error?.message || 'Invoice not found' }
+
+  const invoice = data as Invoice
+  return { success: true, pdf: renderInvoicePdf(invoice, await fetchStatementLogo()), fileName: invoicePdfFileName(invoice) }
+}
+
+// ─── Payroll Runs (cms_payroll_runs) ───
+// The month is worked out live from the roster and master data until it is exported;
+// the export stores the lines and the file and locks the month, so later downloads
+// return the same file. Only L1 can reopen a locked month (with a reason).
+
+const PAYROLL_TABLE = 'cms_payroll_runs'
+
+type PayrollFileResult = { success: boolean; content?: string; fileName?: string; run?: PayrollRun; error?: string }
+
+async function loadPayrollLayout(projectCode: string): Promise<PayrollLayout> {
+  const admin = createAdminClient()
+  const { data } = await admin
+    .from('cms_settings')
+    .select('value')
+    .eq('key', payrollLayoutKey(projectCode))
+    .limit(1)
+    .maybeSingle()
+  return parsePayrollLayout(data?.value)
+}
+
+export async function getPayrollLayout(projectCode: string = 'PCSB'): Promise<PayrollLayout> {
+  if (!(await authorize('/payroll', projectCode)).ok) return parsePayrollLayout(null)
+  return loadPayrollLayout(projectCode)
+}
+
+export async function savePayrollLayout(projectCode: string, layout: PayrollLayout): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/payroll', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  const invalid = validatePayrollLayout(layout)
+  if (invalid) return { success: false, error: invalid }
+
+  const admin = createAdminClient()
+  const { error } = await admin
+    .from('cms_settings')
+    .upsert({ key: payrollLayoutKey(projectCode), value: JSON.stringify(layout), updated_at: new Date().toISOString() }, { onConflict: 'key' })
+
+  if (error) {
+    console.error('[Payroll] layout save error:', error.message)
     return { success: false, error: error.message }
   }
-  return { success: true, id: data?.id }
+  return { success: true }
 }
 
-// Get total cycle count per crew_id from roster (for dynamic relief labeling)
-export async function getCrewCycleCounts(project?: string): Promise<Map<string, number>> {
-  const supabase = await createClient()
-  const { data } = await supabase
-    .from(rosterTable(project))
-    .select('crew_id, cycle_number')
-    .order('crew_id')
+// Caller is already authorized. Approved statements pay what was approved: the
+// all-clients snapshot if there is one, else each approved client's own snapshot.
+// Only clients not yet approved for the month are priced from the live roster.
+async function payrollStatementRows(monthYear: string, projectCode: string, master: CrewMasterRecord[]): Promise<StatementRow[]> {
+  const approvedRows = async (scope: string): Promise<StatementRow[] | null> => {
+    const rec = await getApproval(monthYear, scope, projectCode)
+    if (rec?.submission_status !== 'Approved') return null
+    const snapshot = await getLatestStatementSnapshot(monthYear, scope, projectCode)
+    return snapshot ? snapshot.rows : null
+  }
 
-  const map = new Map<string, number>()
-  if (data) {
-    for (const row of data) {
-      const key = row.crew_id || ''
-      map.set(key, Math.max(map.get(key) || 0, row.cycle_number || 0))
-    }
+  const all = await approvedRows('ALL')
+  if (all) return all
+
+  const approved: StatementRow[] = []
+  const covered = new Set<string>()
+  for (const client of ['SKA', 'SBA']) {
+    const rows = await approvedRows(client)
+    if (!rows) continue
+    covered.add(client)
+    approved.push(...rows.filter((r) => r.client === client))
   }
-  return map
-}
 
-// Serializable version for client components
-export async function getCrewCycleCountsJSON(): Promise<Record<string, number>> {
-  const map = await getCrewCycleCounts()
-  const obj: Record<string, number> = {}
-  for (const [k, v] of map) obj[k] = v
-  return obj
+  const [y, m] = monthYear.split('-').map(Number)
+  const [roster, rates] = await Promise.all([loadPivotedRoster(projectCode), loadRateCard(projectCode)])
+  const live = calcStatementRows(roster, buildPayContext(master, rates, projectCode), y, m)
+    .filter((r) => !covered.has(r.client))
+  return [...approved, ...live]
 }
 
-// Get OHN/IM staff from master for hybrid POB (Dashboard only)
-export async function getOHNStaffFromMaster(): Promise<PivotedCrewRow[]> {
+// Caller is already authorized
+async function payrollLines(monthYear: string, projectCode: string): Promise<PayrollLine[]> {
   const supabase = await createClient()
-  const { data: ohnData } = await supabase
-    .from(MASTER_TABLE)
-    .select('id, crew_name, post, client, location')
-    .or('post.ilike.%IM%,post.ilike.%OHN%')
-    .order('crew_name', { ascending: true })
-
-  if (!ohnData) return []
-
-  return ohnData.map((staff) => ({
-    crew_id: staff.id || '',
-    crew_name: staff.crew_name || '',
-    post: staff.post || '',
-    client: staff.client || '',
-    location: staff.location || '',
-    roles_em: undefined,
-    cycles: {},
+  const [master, people] = await Promise.all([
+    loadCrewMasterData(projectCode),
+    supabase.from(MASTER_TABLE).select('*').eq('project_code', projectCode),
+  ])
+  if (people.error) console.error('[Payroll] employee details fetch error:', people.error.message)
+
+  const employees: PayrollEmployee[] = (people.data || []).map((r: Record<string, unknown>) => ({
+    id: String(r.id || ''),
+    name: (r.clean_name as string) || (r.crew_name as string) || '',
+    nric_passport: (r.nric_passport as string) || '',
+    bank: (r.bank as string) || '',
+    acc_no: (r.acc_no as string) || '',
+    resign_date: (r.resign_date as string) || null,
   }))
+  const rows = await payrollStatementRows(monthYear, projectCode, master)
+  return buildPayrollLines(rows, master, employees, monthYear)
 }
 
-// ─── Two-Stage Approval Persistence (cms_pcsb_approvals) ───
-
-export interface ApprovalRecord {
-  month_year: string;
-  client: string;
-  project_code: string;
-  approved_by: string;
-  approved_role: string;
-  approved_at: string;
-  submission_status?: string;
-  submitted_by?: string;
-  submitted_at?: string;
-}
-
-// Get approval record by (month_year, client, project_code)
-export async function getApproval(monthYear: string, client: string, projectCode: string = 'PCSB'): Promise<ApprovalRecord | null> {
+async function fetchLockedPayrollRun(monthYear: string, projectCode: string): Promise<PayrollRun | null> {
   const supabase = await createClient()
-
   const { data, error } = await supabase
-    .from('cms_pcsb_approvals')
+    .from(PAYROLL_TABLE)
     .select('*')
-    .eq('month_year', monthYear)
-    .eq('client', client)
     .eq('project_code', projectCode)
-    .limit(1)
+    .eq('month_year', monthYear)
+    .eq('status', 'LOCKED')
+    .maybeSingle()
 
   if (error) {
-    console.error('[Approval] fetch error:', error.message)
+    // Table may not exist yet -- every month stays an unlocked preview
+    if (error.code !== '42P01') console.error('[Payroll] run fetch error:', error.message)
     return null
   }
-
-  if (!data || data.length === 0) return null
-  return data[0] as ApprovalRecord
+  return data as PayrollRun | null
 }
 
-// Stage 1: Submit for approval (L1/L2)
-// Uses upsert with unique constraint on (month_year, client, project_code)
-export async function submitForApproval(
+// The month's lines: the exported ones once locked, otherwise a preview from the approved statement or live roster
+export async function getPayrollRun(
   monthYear: string,
-  client: string,
-  submittedBy: string,
   projectCode: string = 'PCSB'
-): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient()
-  const now = new Date().toLocaleDateString('en-MY', { day: '2-digit', month: 'short', year: 'numeric' })
+): Promise<{ success: boolean; lines?: PayrollLine[]; run?: PayrollRun | null; error?: string }> {
+  const auth = await authorize('/payroll', projectCode)
+  if (!auth.ok) return auth.denied
+  if (!/^\d{4}-\d{2}$/.test(monthYear)) return { success: false, error: 'Month must be YYYY-MM' }
+
+  const run = await fetchLockedPayrollRun(monthYear, projectCode)
+  if (run) return { success: true, lines: run.lines, run }
+  return { success: true, lines: await payrollLines(monthYear, projectCode), run: null }
+}
 
+// Every export for a project (reopened ones included), newest month first
+export async function getPayrollRuns(projectCode: string = 'PCSB'): Promise<PayrollRun[]> {
+  if (!(await authorize('/payroll', projectCode)).ok) return []
+
+  const supabase = await createClient()
   const { data, error } = await supabase
-    .from('cms_pcsb_approvals')
-    .upsert(
-      {
-        month_year: monthYear,
-        client,
-        project_code: projectCode,
-        submission_status: 'Submitted',
-        submitted_by: submittedBy,
-        submitted_at: now || null,
-        approved_by: '',
-        approved_role: '',
-        approved_at: null,
-      },
-      { onConflict: 'month_year,client,project_code' }
-    )
-    .select()
+    .from(PAYROLL_TABLE)
+    .select('id, project_code, month_year, version, status, file_name, employee_count, gross_total, exported_by, exported_at, reopened_by, reopened_at, reopen_reason')
+    .eq('project_code', projectCode)
+    .order('month_year', { ascending: false })
+    .order('version', { ascending: false })
 
   if (error) {
-    console.error('[Approval] submitForApproval UPSERT error:', error.message)
-    return { success: false, error: error.message }
+    if (error.code !== '42P01') console.error('[Payroll] runs fetch error:', error.message)
+    return []
   }
-
-  console.log('[Approval] submitForApproval success:', data)
-  return { success: true }
+  return (data || []) as unknown as PayrollRun[]
 }
 
-// Stage 2: Manager approval (L5/L4/L1)
-export async function approveStatement(
-  monthYear: string,
-  client: string,
-  approvedBy: string,
-  projectCode: string = 'PCSB'
-): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient()
-  const now = new Date().toLocaleDateString('en-MY', { day: '2-digit', month: 'short', year: 'numeric' })
+// Build the file with the current layout, store it and lock the month
+export async function exportPayrollRun(monthYear: string, projectCode: string = 'PCSB'): Promise<PayrollFileResult> {
+  const auth = await authorize('/payroll', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (!/^\d{4}-\d{2}$/.test(monthYear)) return { success: false, error: 'Month must be YYYY-MM' }
 
-  const { data, error } = await supabase
-    .from('cms_pcsb_approvals')
-    .upsert(
-      {
-        month_year: monthYear,
-        client,
-        project_code: projectCode,
-        submission_status: 'Approved',
-        approved_by: approvedBy,
-        approved_role: 'Project Manager',
-        approved_at: now || null,
-      },
-      { onConflict: 'month_year,client,project_code' }
-    )
-    .select()
+  const locked = await fetchLockedPayrollRun(monthYear, projectCode)
+  if (locked) return { success: false, error: `Payroll for ${monthYear} was already exported by ${locked.exported_by}; download it or ask L1 to reopen` }
+
+  const [lines, layout] = await Promise.all([payrollLines(monthYear, projectCode), loadPayrollLayout(projectCode)])
+  if (lines.length === 0) return { success: false, error: `Nothing to pay for ${monthYear}` }
+  const misfit = checkPayrollFit(lines, monthYear, layout)
+  if (misfit) return { success: false, error: misfit }
+
+  const supabase = await createClient()
+  const { data: last } = await supabase
+    .from(PAYROLL_TABLE)
+    .select('version')
+    .eq('project_code', projectCode)
+    .eq('month_year', monthYear)
+    .order('version', { ascending: false })
+    .limit(1)
 
+  const row = {
+    project_code: projectCode,
+    month_year: monthYear,
+    version: (last?.[0]?.version ?? 0) + 1,
+    status: 'LOCKED' as const,
+    lines,
+    layout,
+    file_name: payrollFileName(projectCode, monthYear, layout),
+    file_content: formatPayrollExport(lines, monthYear, layout),
+    employee_count: lines.length,
+    gross_total: payrollTotals(lines).gross,
+    exported_by: auth.caller.fullName,
+    reopened_by: null,
+    reopened_at: null,
+    reopen_reason: null,
+  }
+  const { data, error } = await supabase.from(PAYROLL_TABLE).insert(row).select().single()
   if (error) {
-    console.error('[Approval] approveStatement UPSERT error:', error.message)
+    // A concurrent export locked the month first
+    if (error.code === '23505') return { success: false, error: `Payroll for ${monthYear} was exported by someone else just now; reload to download it` }
+    console.error('[Payroll] export error:', error.message)
     return { success: false, error: error.message }
   }
 
-  console.log('[Approval] approveStatement success:', data)
-  return { success: true }
+  // The lines and the file are on the run itself; the audit entry records the summary
+  const run = data as PayrollRun
+  const summary = {
+    month_year: row.month_year, version: row.version, status: row.status, file_name: row.file_name,
+    employee_count: row.employee_count, gross_total: row.gross_total, exported_by: row.exported_by,
+  }
+  await recordDataChanges(PAYROLL_TABLE, projectCode, auth.caller, [{ recordId: run.id!, before: null, after: summary }])
+  return { success: true, content: run.file_content, fileName: run.file_name, run }
 }
 
-// Reject / Unlock: reset back to Draft
-export async function rejectApproval(
-  monthYear: string,
-  client: string,
-  projectCode: string = 'PCSB'
-): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient()
+// The stored file of a locked month, byte for byte what was exported
+export async function downloadPayrollExport(monthYear: string, projectCode: string = 'PCSB'): Promise<PayrollFileResult> {
+  const auth = await authorize('/payroll', projectCode)
+  if (!auth.ok) return auth.denied
 
-  const { data, error } = await supabase
-    .from('cms_pcsb_approvals')
-    .upsert(
-      {
-        month_year: monthYear,
-        client,
-        project_code: projectCode,
-        submission_status: 'Draft',
-        submitted_by: '',
-        submitted_at: null,
-        approved_by: '',
-        approved_role: '',
-        approved_at: null,
-      },
-      { onConflict: 'month_year,client,project_code' }
-    )
-    .select()
+  const run = await fetchLockedPayrollRun(monthYear, projectCode)
+  if (!run) return { success: false, error: `Payroll for ${monthYear} has not been exported` }
+  return { success: true, content: run.file_content, fileName: run.file_name, run }
+}
+
+export async function reopenPayrollRun(monthYear: string, reason: string, projectCode: string = 'PCSB'): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/payroll', projectCode, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (auth.caller.role !== 'L1') return { success: false, error: 'Only L1 can reopen an exported payroll month' }
+  if (!reason.trim()) return { success: false, error: 'A reason is required to reopen a payroll month' }
+
+  const run = await fetchLockedPayrollRun(monthYear, projectCode)
+  if (!run) return { success: false, error: `Payroll for ${monthYear} is not locked` }
+
+  const patch = { status: 'REOPENED' as const, reopened_by: auth.caller.fullName, reopened_at: new Date().toISOString(), reopen_reason: reason.trim() }
+  const supabase = await createClient()
+  const { error } = await supabase.from(PAYROLL_TABLE).update(patch).eq('id', run.id!)
 
   if (error) {
-    console.error('[Approval] rejectApproval UPSERT error:', error.message)
+    console.error('[Payroll] reopen error:', error.message)
     return { success: false, error: error.message }
   }
-
-  console.log('[Approval] rejectApproval success:', data)
+  await recordDataChanges(PAYROLL_TABLE, projectCode, auth.caller, [{ recordId: run.id!, before: { status: run.status }, after: patch }])
   return { success: true }
 }
 
 // Legacy upsert (kept for backward compatibility)
 export async function upsertApproval(record: ApprovalRecord): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/statement', record.project_code, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const supabase = await createClient()
 
   const { error } = await supabase
@@ -995,8 +2915,134 @@ export async function upsertApproval(record: ApprovalRecord): Promise<{ success:
   return { success: true }
 }
 
+// ─── Rate Card (cms_rate_card) ───
+// Dated allowance rates scoped per project / client / trade.
+// Resolution rules live in lib/rate-card.ts so the pay engine can apply them client-side.
+
+export async function getRateCard(project?: string): Promise<RateCardEntry[]> {
+  if (!(await authorize(RATE_PAGES, project)).ok) return []
+  return loadRateCard(project)
+}
+
+// Caller is already authorized
+async function loadRateCard(project?: string): Promise<RateCardEntry[]> {
+  const supabase = await createClient()
+
+  let q = supabase.from('cms_rate_card').select('*')
+  if (project) q = q.eq('project_code', project)
+  const { data, error } = await q
+    .order('rate_type', { ascending: true })
+    .order('effective_from', { ascending: false })
+
+  if (error) {
+    // Table may not exist yet -- pay engine falls back to default rates
+    if (error.code === '42P01') return []
+    console.error('Error fetching rate card:', error)
+    return []
+  }
+
+  return (data || []).map((r: Record<string, unknown>) => ({
+    id: Number(r.id),
+    rate_type: r.rate_type as RateType,
+    project_code: String(r.project_code || 'PCSB'),
+    client: (r.client as string) || null,
+    trade: (r.trade as TradeType) || null,
+    amount: Number(r.amount) || 0,
+    effective_from: String(r.effective_from || ''),
+    effective_to: (r.effective_to as string) || null,
+    notes: (r.notes as string) || null,
+    updated_by: (r.updated_by as string) || null,
+    updated_at: (r.updated_at as string) || undefined,
+  }))
+}
+
+export async function upsertRateCardEntry(entry: RateCardEntry): Promise<{ success: boolean; id?: number; error?: string }> {
+  const supabase = await createClient()
+  // An edit is authorized against the project the stored rate belongs to, not the one sent
+  const { data: before } = entry.id
+    ? await supabase.from('cms_rate_card').select('*').eq('id', entry.id).limit(1).maybeSingle()
+    : { data: null }
+  const auth = await authorize('/rates', before ? before.project_code : entry.project_code, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (entry.id && !before) return { success: false, error: 'Rate card entry not found' }
+  if (before && (entry.project_code || 'PCSB') !== before.project_code) {
+    return { success: false, error: 'A rate cannot be moved to another project; add it there instead' }
+  }
+
+  if (!RATE_TYPES.includes(entry.rate_type)) return { success: false, error: 'Unknown rate type: ' + entry.rate_type }
+  if (!toISODay(entry.effective_from)) return { success: false, error: 'Effective-from date is required' }
+  if (entry.effective_to && (toISODay(entry.effective_to) || '') < (toISODay(entry.effective_from) || '')) {
+    return { success: false, error: 'Effective-to date is before effective-from date' }
+  }
+  if (!(Number(entry.amount) >= 0)) return { success: false, error: 'Amount must be zero or more' }
+
+  // Reject overlapping ranges for the same scope -- resolution must be unambiguous
+  const existing = await loadRateCard(entry.project_code)
+  const clash = findOverlappingRate(existing, entry)
+  if (clash) {
+    return { success: false, error: `Overlaps existing ${clash.rate_type} rate effective ${clash.effective_from}${clash.effective_to ? ' to ' + clash.effective_to : ''}` }
+  }
+
+  const payload = {
+    rate_type: entry.rate_type,
+    project_code: entry.project_code || 'PCSB',
+    client: entry.client || null,
+    trade: entry.trade || null,
+    amount: Number(entry.amount),
+    effective_from: toISODay(entry.effective_from),
+    effective_to: toISODay(entry.effective_to),
+    notes: entry.notes || null,
+    updated_by: auth.caller.fullName,
+    updated_at: new Date().toISOString(),
+  }
+
+  const { data, error } = before
+    ? await supabase.from('cms_rate_card').update(payload).eq('id', before.id).select('id').single()
+    : await supabase.from('cms_rate_card').insert(payload).select('id').single()
+
+  if (error) {
+    console.error('Error saving rate card entry:', error)
+    return { success: false, error: error.message }
+  }
+  await recordDataChanges('cms_rate_card', payload.project_code, auth.caller, [{ recordId: data.id, before: before || null, after: payload }])
+  return { success: true, id: data.id }
+}
+
+export async function deleteRateCardEntry(id: number): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient()
+  const { data: row } = await supabase.from('cms_rate_card').select('*').eq('id', id).limit(1).maybeSingle()
+  const auth = await authorize('/rates', row?.project_code, 'EDIT')
+  if (!auth.ok) return auth.denied
+  if (!row) return { success: false, error: 'Rate card entry not found' }
+
+  const { error } = await supabase
+    .from('cms_rate_card')
+    .delete()
+    .eq('id', id)
+
+  if (error) {
+    console.error('Error deleting rate card entry:', error)
+    return { success: false, error: error.message }
+  }
+  await recordDataChanges('cms_rate_card', row.project_code, auth.caller, [{ recordId: id, before: row, after: null }])
+  return { success: true }
+}
+
+// Resolve the rate that applies on a given date (null when no rate card entry matches)
+export async function resolveRateForDate(
+  rateType: RateType,
+  client: string,
+  trade: TradeType | null,
+  date: string,
+  projectCode: string = 'PCSB'
+): Promise<RateCardEntry | null> {
+  const rates = await getRateCard(projectCode)
+  return resolveRate(rates, { rateType, projectCode, client, trade, date })
+}
+
 // ─── Maintenance Mode ───
 
+// Public: the login page checks this before anyone is signed in
 export async function getMaintenanceMode(): Promise<boolean> {
   try {
     const admin = createAdminClient()
@@ -1016,6 +3062,9 @@ export async function getMaintenanceMode(): Promise<boolean> {
 }
 
 export async function setMaintenanceMode(enabled: boolean): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
   const { error } = await admin
     .from('cms_settings')
@@ -1030,40 +3079,20 @@ export async function setMaintenanceMode(enabled: boolean): Promise<{ success: b
 
 // ─── Access Matrix (cms_access_matrix) ───
 
-// DB row shape
-interface AccessMatrixRow {
-  id: string;
+const ALL_ROLES: UserRole[] = ['L1', 'L2A', 'L2B', 'L4', 'L5A', 'L5B', 'L6', 'L7']
+
+// One cell change in cms_access_matrix_audit
+export interface AccessMatrixAuditEntry {
+  id?: number;
   page_code: string;
   project_scope: string;
-  page_name: string;
-  description: string;
-  l1_access: string;
-  l2a_access: string;
-  l2b_access: string;
-  l4_access: string;
-  l5a_access: string;
-  l5b_access: string;
-  l6_access: string;
-  l7_access: string;
-}
-
-// Map page_code (P1-P8) -> route pathname used in the app
-const PAGE_CODE_TO_ROUTE: Record<string, string> = {
-  P1: "/dashboard", P2: "/roster", P3: "/training", P4: "/staff",
-  P5: "/statement", P6: "/financial", P7: "/admin", P8: "/users",
-};
-const ROUTE_TO_PAGE_CODE: Record<string, string> = Object.fromEntries(
-  Object.entries(PAGE_CODE_TO_ROUTE).map(([k, v]) => [v, k])
-);
-
-// DB uses mixed formats: E/EDIT, V/VIEW, NO/NONE -- normalize to app format EDIT/VIEW/NONE
-function dbToApp(v: string | null | undefined): string {
-  if (!v) return "NONE";
-  const upper = v.toUpperCase().trim();
-  if (upper === "E" || upper === "EDIT") return "EDIT";
-  if (upper === "V" || upper === "VIEW") return "VIEW";
-  return "NONE";
+  role: string;
+  old_value: string;
+  new_value: string;
+  changed_by: string;
+  changed_at?: string;
 }
+
 // App -> DB: store as E/V/NO (short format)
 function appToDb(v: string): string {
   if (v === "EDIT") return "E";
@@ -1072,6 +3101,9 @@ function appToDb(v: string): string {
 }
 
 export async function getAccessMatrix(): Promise<{ success: boolean; data?: AccessMatrixRow[]; error?: string }> {
+  const auth = await authorize(null, undefined)
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
   const { data, error } = await admin
     .from('cms_access_matrix')
@@ -1086,34 +3118,10 @@ export async function getAccessMatrix(): Promise<{ success: boolean; data?: Acce
 }
 
 // Convert DB rows -> app format: Record<route, { PCSB: Record<role, level>, OTHERS: Record<role, level> }>
-export async function getAccessMatrixAsAppFormat(): Promise<Record<string, { PCSB: Record<string, string>; OTHERS: Record<string, string> }>> {
+export async function getAccessMatrixAsAppFormat(): Promise<AppAccessMatrix> {
   const result = await getAccessMatrix()
   if (!result.success || !result.data) return {}
-
-  const matrix: Record<string, { PCSB: Record<string, string>; OTHERS: Record<string, string> }> = {}
-
-  for (const row of result.data) {
-    const route = PAGE_CODE_TO_ROUTE[row.page_code]
-    if (!route) continue
-    if (!matrix[route]) {
-      matrix[route] = {
-        PCSB: { L1: "EDIT", L2A: "NONE", L2B: "NONE", L4: "NONE", L5A: "NONE", L5B: "NONE", L6: "NONE", L7: "NONE" },
-        OTHERS: { L1: "EDIT", L2A: "NONE", L2B: "NONE", L4: "NONE", L5A: "NONE", L5B: "NONE", L6: "NONE", L7: "NONE" },
-      }
-    }
-    const scope = row.project_scope as "PCSB" | "OTHERS"
-    matrix[route][scope] = {
-      L1: dbToApp(row.l1_access),
-      L2A: dbToApp(row.l2a_access),
-      L2B: dbToApp(row.l2b_access),
-      L4: dbToApp(row.l4_access),
-      L5A: dbToApp(row.l5a_access),
-      L5B: dbToApp(row.l5b_access),
-      L6: dbToApp(row.l6_access),
-      L7: dbToApp(row.l7_access),
-    }
-  }
-  return matrix
+  return matrixFromRows(result.data)
 }
 
 export async function updateAccessMatrixRow(
@@ -1121,10 +3129,26 @@ export async function updateAccessMatrixRow(
   projectScope: string,
   permissions: Record<string, string>
 ): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', projectScope, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   const admin = createAdminClient()
   const pageCode = ROUTE_TO_PAGE_CODE[route]
   if (!pageCode) return { success: false, error: "Unknown route: " + route }
 
+  const { data: before, error: fetchError } = await admin
+    .from('cms_access_matrix')
+    .select('*')
+    .eq('page_code', pageCode)
+    .eq('project_scope', projectScope)
+    .limit(1)
+    .maybeSingle()
+  if (fetchError) {
+    console.error('[Access] matrix row fetch error:', fetchError.message)
+    return { success: false, error: fetchError.message }
+  }
+  if (!before) return { success: false, error: `No access matrix row for ${route} (${projectScope})` }
+
   const updatePayload = {
     l1_access: appToDb(permissions.L1 || "EDIT"),
     l2a_access: appToDb(permissions.L2A || "NONE"),
@@ -1136,23 +3160,71 @@ export async function updateAccessMatrixRow(
     l7_access: appToDb(permissions.L7 || "NONE"),
   }
 
-  const { error } = await admin
+  // One audit row per cell that actually changes
+  const changes: Omit<AccessMatrixAuditEntry, 'id' | 'changed_at'>[] = ALL_ROLES
+    .map((role) => {
+      const column = accessColumn(role) as keyof typeof updatePayload
+      return { role, oldValue: dbToApp(before[column]), newValue: dbToApp(updatePayload[column]) }
+    })
+    .filter((c) => c.oldValue !== c.newValue)
+    .map((c) => ({
+      page_code: pageCode,
+      project_scope: projectScope,
+      role: c.role,
+      old_value: c.oldValue,
+      new_value: c.newValue,
+      changed_by: auth.caller.email,
+    }))
+  if (changes.length === 0) return { success: true }
+
+  const { data: updated, error } = await admin
     .from('cms_access_matrix')
     .update(updatePayload)
     .eq('page_code', pageCode)
     .eq('project_scope', projectScope)
+    .select('page_code')
 
   if (error) {
     console.error('Error updating access matrix:', error)
     return { success: false, error: error.message }
   }
+  // The row can go between the read above and the update
+  if (!updated || updated.length === 0) return { success: false, error: `No access matrix row for ${route} (${projectScope})` }
+  invalidateAccessMatrix()
+
+  const { error: auditError } = await admin.from('cms_access_matrix_audit').insert(changes)
+  if (auditError) console.error('[Access] audit insert error:', auditError.message)
   return { success: true }
 }
 
+// Access matrix change log, newest first
+export async function getAccessMatrixAudit(filters: { pageCode?: string; role?: string; limit?: number } = {}): Promise<AccessMatrixAuditEntry[]> {
+  if (!(await authorize('/users', undefined)).ok) return []
+
+  const admin = createAdminClient()
+  let q = admin
+    .from('cms_access_matrix_audit')
+    .select('*')
+    .order('changed_at', { ascending: false })
+    .limit(filters.limit || 200)
+  if (filters.pageCode) q = q.eq('page_code', filters.pageCode)
+  if (filters.role) q = q.eq('role', filters.role)
+
+  const { data, error } = await q
+  if (error) {
+    if (error.code !== '42P01') console.error('[Access] audit fetch error:', error.message)
+    return []
+  }
+  return (data || []) as AccessMatrixAuditEntry[]
+}
+
 // Bulk save: update all rows for the entire matrix
 export async function saveAccessMatrixBulk(
   matrix: Record<string, { PCSB: Record<string, string>; OTHERS: Record<string, string> }>
 ): Promise<{ success: boolean; error?: string }> {
+  const auth = await authorize('/users', undefined, 'EDIT')
+  if (!auth.ok) return auth.denied
+
   for (const [route, scopes] of Object.entries(matrix)) {
     for (const [scope, perms] of Object.entries(scopes)) {
       const result = await updateAccessMatrixRow(route, scope, perms)
@@ -1162,21 +3234,74 @@ export async function saveAccessMatrixBulk(
   return { success: true }
 }
 
-// Bulk update for Save Changes
-export async function bulkUpdateRosterRows(updates: { id: number; updates: Partial<RosterRow> }[], project?: string): Promise<{ success: boolean; error?: string }> {
-  const supabase = await createClient()
+// Bulk update for Save Changes: all-or-nothing, with the same checks and rollback
+// as a rotation plan
+export async function bulkUpdateRosterRows(updates: { id: number; updates: Partial<RosterRow> }[], project?: string, override?: RosterLockOverride): Promise<RosterWriteResult> {
+  return applyRosterChanges(updates, [], project, override)
+}
 
-  for (const item of updates) {
-    const { error } = await supabase
-      .from(rosterTable(project))
-      .update(item.updates)
-      .eq('id', item.id)
+// A rotation plan or roster import in one go. Updates and new cycles are checked
+// together, so one lock override covers them all, and applied all-or-nothing: the
+// new cycles go in as one insert, and if an update then fails the inserted rows
+// are removed and the rows already updated are put back.
+export async function applyRosterChanges(
+  updates: { id: number; updates: Partial<RosterRow> }[],
+  creates: NewRosterRow[],
+  project?: string,
+  override?: RosterLockOverride
+): Promise<RosterWriteResult> {
+  const auth = await authorize('/admin', project, 'EDIT')
+  if (!auth.ok) return auth.denied
+
+  const existing = await fetchRosterRowsById(updates.map((u) => u.id), project)
+  const missing = updates.filter((u) => !existing.has(u.id)).map((u) => u.id)
+  if (missing.length > 0) {
+    return { success: false, error: `Roster ${missing.length === 1 ? 'row' : 'rows'} ${missing.join(', ')} not found; reload and try again` }
+  }
+  const changes = [
+    ...updates.map((u) => ({ rosterId: u.id, before: existing.get(u.id)!, after: { ...existing.get(u.id)!, ...u.updates } })),
+    ...creates.map((row) => ({ before: null, after: row })),
+  ]
+  const certs = await enforceCertGate(project, changes.filter((_, i) => i >= updates.length || touchesDates(updates[i].updates)).map((c) => c.after))
+  if (certs.blocked) return certs.blocked
+  const lock = await enforceRosterLock(project, changes, override)
+  if (lock) return lock
+
+  const supabase = await createClient()
+  const table = rosterTable(project)
 
+  let inserted: RosterRow[] = []
+  if (creates.length > 0) {
+    const { data, error } = await supabase.from(table).insert(creates.map(newRosterRecord)).select()
     if (error) {
-      console.error('Error in bulk update:', error)
+      console.error('Error creating roster rows:', error)
       return { success: false, error: error.message }
     }
+    inserted = (data || []) as RosterRow[]
   }
 
-  return { success: true }
+  const applied: { id: number; undo: Partial<RosterRow> }[] = []
+  for (const item of updates) {
+    const { error } = await supabase.from(table).update(item.updates).eq('id', item.id)
+    if (error) {
+      console.error('Error applying roster changes:', error)
+      for (const done of applied) {
+        const { error: undoError } = await supabase.from(table).update(done.undo).eq('id', done.id)
+        if (undoError) console.error('Error restoring roster row:', done.id, undoError.message)
+      }
+      if (inserted.length > 0) {
+        const { error: undoError } = await supabase.from(table).delete().in('id', inserted.map((r) => r.id))
+        if (undoError) console.error('Error removing inserted roster rows:', undoError.message)
+      }
+      return { success: false, error: `${error.message}; no changes were saved` }
+    }
+    const before = existing.get(item.id)! as unknown as Record<string, unknown>
+    applied.push({ id: item.id, undo: Object.fromEntries(Object.keys(item.updates).map((k) => [k, before[k] ?? null])) })
+  }
+
+  await recordDataChanges(table, project, auth.caller, [
+    ...updates.map((u) => ({ recordId: u.id, before: existing.get(u.id)!, after: u.updates })),
+    ...inserted.map((r) => ({ recordId: r.id, before: null, after: r })),
+  ])
+  return { success: true, warnings: certs.warnings }
 }
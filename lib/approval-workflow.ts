@@ -0,0 +1,108 @@
+import type { UserRole } from './auth';
+
+// ---------------------------------------------------------------------------
+// Statement approval workflow -- ordered stages per project, stored in
+// cms_settings (key approval_workflow_<PROJECT>) and falling back to the
+// defaults below. Pure helpers shared by the server actions and the UI.
+//
+// cms_pcsb_approvals.current_stage is the index of the stage awaiting action:
+//   0            -> Draft (awaiting stage 0, the submission)
+//   1..n-1       -> Submitted, waiting on stages[current_stage]
+//   n            -> Approved (every stage signed off)
+// ---------------------------------------------------------------------------
+
+export interface ApprovalStage {
+  code: string;
+  label: string;
+  roles: UserRole[];
+}
+
+export type ApprovalAction = 'SUBMIT' | 'APPROVE' | 'REJECT' | 'RESET';
+
+// One append-only row in cms_approval_history
+export interface ApprovalHistoryEntry {
+  id?: number;
+  project_code: string;
+  month_year: string;
+  client: string;
+  action: ApprovalAction;
+  from_stage: number;
+  to_stage: number;
+  stage_label: string;
+  actor: string;
+  actor_role: string;
+  comment: string | null;
+  created_at?: string;
+}
+
+export const DEFAULT_APPROVAL_WORKFLOW: Record<string, ApprovalStage[]> = {
+  PCSB: [
+    { code: 'SUBMIT', label: 'Data Lodger', roles: ['L1', 'L2A'] },
+    { code: 'PMT', label: 'PMT', roles: ['L1', 'L4'] },
+    { code: 'PM', label: 'Project Manager', roles: ['L1', 'L5A'] },
+    { code: 'ACCOUNT', label: 'Account', roles: ['L1', 'L7'] },
+  ],
+  OTHERS: [
+    { code: 'SUBMIT', label: 'Data Lodger', roles: ['L1', 'L2B'] },
+    { code: 'PMT', label: 'PMT', roles: ['L1', 'L4'] },
+    { code: 'PM', label: 'Project Manager', roles: ['L1', 'L5B'] },
+    { code: 'ACCOUNT', label: 'Account', roles: ['L1', 'L7'] },
+  ],
+};
+
+export function workflowSettingsKey(projectCode: string): string {
+  return `approval_workflow_${projectCode}`;
+}
+
+// Stored JSON -> stages; anything malformed falls back to the project default
+export function parseWorkflow(raw: string | null | undefined, projectCode: string): ApprovalStage[] {
+  const fallback = DEFAULT_APPROVAL_WORKFLOW[projectCode] || DEFAULT_APPROVAL_WORKFLOW.PCSB;
+  if (!raw) return fallback;
+  try {
+    const parsed = JSON.parse(raw);
+    return validateWorkflow(parsed) ? parsed : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// A workflow needs a submission stage plus at least one approval stage
+export function validateWorkflow(stages: unknown): stages is ApprovalStage[] {
+  if (!Array.isArray(stages) || stages.length < 2) return false;
+  return stages.every(
+    (s) => s && typeof s.code === 'string' && s.code.trim() && typeof s.label === 'string' && s.label.trim() &&
+      Array.isArray(s.roles) && s.roles.length > 0
+  );
+}
+
+// Current stage index from an approval row; legacy rows without current_stage
+// are mapped from their two-stage status
+export function currentStageOf(
+  rec: { current_stage?: number | null; submission_status?: string } | null | undefined,
+  stages: ApprovalStage[]
+): number {
+  if (!rec) return 0;
+  if (typeof rec.current_stage === 'number') return rec.current_stage;
+  if (rec.submission_status === 'Approved') return stages.length;
+  if (rec.submission_status === 'Submitted') return stages.length - 1;
+  return 0;
+}
+
+export function isFinalStage(stages: ApprovalStage[], stageIndex: number): boolean {
+  return stageIndex === stages.length - 1;
+}
+
+// Stage waiting on action, or null once approved
+export function pendingStage(stages: ApprovalStage[], currentStage: number): ApprovalStage | null {
+  return stages[currentStage] ?? null;
+}
+
+export function canActOnStage(stages: ApprovalStage[], currentStage: number, role: string | null | undefined): boolean {
+  const stage = pendingStage(stages, currentStage);
+  return !!stage && !!role && stage.roles.includes(role as UserRole);
+}
+
+export function statusForStage(stages: ApprovalStage[], currentStage: number): 'Draft' | 'Submitted' | 'Approved' {
+  if (currentStage <= 0) return 'Draft';
+  return currentStage >= stages.length ? 'Approved' : 'Submitted';
+}
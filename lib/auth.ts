@@ -2,7 +2,7 @@
 
 // ---------------------------------------------------------------------------
 // Safe storage wrappers -- the v0 embedded preview iframe blocks
-// sessionStorage / localStorage.  Every access goes through these helpers
+// sessionStorage.  Every access goes through these helpers
 // so the rest of the file never touches storage directly.
 // ---------------------------------------------------------------------------
 function safeGetSession(key: string): string | null {
@@ -14,15 +14,6 @@ function safeSetSession(key: string, value: string): void {
 function safeRemoveSession(key: string): void {
   try { sessionStorage.removeItem(key); } catch { /* blocked */ }
 }
-function safeGetLocal(key: string): string | null {
-  try { return localStorage.getItem(key); } catch { return null; }
-}
-function safeSetLocal(key: string, value: string): void {
-  try { localStorage.setItem(key, value); } catch { /* blocked */ }
-}
-function safeRemoveLocal(key: string): void {
-  try { localStorage.removeItem(key); } catch { /* blocked */ }
-}
 
 // ---------------------------------------------------------------------------
 // Role system: L1 (Super Admin) through L7
@@ -64,65 +55,36 @@ export const ROLE_LABELS: Record<UserRole, string> = {
 // ---------------------------------------------------------------------------
 // Permission matrix: per page, per project => "EDIT" | "VIEW" | "NONE"
 // Pages: P1=Dashboard, P2=Roster, P3=Training, P4=Staff, P5=Statement,
-//        P6=Financial, P7=Data Manager, P8=User Mgmt
+//        P6=Financial, P7=Data Manager, P8=User Mgmt, P9=Rate Card,
+//        P10=Payroll
 // ---------------------------------------------------------------------------
 export type PermissionLevel = "EDIT" | "VIEW" | "NONE";
 
-interface PagePermission {
+export interface PagePermission {
   PCSB: Record<UserRole, PermissionLevel>;
   OTHERS: Record<UserRole, PermissionLevel>;
 }
 
-const perm = (l1: PermissionLevel, l2a: PermissionLevel, l2b: PermissionLevel, l4: PermissionLevel, l5a: PermissionLevel, l5b: PermissionLevel, l6: PermissionLevel, l7: PermissionLevel): Record<UserRole, PermissionLevel> => ({
-  L1: l1, L2A: l2a, L2B: l2b, L4: l4, L5A: l5a, L5B: l5b, L6: l6, L7: l7,
-});
-
-const DEFAULT_PERMISSION_MATRIX: Record<string, PagePermission> = {
-  "/dashboard":  { PCSB: perm("EDIT","VIEW","VIEW","VIEW","VIEW","VIEW","VIEW","VIEW"), OTHERS: perm("EDIT","VIEW","VIEW","VIEW","VIEW","VIEW","VIEW","VIEW") },
-  "/roster":     { PCSB: perm("EDIT","VIEW","VIEW","VIEW","VIEW","NONE","NONE","NONE"), OTHERS: perm("EDIT","VIEW","VIEW","VIEW","NONE","VIEW","NONE","NONE") },
-  "/training":   { PCSB: perm("EDIT","EDIT","VIEW","EDIT","VIEW","NONE","NONE","NONE"), OTHERS: perm("EDIT","VIEW","EDIT","EDIT","NONE","VIEW","NONE","NONE") },
-  "/staff":      { PCSB: perm("EDIT","EDIT","VIEW","EDIT","VIEW","NONE","NONE","NONE"), OTHERS: perm("EDIT","VIEW","EDIT","EDIT","NONE","VIEW","NONE","NONE") },
-  "/statement":  { PCSB: perm("EDIT","VIEW","NONE","VIEW","VIEW","NONE","VIEW","VIEW"), OTHERS: perm("EDIT","NONE","VIEW","VIEW","NONE","VIEW","VIEW","VIEW") },
-  "/financial":  { PCSB: perm("EDIT","VIEW","NONE","VIEW","VIEW","NONE","VIEW","VIEW"), OTHERS: perm("EDIT","NONE","VIEW","VIEW","NONE","VIEW","VIEW","VIEW") },
-  "/admin":      { PCSB: perm("EDIT","EDIT","VIEW","VIEW","VIEW","NONE","NONE","NONE"), OTHERS: perm("EDIT","VIEW","EDIT","VIEW","NONE","VIEW","NONE","NONE") },
-  "/users":      { PCSB: perm("EDIT","NONE","NONE","NONE","NONE","NONE","NONE","NONE"), OTHERS: perm("EDIT","NONE","NONE","NONE","NONE","NONE","NONE","NONE") },
-};
-
-const MATRIX_STORAGE_KEY = "cms_permission_matrix";
-
-function loadMatrix(): Record<string, PagePermission> {
-  if (typeof window === "undefined") return DEFAULT_PERMISSION_MATRIX;
-  const stored = safeGetLocal(MATRIX_STORAGE_KEY);
-  if (!stored) return DEFAULT_PERMISSION_MATRIX;
-  try {
-    const parsed = JSON.parse(stored) as Record<string, PagePermission>;
-    const firstPage = Object.values(parsed)[0];
-    if (firstPage && firstPage.PCSB && ("L5" in firstPage.PCSB) && !("L5A" in firstPage.PCSB)) {
-      safeRemoveLocal(MATRIX_STORAGE_KEY);
-      return DEFAULT_PERMISSION_MATRIX;
-    }
-    return parsed;
-  } catch { return DEFAULT_PERMISSION_MATRIX; }
-}
+// In-memory copy of cms_access_matrix, the only source of truth. Filled from the
+// server at login, on each page load (SessionProvider) and by AppShell via /api/me;
+// nothing is kept in browser storage, so every browser sees the same matrix.
+let permissionMatrix: Record<string, PagePermission> = {};
 
 export function getPermissionMatrix(): Record<string, PagePermission> {
-  return loadMatrix();
+  return permissionMatrix;
 }
 
-export function savePermissionMatrix(matrix: Record<string, PagePermission>): void {
+export function setPermissionMatrix(matrix: Record<string, PagePermission>): void {
   if (typeof window !== "undefined") {
-    safeSetLocal(MATRIX_STORAGE_KEY, JSON.stringify(matrix));
+    permissionMatrix = matrix;
   }
 }
 
-// Live reference (always reads latest)
-export const PERMISSION_MATRIX = DEFAULT_PERMISSION_MATRIX;
-
-// Get permission for a specific page + project + role (reads live stored matrix)
+// Get permission for a specific page + project + role (reads the server-loaded matrix)
 export function getPermission(pathname: string, project: ProjectKey, role: UserRole): PermissionLevel {
-  const matrix = loadMatrix();
-  const pagePerm = matrix[pathname];
-  if (!pagePerm) return "VIEW"; // default allow view for undefined pages
+  if (role === "L1") return "EDIT";
+  const pagePerm = permissionMatrix[pathname];
+  if (!pagePerm) return PAGE_PRIORITY.includes(pathname) ? "NONE" : "VIEW"; // default allow view for pages outside the matrix
   return pagePerm[project]?.[role] ?? "NONE";
 }
 
@@ -139,7 +101,7 @@ export function canEdit(pathname: string, project: ProjectKey, role: UserRole):
 }
 
 // Page priority order for redirect when user can't access their target page
-const PAGE_PRIORITY = ["/dashboard", "/roster", "/training", "/staff", "/statement", "/financial", "/admin", "/users"];
+const PAGE_PRIORITY = ["/dashboard", "/roster", "/training", "/staff", "/statement", "/financial", "/admin", "/users", "/rates", "/payroll"];
 
 // Get the first page the user can access
 export function getFirstAccessiblePage(role: UserRole): string {
@@ -182,19 +144,38 @@ export function setSelectedProject(project: ProjectKey): void {
 const SESSION_TIMEOUT = 5 * 60 * 1000;
 const LAST_ACTIVITY_KEY = "cms_last_activity";
 
-// Called after successful Supabase Auth signInWithPassword.
-// Stores the user profile in sessionStorage for client-side access checks.
-export function setSession(profile: { username: string; fullName: string; role: string; defaultProject: string }): AuthUser {
-  const authUser: AuthUser = {
+// The signed-in user is held in memory only -- never read back from browser
+// storage. SessionProvider primes it from the server on each page load, the
+// login page sets it from signInWithEmail, and AppShell re-checks it against
+// /api/me. Editing sessionStorage/localStorage cannot change the role.
+let sessionUser: AuthUser | null = null;
+let sessionPrimed = false;
+
+function toAuthUser(profile: { username: string; fullName: string; role: string; defaultProject?: string }): AuthUser {
+  return {
     username: profile.username.toLowerCase(),
     fullName: profile.fullName,
     role: profile.role as UserRole,
     defaultProject: (profile.defaultProject || "PCSB") as ProjectKey,
   };
+}
+
+// Seed the user resolved by the server for this page load (first call wins)
+export function primeSession(profile: { username: string; fullName: string; role: string; defaultProject?: string } | null): void {
+  if (typeof window === "undefined" || sessionPrimed) return;
+  sessionPrimed = true;
+  sessionUser = profile ? toAuthUser(profile) : null;
+}
+
+// Called with a profile that came from the server (signInWithEmail or /api/me)
+export function setSession(profile: { username: string; fullName: string; role: string; defaultProject: string }): AuthUser {
+  const authUser = toAuthUser(profile);
   if (typeof window !== "undefined") {
-    safeSetSession("cms_auth_user", JSON.stringify(authUser));
+    const isNewLogin = sessionUser?.username !== authUser.username;
+    sessionPrimed = true;
+    sessionUser = authUser;
     safeSetSession(LAST_ACTIVITY_KEY, Date.now().toString());
-    if (authUser.defaultProject) {
+    if (isNewLogin && authUser.defaultProject) {
       setSelectedProject(authUser.defaultProject);
     }
   }
@@ -203,7 +184,9 @@ export function setSession(profile: { username: string; fullName: string; role:
 
 export function logout(): void {
   if (typeof window !== "undefined") {
-    safeRemoveSession("cms_auth_user");
+    sessionUser = null;
+    sessionPrimed = true;
+    safeRemoveSession("cms_auth_user"); // written by older builds
     safeRemoveSession(LAST_ACTIVITY_KEY);
     safeRemoveSession(PROJECT_KEY);
     // Clear all Supabase auth cookies client-side
@@ -229,22 +212,7 @@ export function getUser(): AuthUser | null {
     }
   }
   
-  const stored = safeGetSession("cms_auth_user");
-  if (stored) {
-    try {
-      const parsed = JSON.parse(stored) as AuthUser;
-      // Force re-login if stored session has old role format
-      const validRoles: UserRole[] = ["L1","L2A","L2B","L4","L5A","L5B","L6","L7"];
-      if (!validRoles.includes(parsed.role)) {
-        logout();
-        return null;
-      }
-      return parsed;
-    } catch {
-      return null;
-    }
-  }
-  return null;
+  return sessionUser;
 }
 
 export function isAuthenticated(): boolean {
@@ -0,0 +1,146 @@
+import type { AuthUser, PermissionLevel, ProjectKey, UserRole } from './auth';
+
+// ---------------------------------------------------------------------------
+// Server-side authorization -- every server action names the page and project
+// it belongs to; the caller's cms_users role must hold the required level for
+// that page in cms_access_matrix, and the proxy applies the same matrix to
+// page routes. Pure helpers shared by lib/actions.ts, lib/session.ts and the
+// proxy (which do the lookups) and the pages (which recognise a forbidden result).
+// ---------------------------------------------------------------------------
+
+// Map page_code (P1-P10) -> route pathname used in the app
+export const PAGE_CODE_TO_ROUTE: Record<string, string> = {
+  P1: "/dashboard", P2: "/roster", P3: "/training", P4: "/staff",
+  P5: "/statement", P6: "/financial", P7: "/admin", P8: "/users",
+  P9: "/rates", P10: "/payroll",
+};
+export const ROUTE_TO_PAGE_CODE: Record<string, string> = Object.fromEntries(
+  Object.entries(PAGE_CODE_TO_ROUTE).map(([k, v]) => [v, k])
+);
+
+// Page routes in landing priority order (P1 first)
+export const PAGE_ROUTES: string[] = Object.values(PAGE_CODE_TO_ROUTE);
+
+// DB row shape
+export interface AccessMatrixRow {
+  id: string;
+  page_code: string;
+  project_scope: string;
+  page_name: string;
+  description: string;
+  l1_access: string;
+  l2a_access: string;
+  l2b_access: string;
+  l4_access: string;
+  l5a_access: string;
+  l5b_access: string;
+  l6_access: string;
+  l7_access: string;
+}
+
+// App format: Record<route, { PCSB: Record<role, level>, OTHERS: Record<role, level> }>
+export type AppAccessMatrix = Record<string, { PCSB: Record<string, string>; OTHERS: Record<string, string> }>;
+
+// cms_access_matrix column holding a role's access, e.g. L5A -> l5a_access
+export function accessColumn(role: UserRole): string {
+  return `${role.toLowerCase()}_access`;
+}
+
+// DB uses mixed formats: E/EDIT, V/VIEW, NO/NONE -- normalize to app format EDIT/VIEW/NONE
+export function dbToApp(v: string | null | undefined): PermissionLevel {
+  if (!v) return "NONE";
+  const upper = v.toUpperCase().trim();
+  if (upper === "E" || upper === "EDIT") return "EDIT";
+  if (upper === "V" || upper === "VIEW") return "VIEW";
+  return "NONE";
+}
+
+// Convert DB rows -> app format; a page/project without a row grants nothing (L1 aside)
+export function matrixFromRows(rows: AccessMatrixRow[]): AppAccessMatrix {
+  const matrix: AppAccessMatrix = {};
+
+  for (const row of rows) {
+    const route = PAGE_CODE_TO_ROUTE[row.page_code];
+    if (!route) continue;
+    if (!matrix[route]) {
+      matrix[route] = {
+        PCSB: { L1: "EDIT", L2A: "NONE", L2B: "NONE", L4: "NONE", L5A: "NONE", L5B: "NONE", L6: "NONE", L7: "NONE" },
+        OTHERS: { L1: "EDIT", L2A: "NONE", L2B: "NONE", L4: "NONE", L5A: "NONE", L5B: "NONE", L6: "NONE", L7: "NONE" },
+      };
+    }
+    const scope = row.project_scope as "PCSB" | "OTHERS";
+    matrix[route][scope] = {
+      L1: dbToApp(row.l1_access),
+      L2A: dbToApp(row.l2a_access),
+      L2B: dbToApp(row.l2b_access),
+      L4: dbToApp(row.l4_access),
+      L5A: dbToApp(row.l5a_access),
+      L5B: dbToApp(row.l5b_access),
+      L6: dbToApp(row.l6_access),
+      L7: dbToApp(row.l7_access),
+    };
+  }
+  return matrix;
+}
+
+// Top-level page route for a pathname (/statement/print -> /statement), null for non-page paths
+export function pageRouteOf(pathname: string): string | null {
+  const route = "/" + (pathname.split("/")[1] || "");
+  return PAGE_ROUTES.includes(route) ? route : null;
+}
+
+// Same rule as canAccessPage in lib/auth.ts: VIEW or EDIT in either project
+export function canOpenPage(matrix: AppAccessMatrix, route: string, role: UserRole): boolean {
+  if (role === "L1") return true;
+  const page = matrix[route];
+  return !!page && (dbToApp(page.PCSB?.[role]) !== "NONE" || dbToApp(page.OTHERS?.[role]) !== "NONE");
+}
+
+export function firstOpenPage(matrix: AppAccessMatrix, role: UserRole): string | null {
+  return PAGE_ROUTES.find((route) => canOpenPage(matrix, route, role)) ?? null;
+}
+
+// cms_users has no project column -- the "B" roles work on OTHERS, everyone else lands on PCSB
+export function defaultProjectFor(role: UserRole): ProjectKey {
+  return role === "L2B" || role === "L5B" ? "OTHERS" : "PCSB";
+}
+
+// Signed-in user as resolved on the server from the Supabase session + cms_users
+export interface SessionUser extends AuthUser {
+  id: string;
+  email: string;
+  defaultProject: ProjectKey;
+}
+
+// GET /api/me
+export interface MeResponse {
+  user: SessionUser;
+  permissions: AppAccessMatrix;
+}
+
+const LEVEL_RANK: Record<PermissionLevel, number> = { NONE: 0, VIEW: 1, EDIT: 2 };
+
+export function levelSatisfies(held: PermissionLevel, required: PermissionLevel): boolean {
+  return LEVEL_RANK[held] >= LEVEL_RANK[required];
+}
+
+// Returned (never thrown) by a server action the caller may not run
+export interface ForbiddenResult {
+  success: false;
+  forbidden: true;
+  error: string;
+  page: string | null;
+  project: string;
+  required: PermissionLevel;
+}
+
+export function forbidden(page: string | null, project: string, required: PermissionLevel, reason?: string): ForbiddenResult {
+  const error = reason || (page
+    ? `Forbidden: ${required} access to ${page} (${project}) is required`
+    : 'Forbidden: sign in required');
+  return { success: false, forbidden: true, error, page, project, required };
+}
+
+export function isForbidden(result: unknown): result is ForbiddenResult {
+  return !!result && typeof result === 'object' && (result as ForbiddenResult).forbidden === true;
+}
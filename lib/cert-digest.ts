@@ -0,0 +1,148 @@
+import { createAdminClient } from '@/lib/supabase/server'
+import { fetchAllPages } from '@/lib/supabase/pages'
+import { toISODay } from './rate-card'
+import {
+  getStatusTier, isNotifyTier, buildCrewDigest, buildTeamDigest,
+  type CertTierEntry,
+} from './cert-expiry'
+import { getMailTransport, type MailTransport } from './mail'
+
+// ---------------------------------------------------------------------------
+// Nightly certificate expiry digest -- evaluates every cms_pcsb_matrix row,
+// picks the certificates that entered the 6-month, 3-month or expired tier
+// since they were last notified (cms_cert_notifications), and mails each crew
+// member their own list plus one consolidated list to PMT and data lodgers.
+// Each send is recorded on its own success, per audience, so a failed mail is
+// retried the next night without repeating the ones that went out.
+// Runs with the service role from /api/cron/cert-digest; server-only.
+// ---------------------------------------------------------------------------
+
+// PMT and PCSB data lodgers receive the consolidated digest
+const TEAM_DIGEST_ROLES = ['L4', 'L2A']
+
+// Who a cms_cert_notifications row records the mail for
+type NotifyAudience = 'crew' | 'team'
+
+export interface CertDigestSummary {
+  date: string;
+  evaluated: number;
+  entries: number;
+  crewDigests: number;
+  teamRecipients: number;
+  transport: string;
+  dryRun: boolean;
+  errors: string[];
+}
+
+export async function runCertExpiryDigest(options: { today?: Date; transport?: MailTransport; dryRun?: boolean } = {}): Promise<CertDigestSummary> {
+  const today = new Date(options.today || Date.now())
+  today.setHours(0, 0, 0, 0)
+  const date = toISODay(today)!
+  const transport = options.transport || getMailTransport()
+  const summary: CertDigestSummary = {
+    date, evaluated: 0, entries: 0, crewDigests: 0, teamRecipients: 0,
+    transport: transport.name, dryRun: !!options.dryRun, errors: [],
+  }
+
+  const admin = createAdminClient()
+  // The matrix and the notification log both pass PostgREST's 1000-row cap, so they are paged
+  const [matrixRes, crewRes, sentRes, usersRes] = await Promise.all([
+    fetchAllPages<{ id: string; crew_id: string; cert_type: string | null; expiry_date: string | null }>((from, to) => admin
+      .from('cms_pcsb_matrix').select('id, crew_id, cert_type, expiry_date').order('id', { ascending: true }).range(from, to)),
+    admin.from('cms_master_crew').select('id, crew_name, client, status, email1, email2'),
+    fetchAllPages<{ matrix_id: string; tier: string; expiry_date: string; audience: string }>((from, to) => admin
+      .from('cms_cert_notifications').select('matrix_id, tier, expiry_date, audience').order('id', { ascending: true }).range(from, to)),
+    admin.from('cms_users').select('email, role').in('role', TEAM_DIGEST_ROLES),
+  ])
+  for (const res of [matrixRes, crewRes, sentRes, usersRes]) {
+    if (res.error) {
+      console.error('[CertDigest] fetch error:', res.error.message)
+      summary.errors.push(res.error.message)
+      return summary
+    }
+  }
+
+  const crewById = new Map((crewRes.data || []).map((c) => [String(c.id), c]))
+  const alreadySent = new Set((sentRes.data || []).map((n) => `${n.matrix_id}|${n.tier}|${n.expiry_date}|${n.audience}`))
+  const sentTo = (e: CertTierEntry, audience: NotifyAudience) => alreadySent.has(`${e.matrix_id}|${e.tier}|${e.expiry_date}|${audience}`)
+
+  // A certificate is reported once per tier per expiry date to each audience; renewing it starts over
+  const entries: CertTierEntry[] = []
+  for (const row of matrixRes.data || []) {
+    summary.evaluated++
+    const crew = crewById.get(String(row.crew_id))
+    if (!crew || String(crew.status || '').toLowerCase() === 'resigned') continue
+    const expiry = toISODay(row.expiry_date)
+    const tier = getStatusTier(expiry, today)
+    if (!expiry || !isNotifyTier(tier)) continue
+    const entry: CertTierEntry = {
+      matrix_id: String(row.id),
+      crew_id: String(row.crew_id),
+      crew_name: crew.crew_name || String(row.crew_id),
+      client: crew.client || '',
+      cert_type: row.cert_type || '',
+      expiry_date: expiry,
+      tier,
+    }
+    if (!sentTo(entry, 'crew') || !sentTo(entry, 'team')) entries.push(entry)
+  }
+  summary.entries = entries.length
+  if (entries.length === 0 || options.dryRun) return summary
+
+  const record = async (recorded: CertTierEntry[], audience: NotifyAudience) => {
+    const { error } = await admin.from('cms_cert_notifications').insert(
+      recorded.map((e) => ({
+        matrix_id: e.matrix_id,
+        crew_id: e.crew_id,
+        cert_type: e.cert_type,
+        expiry_date: e.expiry_date,
+        tier: e.tier,
+        audience,
+      }))
+    )
+    if (error) {
+      console.error('[CertDigest] record error:', error.message)
+      summary.errors.push(error.message)
+    }
+  }
+
+  // Per-crew digests; a crew member without an email is still covered by the team digest
+  const byCrew = new Map<string, CertTierEntry[]>()
+  for (const e of entries) {
+    if (sentTo(e, 'crew')) continue
+    if (!byCrew.has(e.crew_id)) byCrew.set(e.crew_id, [])
+    byCrew.get(e.crew_id)!.push(e)
+  }
+  for (const [crewId, crewEntries] of byCrew) {
+    const crew = crewById.get(crewId)!
+    const to = [crew.email1, crew.email2].filter((e): e is string => !!e && e.includes('@'))
+    if (to.length === 0) continue
+    try {
+      await transport.send({ to, ...buildCrewDigest(crewEntries[0].crew_name, crewEntries, date) })
+      summary.crewDigests++
+    } catch (err) {
+      // Not recorded, so tomorrow's run mails this crew member again
+      const msg = `crew ${crewId}: ${err instanceof Error ? err.message : String(err)}`
+      console.error('[CertDigest] send error:', msg)
+      summary.errors.push(msg)
+      continue
+    }
+    await record(crewEntries, 'crew')
+  }
+
+  const teamEntries = entries.filter((e) => !sentTo(e, 'team'))
+  const team = Array.from(new Set((usersRes.data || []).map((u) => u.email).filter((e): e is string => !!e)))
+  summary.teamRecipients = team.length
+  if (team.length === 0 || teamEntries.length === 0) return summary
+  try {
+    await transport.send({ to: team, ...buildTeamDigest(teamEntries, date) })
+  } catch (err) {
+    // Not recorded, so tomorrow's run reports the same certificates to the team again
+    const msg = `team digest: ${err instanceof Error ? err.message : String(err)}`
+    console.error('[CertDigest] send error:', msg)
+    summary.errors.push(msg)
+    return summary
+  }
+  await record(teamEntries, 'team')
+  return summary
+}
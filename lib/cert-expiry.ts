@@ -0,0 +1,90 @@
+// ---------------------------------------------------------------------------
+// Certificate expiry tiers -- the Training Matrix colours (green > 6 months,
+// yellow 3-6 months, orange < 3 months, red expired) and the nightly digest
+// that tells crew, PMT and data lodgers when a certificate enters a new tier.
+// ---------------------------------------------------------------------------
+
+export type ExpiryTier = "green" | "yellow" | "orange" | "red" | "no-data";
+
+export function getStatusTier(expiryStr: string | null, today: Date): ExpiryTier {
+  if (!expiryStr) return "no-data";
+  const expiry = new Date(expiryStr);
+  if (isNaN(expiry.getTime())) return "no-data";
+  const diff = (expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24);
+  if (diff < 0) return "red";        // expired (past due)
+  if (diff < 90) return "orange";    // <3 months (critical)
+  if (diff < 180) return "yellow";   // 3-6 months (warning)
+  return "green";                     // >6 months (safe)
+}
+
+// Tiers that trigger a notification, most urgent first
+export const NOTIFY_TIERS = ["red", "orange", "yellow"] as const;
+export type NotifyTier = (typeof NOTIFY_TIERS)[number];
+
+export const TIER_LABELS: Record<NotifyTier, string> = {
+  red: "Expired",
+  orange: "Expires within 3 months",
+  yellow: "Expires within 6 months",
+};
+
+export function isNotifyTier(tier: ExpiryTier): tier is NotifyTier {
+  return (NOTIFY_TIERS as readonly string[]).includes(tier);
+}
+
+// One certificate that has entered a notify tier since the last digest
+export interface CertTierEntry {
+  matrix_id: string;
+  crew_id: string;
+  crew_name: string;
+  client: string;
+  cert_type: string;
+  expiry_date: string;
+  tier: NotifyTier;
+}
+
+export interface DigestMessage {
+  subject: string;
+  text: string;
+}
+
+function sections(entries: CertTierEntry[], line: (e: CertTierEntry) => string): string[] {
+  const out: string[] = [];
+  for (const tier of NOTIFY_TIERS) {
+    const inTier = entries.filter((e) => e.tier === tier);
+    if (inTier.length === 0) continue;
+    out.push(`${TIER_LABELS[tier].toUpperCase()} (${inTier.length})`);
+    for (const e of inTier) out.push(`  - ${line(e)}`);
+    out.push("");
+  }
+  return out;
+}
+
+// Digest for one crew member about their own certificates
+export function buildCrewDigest(crewName: string, entries: CertTierEntry[], today: string): DigestMessage {
+  const expired = entries.some((e) => e.tier === "red");
+  return {
+    subject: expired ? "Action required: certificate expired" : "Reminder: certificates due for renewal",
+    text: [
+      `Dear ${crewName},`,
+      "",
+      `As of ${today} the following certificates need your attention:`,
+      "",
+      ...sections(entries, (e) => `${e.cert_type} -- expiry ${e.expiry_date}`),
+      "Please arrange renewal with the training coordinator and send the new certificate once issued.",
+    ].join("\n"),
+  };
+}
+
+// Consolidated digest for PMT and data lodgers, grouped by tier then crew
+export function buildTeamDigest(entries: CertTierEntry[], today: string): DigestMessage {
+  const sorted = [...entries].sort((a, b) => a.crew_name.localeCompare(b.crew_name) || a.cert_type.localeCompare(b.cert_type));
+  const expired = entries.filter((e) => e.tier === "red").length;
+  return {
+    subject: `Certificate expiry digest ${today}: ${entries.length} change${entries.length === 1 ? "" : "s"}${expired ? `, ${expired} expired` : ""}`,
+    text: [
+      `Certificates that entered a new expiry tier as of ${today}:`,
+      "",
+      ...sections(sorted, (e) => `${e.crew_name} (${e.client || "-"}) -- ${e.cert_type}, expiry ${e.expiry_date}`),
+    ].join("\n"),
+  };
+}
@@ -0,0 +1,37 @@
+import type { TradeType } from './types';
+import { toISODay } from './rate-card';
+import { mandatoryCourses, DEFAULT_COURSES, type CertGateLevel, type CourseConfig } from './courses';
+
+// ---------------------------------------------------------------------------
+// Certificate gate -- a roster cycle may only be saved when the crew member's
+// mandatory certificates (per trade and client, from the course catalogue) stay valid
+// through the cycle's sign_off. Pure check shared by the roster server actions.
+// ---------------------------------------------------------------------------
+
+export interface CertGateIssue {
+  course: string;
+  level: CertGateLevel;
+  expiry: string | null;
+  message: string;
+}
+
+// Mandatory courses that are missing or expire before signOff
+export function checkCertValidity(
+  trade: TradeType,
+  certs: { cert_type: string; expiry_date: string | null }[],
+  signOff: string,
+  courses: CourseConfig[] = DEFAULT_COURSES,
+  client?: string
+): CertGateIssue[] {
+  const expiryOf = new Map(certs.map((c) => [c.cert_type.toUpperCase(), toISODay(c.expiry_date)]));
+  const issues: CertGateIssue[] = [];
+  for (const { name, level } of mandatoryCourses(trade, courses, client)) {
+    const expiry = expiryOf.get(name.toUpperCase()) ?? null;
+    if (!expiry) {
+      issues.push({ course: name, level, expiry, message: `${name} not on record` });
+    } else if (expiry < signOff) {
+      issues.push({ course: name, level, expiry, message: `${name} expires ${expiry}, before sign off ${signOff}` });
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,150 @@
+// ---------------------------------------------------------------------------
+// Certificate metadata extraction without OCR -- reads the text layer that
+// training providers' PDFs carry (inflating FlateDecode streams with the
+// platform DecompressionStream) and the file name, then looks for a
+// certificate number, an attended / issue date and an expiry date. Scanned
+// images have no text layer, so only the file name helps there. Results only
+// prefill the upload form; the user confirms every value.
+// ---------------------------------------------------------------------------
+
+export interface CertMetadata {
+  cert_no: string | null;
+  attended_date: string | null; // YYYY-MM-DD
+  expiry_date: string | null;   // YYYY-MM-DD
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6, jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+function monthNumber(name: string): number | null {
+  return MONTHS[name.slice(0, 3).toLowerCase()] || null;
+}
+
+function isoDate(y: number, m: number, d: number): string | null {
+  if (y < 100) y += 2000;
+  const date = new Date(Date.UTC(y, m - 1, d));
+  if (date.getUTCFullYear() !== y || date.getUTCMonth() !== m - 1 || date.getUTCDate() !== d) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+function monthDate(y: number, monthName: string, d: number): string | null {
+  const m = monthNumber(monthName);
+  return m ? isoDate(y, m, d) : null;
+}
+
+// Dates as written on Malaysian certificates: 12/03/2025, 12-03-2025, 12.03.2025, 12 Mar 2025, March 12, 2025, 2025-03-12
+const DATE_PATTERNS: { re: RegExp; parse: (m: RegExpMatchArray) => string | null }[] = [
+  { re: /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/, parse: (m) => isoDate(+m[1], +m[2], +m[3]) },
+  { re: /\b(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})\b/, parse: (m) => isoDate(+m[3], +m[2], +m[1]) },
+  { re: /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})[\s,-]+(\d{4})\b/, parse: (m) => monthDate(+m[3], m[2], +m[1]) },
+  { re: /\b([A-Za-z]{3,9})\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/, parse: (m) => monthDate(+m[3], m[1], +m[2]) },
+];
+
+// The earliest date written in the text
+function firstDate(text: string): string | null {
+  let best: { index: number; iso: string } | null = null;
+  for (const { re, parse } of DATE_PATTERNS) {
+    const m = text.match(re);
+    const iso = m ? parse(m) : null;
+    if (m && iso && (!best || m.index! < best.index)) best = { index: m.index!, iso };
+  }
+  return best?.iso || null;
+}
+
+// The first date within a short window after any of the labels
+function dateAfter(text: string, labels: RegExp): string | null {
+  const re = new RegExp(labels.source, 'gi');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text))) {
+    const found = firstDate(text.slice(m.index + m[0].length, m.index + m[0].length + 40));
+    if (found) return found;
+  }
+  return null;
+}
+
+const CERT_NO_LABEL = /(?:cert(?:ificate)?\.?\s*(?:no|number|#)|serial\s*(?:no|number)|ref(?:erence)?\s*no)\.?\s*[:\-]?\s*([A-Z0-9][A-Z0-9/\-]{3,})/i;
+const ATTENDED_LABELS = /(?:date\s+of\s+(?:training|attendance|completion|issue|course)|completed\s+on|attended\s+on|course\s+date|issue\s+date|issued\s+on|date\s+issued)/;
+const EXPIRY_LABELS = /(?:expiry\s+date|date\s+of\s+expiry|expires?\s+on|expiry|valid\s+(?:until|till|to)|validity)/;
+
+export function extractFromText(text: string): CertMetadata {
+  const flat = text.replace(/\s+/g, ' ');
+  return {
+    cert_no: flat.match(CERT_NO_LABEL)?.[1] || null,
+    attended_date: dateAfter(flat, ATTENDED_LABELS),
+    expiry_date: dateAfter(flat, EXPIRY_LABELS),
+  };
+}
+
+// Provider file names such as "BOSIET_CN-12345_2025-03-12.pdf"; a lone date is taken as the attended date
+export function extractFromFileName(name: string): CertMetadata {
+  const base = name.replace(/\.[a-z0-9]+$/i, '').replace(/_/g, ' ');
+  const labelled = extractFromText(base);
+  return {
+    cert_no: labelled.cert_no,
+    attended_date: labelled.attended_date || (labelled.expiry_date ? null : firstDate(base)),
+    expiry_date: labelled.expiry_date,
+  };
+}
+
+// ─── PDF text layer ───
+
+function latin1(bytes: Uint8Array): string {
+  let s = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) s += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return s;
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return null;
+  }
+}
+
+// String operands of a content stream (the text drawn by Tj / TJ), one line per text object
+function showTextStrings(content: string): string {
+  const out: string[] = [];
+  const re = /\((?:\\.|[^\\)])*\)|\bET\b/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(content))) {
+    if (m[0] === 'ET') out.push('\n');
+    else out.push(m[0].slice(1, -1).replace(/\\([()\\])/g, '$1').replace(/\\n/g, ' '));
+  }
+  return out.join('');
+}
+
+// Best-effort text of a PDF; empty for scans or fonts with custom encodings
+export async function pdfText(bytes: Uint8Array): Promise<string> {
+  const raw = latin1(bytes);
+  const parts: string[] = [];
+  const re = /stream\r?\n/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(raw))) {
+    const start = m.index + m[0].length;
+    const end = raw.indexOf('endstream', start);
+    if (end === -1) break;
+    const dict = raw.slice(Math.max(0, m.index - 300), m.index);
+    let bodyEnd = end;
+    while (bodyEnd > start && (raw[bodyEnd - 1] === '\n' || raw[bodyEnd - 1] === '\r')) bodyEnd--;
+    const body = bytes.subarray(start, bodyEnd);
+    const content = /FlateDecode/.test(dict.slice(dict.lastIndexOf('obj'))) ? await inflate(body) : body;
+    if (content) parts.push(showTextStrings(latin1(content)));
+    re.lastIndex = end + 'endstream'.length;
+  }
+  return parts.join(' ');
+}
+
+// File name first, then the PDF text layer fills whatever is still missing
+export async function extractCertMetadata(file: File): Promise<CertMetadata> {
+  const fromName = extractFromFileName(file.name);
+  if (!/\.pdf$/i.test(file.name)) return fromName;
+  const fromText = extractFromText(await pdfText(new Uint8Array(await file.arrayBuffer())));
+  return {
+    cert_no: fromName.cert_no || fromText.cert_no,
+    attended_date: fromName.attended_date || fromText.attended_date,
+    expiry_date: fromName.expiry_date || fromText.expiry_date,
+  };
+}
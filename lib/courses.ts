@@ -0,0 +1,140 @@
+import type { TradeType } from './types';
+
+// ---------------------------------------------------------------------------
+// Training course catalogue -- the Training Matrix columns, how long a pass
+// stays valid (the rule that derives expiry_date from attended_date), and per
+// trade which courses must be valid for a crew member to be rostered.
+// BLOCK refuses the roster save, WARN lets it through with a warning.
+// The catalogue lives in cms_course_catalogue per project; DEFAULT_COURSES is
+// the fallback until that table is seeded.
+// ---------------------------------------------------------------------------
+
+export type CertGateLevel = 'BLOCK' | 'WARN';
+
+export type CourseColType = "apc" | "standard" | "single";
+
+// Matrix columns per layout: apc = cert no / expiry / plan, standard = attended / expiry / plan, single = expiry
+export const COL_COUNT: Record<CourseColType, number> = { apc: 3, standard: 3, single: 1 };
+
+export interface CourseConfig {
+  id?: number;
+  name: string;
+  colType: CourseColType;
+  colCount: number;
+  headerBg: string;
+  validityMonths?: number; // certificate lifetime from the attended date
+  mandatory?: Partial<Record<TradeType, CertGateLevel>>;
+  clients?: string[]; // mandatory only for crew of these clients; empty = every client
+  displayOrder?: number;
+  active?: boolean;
+}
+
+export const DEFAULT_COURSES: CourseConfig[] = [
+  { name: "APC",    colType: "apc",      colCount: 3, headerBg: "#4f46e5", validityMonths: 36, mandatory: { OM: "WARN", EM: "WARN" } }, // indigo
+  { name: "BLS",    colType: "standard",  colCount: 3, headerBg: "#0284c7", validityMonths: 24, mandatory: { OM: "WARN", EM: "WARN", "IMP/OHN": "WARN" } }, // sky
+  { name: "ACLS",   colType: "standard",  colCount: 3, headerBg: "#7c3aed", validityMonths: 24 }, // violet
+  { name: "ATLS",   colType: "standard",  colCount: 3, headerBg: "#db2777", validityMonths: 48 }, // pink
+  { name: "AMRO",   colType: "standard",  colCount: 3, headerBg: "#d97706", validityMonths: 36 }, // amber
+  { name: "BOSIET", colType: "standard",  colCount: 3, headerBg: "#0d9488", validityMonths: 48, mandatory: { OM: "BLOCK" } }, // teal
+  { name: "HACCP",  colType: "standard",  colCount: 3, headerBg: "#0891b2", validityMonths: 36 }, // cyan
+  { name: "H2S",    colType: "standard",  colCount: 3, headerBg: "#ea580c", validityMonths: 24, mandatory: { OM: "BLOCK" } }, // orange
+  { name: "MCM",    colType: "standard",  colCount: 3, headerBg: "#65a30d", validityMonths: 36 }, // lime
+  { name: "MED",    colType: "single",    colCount: 1, headerBg: "#dc2626", validityMonths: 12, mandatory: { OM: "BLOCK", EM: "BLOCK", "IMP/OHN": "WARN" } }, // red
+  { name: "OSP",    colType: "single",    colCount: 1, headerBg: "#059669", validityMonths: 24 }, // emerald
+  { name: "CCC",    colType: "single",    colCount: 1, headerBg: "#9333ea", validityMonths: 36 }, // purple
+];
+
+// cms_course_catalogue row -> CourseConfig
+export function courseFromRow(r: Record<string, unknown>): CourseConfig {
+  const colType = (r.col_type as CourseColType) || "standard";
+  return {
+    id: Number(r.id),
+    name: String(r.name || ""),
+    colType,
+    colCount: COL_COUNT[colType] ?? 1,
+    headerBg: String(r.header_bg || "#475569"),
+    validityMonths: r.validity_months ? Number(r.validity_months) : undefined,
+    mandatory: (r.mandatory as Partial<Record<TradeType, CertGateLevel>>) || {},
+    clients: (r.clients as string[]) || [],
+    displayOrder: Number(r.display_order) || 0,
+    active: r.active !== false,
+  };
+}
+
+// Courses a trade (at a client, when given) must hold, with how strictly each is enforced
+export function mandatoryCourses(
+  trade: TradeType,
+  courses: CourseConfig[] = DEFAULT_COURSES,
+  client?: string
+): { name: string; level: CertGateLevel }[] {
+  return courses
+    .filter((c) => c.active !== false && c.mandatory?.[trade])
+    .filter((c) => !client || !c.clients?.length || c.clients.includes(client))
+    .map((c) => ({ name: c.name, level: c.mandatory![trade]! }));
+}
+
+export function validateCourse(course: CourseConfig, existing: CourseConfig[]): string | null {
+  if (!course.name.trim()) return 'Course name is required';
+  if (!/^[A-Z0-9/&\- ]+$/i.test(course.name.trim())) return 'Course name may only use letters, digits, space, /, & and -';
+  if (existing.some((c) => c.id !== course.id && c.name.toUpperCase() === course.name.trim().toUpperCase())) {
+    return `${course.name} is already in the catalogue`;
+  }
+  if (!(course.colType in COL_COUNT)) return 'Unknown column type';
+  if (!/^#[0-9a-f]{6}$/i.test(course.headerBg)) return 'Colour must be a #rrggbb hex value';
+  if (course.validityMonths != null && (!Number.isInteger(course.validityMonths) || course.validityMonths < 1)) {
+    return 'Validity must be a whole number of months';
+  }
+  return null;
+}
+
+export function findCourse(name: string, courses: CourseConfig[] = DEFAULT_COURSES): CourseConfig | undefined {
+  const key = name.toUpperCase().trim();
+  return courses.find((c) => c.name.toUpperCase() === key);
+}
+
+// Expiry for a pass on `attended` (YYYY-MM-DD); null when the course has no set lifetime
+export function computeExpiry(course: string, attended: string, courses: CourseConfig[] = DEFAULT_COURSES): string | null {
+  const months = findCourse(course, courses)?.validityMonths;
+  if (!months) return null;
+  const [y, m, d] = attended.split("-").map(Number);
+  const target = new Date(Date.UTC(y, m - 1 + months, 1));
+  // Clamp to the month's last day (31 Jan + 1 month -> 28/29 Feb)
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(d, lastDay));
+  return target.toISOString().slice(0, 10);
+}
+
+// A matrix record whose stored expiry differs from what its course rule gives
+export interface ExpiryDiscrepancy {
+  matrix_id: string;
+  crew_id: string;
+  cert_type: string;
+  attended_date: string;
+  stored: string | null;
+  expected: string;
+  override: boolean; // expiry was typed by hand on purpose
+}
+
+export function findExpiryDiscrepancies(
+  records: { id: string; crew_id: string; cert_type: string; attended_date: string | null; expiry_date: string | null; expiry_override?: boolean }[],
+  courses: CourseConfig[] = DEFAULT_COURSES
+): ExpiryDiscrepancy[] {
+  const result: ExpiryDiscrepancy[] = [];
+  for (const r of records) {
+    const attended = r.attended_date?.slice(0, 10);
+    if (!attended) continue;
+    const expected = computeExpiry(r.cert_type, attended, courses);
+    const stored = r.expiry_date?.slice(0, 10) || null;
+    if (!expected || stored === expected) continue;
+    result.push({
+      matrix_id: r.id,
+      crew_id: r.crew_id,
+      cert_type: r.cert_type,
+      attended_date: attended,
+      stored,
+      expected,
+      override: !!r.expiry_override,
+    });
+  }
+  return result;
+}
@@ -0,0 +1,82 @@
+// ---------------------------------------------------------------------------
+// Data-change audit -- every roster, crew master, training matrix and rate
+// card write, and the deletion of users and crew documents, records a
+// before/after diff in cms_data_audit with the acting user and project. Pure
+// helpers shared by the server actions and the History drawer.
+// ---------------------------------------------------------------------------
+
+// What the History drawer can ask about; the server maps each to its table
+export type AuditSubject = 'roster' | 'master' | 'matrix';
+
+export type DataAuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface FieldChange {
+  before: unknown;
+  after: unknown;
+}
+
+// One row in cms_data_audit
+export interface DataAuditEntry {
+  id?: number;
+  table_name: string;
+  record_id: string;
+  crew_id: string | null;
+  crew_name: string | null;
+  project_code: string;
+  action: DataAuditAction;
+  changes: Record<string, FieldChange>;
+  actor: string;
+  actor_role: string;
+  created_at?: string;
+}
+
+// Bookkeeping columns that never count as a change
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// '' and null mean the same thing in these tables (forms post '' for a cleared field)
+function normalize(v: unknown): unknown {
+  return v === '' || v === undefined ? null : v;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+export function actionOf(before: object | null, after: object | null): DataAuditAction {
+  if (!before) return 'INSERT';
+  if (!after) return 'DELETE';
+  return 'UPDATE';
+}
+
+// Field-level diff. Pass before = null for an insert and after = null for a delete;
+// an update only compares the fields present in `after` (the patch that was written).
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): Record<string, FieldChange> {
+  const changes: Record<string, FieldChange> = {};
+  const fields = after ? Object.keys(after) : Object.keys(before || {});
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const b = normalize(before?.[field] ?? null);
+    const a = normalize(after?.[field] ?? null);
+    if (!sameValue(b, a)) changes[field] = { before: b, after: a };
+  }
+  return changes;
+}
+
+// Entries that touched one field, newest first
+export function historyForField(entries: DataAuditEntry[], field: string): DataAuditEntry[] {
+  return entries.filter((e) => field in (e.changes || {}));
+}
+
+export function fieldLabel(field: string): string {
+  return field.replace(/_/g, ' ').toUpperCase();
+}
+
+export function formatAuditValue(v: unknown): string {
+  if (v === null || v === undefined || v === '') return '-';
+  if (Array.isArray(v)) return v.length ? v.join(', ') : '-';
+  if (typeof v === 'boolean') return v ? 'Yes' : 'No';
+  return String(v);
+}
@@ -0,0 +1,146 @@
+import type { Invoice } from './invoicing'
+import { statementPeriod } from './statement-pdf'
+import { PdfDocument, A4_PORTRAIT, fitText, type PdfImage } from './pdf'
+
+// ---------------------------------------------------------------------------
+// Invoice PDF -- one client invoice on A4 portrait: letterhead, bill-to block,
+// trade / location lines, subtotal, tax and total, payment terms. Everything
+// printed comes from the stored invoice row, so a re-download always matches
+// what was issued. Rendered for /api/invoice-pdf.
+// ---------------------------------------------------------------------------
+
+const NAVY = '1E3A8A'
+const MUTED = '64748B'
+const RULE = 'CBD5E1'
+
+const MARGIN = 40
+const ROW_H = 16
+
+const fmtAmt = (v: number) => v.toLocaleString('en-MY', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+function fmtDay(isoDay: string | null): string {
+  if (!isoDay) return '-'
+  const d = new Date(`${isoDay}T00:00:00Z`)
+  return d.toLocaleDateString('en-MY', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'UTC' })
+}
+
+export function invoicePdfFileName(invoice: Pick<Invoice, 'invoice_no'>): string {
+  return `${invoice.invoice_no}.pdf`
+}
+
+export function renderInvoicePdf(invoice: Invoice, logo?: PdfImage | null): Uint8Array {
+  const doc = new PdfDocument(A4_PORTRAIT)
+  const W = doc.width
+  const right = W - MARGIN
+  doc.addPage()
+
+  // Letterhead
+  if (logo) {
+    const h = 38
+    doc.image(logo, MARGIN, 36, (logo.width / logo.height) * h, h)
+  }
+  doc.text(invoice.tax_rate > 0 ? 'TAX INVOICE' : 'INVOICE', right, 52, { size: 18, bold: true, color: NAVY, align: 'right' })
+  if (invoice.tax_reg_no) {
+    doc.text(`${invoice.tax_label} Reg. No: ${invoice.tax_reg_no}`, right, 66, { size: 8, color: MUTED, align: 'right' })
+  }
+  doc.line(MARGIN, 86, right, 86, NAVY, 1.2)
+
+  // Bill to (left) and invoice facts (right)
+  doc.text('BILL TO', MARGIN, 108, { size: 7.5, bold: true, color: NAVY })
+  const billTo = (invoice.bill_to || `${invoice.project_code} - ${invoice.client}`).split('\n').filter((l) => l.trim())
+  billTo.slice(0, 6).forEach((line, i) => {
+    doc.text(fitText(line.trim(), 260, 9, i === 0), MARGIN, 122 + i * 12, { size: 9, bold: i === 0 })
+  })
+
+  const facts: [string, string][] = [
+    ['Invoice No', invoice.invoice_no],
+    ['Issue Date', fmtDay(invoice.issue_date)],
+    ['Due Date', fmtDay(invoice.due_date)],
+    ['Period', statementPeriod(invoice.month_year)],
+    ['Client', `${invoice.client} (${invoice.project_code})`],
+  ]
+  facts.forEach(([label, value], i) => {
+    const y = 108 + i * 13
+    doc.text(label.toUpperCase(), right - 150, y, { size: 7, bold: true, color: MUTED })
+    doc.text(value, right, y, { size: 8.5, bold: i === 0, align: 'right' })
+  })
+
+  // Lines
+  let y = 200
+  const cols = { no: MARGIN + 4, desc: MARGIN + 26, crew: right - 170, days: right - 120, amount: right - 4 }
+  const tableHeader = () => {
+    doc.rect(MARGIN, y, right - MARGIN, ROW_H + 2, { fill: NAVY })
+    const head = { size: 7.5, bold: true, color: 'FFFFFF' }
+    doc.text('NO', cols.no, y + 12, head)
+    doc.text('DESCRIPTION', cols.desc, y + 12, head)
+    doc.text('CREW', cols.crew, y + 12, { ...head, align: 'center' })
+    doc.text('DAYS', cols.days, y + 12, { ...head, align: 'center' })
+    doc.text('AMOUNT (RM)', cols.amount, y + 12, { ...head, align: 'right' })
+    y += ROW_H + 2
+  }
+  tableHeader()
+
+  invoice.lines.forEach((line, i) => {
+    // Totals and terms below the last line need ~170pt
+    if (y + ROW_H > doc.height - (i === invoice.lines.length - 1 ? 210 : 60)) {
+      doc.addPage()
+      y = 50
+      tableHeader()
+    }
+    if (i % 2 === 1) doc.rect(MARGIN, y, right - MARGIN, ROW_H, { fill: 'F1F5F9' })
+    const base = y + 11
+    doc.text(String(i + 1), cols.no, base, { size: 8.5 })
+    doc.text(fitText(line.description, cols.crew - cols.desc - 30, 8.5), cols.desc, base, { size: 8.5 })
+    doc.text(String(line.crew_count), cols.crew, base, { size: 8.5, align: 'center' })
+    doc.text(String(line.days), cols.days, base, { size: 8.5, align: 'center' })
+    doc.text(fmtAmt(line.amount), cols.amount, base, { size: 8.5, align: 'right' })
+    y += ROW_H
+  })
+  doc.line(MARGIN, y, right, y, RULE, 0.6)
+
+  // Totals
+  y += 8
+  const totals: [string, string, boolean][] = [
+    ['Subtotal', fmtAmt(invoice.subtotal), false],
+    [`${invoice.tax_label} @ ${invoice.tax_rate}%`, fmtAmt(invoice.tax_amount), false],
+    ['TOTAL (RM)', fmtAmt(invoice.total), true],
+  ]
+  for (const [label, value, bold] of totals) {
+    if (bold) {
+      doc.rect(right - 220, y, 220, ROW_H + 4, { fill: NAVY })
+      doc.text(label, right - 212, y + 13, { size: 9.5, bold: true, color: 'FFFFFF' })
+      doc.text(value, cols.amount, y + 13, { size: 9.5, bold: true, color: 'FFFFFF', align: 'right' })
+      y += ROW_H + 4
+    } else {
+      doc.text(label, right - 212, y + 11, { size: 8.5, color: MUTED })
+      doc.text(value, cols.amount, y + 11, { size: 8.5, align: 'right' })
+      y += ROW_H
+    }
+  }
+
+  // Terms and references
+  y += 24
+  doc.text('PAYMENT TERMS', MARGIN, y, { size: 7.5, bold: true, color: NAVY })
+  doc.text(`Payment is due by ${fmtDay(invoice.due_date)}. Please quote ${invoice.invoice_no} with your remittance.`, MARGIN, y + 13, { size: 8.5 })
+  doc.text(
+    `Billed from the approved allowance statement for ${statementPeriod(invoice.month_year)}${invoice.snapshot_version ? ` (version ${invoice.snapshot_version})` : ''}.`,
+    MARGIN, y + 26, { size: 8.5, color: MUTED }
+  )
+
+  // Paid / void stamp
+  if (invoice.status !== 'ISSUED') {
+    const paid = invoice.status === 'PAID'
+    const stamp = paid ? `PAID ${fmtDay(invoice.paid_date)}` : 'VOID'
+    const color = paid ? '047857' : 'DC2626'
+    doc.rect(right - 170, y - 14, 170, 30, { stroke: color, lineWidth: 1.5 })
+    doc.text(stamp, right - 85, y + 6, { size: 13, bold: true, color, align: 'center' })
+    if (!paid && invoice.void_reason) {
+      doc.text(fitText(`Reason: ${invoice.void_reason}`, 300, 7.5), right, y + 30, { size: 7.5, color, align: 'right' })
+    }
+  }
+
+  doc.line(MARGIN, doc.height - 40, right, doc.height - 40, RULE, 0.4)
+  doc.text('This is a computer-generated invoice. No signature is required.', W / 2, doc.height - 28, { size: 7, color: MUTED, align: 'center' })
+
+  return doc.save()
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { addDays, billedVsCollected, buildInvoiceLines, formatInvoiceNo, invoiceAmounts, invoiceCandidates, invoiceStatusOn, type Invoice } from './invoicing'
+import type { StatementRow } from './pay-calc'
+
+function row(post: string, location: string, grandTotal: number, days: Partial<StatementRow> = {}): StatementRow {
+  return {
+    crew_id: 'C1', crew_name: 'AHMAD BIN ALI', post, client: 'SKA', location, displayLocation: '', masterIndex: 0,
+    offshoreDays: 0, offshoreTotal: 0, reliefDays: 0, reliefRate: 0, reliefTotal: 0,
+    standbyDays: 0, standbyRate: 0, standbyTotal: 0, medevacDays: 0, medevacTotal: 0,
+    grandTotal, cycles: [],
+    ...days,
+  }
+}
+
+function invoice(month_year: string, total: number, status: Invoice['status'], extra: Partial<Invoice> = {}): Invoice {
+  return {
+    project_code: 'PCSB', client: 'SKA', month_year, invoice_no: 'INV-SKA-00001', sequence: 1, snapshot_version: 1,
+    bill_to: '', tax_reg_no: null, issue_date: `${month_year}-28`, due_date: addDays(`${month_year}-28`, 30),
+    lines: [], subtotal: total, tax_label: 'SST', tax_rate: 0, tax_amount: 0, total,
+    status, paid_date: null, paid_amount: null, payment_ref: null, void_reason: null, created_by: 'tester',
+    ...extra,
+  }
+}
+
+describe('buildInvoiceLines', () => {
+  it('sums rows into one line per trade and location, in trade rank order', () => {
+    const lines = buildInvoiceLines(
+      [
+        row('ESCORT MEDIC', 'KBB', 500, { medevacDays: 1 }),
+        row('OFFSHORE MEDIC', 'LABUAN', 1000.1, { offshoreDays: 5 }),
+        row('OFFSHORE MEDIC', 'KBB', 2000.2, { offshoreDays: 10, reliefDays: 2 }),
+        row('OFFSHORE MEDIC', 'KBB', 0.1, { standbyDays: 1 }),
+        row('OFFSHORE MEDIC', 'KBB', 0),
+      ],
+      'MARCH 2026'
+    )
+    expect(lines).toEqual([
+      { trade: 'OFFSHORE MEDIC', location: 'KBB', description: 'OFFSHORE MEDIC services - KBB - MARCH 2026', crew_count: 2, days: 13, amount: 2000.3 },
+      { trade: 'OFFSHORE MEDIC', location: 'LABUAN', description: 'OFFSHORE MEDIC services - LABUAN - MARCH 2026', crew_count: 1, days: 5, amount: 1000.1 },
+      { trade: 'ESCORT MEDIC', location: 'KBB', description: 'ESCORT MEDIC services - KBB - MARCH 2026', crew_count: 1, days: 1, amount: 500 },
+    ])
+  })
+})
+
+describe('invoiceAmounts', () => {
+  it('adds tax on the subtotal, rounded to the sen', () => {
+    const lines = buildInvoiceLines([row('OFFSHORE MEDIC', 'KBB', 1000.05), row('ESCORT MEDIC', 'KBB', 333.33)], 'MARCH 2026')
+    expect(invoiceAmounts(lines, 8)).toEqual({ subtotal: 1333.38, tax_amount: 106.67, total: 1440.05 })
+    expect(invoiceAmounts([], 8)).toEqual({ subtotal: 0, tax_amount: 0, total: 0 })
+  })
+})
+
+describe('invoice numbering and status', () => {
+  it('pads the running number and derives overdue from the due date', () => {
+    expect(formatInvoiceNo('INV', 'SBA', 42)).toBe('INV-SBA-00042')
+    expect(addDays('2026-01-31', 30)).toBe('2026-03-02')
+    expect(invoiceStatusOn({ status: 'ISSUED', due_date: '2026-03-01' }, '2026-03-01')).toBe('ISSUED')
+    expect(invoiceStatusOn({ status: 'ISSUED', due_date: '2026-03-01' }, '2026-03-02')).toBe('OVERDUE')
+    expect(invoiceStatusOn({ status: 'PAID', due_date: '2026-03-01' }, '2026-03-02')).toBe('PAID')
+  })
+})
+
+describe('billedVsCollected', () => {
+  it('totals each month, leaving voided invoices out and counting short payments as paid', () => {
+    const months = billedVsCollected(
+      [
+        invoice('2026-02', 1000, 'PAID', { paid_amount: 900 }),
+        invoice('2026-02', 500, 'ISSUED'),
+        invoice('2026-02', 700, 'VOID'),
+        invoice('2026-01', 250.25, 'ISSUED', { due_date: '2026-04-30' }),
+      ],
+      '2026-04-01'
+    )
+    expect(months).toEqual([
+      { month_year: '2026-01', billed: 250.25, collected: 0, outstanding: 250.25, overdue: 0 },
+      { month_year: '2026-02', billed: 1500, collected: 900, outstanding: 500, overdue: 500 },
+    ])
+  })
+})
+
+describe('invoiceCandidates', () => {
+  it('splits an all-clients approval per client and skips pairs already invoiced', () => {
+    const candidates = invoiceCandidates(
+      [
+        { month_year: '2026-03', client: 'ALL', frozen_lines: [{ client: 'SKA', grandTotal: 100 }, { client: 'SBA', grandTotal: 50.5 }, { client: 'SBA', grandTotal: 25 }] },
+        { month_year: '2026-02', client: 'SKA', frozen_lines: null },
+        { month_year: '2026-01', client: 'SKA', frozen_lines: [{ client: 'SKA', grandTotal: 10 }] },
+      ],
+      [
+        { month_year: '2026-03', client: 'SKA', status: 'ISSUED' },
+        { month_year: '2026-01', client: 'SKA', status: 'VOID' },
+      ]
+    )
+    expect(candidates).toEqual([
+      { month_year: '2026-01', client: 'SKA', approved_total: 10 },
+      { month_year: '2026-02', client: 'SKA', approved_total: null },
+      { month_year: '2026-03', client: 'SBA', approved_total: 75.5 },
+    ])
+  })
+})
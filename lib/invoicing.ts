@@ -0,0 +1,197 @@
+import { toSen, type StatementRow } from './pay-calc'
+import { getFullTradeName, getTradeRank } from './logic'
+
+// ---------------------------------------------------------------------------
+// Client invoicing -- an approved statement (month/client) is billed once as
+// an invoice in cms_invoices: running number per client, one line per trade
+// and location summed from the approved snapshot rows, SST on the subtotal.
+// Stored status is ISSUED / PAID / VOID; OVERDUE is derived from the due date
+// so it never goes stale. Voiding frees the month/client to be invoiced again
+// under a new number. Pure helpers shared by lib/actions.ts and the
+// Financial > Invoices tab.
+// ---------------------------------------------------------------------------
+
+export type InvoiceStatus = 'ISSUED' | 'PAID' | 'VOID'
+export type InvoiceDisplayStatus = InvoiceStatus | 'OVERDUE'
+
+export interface InvoiceLine {
+  trade: string;
+  location: string;
+  description: string;
+  crew_count: number;
+  days: number;
+  amount: number;
+}
+
+export interface Invoice {
+  id?: number;
+  project_code: string;
+  client: string;
+  month_year: string;
+  invoice_no: string;
+  sequence: number;
+  snapshot_version: number | null;
+  bill_to: string; // copied from the settings when issued
+  tax_reg_no: string | null;
+  issue_date: string; // YYYY-MM-DD
+  due_date: string;
+  lines: InvoiceLine[];
+  subtotal: number;
+  tax_label: string;
+  tax_rate: number; // percent
+  tax_amount: number;
+  total: number;
+  status: InvoiceStatus;
+  paid_date: string | null;
+  paid_amount: number | null;
+  payment_ref: string | null;
+  void_reason: string | null;
+  created_by: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface InvoiceSettings {
+  prefix: string;
+  tax_label: string;
+  tax_rate: number;
+  tax_reg_no: string; // printed on the invoice when set
+  payment_terms_days: number;
+  bill_to: Record<string, string>; // client -> billing name and address, one line per row
+}
+
+// Service tax on professional services is 8% since 1 March 2024
+export const DEFAULT_INVOICE_SETTINGS: InvoiceSettings = {
+  prefix: 'INV',
+  tax_label: 'SST',
+  tax_rate: 8,
+  tax_reg_no: '',
+  payment_terms_days: 30,
+  bill_to: {},
+}
+
+export function invoiceSettingsKey(projectCode: string): string {
+  return `invoice_settings_${projectCode}`
+}
+
+// Error message for settings that cannot be saved, null when they are fine
+export function validateInvoiceSettings(s: InvoiceSettings): string | null {
+  if (!/^[A-Z0-9]{1,8}$/.test(s.prefix)) return 'Prefix must be 1-8 letters or digits'
+  if (!s.tax_label.trim()) return 'Tax label is required'
+  if (!Number.isFinite(s.tax_rate) || s.tax_rate < 0 || s.tax_rate > 100) return 'Tax rate must be between 0 and 100%'
+  if (typeof s.tax_reg_no !== 'string') return 'Tax registration no. must be text'
+  if (!s.bill_to || typeof s.bill_to !== 'object' || Object.values(s.bill_to).some((v) => typeof v !== 'string')) return 'Billing addresses must be text'
+  if (!Number.isInteger(s.payment_terms_days) || s.payment_terms_days < 0 || s.payment_terms_days > 365) return 'Payment terms must be 0-365 days'
+  return null
+}
+
+// Stored JSON -> settings; missing or malformed fields fall back to the defaults
+export function parseInvoiceSettings(raw: string | null | undefined): InvoiceSettings {
+  if (!raw) return DEFAULT_INVOICE_SETTINGS
+  try {
+    const merged = { ...DEFAULT_INVOICE_SETTINGS, ...JSON.parse(raw) }
+    return validateInvoiceSettings(merged) ? DEFAULT_INVOICE_SETTINGS : merged
+  } catch {
+    return DEFAULT_INVOICE_SETTINGS
+  }
+}
+
+// "INV-SBA-00012" -- the sequence runs per project and client and never resets
+export function formatInvoiceNo(prefix: string, client: string, sequence: number): string {
+  return `${prefix}-${client}-${String(sequence).padStart(5, '0')}`
+}
+
+export function addDays(isoDay: string, days: number): string {
+  const d = new Date(`${isoDay}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+// One line per trade + location, in trade rank then location order
+export function buildInvoiceLines(rows: StatementRow[], period: string): InvoiceLine[] {
+  const lines = new Map<string, InvoiceLine & { rank: number }>()
+  for (const r of rows) {
+    if (r.grandTotal === 0) continue
+    const trade = getFullTradeName(r.post)
+    const location = r.displayLocation || r.location || '-'
+    const key = `${trade}::${location}`
+    let line = lines.get(key)
+    if (!line) {
+      line = { trade, location, description: `${trade} services - ${location} - ${period}`, crew_count: 0, days: 0, amount: 0, rank: getTradeRank(r.post) }
+      lines.set(key, line)
+    }
+    line.crew_count++
+    line.days += r.offshoreDays + r.reliefDays + r.standbyDays + r.medevacDays
+    line.amount = toSen(line.amount + r.grandTotal)
+  }
+  return Array.from(lines.values())
+    .sort((a, b) => a.rank - b.rank || a.location.localeCompare(b.location))
+    .map(({ rank: _rank, ...line }) => line)
+}
+
+export function invoiceAmounts(lines: InvoiceLine[], taxRate: number): Pick<Invoice, 'subtotal' | 'tax_amount' | 'total'> {
+  const subtotal = toSen(lines.reduce((s, l) => s + l.amount, 0))
+  const tax_amount = toSen((subtotal * taxRate) / 100)
+  return { subtotal, tax_amount, total: toSen(subtotal + tax_amount) }
+}
+
+export function invoiceStatusOn(invoice: Pick<Invoice, 'status' | 'due_date'>, today: string): InvoiceDisplayStatus {
+  return invoice.status === 'ISSUED' && invoice.due_date < today ? 'OVERDUE' : invoice.status
+}
+
+export interface BilledCollectedMonth {
+  month_year: string;
+  billed: number;
+  collected: number;
+  outstanding: number;
+  overdue: number;
+}
+
+// Per statement month, voided invoices excluded
+export function billedVsCollected(invoices: Invoice[], today: string): BilledCollectedMonth[] {
+  const months = new Map<string, BilledCollectedMonth>()
+  for (const inv of invoices) {
+    if (inv.status === 'VOID') continue
+    let m = months.get(inv.month_year)
+    if (!m) {
+      m = { month_year: inv.month_year, billed: 0, collected: 0, outstanding: 0, overdue: 0 }
+      months.set(inv.month_year, m)
+    }
+    m.billed = toSen(m.billed + inv.total)
+    if (inv.status === 'PAID') {
+      m.collected = toSen(m.collected + (inv.paid_amount ?? inv.total))
+    } else {
+      m.outstanding = toSen(m.outstanding + inv.total)
+      if (invoiceStatusOn(inv, today) === 'OVERDUE') m.overdue = toSen(m.overdue + inv.total)
+    }
+  }
+  return Array.from(months.values()).sort((a, b) => a.month_year.localeCompare(b.month_year))
+}
+
+export interface InvoiceCandidate {
+  month_year: string;
+  client: string;
+  approved_total: number | null; // null when the approval predates frozen amounts
+}
+
+// Approved month/client pairs without a live invoice. An all-clients approval
+// is billed per client, so it yields one candidate per client on its lines.
+export function invoiceCandidates(
+  approvals: { month_year: string; client: string; frozen_lines?: { client: string; grandTotal: number }[] | null }[],
+  invoices: Pick<Invoice, 'month_year' | 'client' | 'status'>[]
+): InvoiceCandidate[] {
+  const billed = new Set(invoices.filter((i) => i.status !== 'VOID').map((i) => `${i.month_year}::${i.client}`))
+  const out = new Map<string, InvoiceCandidate>()
+  for (const a of approvals) {
+    const clients = a.client === 'ALL'
+      ? Array.from(new Set((a.frozen_lines || []).map((l) => l.client).filter(Boolean)))
+      : [a.client]
+    for (const client of clients) {
+      const key = `${a.month_year}::${client}`
+      if (billed.has(key) || out.has(key)) continue
+      const lines = a.frozen_lines?.filter((l) => l.client === client)
+      out.set(key, { month_year: a.month_year, client, approved_total: lines ? toSen(lines.reduce((s, l) => s + l.grandTotal, 0)) : null })
+    }
+  }
+  return Array.from(out.values()).sort((a, b) => a.month_year.localeCompare(b.month_year) || a.client.localeCompare(b.client))
+}
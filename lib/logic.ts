@@ -1,4 +1,4 @@
-import { PivotedCrewRow } from './types';
+import { PivotedCrewRow, RosterRow, TradeType } from './types';
 
 export function formatDate(dateInput: string | Date | null | undefined): string {
   if (!dateInput || dateInput === '-' || dateInput === 'N/A') return '--';
@@ -49,6 +49,45 @@ export function safeParseDate(dateStr: string | null | undefined): Date | null {
   return isNaN(d.getTime()) ? null : d;
 }
 
+// Group flat roster rows (one per cycle) into one PivotedCrewRow per crew
+export function pivotRosterRows(rows: RosterRow[]): PivotedCrewRow[] {
+  const map = new Map<string, PivotedCrewRow>();
+
+  for (const row of rows) {
+    // Use both crew_id and crew_name as key so suffixed entries stay separate
+    const key = `${row.crew_id || ''}::${row.crew_name || ''}`;
+    if (!map.has(key)) {
+      map.set(key, {
+        crew_id: row.crew_id || '',
+        crew_name: row.crew_name,
+        post: row.post,
+        client: row.client,
+        location: row.location,
+        roles_em: row.roles_em,
+        cycles: {},
+      });
+    }
+    const entry = map.get(key)!;
+    if (row.cycle_number) {
+      entry.cycles[row.cycle_number] = {
+        id: row.id,
+        sign_on: row.sign_on,
+        sign_off: row.sign_off,
+        notes: row.notes,
+        relief_all: row.relief_all,
+        standby_all: row.standby_all,
+        day_relief: row.day_relief ?? null,
+        day_standby: row.day_standby ?? null,
+        is_offshore: row.is_offshore ?? null,
+        medevac_dates: row.medevac_dates ?? null,
+        al_dates: row.al_dates ?? null,
+      };
+    }
+  }
+
+  return Array.from(map.values());
+}
+
 // Check if crew is on board using normalized PivotedCrewRow
 export function isPersonnelOnBoard(row: PivotedCrewRow, targetDate: Date): boolean {
   const checkTime = new Date(targetDate.getFullYear(), targetDate.getMonth(), targetDate.getDate(), 0, 0, 0, 0).getTime();
@@ -126,3 +165,11 @@ export function shortenPost(post: string | null | undefined = "") {
   if (up.includes("IM") || up.includes("OHN")) return "OHN";
   return post;
 }
+
+export function getTradeType(post: string | null | undefined = ""): TradeType | null {
+  const up = (post ?? "").toUpperCase();
+  if (up.includes("OFFSHORE MEDIC")) return "OM";
+  if (up.includes("ESCORT MEDIC")) return "EM";
+  if (up.includes("IM") || up.includes("OHN")) return "IMP/OHN";
+  return null;
+}
@@ -0,0 +1,159 @@
+import { createConnection, type Socket } from 'node:net'
+
+// ---------------------------------------------------------------------------
+// Outgoing mail -- jobs hand a MailMessage to whatever MailTransport is
+// configured. MAIL_TRANSPORT picks one:
+//   console (default)  log the message, send nothing
+//   smtp               plain SMTP to SMTP_HOST:SMTP_PORT, no auth/TLS -- meant
+//                      for a local stand-in such as MailHog or smtp4dev in test
+//   http               POST the message as JSON to MAIL_HTTP_URL (provider relay)
+// Server-only.
+// ---------------------------------------------------------------------------
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+function fromAddress(): string {
+  return process.env.MAIL_FROM || 'cms-noreply@localhost'
+}
+
+export class ConsoleTransport implements MailTransport {
+  name = 'console'
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[Mail] to=${message.to.join(',')} subject="${message.subject}"\n${message.text}`)
+  }
+}
+
+// Minimal SMTP client: one connection per message, EHLO / MAIL / RCPT / DATA / QUIT
+export class SmtpTransport implements MailTransport {
+  name = 'smtp'
+  constructor(private host: string, private port: number, private timeoutMs = 10000) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const socket = createConnection({ host: this.host, port: this.port })
+    socket.setEncoding('utf8')
+    socket.setTimeout(this.timeoutMs, () => socket.destroy(new Error('SMTP timeout')))
+    const reply = replyReader(socket)
+    try {
+      await expect(reply, 220)
+      await command(socket, reply, `EHLO ${process.env.SMTP_HELO || 'localhost'}`, 250)
+      await command(socket, reply, `MAIL FROM:<${fromAddress()}>`, 250)
+      for (const to of message.to) await command(socket, reply, `RCPT TO:<${to}>`, 250, 251)
+      await command(socket, reply, 'DATA', 354)
+      await command(socket, reply, `${formatMessage(message)}\r\n.`, 250)
+      await command(socket, reply, 'QUIT', 221)
+    } finally {
+      socket.end()
+    }
+  }
+}
+
+export class HttpTransport implements MailTransport {
+  name = 'http'
+  constructor(private url: string, private token?: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const res = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify({ from: fromAddress(), ...message }),
+    })
+    if (!res.ok) throw new Error(`Mail relay responded ${res.status}`)
+  }
+}
+
+let override: MailTransport | null = null
+
+// Swap the transport (tests, scripts); pass null to go back to the environment's choice
+export function setMailTransport(transport: MailTransport | null): void {
+  override = transport
+}
+
+export function getMailTransport(): MailTransport {
+  if (override) return override
+  switch ((process.env.MAIL_TRANSPORT || 'console').toLowerCase()) {
+    case 'smtp':
+      return new SmtpTransport(process.env.SMTP_HOST || 'localhost', Number(process.env.SMTP_PORT || 1025))
+    case 'http':
+      if (!process.env.MAIL_HTTP_URL) throw new Error('MAIL_HTTP_URL is not set')
+      return new HttpTransport(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_TOKEN)
+    default:
+      return new ConsoleTransport()
+  }
+}
+
+// ─── SMTP plumbing ───
+
+type ReplyReader = () => Promise<{ code: number; text: string }>
+
+// Yields one complete (possibly multi-line) SMTP reply at a time
+function replyReader(socket: Socket): ReplyReader {
+  let buffer = ''
+  const lines: string[] = []
+  const waiting: { resolve: (r: { code: number; text: string }) => void; reject: (e: Error) => void }[] = []
+  let failure: Error | null = null
+
+  const flush = () => {
+    // A reply ends at a line whose 4th character is a space ("250 OK"), not a dash ("250-SIZE")
+    const end = lines.findIndex((l) => l.length < 4 || l[3] !== '-')
+    if (end === -1 || waiting.length === 0) return
+    const replyLines = lines.splice(0, end + 1)
+    waiting.shift()!.resolve({ code: Number(replyLines[end].slice(0, 3)), text: replyLines.join('\n') })
+    flush()
+  }
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk
+    const parts = buffer.split('\r\n')
+    buffer = parts.pop() || ''
+    lines.push(...parts)
+    flush()
+  })
+  const fail = (err: Error) => {
+    failure = err
+    while (waiting.length) waiting.shift()!.reject(err)
+  }
+  socket.on('error', fail)
+  socket.on('close', () => fail(new Error('SMTP connection closed')))
+
+  return () => new Promise((resolve, reject) => {
+    if (failure) return reject(failure)
+    waiting.push({ resolve, reject })
+    flush()
+  })
+}
+
+async function expect(reply: ReplyReader, ...codes: number[]): Promise<void> {
+  const { code, text } = await reply()
+  if (!codes.includes(code)) throw new Error(`SMTP error: ${text}`)
+}
+
+async function command(socket: Socket, reply: ReplyReader, line: string, ...codes: number[]): Promise<void> {
+  socket.write(`${line}\r\n`)
+  await expect(reply, ...codes)
+}
+
+// RFC 5322 headers + body with CRLF line endings and leading dots doubled for DATA
+function formatMessage(message: MailMessage): string {
+  const headers = [
+    `From: ${fromAddress()}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+  ]
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+  return `${headers.join('\r\n')}\r\n\r\n${body}`
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest'
+import { buildPayContext, calcCrewPay, calcStatementRows, toSen, DEFAULT_MEDEVAC_RATE, DEFAULT_OFFSHORE_RATE } from './pay-calc'
+import type { CrewMasterRecord } from './actions'
+import type { PivotedCrewRow, RateCardEntry } from './types'
+
+type Cycle = PivotedCrewRow['cycles'][number]
+
+function cycle(sign_on: string, sign_off: string, extra: Partial<Cycle> = {}): Cycle {
+  return {
+    id: 1, sign_on, sign_off, notes: null,
+    relief_all: null, standby_all: null, day_relief: null, day_standby: null,
+    is_offshore: null, medevac_dates: null, al_dates: null,
+    ...extra,
+  }
+}
+
+function crew(post: string, cycles: Cycle[], name = 'AHMAD BIN ALI', client = 'SKA'): PivotedCrewRow {
+  return {
+    crew_id: name, crew_name: name, post, client, location: 'KBB',
+    cycles: Object.fromEntries(cycles.map((c, i) => [i + 1, c])),
+  }
+}
+
+function master(name: string, offshore_rate: number): CrewMasterRecord {
+  return { id: name, crew_name: name, post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB', basic: 0, fixed_all: 0, offshore_rate }
+}
+
+function rate(rate_type: 'OFFSHORE' | 'MEDEVAC', amount: number, effective_from: string, effective_to: string | null = null): RateCardEntry {
+  return { rate_type, project_code: 'PCSB', client: null, trade: null, amount, effective_from, effective_to }
+}
+
+const OM = 'OFFSHORE MEDIC'
+const EM = 'ESCORT MEDIC'
+
+describe('calcCrewPay', () => {
+  it('does not count the sign-off day', () => {
+    const row = calcCrewPay(crew(OM, [cycle('2026-03-01', '2026-03-15')]), buildPayContext([]), 2026, 3)
+    expect(row?.offshoreDays).toBe(14)
+    expect(row?.offshoreTotal).toBe(14 * DEFAULT_OFFSHORE_RATE)
+  })
+
+  it('clamps a cycle spanning two months to each month', () => {
+    const spanning = crew(OM, [cycle('2026-01-25', '2026-02-10')])
+    const ctx = buildPayContext([])
+    expect(calcCrewPay(spanning, ctx, 2026, 1)?.offshoreDays).toBe(7)
+    expect(calcCrewPay(spanning, ctx, 2026, 2)?.offshoreDays).toBe(9)
+    expect(calcCrewPay(spanning, ctx, 2026, 3)).toBeNull()
+  })
+
+  it('leaves a cycle signing off on the 1st out of that month', () => {
+    expect(calcCrewPay(crew(OM, [cycle('2026-03-20', '2026-04-01')]), buildPayContext([]), 2026, 4)).toBeNull()
+  })
+
+  it('prices each day on the rate card in force that day and only falls back to the master rate', () => {
+    const name = 'AHMAD BIN ALI'
+    const rates = [rate('OFFSHORE', 200, '2025-01-01', '2026-03-09'), rate('OFFSHORE', 250, '2026-03-10')]
+    const row = calcCrewPay(crew(OM, [cycle('2026-03-05', '2026-03-15')], name), buildPayContext([master(name, 300)], rates), 2026, 3)
+    expect(row?.offshoreDays).toBe(10)
+    expect(row?.offshoreTotal).toBe(5 * 200 + 5 * 250)
+    expect(row?.cycles[0].offshore_rate).toBe(225)
+
+    const uncovered = calcCrewPay(crew(OM, [cycle('2026-03-05', '2026-03-15')], name), buildPayContext([master(name, 300)]), 2026, 3)
+    expect(uncovered?.offshoreTotal).toBe(10 * 300)
+  })
+
+  it('pays no offshore allowance for onshore cycles or other trades', () => {
+    const onshore = calcCrewPay(crew(OM, [cycle('2026-03-01', '2026-03-11', { is_offshore: false })]), buildPayContext([]), 2026, 3)
+    expect(onshore?.offshoreDays).toBe(0)
+    expect(onshore?.offshoreTotal).toBe(0)
+
+    const escort = calcCrewPay(crew(EM, [cycle('2026-03-01', '2026-03-11')]), buildPayContext([]), 2026, 3)
+    expect(escort?.offshoreDays).toBe(0)
+    expect(escort?.offshoreTotal).toBe(0)
+  })
+
+  it('pays relief and standby as days times the cycle rate', () => {
+    const row = calcCrewPay(
+      crew(OM, [
+        cycle('2026-03-01', '2026-03-08', { day_relief: 3, relief_all: 150, day_standby: 2, standby_all: 100, is_offshore: false }),
+        cycle('2026-03-15', '2026-03-22', { day_relief: 1, relief_all: 200, is_offshore: false }),
+      ]),
+      buildPayContext([]), 2026, 3
+    )
+    expect(row?.reliefDays).toBe(4)
+    expect(row?.reliefTotal).toBe(650)
+    expect(row?.reliefRate).toBe(162.5)
+    expect(row?.standbyDays).toBe(2)
+    expect(row?.standbyTotal).toBe(200)
+    expect(row?.grandTotal).toBe(850)
+  })
+
+  it('only pays MEDEVAC cases dated inside the month, at the rate in force on each date', () => {
+    const rates = [rate('MEDEVAC', 600, '2026-03-20')]
+    const row = calcCrewPay(
+      crew(EM, [cycle('2026-03-01', '2026-04-15', { medevac_dates: ['2026-02-28', '2026-03-10', '2026-03-25', '2026-04-02'] })]),
+      buildPayContext([], rates), 2026, 3
+    )
+    expect(row?.medevacDays).toBe(2)
+    expect(row?.cycles[0].medevac_dates).toEqual(['2026-03-10', '2026-03-25'])
+    expect(row?.medevacTotal).toBe(DEFAULT_MEDEVAC_RATE + 600)
+  })
+
+  it('pays MEDEVAC to escort medics only', () => {
+    const row = calcCrewPay(crew(OM, [cycle('2026-03-01', '2026-03-11', { medevac_dates: ['2026-03-05'], is_offshore: false })]), buildPayContext([]), 2026, 3)
+    expect(row?.medevacDays).toBe(0)
+    expect(row?.medevacTotal).toBe(0)
+  })
+
+  it('rounds every total to the sen', () => {
+    const row = calcCrewPay(
+      crew(OM, [cycle('2026-03-01', '2026-03-04', { day_relief: 3, relief_all: 10.111, day_standby: 3, standby_all: 0.1, is_offshore: false })]),
+      buildPayContext([]), 2026, 3
+    )
+    expect(row?.reliefTotal).toBe(30.33)
+    expect(row?.standbyTotal).toBe(0.3)
+    expect(row?.grandTotal).toBe(30.63)
+  })
+})
+
+describe('calcStatementRows', () => {
+  it('lists only crew working in the month, offshore medics before escort medics', () => {
+    const rows = calcStatementRows(
+      [
+        crew(EM, [cycle('2026-03-01', '2026-03-05')], 'ZAINAL'),
+        crew(OM, [cycle('2026-03-01', '2026-03-05')], 'YUSOF'),
+        crew(OM, [cycle('2026-05-01', '2026-05-05')], 'ALI'),
+      ],
+      buildPayContext([]), 2026, 3
+    )
+    expect(rows.map((r) => r.crew_name)).toEqual(['YUSOF', 'ZAINAL'])
+  })
+})
+
+describe('toSen', () => {
+  it('rounds floating-point sums to two decimals', () => {
+    expect(toSen(0.1 + 0.2)).toBe(0.3)
+    expect(toSen(1234.5678)).toBe(1234.57)
+  })
+})
@@ -0,0 +1,352 @@
+import { PivotedCrewRow, RateCardEntry, TradeType } from './types';
+import type { CrewMasterRecord } from './actions';
+import { safeParseDate, getTradeRank, getTradeType } from './logic';
+import { resolveRate, resolveRateAmount } from './rate-card';
+
+// ---------------------------------------------------------------------------
+// Pay calculation engine -- single source of truth for the monthly allowance
+// rules shared by the Statement page and the Financial dashboard.
+// Pure functions only: no Supabase, no React, no browser globals.
+// ---------------------------------------------------------------------------
+
+// Last-resort rates, used only when neither the rate card (cms_rate_card) nor
+// the crew master record has a rate for the date being paid
+export const DEFAULT_OFFSHORE_RATE = 200;
+export const DEFAULT_MEDEVAC_RATE = 500;
+
+const DAY_MS = 86400000;
+
+// Per-cycle line item (one entry per roster cycle overlapping the month)
+export interface StatementCycle {
+  cycleNum: number;
+  sign_on: string | null;
+  sign_off: string | null;
+  days: number;
+  is_offshore: boolean;
+  offshore_rate: number;
+  day_relief: number;
+  relief_rate: number;
+  day_standby: number;
+  standby_rate: number;
+  medevac_dates: string[];
+  medevac_total: number;
+  notes: string | null;
+}
+
+// Per-crew monthly totals (one entry per pivoted roster row)
+export interface StatementRow {
+  crew_id: string;
+  crew_name: string;
+  post: string;
+  client: string;
+  location: string;
+  displayLocation: string;
+  masterIndex: number;
+  offshoreDays: number;
+  offshoreTotal: number;
+  reliefDays: number;
+  reliefRate: number;
+  reliefTotal: number;
+  standbyDays: number;
+  standbyRate: number;
+  standbyTotal: number;
+  medevacDays: number;
+  medevacTotal: number;
+  grandTotal: number;
+  cycles: StatementCycle[];
+}
+
+// Lookups built once per master list and reused for every crew/month
+export interface PayContext {
+  masterByName: Map<string, CrewMasterRecord>;
+  masterIndexByName: Map<string, number>;
+  rates: RateCardEntry[];
+  projectCode: string;
+}
+
+// Master records are matched on upper-cased, trimmed crew_name
+export function masterKey(crewName: string | null | undefined): string {
+  return (crewName || "").toUpperCase().trim();
+}
+
+export function buildPayContext(masterData: CrewMasterRecord[], rates: RateCardEntry[] = [], projectCode: string = "PCSB"): PayContext {
+  const masterByName = new Map<string, CrewMasterRecord>();
+  const masterIndexByName = new Map<string, number>();
+  masterData.forEach((m, idx) => {
+    masterByName.set(masterKey(m.crew_name), m);
+    masterIndexByName.set(masterKey(m.crew_name), idx);
+  });
+  return { masterByName, masterIndexByName, rates, projectCode };
+}
+
+// Round to the nearest sen so every screen shows the same amount
+export function toSen(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Calendar-day number (local time) -- avoids floating-point drift across DST
+function dayNumber(d: Date): number {
+  return Math.round(d.getTime() / DAY_MS);
+}
+
+// Offshore rate for one working day. The rate card in force that day wins, so a
+// revision reaches every crew from its effective date, including mid-cycle; the
+// crew master rate only covers days the card has no entry for.
+function offshoreRateOn(ctx: PayContext, client: string, trade: TradeType | null, master: CrewMasterRecord | undefined, day: Date): number {
+  const entry = resolveRate(ctx.rates, { rateType: "OFFSHORE", projectCode: ctx.projectCode, client, trade, date: day });
+  if (entry) return Number(entry.amount) || 0;
+  return master?.offshore_rate || DEFAULT_OFFSHORE_RATE;
+}
+
+// Compute the statement line for one crew in one month.
+// Returns null when none of the crew's cycles fall inside the month.
+export function calcCrewPay(crew: PivotedCrewRow, ctx: PayContext, year: number, month: number): StatementRow | null {
+  const monthStartDate = new Date(year, month - 1, 1);
+  const monthEndDate = new Date(year, month, 0); // last day of month
+  const monthStartDay = dayNumber(monthStartDate);
+  const monthEndDay = dayNumber(monthEndDate);
+  const monthStartTime = monthStartDate.getTime();
+  const monthEndTime = monthEndDate.getTime();
+
+  const isOM = (crew.post || "").toUpperCase().includes("OFFSHORE MEDIC");
+  const isEM = (crew.post || "").toUpperCase().includes("ESCORT MEDIC");
+  const hasR = (crew.crew_name || "").includes("(R)");
+  const trade = getTradeType(crew.post);
+  const master = ctx.masterByName.get(masterKey(crew.crew_name));
+  // (R) crew: use their assigned location from master; non-(R): use roster location
+  const displayLocation = hasR ? (master?.location || crew.location || "") : (crew.location || "");
+
+  const cycles: StatementCycle[] = [];
+  let offshoreDays = 0;
+  let offshoreTotal = 0;
+  let reliefDays = 0;
+  let reliefTotal = 0;
+  let standbyDays = 0;
+  let standbyTotal = 0;
+  let medevacDays = 0;
+  let medevacTotal = 0;
+
+  for (const [cycleNumStr, cycle] of Object.entries(crew.cycles)) {
+    const signOn = safeParseDate(cycle.sign_on);
+    const signOff = safeParseDate(cycle.sign_off);
+    if (!signOn || !signOff) continue;
+
+    // sign_off date not counted: last working day = signOff - 1
+    const rotStartDay = dayNumber(signOn);
+    const rotEndDay = dayNumber(signOff) - 1;
+    if (rotStartDay > monthEndDay || rotEndDay < monthStartDay) continue;
+
+    // Clamp to month boundaries: endOfMonth - startDate + 1
+    const days = Math.min(rotEndDay, monthEndDay) - Math.max(rotStartDay, monthStartDay) + 1;
+    if (days <= 0) continue;
+
+    const isOffshore = cycle.is_offshore !== false;
+    // Each day in the month is priced on its own date; the cycle shows the average
+    // rate, which is the card rate unless a revision fell inside the cycle
+    let cycleOffshoreTotal = 0;
+    if (isOM) {
+      const first = rotStartDay >= monthStartDay ? signOn : monthStartDate;
+      for (let i = 0; i < days; i++) {
+        cycleOffshoreTotal += offshoreRateOn(ctx, crew.client, trade, master, new Date(first.getFullYear(), first.getMonth(), first.getDate() + i));
+      }
+    }
+    const cycleOffshoreRate = isOM ? toSen(cycleOffshoreTotal / days) : 0;
+    if (isOM && isOffshore) {
+      offshoreDays += days;
+      offshoreTotal += cycleOffshoreTotal;
+    }
+
+    const cycleReliefDays = cycle.day_relief ?? 0;
+    const cycleReliefRate = cycle.relief_all ?? 0;
+    reliefDays += cycleReliefDays;
+    reliefTotal += cycleReliefDays * cycleReliefRate;
+
+    const cycleStandbyDays = cycle.day_standby ?? 0;
+    const cycleStandbyRate = cycle.standby_all ?? 0;
+    standbyDays += cycleStandbyDays;
+    standbyTotal += cycleStandbyDays * cycleStandbyRate;
+
+    // Only MEDEVAC dates inside the month are payable in this statement
+    const cycleMedevacDates = (cycle.medevac_dates || []).filter((d) => {
+      const md = safeParseDate(d);
+      if (!md) return false;
+      return md.getTime() >= monthStartTime && md.getTime() <= monthEndTime;
+    });
+    medevacDays += cycleMedevacDates.length;
+    // Each MEDEVAC case is paid at the rate in force on its own date
+    const cycleMedevacTotal = isEM
+      ? toSen(cycleMedevacDates.reduce((sum, d) => sum + resolveRateAmount(ctx.rates, { rateType: "MEDEVAC", projectCode: ctx.projectCode, client: crew.client, trade, date: d }, DEFAULT_MEDEVAC_RATE), 0))
+      : 0;
+    medevacTotal += cycleMedevacTotal;
+
+    cycles.push({
+      cycleNum: parseInt(cycleNumStr),
+      sign_on: cycle.sign_on,
+      sign_off: cycle.sign_off,
+      days,
+      is_offshore: isOffshore,
+      offshore_rate: cycleOffshoreRate,
+      day_relief: cycleReliefDays,
+      relief_rate: cycleReliefRate,
+      day_standby: cycleStandbyDays,
+      standby_rate: cycleStandbyRate,
+      medevac_dates: cycleMedevacDates,
+      medevac_total: cycleMedevacTotal,
+      notes: cycle.notes,
+    });
+  }
+
+  if (cycles.length === 0) return null;
+
+  offshoreTotal = toSen(offshoreTotal);
+  medevacTotal = toSen(medevacTotal);
+  reliefTotal = toSen(reliefTotal);
+  standbyTotal = toSen(standbyTotal);
+
+  return {
+    crew_id: crew.crew_id,
+    crew_name: crew.crew_name,
+    post: crew.post,
+    client: crew.client,
+    location: crew.location,
+    displayLocation,
+    masterIndex: ctx.masterIndexByName.get(masterKey(crew.crew_name)) ?? 9999,
+    offshoreDays: isOM ? offshoreDays : 0,
+    offshoreTotal,
+    reliefDays,
+    reliefRate: reliefTotal > 0 && reliefDays > 0 ? reliefTotal / reliefDays : 0,
+    reliefTotal,
+    standbyDays,
+    standbyRate: standbyTotal > 0 && standbyDays > 0 ? standbyTotal / standbyDays : 0,
+    standbyTotal,
+    medevacDays: isEM ? medevacDays : 0,
+    medevacTotal,
+    grandTotal: toSen(offshoreTotal + reliefTotal + standbyTotal + medevacTotal),
+    cycles: cycles.sort((a, b) => a.cycleNum - b.cycleNum),
+  };
+}
+
+function clientRank(client: string): number {
+  const u = (client || "").toUpperCase().trim();
+  if (u.includes("SKA")) return 1;
+  if (u.includes("SBA")) return 2;
+  return 3;
+}
+
+// Statement lines for every crew with at least one cycle in the month.
+// Sort: Trade (OM→EM→OHN), Location (alphabetical), Client (SKA→SBA), then Name
+export function calcStatementRows(roster: PivotedCrewRow[], ctx: PayContext, year: number, month: number): StatementRow[] {
+  const rows: StatementRow[] = [];
+  for (const crew of roster) {
+    const row = calcCrewPay(crew, ctx, year, month);
+    if (row) rows.push(row);
+  }
+  return rows.sort((a, b) => {
+    const tradeA = getTradeRank(a.post);
+    const tradeB = getTradeRank(b.post);
+    if (tradeA !== tradeB) return tradeA - tradeB;
+    const locCmp = (a.displayLocation || "").localeCompare(b.displayLocation || "");
+    if (locCmp !== 0) return locCmp;
+    const cA = clientRank(a.client);
+    const cB = clientRank(b.client);
+    if (cA !== cB) return cA - cB;
+    return a.crew_name.localeCompare(b.crew_name);
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Frozen statements and back-pay comparison
+// ---------------------------------------------------------------------------
+
+// Statement line as captured on the approval record at sign-off
+export interface FrozenStatementLine {
+  crew_id: string;
+  crew_name: string;
+  post: string;
+  client: string;
+  offshoreTotal: number;
+  reliefTotal: number;
+  standbyTotal: number;
+  medevacTotal: number;
+  grandTotal: number;
+  cycles: Pick<StatementCycle, "cycleNum" | "days" | "offshore_rate" | "day_relief" | "relief_rate" | "day_standby" | "standby_rate" | "medevac_total">[];
+}
+
+// Per-crew difference between what was approved and what the rules give today.
+// Positive adjustment = arrears owed to the crew; negative = claw-back.
+export interface PayAdjustment {
+  crew_id: string;
+  crew_name: string;
+  post: string;
+  client: string;
+  frozenTotal: number;
+  recalculatedTotal: number;
+  offshoreDelta: number;
+  reliefDelta: number;
+  standbyDelta: number;
+  medevacDelta: number;
+  adjustment: number;
+}
+
+export function freezeStatementRows(rows: StatementRow[]): FrozenStatementLine[] {
+  return rows.map((r) => ({
+    crew_id: r.crew_id,
+    crew_name: r.crew_name,
+    post: r.post,
+    client: r.client,
+    offshoreTotal: r.offshoreTotal,
+    reliefTotal: r.reliefTotal,
+    standbyTotal: r.standbyTotal,
+    medevacTotal: r.medevacTotal,
+    grandTotal: r.grandTotal,
+    cycles: r.cycles.map((c) => ({
+      cycleNum: c.cycleNum,
+      days: c.days,
+      offshore_rate: c.offshore_rate,
+      day_relief: c.day_relief,
+      relief_rate: c.relief_rate,
+      day_standby: c.day_standby,
+      standby_rate: c.standby_rate,
+      medevac_total: c.medevac_total,
+    })),
+  }));
+}
+
+function lineKey(crewId: string, crewName: string): string {
+  return `${crewId || ""}::${masterKey(crewName)}`;
+}
+
+// Match frozen and recalculated lines by crew and return every line whose
+// total moved by at least one sen (crew missing on either side count as zero)
+export function comparePay(frozen: FrozenStatementLine[], live: StatementRow[]): PayAdjustment[] {
+  const liveByKey = new Map(live.map((r) => [lineKey(r.crew_id, r.crew_name), r]));
+  const seen = new Set<string>();
+  const result: PayAdjustment[] = [];
+
+  const push = (base: { crew_id: string; crew_name: string; post: string; client: string }, f: FrozenStatementLine | undefined, l: StatementRow | undefined) => {
+    const adjustment = toSen((l?.grandTotal ?? 0) - (f?.grandTotal ?? 0));
+    if (Math.abs(adjustment) < 0.01) return;
+    result.push({
+      ...base,
+      frozenTotal: f?.grandTotal ?? 0,
+      recalculatedTotal: l?.grandTotal ?? 0,
+      offshoreDelta: toSen((l?.offshoreTotal ?? 0) - (f?.offshoreTotal ?? 0)),
+      reliefDelta: toSen((l?.reliefTotal ?? 0) - (f?.reliefTotal ?? 0)),
+      standbyDelta: toSen((l?.standbyTotal ?? 0) - (f?.standbyTotal ?? 0)),
+      medevacDelta: toSen((l?.medevacTotal ?? 0) - (f?.medevacTotal ?? 0)),
+      adjustment,
+    });
+  };
+
+  for (const f of frozen) {
+    const key = lineKey(f.crew_id, f.crew_name);
+    seen.add(key);
+    push(f, f, liveByKey.get(key));
+  }
+  for (const l of live) {
+    const key = lineKey(l.crew_id, l.crew_name);
+    if (!seen.has(key)) push(l, undefined, l);
+  }
+
+  return result.sort((a, b) => a.crew_name.localeCompare(b.crew_name));
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { buildPayrollLines, payrollTotals, checkPayrollFit, formatPayrollExport, type PayrollEmployee, type PayrollLayout } from './payroll'
+import type { CrewMasterRecord } from './actions'
+import type { StatementRow } from './pay-calc'
+
+function row(crew_id: string, crew_name: string, pay: Partial<StatementRow> = {}): StatementRow {
+  return {
+    crew_id, crew_name, post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB', displayLocation: 'KBB', masterIndex: 0,
+    offshoreDays: 0, offshoreTotal: 0, reliefDays: 0, reliefRate: 0, reliefTotal: 0,
+    standbyDays: 0, standbyRate: 0, standbyTotal: 0, medevacDays: 0, medevacTotal: 0,
+    grandTotal: 0, cycles: [],
+    ...pay,
+  }
+}
+
+function master(id: string, crew_name: string, basic: number, fixed_all: number): CrewMasterRecord {
+  return { id, crew_name, post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB', basic, fixed_all, offshore_rate: 0 }
+}
+
+function employee(id: string, name: string, resign_date: string | null = null): PayrollEmployee {
+  return { id, name, nric_passport: `NRIC-${id}`, bank: 'MAYBANK', acc_no: `ACC-${id}`, resign_date }
+}
+
+describe('buildPayrollLines', () => {
+  it('pays a crew with several roster rows on one line, with basic and fixed allowance once', () => {
+    const lines = buildPayrollLines(
+      [
+        row('C1', 'AHMAD BIN ALI', { offshoreDays: 10, offshoreTotal: 2000 }),
+        row('C1', 'AHMAD BIN ALI (R1)', { reliefDays: 2, reliefTotal: 300.1, medevacDays: 1, medevacTotal: 500.2 }),
+      ],
+      [master('C1', 'AHMAD BIN ALI', 3000, 500)],
+      [employee('C1', 'Ahmad bin Ali')],
+      '2026-03'
+    )
+    expect(lines).toHaveLength(1)
+    expect(lines[0]).toMatchObject({
+      employee_id: 'C1', employee_name: 'Ahmad bin Ali', acc_no: 'ACC-C1',
+      basic: 3000, fixed_all: 500,
+      offshore_days: 10, offshore: 2000, relief_days: 2, relief: 300.1, medevac_days: 1, medevac: 500.2,
+      allowances: 2800.3, gross: 6300.3,
+    })
+  })
+
+  it('matches a statement row to the master by name when its crew_id is unknown', () => {
+    const lines = buildPayrollLines([row('', 'ahmad bin ali ', { standbyDays: 1, standbyTotal: 100 })], [master('C1', 'AHMAD BIN ALI', 0, 0)], [], '2026-03')
+    expect(lines.map((l) => [l.employee_id, l.standby])).toEqual([['C1', 100]])
+  })
+
+  it('pays basic alone to crew off the roster unless they resigned before the month', () => {
+    const lines = buildPayrollLines(
+      [],
+      [master('C1', 'ZAINAL', 3000, 0), master('C2', 'YUSOF', 2800, 200), master('C3', 'WAN', 2500, 0), master('C4', 'NOBASIC', 0, 0)],
+      [employee('C1', 'ZAINAL', '2026-02-28'), employee('C2', 'YUSOF', '2026-03-10')],
+      '2026-03'
+    )
+    expect(lines.map((l) => [l.employee_name, l.gross])).toEqual([['WAN', 2500], ['YUSOF', 3000]])
+  })
+})
+
+describe('payrollTotals', () => {
+  it('sums every amount column to the sen', () => {
+    const lines = buildPayrollLines(
+      [row('C1', 'A', { offshoreTotal: 0.1 }), row('C2', 'B', { offshoreTotal: 0.2 })],
+      [master('C1', 'A', 1000.01, 0), master('C2', 'B', 2000.02, 10)],
+      [],
+      '2026-03'
+    )
+    expect(payrollTotals(lines)).toEqual({
+      basic: 3000.03, fixed_all: 10, offshore: 0.3, relief: 0, standby: 0, medevac: 0, allowances: 0.3, gross: 3010.33,
+    })
+    expect(payrollTotals([]).gross).toBe(0)
+  })
+})
+
+describe('formatPayrollExport', () => {
+  const lines = buildPayrollLines([], [master('C1', 'AHMAD, ALI', 1234.5, 0)], [], '2026-03')
+  const columns: PayrollLayout['columns'] = [
+    { field: 'employee_name', header: 'Name', width: 8 },
+    { field: 'gross', header: 'Gross', width: 8 },
+  ]
+
+  it('quotes CSV cells holding the delimiter and ends records with CRLF', () => {
+    const layout: PayrollLayout = { format: 'CSV', delimiter: ',', include_header: true, amount_format: 'DECIMAL', zero_pad: false, columns }
+    expect(formatPayrollExport(lines, '2026-03', layout)).toBe('Name,Gross\r\n"AHMAD, ALI",1234.50\r\n')
+  })
+
+  it('cuts text to its column and refuses an amount that does not fit', () => {
+    const layout: PayrollLayout = { format: 'FIXED', delimiter: ',', include_header: false, amount_format: 'SEN', zero_pad: true, columns }
+    expect(formatPayrollExport(lines, '2026-03', layout)).toBe('AHMAD, A00123450\r\n')
+    expect(checkPayrollFit(lines, '2026-03', layout)).toBeNull()
+    expect(checkPayrollFit(lines, '2026-03', { ...layout, columns: [{ field: 'gross', header: 'Gross', width: 5 }] }))
+      .toBe('Gross needs 6 characters for AHMAD, ALI but the column is 5 wide')
+  })
+})
@@ -0,0 +1,314 @@
+import { masterKey, toSen, type StatementRow } from './pay-calc'
+import type { CrewMasterRecord } from './actions'
+
+// ---------------------------------------------------------------------------
+// Monthly payroll -- one line per employee: basic and fixed allowance from the
+// crew master record (paid once, however many roster rows the crew has) plus
+// the variable offshore / relief / standby / MEDEVAC allowances from the pay
+// engine, so the figures match the Statement and the Financial dashboard.
+// The export file layout (CSV or fixed-width columns) is configured per project
+// in cms_settings under payroll_layout_<project>. Exporting a month stores the
+// lines and the exact file in cms_payroll_runs and locks the month until an L1
+// reopens it. Pure helpers shared by lib/actions.ts and the Payroll page.
+// ---------------------------------------------------------------------------
+
+export interface PayrollLine {
+  employee_id: string;
+  employee_name: string;
+  nric_passport: string;
+  bank: string;
+  acc_no: string;
+  post: string;
+  client: string;
+  location: string;
+  basic: number;
+  fixed_all: number;
+  offshore_days: number;
+  offshore: number;
+  relief_days: number;
+  relief: number;
+  standby_days: number;
+  standby: number;
+  medevac_days: number;
+  medevac: number;
+  allowances: number; // offshore + relief + standby + medevac
+  gross: number;
+}
+
+// Identity and bank details from cms_master_crew
+export interface PayrollEmployee {
+  id: string;
+  name: string;
+  nric_passport: string;
+  bank: string;
+  acc_no: string;
+  resign_date: string | null;
+}
+
+export type PayrollRunStatus = 'LOCKED' | 'REOPENED'
+
+export interface PayrollRun {
+  id?: number;
+  project_code: string;
+  month_year: string;
+  version: number;
+  status: PayrollRunStatus;
+  lines: PayrollLine[];
+  layout: PayrollLayout; // as used for this export
+  file_name: string;
+  file_content: string;
+  employee_count: number;
+  gross_total: number;
+  exported_by: string;
+  exported_at?: string;
+  reopened_by: string | null;
+  reopened_at: string | null;
+  reopen_reason: string | null;
+}
+
+// ─── Export layout ───
+
+export type PayrollField = keyof PayrollLine | 'month_year'
+type FieldKind = 'text' | 'id' | 'days' | 'amount'
+
+// Text may be cut to fit a fixed-width column; ids, days and amounts may not
+export const PAYROLL_FIELDS: { field: PayrollField; label: string; kind: FieldKind }[] = [
+  { field: 'month_year', label: 'Pay Month', kind: 'id' },
+  { field: 'employee_id', label: 'Employee ID', kind: 'id' },
+  { field: 'employee_name', label: 'Employee Name', kind: 'text' },
+  { field: 'nric_passport', label: 'NRIC / Passport', kind: 'id' },
+  { field: 'bank', label: 'Bank', kind: 'text' },
+  { field: 'acc_no', label: 'Account No', kind: 'id' },
+  { field: 'post', label: 'Post', kind: 'text' },
+  { field: 'client', label: 'Client', kind: 'text' },
+  { field: 'location', label: 'Location', kind: 'text' },
+  { field: 'basic', label: 'Basic', kind: 'amount' },
+  { field: 'fixed_all', label: 'Fixed Allowance', kind: 'amount' },
+  { field: 'offshore_days', label: 'Offshore Days', kind: 'days' },
+  { field: 'offshore', label: 'Offshore Allowance', kind: 'amount' },
+  { field: 'relief_days', label: 'Relief Days', kind: 'days' },
+  { field: 'relief', label: 'Relief Allowance', kind: 'amount' },
+  { field: 'standby_days', label: 'Standby Days', kind: 'days' },
+  { field: 'standby', label: 'Standby Allowance', kind: 'amount' },
+  { field: 'medevac_days', label: 'MEDEVAC Cases', kind: 'days' },
+  { field: 'medevac', label: 'MEDEVAC Allowance', kind: 'amount' },
+  { field: 'allowances', label: 'Variable Allowances', kind: 'amount' },
+  { field: 'gross', label: 'Gross Pay', kind: 'amount' },
+]
+
+const FIELD_KIND = new Map(PAYROLL_FIELDS.map((f) => [f.field, f.kind]))
+
+export type PayrollFormat = 'CSV' | 'FIXED'
+export const PAYROLL_DELIMITERS = [',', ';', '|', '\t'] as const
+
+export interface PayrollColumn {
+  field: PayrollField;
+  header: string;
+  width: number; // fixed-width only
+}
+
+export interface PayrollLayout {
+  format: PayrollFormat;
+  delimiter: string; // CSV only
+  include_header: boolean;
+  amount_format: 'DECIMAL' | 'SEN'; // 1234.50 or 123450 (implied decimals)
+  zero_pad: boolean; // fixed-width numbers padded with 0 instead of spaces
+  columns: PayrollColumn[];
+}
+
+export const DEFAULT_PAYROLL_LAYOUT: PayrollLayout = {
+  format: 'CSV',
+  delimiter: ',',
+  include_header: true,
+  amount_format: 'DECIMAL',
+  zero_pad: false,
+  columns: [
+    { field: 'employee_id', header: 'EMP_ID', width: 12 },
+    { field: 'employee_name', header: 'NAME', width: 40 },
+    { field: 'nric_passport', header: 'NRIC', width: 14 },
+    { field: 'basic', header: 'BASIC', width: 12 },
+    { field: 'fixed_all', header: 'FIXED_ALLOWANCE', width: 12 },
+    { field: 'offshore', header: 'OFFSHORE', width: 12 },
+    { field: 'relief', header: 'RELIEF', width: 12 },
+    { field: 'standby', header: 'STANDBY', width: 12 },
+    { field: 'medevac', header: 'MEDEVAC', width: 12 },
+    { field: 'gross', header: 'GROSS', width: 12 },
+  ],
+}
+
+export function payrollLayoutKey(projectCode: string): string {
+  return `payroll_layout_${projectCode}`
+}
+
+// Error message for a layout that cannot be saved, null when it is fine
+export function validatePayrollLayout(l: PayrollLayout): string | null {
+  if (l.format !== 'CSV' && l.format !== 'FIXED') return 'Format must be CSV or fixed-width'
+  if (l.format === 'CSV' && !(PAYROLL_DELIMITERS as readonly string[]).includes(l.delimiter)) return 'Delimiter must be comma, semicolon, pipe or tab'
+  if (l.amount_format !== 'DECIMAL' && l.amount_format !== 'SEN') return 'Amount format must be decimal or sen'
+  if (!Array.isArray(l.columns) || l.columns.length === 0) return 'Add at least one column'
+  if (l.columns.length > PAYROLL_FIELDS.length * 2) return 'Too many columns'
+  for (const c of l.columns) {
+    if (!FIELD_KIND.has(c.field)) return `Unknown field "${c.field}"`
+    if (typeof c.header !== 'string' || /[\r\n]/.test(c.header)) return 'Column headers must be a single line of text'
+    if (l.format === 'FIXED' && (!Number.isInteger(c.width) || c.width < 1 || c.width > 100)) return `Width of ${c.header || c.field} must be 1-100 characters`
+  }
+  return null
+}
+
+// Stored JSON -> layout; a missing or malformed layout falls back to the default
+export function parsePayrollLayout(raw: string | null | undefined): PayrollLayout {
+  if (!raw) return DEFAULT_PAYROLL_LAYOUT
+  try {
+    const merged = { ...DEFAULT_PAYROLL_LAYOUT, ...JSON.parse(raw) }
+    return validatePayrollLayout(merged) ? DEFAULT_PAYROLL_LAYOUT : merged
+  } catch {
+    return DEFAULT_PAYROLL_LAYOUT
+  }
+}
+
+// ─── Lines ───
+
+// One line per employee for the month. Roster rows of the same crew (e.g. a
+// "(R1)" relief row) share one payslip; crew on the master list with basic or
+// fixed allowance but no roster days are paid those alone, unless they resigned
+// before the month. Employees with nothing to pay are left out.
+export function buildPayrollLines(
+  rows: StatementRow[],
+  master: CrewMasterRecord[],
+  employees: PayrollEmployee[],
+  monthYear: string
+): PayrollLine[] {
+  const byId = new Map(master.map((m) => [m.id, m]))
+  const byName = new Map(master.map((m) => [masterKey(m.crew_name), m]))
+  const people = new Map(employees.map((e) => [e.id, e]))
+  const lines = new Map<string, PayrollLine>()
+
+  const lineFor = (id: string, fallback: { crew_name: string; post: string; client: string; location: string }, m?: CrewMasterRecord) => {
+    let line = lines.get(id)
+    if (!line) {
+      const person = people.get(id)
+      line = {
+        employee_id: id,
+        employee_name: person?.name || m?.crew_name || fallback.crew_name,
+        nric_passport: person?.nric_passport || '',
+        bank: person?.bank || '',
+        acc_no: person?.acc_no || '',
+        post: fallback.post,
+        client: fallback.client,
+        location: fallback.location,
+        basic: m?.basic || 0,
+        fixed_all: m?.fixed_all || 0,
+        offshore_days: 0, offshore: 0,
+        relief_days: 0, relief: 0,
+        standby_days: 0, standby: 0,
+        medevac_days: 0, medevac: 0,
+        allowances: 0,
+        gross: 0,
+      }
+      lines.set(id, line)
+    }
+    return line
+  }
+
+  for (const r of rows) {
+    const m = byId.get(r.crew_id) ?? byName.get(masterKey(r.crew_name))
+    const line = lineFor(m?.id || r.crew_id || masterKey(r.crew_name), { ...r, location: r.displayLocation || r.location }, m)
+    line.offshore_days += r.offshoreDays
+    line.offshore = toSen(line.offshore + r.offshoreTotal)
+    line.relief_days += r.reliefDays
+    line.relief = toSen(line.relief + r.reliefTotal)
+    line.standby_days += r.standbyDays
+    line.standby = toSen(line.standby + r.standbyTotal)
+    line.medevac_days += r.medevacDays
+    line.medevac = toSen(line.medevac + r.medevacTotal)
+  }
+
+  const monthStart = `${monthYear}-01`
+  for (const m of master) {
+    if (lines.has(m.id) || (m.basic || 0) + (m.fixed_all || 0) === 0) continue
+    const resigned = people.get(m.id)?.resign_date
+    if (resigned && resigned.slice(0, 10) < monthStart) continue
+    lineFor(m.id, m, m)
+  }
+
+  return Array.from(lines.values())
+    .map((l) => {
+      const allowances = toSen(l.offshore + l.relief + l.standby + l.medevac)
+      return { ...l, allowances, gross: toSen(l.basic + l.fixed_all + allowances) }
+    })
+    .filter((l) => l.gross !== 0)
+    .sort((a, b) => a.employee_name.localeCompare(b.employee_name))
+}
+
+export type PayrollTotals = Pick<PayrollLine, 'basic' | 'fixed_all' | 'offshore' | 'relief' | 'standby' | 'medevac' | 'allowances' | 'gross'>
+
+export function payrollTotals(lines: PayrollLine[]): PayrollTotals {
+  const sum = (k: keyof PayrollTotals) => toSen(lines.reduce((s, l) => s + l[k], 0))
+  return {
+    basic: sum('basic'), fixed_all: sum('fixed_all'), offshore: sum('offshore'), relief: sum('relief'),
+    standby: sum('standby'), medevac: sum('medevac'), allowances: sum('allowances'), gross: sum('gross'),
+  }
+}
+
+// ─── File ───
+
+function fieldValue(line: PayrollLine, field: PayrollField, monthYear: string, layout: PayrollLayout): string {
+  if (field === 'month_year') return monthYear
+  const value = line[field]
+  const kind = FIELD_KIND.get(field)
+  if (kind === 'amount') {
+    return layout.amount_format === 'SEN' ? String(Math.round(Number(value) * 100)) : Number(value).toFixed(2)
+  }
+  return String(value ?? '').replace(/[\r\n]+/g, ' ').trim()
+}
+
+function csvCell(value: string, delimiter: string): string {
+  return value.includes(delimiter) || /["\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+function fixedCell(value: string, width: number, kind: FieldKind | undefined, zeroPad: boolean): string {
+  if (kind === 'amount' || kind === 'days') {
+    const negative = value.startsWith('-')
+    return zeroPad
+      ? (negative ? '-' : '') + value.replace('-', '').padStart(width - (negative ? 1 : 0), '0')
+      : value.padStart(width, ' ')
+  }
+  return value.slice(0, width).padEnd(width, ' ')
+}
+
+// Error message when a fixed-width column is too narrow for an id, day count
+// or amount (text is cut to fit instead), null when every value fits
+export function checkPayrollFit(lines: PayrollLine[], monthYear: string, layout: PayrollLayout): string | null {
+  if (layout.format !== 'FIXED') return null
+  for (const c of layout.columns) {
+    if (FIELD_KIND.get(c.field) === 'text') continue
+    for (const line of lines) {
+      const value = fieldValue(line, c.field, monthYear, layout)
+      if (value.length > c.width) {
+        return `${c.header || c.field} needs ${value.length} characters for ${line.employee_name} but the column is ${c.width} wide`
+      }
+    }
+  }
+  return null
+}
+
+// CRLF line endings -- what most payroll import tools expect
+export function formatPayrollExport(lines: PayrollLine[], monthYear: string, layout: PayrollLayout): string {
+  const records: string[] = []
+  if (layout.format === 'CSV') {
+    if (layout.include_header) records.push(layout.columns.map((c) => csvCell(c.header, layout.delimiter)).join(layout.delimiter))
+    for (const line of lines) {
+      records.push(layout.columns.map((c) => csvCell(fieldValue(line, c.field, monthYear, layout), layout.delimiter)).join(layout.delimiter))
+    }
+  } else {
+    if (layout.include_header) records.push(layout.columns.map((c) => fixedCell(c.header, c.width, 'text', false)).join(''))
+    for (const line of lines) {
+      records.push(layout.columns.map((c) => fixedCell(fieldValue(line, c.field, monthYear, layout), c.width, FIELD_KIND.get(c.field), layout.zero_pad)).join(''))
+    }
+  }
+  return records.map((r) => r + '\r\n').join('')
+}
+
+export function payrollFileName(projectCode: string, monthYear: string, layout: PayrollLayout): string {
+  return `payroll-${projectCode}-${monthYear}.${layout.format === 'CSV' ? 'csv' : 'txt'}`
+}
@@ -0,0 +1,280 @@
+import { deflateSync, inflateSync } from 'node:zlib'
+
+// ---------------------------------------------------------------------------
+// Minimal PDF writer -- enough for the issued documents (statements, invoices):
+// text in the standard Helvetica / Helvetica-Bold fonts (WinAnsi, no
+// embedding), filled / stroked rectangles, lines and PNG images. Coordinates
+// are points from the TOP-left corner of the page; text y is the baseline.
+// Server-only (node:zlib).
+// ---------------------------------------------------------------------------
+
+export const A4_LANDSCAPE = { width: 842, height: 595 }
+export const A4_PORTRAIT = { width: 595, height: 842 }
+
+export interface PdfTextStyle {
+  size?: number;
+  bold?: boolean;
+  color?: string; // RRGGBB
+  align?: 'left' | 'right' | 'center';
+}
+
+export interface PdfShapeStyle {
+  fill?: string;
+  stroke?: string;
+  lineWidth?: number;
+}
+
+// Decoded raster ready to embed: deflated 8-bit samples, optional deflated alpha mask
+export interface PdfImage {
+  width: number;
+  height: number;
+  colors: 1 | 3;
+  data: Uint8Array;
+  alpha?: Uint8Array;
+}
+
+// Advance widths (1/1000 em) of WinAnsi 32..126
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD : HELVETICA
+  let units = 0
+  for (const ch of text) {
+    const code = ch.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556
+  }
+  return (units * size) / 1000
+}
+
+// Cut text to maxWidth, ending in "..." when anything was dropped
+export function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text
+  let out = text
+  while (out && textWidth(`${out}...`, size, bold) > maxWidth) out = out.slice(0, -1)
+  return out ? `${out.trimEnd()}...` : ''
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100)
+
+function rgb(hex: string): string {
+  const v = hex.replace('#', '')
+  return [0, 2, 4].map((i) => num(parseInt(v.slice(i, i + 2), 16) / 255)).join(' ')
+}
+
+// Latin-1 string literal; anything outside WinAnsi becomes "?"
+function pdfString(text: string): string {
+  let out = ''
+  for (const ch of text) {
+    const code = ch.charCodeAt(0)
+    const c = code > 255 || (code < 32 && code !== 9) ? '?' : ch
+    out += c === '(' || c === ')' || c === '\\' ? `\\${c}` : c
+  }
+  return `(${out})`
+}
+
+export class PdfDocument {
+  readonly width: number
+  readonly height: number
+  private pages: string[][] = []
+  private current = -1
+  private images: PdfImage[] = []
+
+  constructor(size: { width: number; height: number } = A4_LANDSCAPE) {
+    this.width = size.width
+    this.height = size.height
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage(): void {
+    this.pages.push([])
+    this.current = this.pages.length - 1
+  }
+
+  // Go back to an earlier page, e.g. to stamp "Page x of y" once the count is known
+  setPage(index: number): void {
+    if (index < 0 || index >= this.pages.length) throw new Error(`No page ${index}`)
+    this.current = index
+  }
+
+  private ops(): string[] {
+    if (this.current < 0) this.addPage()
+    return this.pages[this.current]
+  }
+
+  text(text: string, x: number, y: number, style: PdfTextStyle = {}): void {
+    const size = style.size ?? 9
+    const w = textWidth(text, size, style.bold)
+    const left = style.align === 'right' ? x - w : style.align === 'center' ? x - w / 2 : x
+    this.ops().push(
+      `BT ${rgb(style.color || '000000')} rg /${style.bold ? 'F2' : 'F1'} ${num(size)} Tf ` +
+      `1 0 0 1 ${num(left)} ${num(this.height - y)} Tm ${pdfString(text)} Tj ET`
+    )
+  }
+
+  rect(x: number, y: number, w: number, h: number, style: PdfShapeStyle): void {
+    const paint = style.fill && style.stroke ? 'B' : style.fill ? 'f' : 'S'
+    const ops = ['q']
+    if (style.fill) ops.push(`${rgb(style.fill)} rg`)
+    if (style.stroke) ops.push(`${rgb(style.stroke)} RG ${num(style.lineWidth ?? 0.5)} w`)
+    ops.push(`${num(x)} ${num(this.height - y - h)} ${num(w)} ${num(h)} re ${paint} Q`)
+    this.ops().push(ops.join(' '))
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color = '000000', width = 0.5): void {
+    this.ops().push(
+      `q ${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(this.height - y1)} m ${num(x2)} ${num(this.height - y2)} l S Q`
+    )
+  }
+
+  image(img: PdfImage, x: number, y: number, w: number, h: number): void {
+    let index = this.images.indexOf(img)
+    if (index < 0) index = this.images.push(img) - 1
+    this.ops().push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(this.height - y - h)} cm /Im${index + 1} Do Q`)
+  }
+
+  save(): Uint8Array {
+    if (this.pages.length === 0) this.addPage()
+    const chunks: Buffer[] = []
+    const offsets: number[] = []
+    let length = 0
+    const push = (b: Buffer) => { chunks.push(b); length += b.length }
+    const obj = (id: number, body: string, stream?: Uint8Array) => {
+      offsets[id] = length
+      push(Buffer.from(`${id} 0 obj\n${body}\n`, 'latin1'))
+      if (stream) {
+        push(Buffer.from('stream\n', 'latin1'))
+        push(Buffer.from(stream))
+        push(Buffer.from('\nendstream\n', 'latin1'))
+      }
+      push(Buffer.from('endobj\n', 'latin1'))
+    }
+
+    // 1 catalog, 2 page tree, 3-4 fonts, then images (+ masks), then page + content pairs
+    let next = 5
+    const imageIds: number[] = []
+    const imageObjs: [number, string, Uint8Array][] = []
+    for (const img of this.images) {
+      const id = next++
+      let smask = ''
+      if (img.alpha) {
+        const maskId = next++
+        imageObjs.push([maskId, `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /DeviceGray /BitsPerComponent 8 /Filter /FlateDecode /Length ${img.alpha.length} >>`, img.alpha])
+        smask = ` /SMask ${maskId} 0 R`
+      }
+      imageObjs.push([id, `<< /Type /XObject /Subtype /Image /Width ${img.width} /Height ${img.height} /ColorSpace /${img.colors === 3 ? 'DeviceRGB' : 'DeviceGray'} /BitsPerComponent 8 /Filter /FlateDecode${smask} /Length ${img.data.length} >>`, img.data])
+      imageIds.push(id)
+    }
+    const pageIds = this.pages.map(() => { const id = next; next += 2; return id })
+
+    push(Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'))
+    obj(1, '<< /Type /Catalog /Pages 2 0 R >>')
+    obj(2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    obj(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    obj(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+    for (const [id, body, data] of imageObjs) obj(id, body, data)
+
+    const xobjects = imageIds.length ? ` /XObject << ${imageIds.map((id, i) => `/Im${i + 1} ${id} 0 R`).join(' ')} >>` : ''
+    this.pages.forEach((ops, i) => {
+      const id = pageIds[i]
+      const content = deflateSync(Buffer.from(ops.join('\n'), 'latin1'))
+      obj(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xobjects} >> /Contents ${id + 1} 0 R >>`)
+      obj(id + 1, `<< /Filter /FlateDecode /Length ${content.length} >>`, content)
+    })
+
+    const xref = length
+    const lines = ['xref', `0 ${next}`, '0000000000 65535 f ']
+    for (let id = 1; id < next; id++) lines.push(`${String(offsets[id]).padStart(10, '0')} 00000 n `)
+    lines.push('trailer', `<< /Size ${next} /Root 1 0 R >>`, 'startxref', String(xref), '%%EOF\n')
+    push(Buffer.from(lines.join('\n'), 'latin1'))
+    return new Uint8Array(Buffer.concat(chunks))
+  }
+}
+
+// 8-bit, non-interlaced grey / RGB / grey+alpha / RGBA PNG -> PdfImage; null for anything else
+export function decodePng(bytes: Uint8Array): PdfImage | null {
+  const buf = Buffer.from(bytes)
+  if (buf.length < 33 || buf.readUInt32BE(0) !== 0x89504e47) return null
+
+  let width = 0, height = 0, bitDepth = 0, colorType = 0, interlace = 0
+  const idat: Buffer[] = []
+  for (let p = 8; p + 8 <= buf.length;) {
+    const len = buf.readUInt32BE(p)
+    const type = buf.toString('latin1', p + 4, p + 8)
+    const data = buf.subarray(p + 8, p + 8 + len)
+    if (type === 'IHDR') {
+      width = data.readUInt32BE(0)
+      height = data.readUInt32BE(4)
+      bitDepth = data[8]
+      colorType = data[9]
+      interlace = data[12]
+    } else if (type === 'IDAT') {
+      idat.push(data)
+    } else if (type === 'IEND') {
+      break
+    }
+    p += 12 + len
+  }
+  const channels = ({ 0: 1, 2: 3, 4: 2, 6: 4 } as Record<number, number>)[colorType]
+  if (!width || !height || bitDepth !== 8 || interlace !== 0 || !channels) return null
+
+  let raw: Buffer
+  try {
+    raw = inflateSync(Buffer.concat(idat))
+  } catch {
+    return null
+  }
+  const stride = width * channels
+  if (raw.length < height * (stride + 1)) return null
+
+  // Undo the per-row filters
+  const pixels = Buffer.alloc(height * stride)
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)]
+    const src = y * (stride + 1) + 1
+    const row = y * stride
+    for (let x = 0; x < stride; x++) {
+      const a = x >= channels ? pixels[row + x - channels] : 0
+      const b = y > 0 ? pixels[row - stride + x] : 0
+      const c = x >= channels && y > 0 ? pixels[row - stride + x - channels] : 0
+      let v = raw[src + x]
+      if (filter === 1) v += a
+      else if (filter === 2) v += b
+      else if (filter === 3) v += (a + b) >> 1
+      else if (filter === 4) {
+        const pa = Math.abs(b - c), pb = Math.abs(a - c), pc = Math.abs(a + b - 2 * c)
+        v += pa <= pb && pa <= pc ? a : pb <= pc ? b : c
+      }
+      pixels[row + x] = v & 0xff
+    }
+  }
+
+  const colors: 1 | 3 = colorType === 2 || colorType === 6 ? 3 : 1
+  const hasAlpha = colorType === 4 || colorType === 6
+  if (!hasAlpha) return { width, height, colors, data: new Uint8Array(deflateSync(pixels)) }
+
+  const color = Buffer.alloc(width * height * colors)
+  const alpha = Buffer.alloc(width * height)
+  for (let i = 0; i < width * height; i++) {
+    for (let k = 0; k < colors; k++) color[i * colors + k] = pixels[i * channels + k]
+    alpha[i] = pixels[i * channels + colors]
+  }
+  return { width, height, colors, data: new Uint8Array(deflateSync(color)), alpha: new Uint8Array(deflateSync(alpha)) }
+}
@@ -0,0 +1,100 @@
+import { RateCardEntry, RateType, TradeType } from './types';
+import { safeParseDate } from './logic';
+
+// ---------------------------------------------------------------------------
+// Rate card resolution -- pure helpers shared by the pay engine, the Staff
+// page and the resolveRateForDate server action.
+// ---------------------------------------------------------------------------
+
+export const RATE_TYPES: RateType[] = ['OFFSHORE', 'MEDEVAC'];
+
+export const RATE_TYPE_LABELS: Record<RateType, string> = {
+  OFFSHORE: 'Offshore Allowance (per day)',
+  MEDEVAC: 'MEDEVAC (per case)',
+};
+
+export interface RateQuery {
+  rateType: RateType;
+  projectCode: string;
+  client: string | null | undefined;
+  trade: TradeType | null | undefined;
+  date: string | Date | null | undefined;
+}
+
+// Normalise any accepted date input to YYYY-MM-DD (local calendar day)
+export function toISODay(dateInput: string | Date | null | undefined): string | null {
+  const d = typeof dateInput === 'string' ? safeParseDate(dateInput) : dateInput;
+  if (!d || isNaN(d.getTime())) return null;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+export function isRateEffective(entry: RateCardEntry, day: string): boolean {
+  const from = toISODay(entry.effective_from);
+  const to = toISODay(entry.effective_to);
+  if (!from || day < from) return false;
+  return !to || day <= to;
+}
+
+// Client match outranks trade match; blank scope is a wildcard.
+// Returns -1 when the entry is scoped to a different client or trade.
+function specificity(entry: RateCardEntry, client: string, trade: string): number {
+  let score = 0;
+  if (entry.client) {
+    if (entry.client.toUpperCase().trim() !== client) return -1;
+    score += 2;
+  }
+  if (entry.trade) {
+    if (entry.trade !== trade) return -1;
+    score += 1;
+  }
+  return score;
+}
+
+// Pick the rate that applies on a given date: most specific scope first,
+// then the most recent effective_from (a mid-contract revision wins from its start date).
+export function resolveRate(rates: RateCardEntry[], query: RateQuery): RateCardEntry | null {
+  const day = toISODay(query.date);
+  if (!day) return null;
+  const client = (query.client || '').toUpperCase().trim();
+  const trade = query.trade || '';
+
+  let best: RateCardEntry | null = null;
+  let bestScore = -1;
+  for (const entry of rates) {
+    if (entry.rate_type !== query.rateType) continue;
+    if ((entry.project_code || 'PCSB') !== query.projectCode) continue;
+    if (!isRateEffective(entry, day)) continue;
+    const score = specificity(entry, client, trade);
+    if (score < 0) continue;
+    if (
+      score > bestScore ||
+      (score === bestScore && best && (toISODay(entry.effective_from) || '') > (toISODay(best.effective_from) || ''))
+    ) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function resolveRateAmount(rates: RateCardEntry[], query: RateQuery, fallback: number): number {
+  const entry = resolveRate(rates, query);
+  return entry ? Number(entry.amount) || 0 : fallback;
+}
+
+// Two entries with the same scope must not have overlapping date ranges
+export function findOverlappingRate(rates: RateCardEntry[], candidate: RateCardEntry): RateCardEntry | null {
+  const from = toISODay(candidate.effective_from) || '';
+  const to = toISODay(candidate.effective_to) || '9999-12-31';
+  for (const entry of rates) {
+    if (candidate.id !== undefined && entry.id === candidate.id) continue;
+    if (entry.rate_type !== candidate.rate_type) continue;
+    if ((entry.project_code || 'PCSB') !== (candidate.project_code || 'PCSB')) continue;
+    if ((entry.client || '') !== (candidate.client || '')) continue;
+    if ((entry.trade || '') !== (candidate.trade || '')) continue;
+    const eFrom = toISODay(entry.effective_from) || '';
+    const eTo = toISODay(entry.effective_to) || '9999-12-31';
+    if (from <= eTo && eFrom <= to) return entry;
+  }
+  return null;
+}
@@ -0,0 +1,148 @@
+import { PivotedCrewRow, TradeType } from './types';
+import { getTradeType, isPersonnelOnBoard, safeParseDate } from './logic';
+import { toISODay } from './rate-card';
+
+// ---------------------------------------------------------------------------
+// Relief recommender -- when a location needs cover for a date range, list
+// crew of the same trade who are off board for the whole range, hold valid
+// BOSIET / H2S / MED certificates until the range ends, and are not leaving.
+// Ranked by rest days since their last sign-off. Accepting one writes the
+// "<name> (R)" roster row that the Statement page pays as relief.
+// ---------------------------------------------------------------------------
+
+export const RELIEF_REQUIRED_CERTS = ['BOSIET', 'H2S', 'MED'] as const;
+
+export interface ReliefCrew {
+  id: string;
+  crew_name: string;
+  clean_name: string;
+  post: string;
+  client: string;
+  location: string;
+  status?: string;
+  resign_date?: string | null;
+}
+
+export interface ReliefCert {
+  crew_id: string;
+  cert_type: string;
+  expiry_date: string | null;
+}
+
+export interface ReliefRequest {
+  location: string;
+  trade: TradeType;
+  from: string; // first day of cover, YYYY-MM-DD
+  to: string;   // sign-off day, YYYY-MM-DD (not counted as on board)
+}
+
+export interface ReliefCandidate {
+  crew: ReliefCrew;
+  lastSignOff: string | null;
+  restDays: number | null; // null = never rostered
+  certExpiry: Record<string, string | null>;
+}
+
+export interface ReliefExclusion {
+  crew: ReliefCrew;
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function daysBetween(a: string, b: string): number {
+  return Math.round((safeParseDate(b)!.getTime() - safeParseDate(a)!.getTime()) / DAY_MS);
+}
+
+// Every day from `from` up to (not including) `to`
+function coverDays(from: string, to: string): Date[] {
+  const days: Date[] = [];
+  const start = safeParseDate(from);
+  const end = safeParseDate(to);
+  if (!start || !end) return days;
+  for (let d = start; d < end; d = new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)) days.push(d);
+  return days;
+}
+
+// Relief rows carry the "(R)" suffix on the crew's clean name
+export function reliefName(crew: ReliefCrew): string {
+  return `${crew.clean_name || crew.crew_name} (R)`;
+}
+
+export function isReliefRow(row: PivotedCrewRow): boolean {
+  return (row.crew_name || '').includes('(R)');
+}
+
+export function recommendRelief(
+  request: ReliefRequest,
+  crew: ReliefCrew[],
+  rows: PivotedCrewRow[],
+  certs: ReliefCert[]
+): { candidates: ReliefCandidate[]; excluded: ReliefExclusion[] } {
+  const candidates: ReliefCandidate[] = [];
+  const excluded: ReliefExclusion[] = [];
+  const days = coverDays(request.from, request.to);
+
+  const rowsByCrew = new Map<string, PivotedCrewRow[]>();
+  for (const row of rows) {
+    if (!row.crew_id) continue;
+    if (!rowsByCrew.has(row.crew_id)) rowsByCrew.set(row.crew_id, []);
+    rowsByCrew.get(row.crew_id)!.push(row);
+  }
+  const certsByCrew = new Map<string, Map<string, string | null>>();
+  for (const c of certs) {
+    if (!certsByCrew.has(c.crew_id)) certsByCrew.set(c.crew_id, new Map());
+    certsByCrew.get(c.crew_id)!.set(c.cert_type.toUpperCase(), toISODay(c.expiry_date));
+  }
+
+  for (const member of crew) {
+    if (getTradeType(member.post) !== request.trade) continue;
+
+    const status = (member.status || '').toLowerCase();
+    const resign = toISODay(member.resign_date);
+    if (status === 'resigned' || (resign && resign < request.to)) {
+      excluded.push({ crew: member, reason: resign ? `Resigns ${resign}` : 'Resigned' });
+      continue;
+    }
+
+    // Off board on every day of the cover, across the crew's own and relief rows
+    const own = rowsByCrew.get(member.id) || [];
+    const busy = days.find((d) => own.some((r) => isPersonnelOnBoard(r, d)));
+    if (busy) {
+      excluded.push({ crew: member, reason: `On board ${toISODay(busy)}` });
+      continue;
+    }
+
+    const held = certsByCrew.get(member.id) || new Map<string, string | null>();
+    const certExpiry: Record<string, string | null> = {};
+    const problems: string[] = [];
+    for (const cert of RELIEF_REQUIRED_CERTS) {
+      const expiry = held.get(cert) ?? null;
+      certExpiry[cert] = expiry;
+      if (!expiry) problems.push(`${cert} missing`);
+      else if (expiry < request.to) problems.push(`${cert} expires ${expiry}`);
+    }
+    if (problems.length) {
+      excluded.push({ crew: member, reason: problems.join(', ') });
+      continue;
+    }
+
+    let lastSignOff: string | null = null;
+    for (const row of own) {
+      for (const c of Object.values(row.cycles)) {
+        const off = toISODay(c.sign_off);
+        if (off && off <= request.from && (!lastSignOff || off > lastSignOff)) lastSignOff = off;
+      }
+    }
+    candidates.push({
+      crew: member,
+      lastSignOff,
+      restDays: lastSignOff ? daysBetween(lastSignOff, request.from) : null,
+      certExpiry,
+    });
+  }
+
+  // Most rested first; crew never rostered go last
+  candidates.sort((a, b) => (b.restDays ?? -1) - (a.restDays ?? -1) || a.crew.crew_name.localeCompare(b.crew.crew_name));
+  return { candidates, excluded };
+}
@@ -0,0 +1,191 @@
+import { PivotedCrewRow } from './types';
+import { toISODay } from './rate-card';
+import { CLIENT_LOCATION_MAP } from './client-location-map';
+
+// ---------------------------------------------------------------------------
+// Roster health -- validation over the pivoted roster: a person's own cycles
+// overlapping, sign_off before sign_on, one crew_id on board at two locations,
+// two medics on a single-man offshore location, and days an offshore location
+// has nobody on board. Pure helpers behind the Data Manager's Roster Health panel.
+// ---------------------------------------------------------------------------
+
+export type RosterIssueKind = 'INVERTED' | 'SELF_OVERLAP' | 'DOUBLE_BOOKED' | 'DOUBLE_MANNED' | 'COVERAGE_GAP';
+
+export interface RosterIssue {
+  kind: RosterIssueKind;
+  severity: 'error' | 'warning';
+  client: string;
+  location: string;
+  crew_id?: string;
+  crew_name?: string;
+  cycles?: number[];
+  from: string; // YYYY-MM-DD
+  to: string;   // YYYY-MM-DD
+  message: string;
+}
+
+export const ISSUE_LABELS: Record<RosterIssueKind, string> = {
+  INVERTED: 'Sign off before sign on',
+  SELF_OVERLAP: 'Overlapping cycles',
+  DOUBLE_BOOKED: 'On board at two locations',
+  DOUBLE_MANNED: 'Two medics on single-man post',
+  COVERAGE_GAP: 'Location uncovered',
+};
+
+// Offshore medic posts are single-man and need someone on board every day
+const SINGLE_MAN_POST = 'OFFSHORE MEDIC';
+
+// A dated cycle; on board from sign_on up to (not including) sign_off, same as isPersonnelOnBoard
+interface Stint {
+  row: PivotedCrewRow;
+  cycle: number;
+  on: string;
+  off: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(day: string, n: number): string {
+  const [y, m, d] = day.split('-').map(Number);
+  const t = new Date(Date.UTC(y, m - 1, d) + n * DAY_MS);
+  return t.toISOString().slice(0, 10);
+}
+
+function overlaps(a: Stint, b: Stint): boolean {
+  return a.on < b.off && b.on < a.off;
+}
+
+// First and last day both stints are on board
+function sharedSpan(a: Stint, b: Stint): [string, string] {
+  const from = a.on > b.on ? a.on : b.on;
+  const end = a.off < b.off ? a.off : b.off;
+  return [from, addDays(end, -1)];
+}
+
+function spanText(from: string, to: string): string {
+  return from === to ? `on ${from}` : `from ${from} to ${to}`;
+}
+
+function isOfficeStaff(row: PivotedCrewRow): boolean {
+  return !!(row.post?.includes('IM') || row.post?.includes('OHN'));
+}
+
+function stintsOf(rows: PivotedCrewRow[], issues: RosterIssue[]): Stint[] {
+  const stints: Stint[] = [];
+  for (const row of rows) {
+    for (const [num, c] of Object.entries(row.cycles)) {
+      const on = toISODay(c.sign_on);
+      const off = toISODay(c.sign_off);
+      if (!on || !off) continue;
+      if (off < on) {
+        issues.push({
+          kind: 'INVERTED', severity: 'error',
+          client: row.client, location: row.location, crew_id: row.crew_id, crew_name: row.crew_name,
+          cycles: [Number(num)], from: off, to: on,
+          message: `${row.crew_name}: cycle ${num} signs off ${off} before signing on ${on}`,
+        });
+        continue;
+      }
+      if (off > on) stints.push({ row, cycle: Number(num), on, off });
+    }
+  }
+  return stints;
+}
+
+// Days in [from, to] on which no stint is on board, collapsed into ranges
+function uncoveredRanges(stints: Stint[], from: string, to: string): [string, string][] {
+  const sorted = [...stints].sort((a, b) => a.on.localeCompare(b.on));
+  const gaps: [string, string][] = [];
+  let cursor = from; // first day not yet known to be covered
+  for (const s of sorted) {
+    if (cursor > to) break;
+    if (s.off <= cursor) continue;
+    if (s.on > cursor) gaps.push([cursor, addDays(s.on > to ? addDays(to, 1) : s.on, -1)]);
+    if (s.off > cursor) cursor = s.off;
+  }
+  if (cursor <= to) gaps.push([cursor, to]);
+  return gaps;
+}
+
+// Check the whole roster; coverage gaps are only reported inside [from, to]
+export function analyseRoster(rows: PivotedCrewRow[], window: { from: string; to: string }): RosterIssue[] {
+  const issues: RosterIssue[] = [];
+  const stints = stintsOf(rows, issues);
+
+  // The same person twice at once: within one row that is overlapping cycles,
+  // across rows (suffixed relief entries) at different locations it is double booking
+  for (let i = 0; i < stints.length; i++) {
+    for (let j = i + 1; j < stints.length; j++) {
+      const a = stints[i];
+      const b = stints[j];
+      if (!a.row.crew_id || a.row.crew_id !== b.row.crew_id || !overlaps(a, b)) continue;
+      const [from, to] = sharedSpan(a, b);
+      if (a.row === b.row) {
+        issues.push({
+          kind: 'SELF_OVERLAP', severity: 'error',
+          client: a.row.client, location: a.row.location, crew_id: a.row.crew_id, crew_name: a.row.crew_name,
+          cycles: [a.cycle, b.cycle], from, to,
+          message: `${a.row.crew_name}: cycles ${a.cycle} and ${b.cycle} both cover ${spanText(from, to)}`,
+        });
+      } else if (a.row.location !== b.row.location) {
+        issues.push({
+          kind: 'DOUBLE_BOOKED', severity: 'error',
+          client: a.row.client, location: `${a.row.location} / ${b.row.location}`, crew_id: a.row.crew_id, crew_name: a.row.crew_name,
+          cycles: [a.cycle, b.cycle], from, to,
+          message: `${a.row.crew_id} is on board at ${a.row.location} (cycle ${a.cycle}) and ${b.row.location} (cycle ${b.cycle}) ${spanText(from, to)}`,
+        });
+      }
+    }
+  }
+
+  // Single-man posts: two different people on board at one location
+  const byLocation = new Map<string, Stint[]>();
+  for (const s of stints) {
+    if (!s.row.post?.includes(SINGLE_MAN_POST) || isOfficeStaff(s.row)) continue;
+    const key = `${s.row.client}::${s.row.location}`;
+    if (!byLocation.has(key)) byLocation.set(key, []);
+    byLocation.get(key)!.push(s);
+  }
+  for (const list of byLocation.values()) {
+    for (let i = 0; i < list.length; i++) {
+      for (let j = i + 1; j < list.length; j++) {
+        const a = list[i];
+        const b = list[j];
+        if (a.row.crew_id && a.row.crew_id === b.row.crew_id) continue;
+        if (!overlaps(a, b)) continue;
+        const [from, to] = sharedSpan(a, b);
+        issues.push({
+          kind: 'DOUBLE_MANNED', severity: 'warning',
+          client: a.row.client, location: a.row.location, crew_name: `${a.row.crew_name} / ${b.row.crew_name}`,
+          cycles: [a.cycle, b.cycle], from, to,
+          message: `${a.row.crew_name} and ${b.row.crew_name} are both on board at ${a.row.location} ${spanText(from, to)}`,
+        });
+      }
+    }
+  }
+
+  // Coverage: every offshore location of the clients on this roster
+  const clients = new Set(rows.map((r) => r.client).filter(Boolean));
+  for (const client of clients) {
+    for (const location of CLIENT_LOCATION_MAP[client]?.[SINGLE_MAN_POST] || []) {
+      const onLocation = byLocation.get(`${client}::${location}`) || [];
+      for (const [from, to] of uncoveredRanges(onLocation, window.from, window.to)) {
+        issues.push({
+          kind: 'COVERAGE_GAP', severity: 'warning',
+          client, location, from, to,
+          message: `${location} has nobody on board ${spanText(from, to)}`,
+        });
+      }
+    }
+  }
+
+  const rank: Record<RosterIssueKind, number> = { INVERTED: 0, SELF_OVERLAP: 1, DOUBLE_BOOKED: 2, DOUBLE_MANNED: 3, COVERAGE_GAP: 4 };
+  return issues.sort((a, b) => rank[a.kind] - rank[b.kind] || a.from.localeCompare(b.from));
+}
+
+// First and last day of a YYYY-MM month
+export function monthWindow(month: string): { from: string; to: string } {
+  const [y, m] = month.split('-').map(Number);
+  const last = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(last).padStart(2, '0')}` };
+}
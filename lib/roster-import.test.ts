@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { importDate, previewRosterImport, type ImportCrew, type RosterImportPreview } from './roster-import'
+import type { PivotedCrewRow } from './types'
+
+type Cycle = PivotedCrewRow['cycles'][number]
+
+function cycle(id: number, sign_on: string, sign_off: string): Cycle {
+  return {
+    id, sign_on, sign_off, notes: null,
+    relief_all: null, standby_all: null, day_relief: null, day_standby: null,
+    is_offshore: null, medevac_dates: null, al_dates: null,
+  }
+}
+
+function line(crew_id: string, crew_name: string, cycles: Record<number, Cycle>): PivotedCrewRow {
+  return { crew_id, crew_name, post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB', cycles }
+}
+
+const CREW: ImportCrew[] = [
+  { id: 'C1', crew_name: 'AHMAD BIN ALI', post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB' },
+  { id: 'C2', crew_name: 'SITI AMINAH', post: 'ESCORT MEDIC', client: 'SBA', location: 'LABUAN' },
+]
+
+function preview(grid: string[][], roster: PivotedCrewRow[]): RosterImportPreview {
+  const result = previewRosterImport(grid, roster, CREW)
+  if (typeof result === 'string') throw new Error(result)
+  return result
+}
+
+describe('importDate', () => {
+  it('reads slashed dates day first', () => {
+    expect(importDate('05/04/2026')).toBe('2026-04-05')
+    expect(importDate('5.4.2026')).toBe('2026-04-05')
+  })
+
+  it('rejects days that do not exist', () => {
+    expect(importDate('31/02/2026')).toBeUndefined()
+    expect(importDate('04/13/2026')).toBeUndefined()
+  })
+
+  it('treats blanks and dashes as no date and reads Excel serials', () => {
+    expect(importDate('')).toBeNull()
+    expect(importDate(' - ')).toBeNull()
+    expect(importDate('46023')).toBe('2026-01-01')
+    expect(importDate('12')).toBeUndefined()
+  })
+})
+
+describe('previewRosterImport', () => {
+  const header = ['crew_name', 'm1', 'd1', 'm2', 'd2', 'm3', 'd3']
+  const roster = [line('C1', 'AHMAD BIN ALI', { 1: cycle(11, '2026-03-01', '2026-03-15'), 2: cycle(12, '2026-04-01', '2026-04-15') })]
+
+  it('diffs a horizontal sheet into CREATE, UPDATE and CLEAR and counts unchanged cycles', () => {
+    const update = preview([header, ['Ahmad bin Ali', '01/03/2026', '15/03/2026', '05/04/2026', '20/04/2026', '01/05/2026', '15/05/2026']], roster)
+    expect(update.layout).toBe('horizontal')
+    expect(update.unchanged).toBe(1)
+    expect(update.issues).toEqual([])
+    expect(update.changes.map((c) => [c.cycle_number, c.kind, c.rosterId])).toEqual([[2, 'UPDATE', 12], [3, 'CREATE', null]])
+    expect(update.changes[0].before).toEqual({ sign_on: '2026-04-01', sign_off: '2026-04-15' })
+    expect(update.changes[0].after).toEqual({ sign_on: '2026-04-05', sign_off: '2026-04-20' })
+
+    const clear = preview([header, ['AHMAD BIN ALI', '01/03/2026', '15/03/2026', '', '', '', '']], roster)
+    expect(clear.changes.map((c) => [c.cycle_number, c.kind, c.after])).toEqual([[2, 'CLEAR', { sign_on: null, sign_off: null }]])
+  })
+
+  it('reads the normalized layout and leaves cycles it does not mention alone', () => {
+    const result = preview([['crew_id', 'cycle_number', 'sign_on', 'sign_off'], ['C1', '2', '', ''], ['C1', '3', '2026-05-01', '2026-05-15']], roster)
+    expect(result.layout).toBe('normalized')
+    expect(result.changes.map((c) => [c.cycle_number, c.kind])).toEqual([[3, 'CREATE']])
+  })
+
+  it('skips a repeated crew line or cycle', () => {
+    const horizontal = preview([['crew_name', 'm1', 'd1'], ['AHMAD BIN ALI', '01/03/2026', '15/03/2026'], ['AHMAD BIN ALI', '02/03/2026', '16/03/2026']], roster)
+    expect(horizontal.issues).toEqual([{ line: 3, crew_name: 'AHMAD BIN ALI', message: 'Duplicate of line 2; skipped', severity: 'error' }])
+    expect(horizontal.changes).toEqual([])
+
+    const normalized = preview([['crew_name', 'cycle', 'sign_on', 'sign_off'], ['AHMAD BIN ALI', '3', '01/05/2026', '15/05/2026'], ['AHMAD BIN ALI', '3', '02/05/2026', '16/05/2026']], roster)
+    expect(normalized.issues.map((i) => [i.line, i.message])).toEqual([[3, 'Cycle 3 already given on line 2; skipped']])
+    expect(normalized.changes.map((c) => c.after)).toEqual([{ sign_on: '2026-05-01', sign_off: '2026-05-15' }])
+  })
+
+  it('refuses a name without suffix when the crew has several roster lines', () => {
+    const lines = [
+      line('C1', 'AHMAD BIN ALI (P)', { 1: cycle(11, '2026-03-01', '2026-03-15') }),
+      line('C1', 'AHMAD BIN ALI (R)', { 1: cycle(21, '2026-03-15', '2026-03-29') }),
+    ]
+    const ambiguous = preview([header, ['AHMAD BIN ALI', '01/04/2026', '15/04/2026']], lines)
+    expect(ambiguous.changes).toEqual([])
+    expect(ambiguous.issues).toHaveLength(1)
+    expect(ambiguous.issues[0].message).toMatch(/^Ambiguous roster line: 2 lines for this crew/)
+
+    const suffixed = preview([header, ['AHMAD BIN ALI (R)', '01/04/2026', '15/04/2026']], lines)
+    expect(suffixed.changes.map((c) => [c.crew_name, c.rosterId, c.kind])).toEqual([['AHMAD BIN ALI (R)', 21, 'UPDATE']])
+  })
+
+  it('reports unknown crew, bad dates and reversed cycles', () => {
+    const result = preview([
+      header,
+      ['NOBODY', '01/03/2026', '15/03/2026'],
+      ['SITI AMINAH', '31/02/2026', '15/03/2026', '20/03/2026', '10/03/2026'],
+    ], roster)
+    expect(result.issues.map((i) => [i.line, i.message])).toEqual([
+      [2, 'No master crew with this name; skipped'],
+      [3, 'Cycle 1: "31/02/2026" is not a date; skipped'],
+      [3, 'Cycle 2: sign off before sign on; skipped'],
+    ])
+    expect(result.changes).toEqual([])
+  })
+
+  it('rejects a sheet it cannot read', () => {
+    expect(previewRosterImport([header], roster, CREW)).toBe('The sheet has no data rows')
+    expect(previewRosterImport([['foo', 'bar'], ['1', '2']], roster, CREW)).toMatch(/^Unrecognised header/)
+  })
+})
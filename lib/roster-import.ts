@@ -0,0 +1,248 @@
+import type { PivotedCrewRow } from './types';
+import { toISODay } from './rate-card';
+import { MAX_CYCLES, type PlannedCycle } from './rotation-planner';
+import { excelSerialToISO, type SheetGrid } from './spreadsheet';
+
+// ---------------------------------------------------------------------------
+// Roster import -- clients still keep the roster in spreadsheets. A sheet in
+// the old horizontal layout (one line per crew, m1/d1 .. m24/d24 as in
+// MOCK_ROSTER_DATA) or the normalized RosterRow layout (one line per cycle)
+// is matched to cms_master_crew by crew_id or name and diffed cycle by cycle
+// against the current roster, in the same CREATE / UPDATE / CLEAR shape the
+// rotation planner previews. Pure; the Data Manager applies accepted changes.
+// ---------------------------------------------------------------------------
+
+export type RosterImportLayout = 'horizontal' | 'normalized';
+
+export interface ImportCrew {
+  id: string;
+  crew_name: string;
+  clean_name?: string;
+  post: string;
+  client: string;
+  location: string;
+}
+
+export interface ImportedCycle extends PlannedCycle {
+  line: number; // sheet row, header = 1
+  post: string;
+  client: string;
+  location: string;
+}
+
+export interface ImportIssue {
+  line: number;
+  crew_name: string;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+export interface RosterImportPreview {
+  layout: RosterImportLayout;
+  changes: ImportedCycle[];
+  issues: ImportIssue[];
+  unchanged: number;
+}
+
+interface SheetCycle {
+  line: number;
+  sign_on: string;
+  sign_off: string;
+}
+
+interface SheetCrew {
+  line: number;
+  crew_id: string;
+  crew_name: string;
+  post: string;
+  client: string;
+  location: string;
+  cycles: Map<number, SheetCycle>;
+}
+
+const HEADER_ALIASES: Record<string, string> = {
+  id: 'crew_id',
+  staff_id: 'crew_id',
+  name: 'crew_name',
+  staff_name: 'crew_name',
+  cycle: 'cycle_number',
+  m: 'sign_on',
+  d: 'sign_off',
+};
+
+function headerKey(cell: string): string {
+  const key = cell.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return HEADER_ALIASES[key] || key;
+}
+
+const normName = (s: string) => s.toUpperCase().replace(/\s+/g, ' ').trim();
+// "ALLEN JOE MAININ (P)" -> "ALLEN JOE MAININ"
+const baseName = (s: string) => normName(s).replace(/\s*\([^)]*\)$/, '');
+
+// ISO day, null for a blank cell, undefined when the cell is not a date.
+// Slashed dates are day-first as written in Malaysia; bare numbers are Excel serials.
+export function importDate(raw: string): string | null | undefined {
+  const v = raw.trim();
+  if (!v || v === '-') return null;
+  if (/^\d+(\.\d+)?$/.test(v)) {
+    const n = Number(v);
+    return n > 20000 && n < 80000 ? excelSerialToISO(n) ?? undefined : undefined;
+  }
+  const dmy = v.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{4})$/);
+  if (dmy) {
+    const iso = `${dmy[3]}-${dmy[2].padStart(2, '0')}-${dmy[1].padStart(2, '0')}`;
+    return toISODay(iso) === iso ? iso : undefined;
+  }
+  return toISODay(v) ?? undefined;
+}
+
+export function detectLayout(header: string[]): RosterImportLayout | null {
+  const keys = header.map(headerKey);
+  if (!keys.includes('crew_name') && !keys.includes('crew_id')) return null;
+  if (keys.some((k) => /^m\d+$/.test(k))) return 'horizontal';
+  if (keys.includes('cycle_number') && (keys.includes('sign_on') || keys.includes('sign_off'))) return 'normalized';
+  return null;
+}
+
+// Sheet lines grouped per crew line (crew_id + name), each with its cycles
+function readSheet(grid: SheetGrid, layout: RosterImportLayout, issues: ImportIssue[]): SheetCrew[] {
+  const keys = grid[0].map(headerKey);
+  const col = (key: string) => keys.indexOf(key);
+  const cell = (row: string[], key: string) => (col(key) >= 0 ? String(row[col(key)] ?? '').trim() : '');
+
+  const crews = new Map<string, SheetCrew>();
+  grid.slice(1).forEach((row, i) => {
+    const line = i + 2;
+    const crew_name = normName(cell(row, 'crew_name'));
+    const crew_id = cell(row, 'crew_id');
+    if (!crew_name && !crew_id) return;
+
+    const key = `${crew_id}::${crew_name}`;
+    let crew = crews.get(key);
+    if (crew && layout === 'horizontal') {
+      issues.push({ line, crew_name, message: `Duplicate of line ${crew.line}; skipped`, severity: 'error' });
+      return;
+    }
+    if (!crew) {
+      crew = {
+        line, crew_id, crew_name,
+        post: cell(row, 'post').toUpperCase(),
+        client: cell(row, 'client').toUpperCase(),
+        location: cell(row, 'location'),
+        cycles: new Map(),
+      };
+      crews.set(key, crew);
+    }
+
+    if (layout === 'horizontal') {
+      for (let n = 1; n <= MAX_CYCLES; n++) {
+        if (col(`m${n}`) < 0 && col(`d${n}`) < 0) continue;
+        crew.cycles.set(n, { line, sign_on: cell(row, `m${n}`), sign_off: cell(row, `d${n}`) });
+      }
+    } else {
+      const n = Number(cell(row, 'cycle_number'));
+      if (!Number.isInteger(n) || n < 1 || n > MAX_CYCLES) {
+        issues.push({ line, crew_name, message: `Cycle must be 1-${MAX_CYCLES}; skipped`, severity: 'error' });
+      } else if (crew.cycles.has(n)) {
+        issues.push({ line, crew_name, message: `Cycle ${n} already given on line ${crew.cycles.get(n)!.line}; skipped`, severity: 'error' });
+      } else {
+        crew.cycles.set(n, { line, sign_on: cell(row, 'sign_on'), sign_off: cell(row, 'sign_off') });
+      }
+    }
+  });
+  return Array.from(crews.values());
+}
+
+// Master crew by crew_id, else by name without the (P)/(S)/(R) suffix
+function matchCrew(sheet: SheetCrew, crew: ImportCrew[]): ImportCrew | string {
+  if (sheet.crew_id) {
+    return crew.find((c) => c.id === sheet.crew_id) || `crew_id ${sheet.crew_id} not found in master crew`;
+  }
+  const name = baseName(sheet.crew_name);
+  const found = crew.filter((c) => normName(c.crew_name) === name || (c.clean_name && normName(c.clean_name) === name));
+  if (found.length === 0) return 'No master crew with this name';
+  if (found.length > 1) return `Name matches ${found.length} master crew; add crew_id`;
+  return found[0];
+}
+
+// The crew's roster line with the same name, or their only line when the sheet gives no suffix.
+// Null means a new line; a string is why the sheet row cannot be matched.
+function matchRosterRow(sheet: SheetCrew, master: ImportCrew, roster: PivotedCrewRow[]): PivotedCrewRow | null | string {
+  const lines = roster.filter((r) => r.crew_id === master.id);
+  const name = sheet.crew_name || normName(master.crew_name);
+  const exact = lines.find((r) => normName(r.crew_name) === name);
+  if (exact) return exact;
+  if (baseName(name) !== name || lines.length === 0) return null;
+  if (lines.length === 1) return lines[0];
+  return `Ambiguous roster line: ${lines.length} lines for this crew (${lines.map((r) => r.crew_name).join(', ')}); add the (P)/(R) suffix`;
+}
+
+export function previewRosterImport(grid: SheetGrid, roster: PivotedCrewRow[], crew: ImportCrew[]): RosterImportPreview | string {
+  if (grid.length < 2) return 'The sheet has no data rows';
+  const layout = detectLayout(grid[0]);
+  if (!layout) return 'Unrecognised header: expected crew_id or crew_name with m1/d1 .. m24/d24, or cycle_number / sign_on / sign_off';
+
+  const issues: ImportIssue[] = [];
+  const changes: ImportedCycle[] = [];
+  let unchanged = 0;
+
+  for (const sheet of readSheet(grid, layout, issues)) {
+    const master = matchCrew(sheet, crew);
+    if (typeof master === 'string') {
+      issues.push({ line: sheet.line, crew_name: sheet.crew_name || sheet.crew_id, message: `${master}; skipped`, severity: 'error' });
+      continue;
+    }
+    const row = matchRosterRow(sheet, master, roster);
+    if (typeof row === 'string') {
+      issues.push({ line: sheet.line, crew_name: sheet.crew_name || master.crew_name, message: `${row}; skipped`, severity: 'error' });
+      continue;
+    }
+    const crew_name = row?.crew_name || sheet.crew_name || master.crew_name;
+    const site = {
+      post: row?.post || sheet.post || master.post,
+      client: row?.client || sheet.client || master.client,
+      location: row?.location || sheet.location || master.location,
+    };
+
+    for (const [cycle_number, c] of Array.from(sheet.cycles.entries()).sort((a, b) => a[0] - b[0])) {
+      const sign_on = importDate(c.sign_on);
+      const sign_off = importDate(c.sign_off);
+      if (sign_on === undefined || sign_off === undefined) {
+        issues.push({ line: c.line, crew_name, message: `Cycle ${cycle_number}: "${sign_on === undefined ? c.sign_on : c.sign_off}" is not a date; skipped`, severity: 'error' });
+        continue;
+      }
+      if (sign_on && sign_off && sign_off < sign_on) {
+        issues.push({ line: c.line, crew_name, message: `Cycle ${cycle_number}: sign off before sign on; skipped`, severity: 'error' });
+        continue;
+      }
+
+      const existing = row?.cycles[cycle_number];
+      const before = existing ? { sign_on: toISODay(existing.sign_on), sign_off: toISODay(existing.sign_off) } : null;
+      const hadDates = !!(before && (before.sign_on || before.sign_off));
+      // A blank pair only means something where the sheet lays out every cycle column
+      if (!sign_on && !sign_off && (layout === 'normalized' || !hadDates)) continue;
+      if (before && before.sign_on === sign_on && before.sign_off === sign_off) {
+        unchanged++;
+        continue;
+      }
+      if (!sign_on !== !sign_off) {
+        issues.push({ line: c.line, crew_name, message: `Cycle ${cycle_number}: only one date given`, severity: 'warning' });
+      }
+
+      changes.push({
+        line: c.line,
+        crew_id: master.id,
+        crew_name,
+        cycle_number,
+        rosterId: existing?.id ?? null,
+        before,
+        after: { sign_on, sign_off },
+        kind: !existing ? 'CREATE' : !sign_on && !sign_off ? 'CLEAR' : 'UPDATE',
+        ...site,
+      });
+    }
+  }
+
+  issues.sort((a, b) => a.line - b.line);
+  return { layout, changes, issues, unchanged };
+}
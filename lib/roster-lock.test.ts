@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { describeLockedPeriods, findLockedPeriods, isCycleLocked, monthsTouched, type ApprovedPeriod } from './roster-lock'
+
+const cycle = { client: 'SKA', sign_on: '2026-03-25', sign_off: '2026-04-10' }
+
+describe('monthsTouched', () => {
+  it('leaves out the sign-off day, so a cycle ending on the 1st stays in its month', () => {
+    expect(monthsTouched(null, { client: 'SKA', sign_on: '2026-03-25', sign_off: '2026-04-01' })).toEqual(['2026-03'])
+    expect(monthsTouched(cycle, null)).toEqual(['2026-03', '2026-04'])
+  })
+
+  it('only counts months whose days change when the dates move', () => {
+    expect(monthsTouched(cycle, { ...cycle, sign_off: '2026-04-20' })).toEqual(['2026-04'])
+    expect(monthsTouched(cycle, { ...cycle, sign_on: '2026-02-25' })).toEqual(['2026-02', '2026-03'])
+  })
+
+  it('counts every month of the cycle when a pay field changes, and none for notes', () => {
+    expect(monthsTouched(cycle, { ...cycle, relief_all: 150 })).toEqual(['2026-03', '2026-04'])
+    expect(monthsTouched({ ...cycle, notes: 'a' }, { ...cycle, notes: 'b' })).toEqual([])
+  })
+
+  it('includes the months of MEDEVAC dates', () => {
+    expect(monthsTouched(null, { client: 'SKA', medevac_dates: ['2026-05-02'] })).toEqual(['2026-05'])
+  })
+})
+
+describe('findLockedPeriods', () => {
+  const periods: ApprovedPeriod[] = [{ month_year: '2026-04', client: 'SKA' }, { month_year: '2026-03', client: 'ALL' }, { month_year: '2026-04', client: 'SBA' }]
+
+  it('returns the approved periods a change would alter for its client', () => {
+    expect(findLockedPeriods(periods, cycle, { ...cycle, sign_off: '2026-04-20' })).toEqual([{ month_year: '2026-04', client: 'SKA' }])
+    expect(findLockedPeriods(periods, cycle, { ...cycle, sign_on: '2026-03-20' })).toEqual([{ month_year: '2026-03', client: 'ALL' }])
+    expect(findLockedPeriods(periods, { ...cycle, notes: 'a' }, { ...cycle, notes: 'b' })).toEqual([])
+  })
+
+  it('checks the old client too when a cycle moves to another client', () => {
+    expect(findLockedPeriods([{ month_year: '2026-04', client: 'SKA' }], cycle, { ...cycle, client: 'SBA' }))
+      .toEqual([{ month_year: '2026-04', client: 'SKA' }])
+  })
+})
+
+describe('isCycleLocked', () => {
+  it('locks a cycle overlapping an approved month of its client', () => {
+    expect(isCycleLocked([{ month_year: '2026-04', client: 'ska ' }], 'SKA', cycle)).toBe(true)
+    expect(isCycleLocked([{ month_year: '2026-04', client: 'SBA' }], 'SKA', cycle)).toBe(false)
+    expect(isCycleLocked([{ month_year: '2026-05', client: 'ALL' }], 'SKA', cycle)).toBe(false)
+    expect(isCycleLocked([{ month_year: '2026-04', client: 'ALL' }], 'SKA', null)).toBe(false)
+  })
+})
+
+describe('describeLockedPeriods', () => {
+  it('lists month and client', () => {
+    expect(describeLockedPeriods([{ month_year: '2026-03', client: 'ALL' }, { month_year: '2026-04', client: 'SKA' }])).toBe('2026-03 (ALL), 2026-04 (SKA)')
+  })
+})
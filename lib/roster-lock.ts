@@ -0,0 +1,115 @@
+import { RosterRow } from './types';
+import { toISODay } from './rate-card';
+
+// ---------------------------------------------------------------------------
+// Roster period locks -- once a month/client statement is approved, roster
+// changes that touch days in that month are refused (L1 override aside).
+// Pure helpers shared by the roster server actions and the Data Manager grid.
+// ---------------------------------------------------------------------------
+
+// One approved statement scope from cms_pcsb_approvals (client 'ALL' locks every client)
+export interface ApprovedPeriod {
+  month_year: string; // YYYY-MM
+  client: string;
+}
+
+export type LockableRow = Partial<RosterRow>;
+
+// Fields that change what a statement pays; notes and AL dates do not
+const PAY_FIELDS: (keyof RosterRow)[] = [
+  'crew_id', 'crew_name', 'post', 'client',
+  'relief_all', 'standby_all', 'day_relief', 'day_standby', 'is_offshore', 'medevac_dates',
+];
+
+function monthOf(day: string): string {
+  return day.slice(0, 7);
+}
+
+// Every YYYY-MM from the month of `from` to the month of `to`, inclusive
+function monthsBetween(from: string, to: string): string[] {
+  const months: string[] = [];
+  let [y, m] = from.split('-').map(Number);
+  const [ty, tm] = to.split('-').map(Number);
+  while (y < ty || (y === ty && m <= tm)) {
+    months.push(`${y}-${String(m).padStart(2, '0')}`);
+    m++;
+    if (m > 12) { m = 1; y++; }
+  }
+  return months;
+}
+
+function dayBefore(day: string): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return toISODay(new Date(y, m - 1, d - 1))!;
+}
+
+// Inclusive [first, last] days the cycle is paid for. As in the pay engine the
+// sign-off day is not worked, so the last day is the one before it; a lone date
+// counts as one day and a cycle signing off the day it signs on has none.
+function cycleSpan(row: LockableRow | null): [string, string] | null {
+  if (!row) return null;
+  const on = toISODay(row.sign_on);
+  const off = toISODay(row.sign_off);
+  if (!on || !off) return on || off ? [on || off!, on || off!] : null;
+  const [first, end] = on <= off ? [on, off] : [off, on];
+  return first < end ? [first, dayBefore(end)] : null;
+}
+
+function spanMonths(row: LockableRow | null): string[] {
+  const span = cycleSpan(row);
+  const months = span ? monthsBetween(span[0], span[1]) : [];
+  for (const d of row?.medevac_dates || []) {
+    const day = toISODay(d);
+    if (day) months.push(monthOf(day));
+  }
+  return months;
+}
+
+// The part of a cycle falling inside one month, as a comparable key
+function daysInMonth(row: LockableRow, month: string): string {
+  const span = cycleSpan(row);
+  if (!span) return '';
+  const from = span[0] > `${month}-01` ? span[0] : `${month}-01`;
+  const to = span[1] < `${month}-31` ? span[1] : `${month}-31`;
+  return from <= to ? `${from}..${to}` : '';
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Months whose payable days differ between `before` and `after`.
+// Pass before = null for an insert and after = null for a delete.
+export function monthsTouched(before: LockableRow | null, after: LockableRow | null): string[] {
+  if (!before || !after) return Array.from(new Set(spanMonths(before || after))).sort();
+
+  const candidates = Array.from(new Set([...spanMonths(before), ...spanMonths(after)]));
+  const payChanged = PAY_FIELDS.some((f) => f in after && !sameValue(before[f], after[f]));
+  if (payChanged) return candidates.sort();
+
+  return candidates.filter((m) => daysInMonth(before, m) !== daysInMonth(after, m)).sort();
+}
+
+function clientMatches(period: ApprovedPeriod, client: string | null | undefined): boolean {
+  if (period.client === 'ALL') return true;
+  return (client || '').toUpperCase().trim() === period.client.toUpperCase().trim();
+}
+
+// Approved periods a roster change would alter (empty = change is allowed)
+export function findLockedPeriods(periods: ApprovedPeriod[], before: LockableRow | null, after: LockableRow | null): ApprovedPeriod[] {
+  if (periods.length === 0) return [];
+  const months = new Set(monthsTouched(before, after));
+  const clients = [before?.client, after?.client];
+  return periods.filter((p) => months.has(p.month_year) && clients.some((c) => clientMatches(p, c)));
+}
+
+// Does an existing cycle overlap any approved period? (drives the locked-cell styling)
+export function isCycleLocked(periods: ApprovedPeriod[], client: string | null | undefined, cycle: LockableRow | null | undefined): boolean {
+  if (!cycle || periods.length === 0) return false;
+  const months = new Set(spanMonths(cycle));
+  return periods.some((p) => months.has(p.month_year) && clientMatches(p, client));
+}
+
+export function describeLockedPeriods(periods: ApprovedPeriod[]): string {
+  return periods.map((p) => `${p.month_year} (${p.client})`).join(', ');
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { planRotation, MAX_CYCLES, type PlannerMedic } from './rotation-planner'
+import type { PivotedCrewRow } from './types'
+
+type Cycle = PivotedCrewRow['cycles'][number]
+
+function cycle(id: number, sign_on: string, sign_off: string): Cycle {
+  return {
+    id, sign_on, sign_off, notes: null,
+    relief_all: null, standby_all: null, day_relief: null, day_standby: null,
+    is_offshore: null, medevac_dates: null, al_dates: null,
+  }
+}
+
+function medic(crew_name: string, cycles: Record<number, Cycle> = {}, resignDate: string | null = null): PlannerMedic {
+  return { row: { crew_id: crew_name, crew_name, post: 'OFFSHORE MEDIC', client: 'SKA', location: 'KBB', cycles }, resignDate }
+}
+
+describe('planRotation', () => {
+  it('alternates hitches between the two medics from the start date', () => {
+    const plan = planRotation([medic('A'), medic('B')], '14/14', '2026-01-01', '2026-03-01')
+    expect(plan.warnings).toEqual([])
+    expect(plan.changes.map((c) => [c.crew_name, c.cycle_number, c.kind, c.after.sign_on, c.after.sign_off])).toEqual([
+      ['A', 1, 'CREATE', '2026-01-01', '2026-01-15'],
+      ['A', 2, 'CREATE', '2026-01-29', '2026-02-12'],
+      ['A', 3, 'CREATE', '2026-02-26', '2026-03-12'],
+      ['B', 1, 'CREATE', '2026-01-15', '2026-01-29'],
+      ['B', 2, 'CREATE', '2026-02-12', '2026-02-26'],
+    ])
+  })
+
+  it('keeps history and later cycles, skips unchanged ones, moves or clears dates inside the window', () => {
+    const a = medic('A', {
+      1: cycle(11, '2025-12-01', '2025-12-15'), 2: cycle(12, '2026-01-01', '2026-01-22'),
+      3: cycle(13, '2026-02-05', '2026-02-26'), 4: cycle(14, '2026-04-01', '2026-04-22'),
+    })
+    const b = medic('B', { 1: cycle(21, '2026-01-22', '2026-02-12'), 2: cycle(22, '2026-02-20', '2026-03-10') })
+    const plan = planRotation([a, b], '21/21', '2026-01-01', '2026-03-01')
+    expect(plan.changes.map((c) => [c.crew_name, c.cycle_number, c.kind, c.rosterId])).toEqual([
+      ['A', 3, 'UPDATE', 13],
+      ['B', 2, 'CLEAR', 22],
+    ])
+    expect(plan.changes[0].before).toEqual({ sign_on: '2026-02-05', sign_off: '2026-02-26' })
+    expect(plan.changes[0].after).toEqual({ sign_on: '2026-02-12', sign_off: '2026-03-05' })
+  })
+
+  it('stops at the resign date with a warning', () => {
+    const plan = planRotation([medic('A'), medic('B', {}, '2026-02-20')], '14/14', '2026-01-01', '2026-04-01')
+    const b = plan.changes.filter((c) => c.crew_name === 'B').map((c) => c.after)
+    expect(b).toEqual([{ sign_on: '2026-01-15', sign_off: '2026-01-29' }, { sign_on: '2026-02-12', sign_off: '2026-02-20' }])
+    expect(plan.warnings).toEqual([
+      'B: hitch from 2026-02-12 cut short at resign date 2026-02-20',
+      'B resigns on 2026-02-20; no hitches planned from 2026-03-12',
+    ])
+  })
+
+  it(`never plans past cycle ${MAX_CYCLES}`, () => {
+    const history = Object.fromEntries(Array.from({ length: MAX_CYCLES - 1 }, (_, i) => [i + 1, cycle(i + 1, '2025-01-01', '2025-01-15')]))
+    const plan = planRotation([medic('A', history), medic('B')], '28/28', '2026-01-01', '2026-06-01')
+    expect(plan.changes.filter((c) => c.crew_name === 'A').map((c) => c.cycle_number)).toEqual([MAX_CYCLES])
+    expect(plan.warnings).toEqual([`A reached cycle ${MAX_CYCLES}; no hitches planned from 2026-02-26`])
+  })
+})
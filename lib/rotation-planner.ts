@@ -0,0 +1,123 @@
+import { PivotedCrewRow } from './types';
+import { toISODay } from './rate-card';
+
+// ---------------------------------------------------------------------------
+// Rotation planner -- two back-to-back medics on one location alternate
+// fixed-length hitches (14/14, 21/21, 28/28). From a start date the planner
+// lays out future sign-on/sign-off pairs in each medic's next free cycle
+// numbers, never past cycle 24 or the medic's resign_date, and diffs them
+// against the current roster so the Data Manager can preview before writing.
+// ---------------------------------------------------------------------------
+
+export const ROTATION_PATTERNS = {
+  '14/14': 14,
+  '21/21': 21,
+  '28/28': 28,
+} as const;
+
+export type RotationPattern = keyof typeof ROTATION_PATTERNS;
+
+export const MAX_CYCLES = 24;
+
+export interface PlannerMedic {
+  row: PivotedCrewRow;
+  resignDate?: string | null;
+}
+
+export interface PlannedCycle {
+  crew_id: string;
+  crew_name: string;
+  cycle_number: number;
+  rosterId: number | null; // existing cycle row to update, null = create
+  before: { sign_on: string | null; sign_off: string | null } | null;
+  after: { sign_on: string | null; sign_off: string | null };
+  kind: 'CREATE' | 'UPDATE' | 'CLEAR';
+}
+
+export interface RotationPlan {
+  changes: PlannedCycle[];
+  warnings: string[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function addDays(day: string, n: number): string {
+  const [y, m, d] = day.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d) + n * DAY_MS).toISOString().slice(0, 10);
+}
+
+// Cycles before `start` are history and stay; the first cycle number after the
+// last of them is where the plan begins writing
+function firstFreeCycle(row: PivotedCrewRow, start: string): number {
+  let last = 0;
+  for (const [num, c] of Object.entries(row.cycles)) {
+    const on = toISODay(c.sign_on);
+    if (on && on < start) last = Math.max(last, Number(num));
+  }
+  return last + 1;
+}
+
+// Alternate the medics from `start` until `until`: medics[0] takes the first hitch
+export function planRotation(
+  medics: [PlannerMedic, PlannerMedic],
+  pattern: RotationPattern,
+  start: string,
+  until: string
+): RotationPlan {
+  const days = ROTATION_PATTERNS[pattern];
+  const warnings: string[] = [];
+  const hitches: { sign_on: string; sign_off: string }[][] = [[], []];
+  const stopped = [false, false];
+
+  for (let k = 0, on = start; on < until && !(stopped[0] && stopped[1]); k++, on = addDays(on, days)) {
+    const who = k % 2;
+    if (stopped[who]) continue;
+    const medic = medics[who];
+    const resign = toISODay(medic.resignDate);
+    if (resign && on >= resign) {
+      warnings.push(`${medic.row.crew_name} resigns on ${resign}; no hitches planned from ${on}`);
+      stopped[who] = true;
+      continue;
+    }
+    let off = addDays(on, days);
+    if (resign && off > resign) {
+      warnings.push(`${medic.row.crew_name}: hitch from ${on} cut short at resign date ${resign}`);
+      off = resign;
+    }
+    if (firstFreeCycle(medic.row, start) + hitches[who].length > MAX_CYCLES) {
+      warnings.push(`${medic.row.crew_name} reached cycle ${MAX_CYCLES}; no hitches planned from ${on}`);
+      stopped[who] = true;
+      continue;
+    }
+    hitches[who].push({ sign_on: on, sign_off: off });
+  }
+
+  const changes: PlannedCycle[] = [];
+  medics.forEach((medic, who) => {
+    const { row } = medic;
+    const first = firstFreeCycle(row, start);
+    for (let num = first; num <= MAX_CYCLES; num++) {
+      const existing = row.cycles[num];
+      const before = existing ? { sign_on: toISODay(existing.sign_on), sign_off: toISODay(existing.sign_off) } : null;
+      const planned = hitches[who][num - first];
+      const dated = before?.sign_on || before?.sign_off;
+      if (planned) {
+        if (before && before.sign_on === planned.sign_on && before.sign_off === planned.sign_off) continue;
+        changes.push({
+          crew_id: row.crew_id, crew_name: row.crew_name, cycle_number: num,
+          rosterId: existing?.id ?? null, before, after: planned,
+          kind: existing ? 'UPDATE' : 'CREATE',
+        });
+      } else if (existing && dated && dated < until) {
+        // Old dates inside the planned window that the new pattern replaces
+        changes.push({
+          crew_id: row.crew_id, crew_name: row.crew_name, cycle_number: num,
+          rosterId: existing.id, before, after: { sign_on: null, sign_off: null },
+          kind: 'CLEAR',
+        });
+      }
+    }
+  });
+
+  return { changes, warnings };
+}
@@ -0,0 +1,70 @@
+import { cache } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createClient, createAdminClient } from '@/lib/supabase/server'
+import type { UserRole } from './auth'
+import { defaultProjectFor, matrixFromRows, type AccessMatrixRow, type AppAccessMatrix, type SessionUser } from './authz'
+
+// ---------------------------------------------------------------------------
+// Server-side session -- the signed-in user's role and default project come
+// from the Supabase auth session and cms_users, never from browser storage.
+// Used by the server actions, the root layout, /api/me and the proxy.
+// ---------------------------------------------------------------------------
+
+const VALID_ROLES: UserRole[] = ['L1', 'L2A', 'L2B', 'L4', 'L5A', 'L5B', 'L6', 'L7']
+
+// Resolve the user behind a cookie-bound Supabase client (server components, actions or the proxy)
+export async function loadSessionUser(supabase: SupabaseClient): Promise<SessionUser | null> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) return null
+
+  const admin = createAdminClient()
+  const { data: profile } = await admin
+    .from('cms_users')
+    .select('email, crew_name, role')
+    .eq('id', user.id)
+    .limit(1)
+    .maybeSingle()
+
+  // Same fallback as signInWithEmail: an auth user without a cms_users row is L7
+  const role = VALID_ROLES.includes(profile?.role) ? (profile!.role as UserRole) : 'L7'
+  const email = profile?.email || user.email || ''
+  return {
+    id: user.id,
+    email,
+    username: email.toLowerCase(),
+    fullName: profile?.crew_name || email,
+    role,
+    defaultProject: defaultProjectFor(role),
+  }
+}
+
+// Memoised per request so an action that calls other actions only resolves it once
+export const getSessionUser = cache(async (): Promise<SessionUser | null> => {
+  return loadSessionUser(await createClient())
+})
+
+// cms_access_matrix changes rarely and is read on every page load and action,
+// so each server instance keeps a short-lived copy; saves invalidate it.
+const MATRIX_TTL_MS = 60 * 1000
+let matrixCache: { loadedAt: number; matrix: AppAccessMatrix } | null = null
+
+// Full cms_access_matrix in app format, read with the service role
+export async function loadAccessMatrix(): Promise<AppAccessMatrix> {
+  if (matrixCache && Date.now() - matrixCache.loadedAt < MATRIX_TTL_MS) return matrixCache.matrix
+
+  const admin = createAdminClient()
+  const { data, error } = await admin
+    .from('cms_access_matrix')
+    .select('*')
+
+  if (error) {
+    console.error('[Session] access matrix fetch error:', error.message)
+    return matrixCache?.matrix ?? {}
+  }
+  matrixCache = { loadedAt: Date.now(), matrix: matrixFromRows((data || []) as AccessMatrixRow[]) }
+  return matrixCache.matrix
+}
+
+export function invalidateAccessMatrix(): void {
+  matrixCache = null
+}
@@ -0,0 +1,438 @@
+// ---------------------------------------------------------------------------
+// Spreadsheet files without a library -- CSV text, and .xlsx workbooks read as
+// the zip of XML parts they are (entries inflated with the platform
+// DecompressionStream). Reading returns the first worksheet as a grid of cell
+// strings; styles are not read, so date cells come back as Excel serial
+// numbers and callers convert them (see excelSerialToISO). Writing builds a
+// styled multi-sheet workbook in a stored (uncompressed) zip.
+// ---------------------------------------------------------------------------
+
+export type SheetGrid = string[][];
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+export function parseCsv(text: string): SheetGrid {
+  const rows: SheetGrid = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// Excel's 1900 date system (serial 25569 = 1970-01-01); fractions are the time of day
+export function excelSerialToISO(serial: number): string | null {
+  if (!Number.isFinite(serial) || serial < 1) return null;
+  return new Date(Math.round((serial - 25569) * 86400) * 1000).toISOString().slice(0, 10);
+}
+
+export function isoToExcelSerial(day: string): number | null {
+  const [y, m, d] = day.split('-').map(Number);
+  const t = Date.UTC(y, m - 1, d);
+  return Number.isNaN(t) ? null : t / 86400000 + 25569;
+}
+
+// ─── Zip container ───
+
+interface ZipEntry {
+  name: string;
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+}
+
+function zipEntries(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // End of central directory record: last 0x06054b50 within the trailing comment window
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { eocd = i; break; }
+  }
+  if (eocd === -1) throw new Error('Not a valid .xlsx file');
+
+  const entries = new Map<string, ZipEntry>();
+  const count = view.getUint16(eocd + 10, true);
+  let p = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < count && view.getUint32(p, true) === 0x02014b50; n++) {
+    const nameLength = view.getUint16(p + 28, true);
+    const extraLength = view.getUint16(p + 30, true);
+    const commentLength = view.getUint16(p + 32, true);
+    const name = new TextDecoder().decode(bytes.subarray(p + 46, p + 46 + nameLength));
+    entries.set(name, {
+      name,
+      method: view.getUint16(p + 10, true),
+      compressedSize: view.getUint32(p + 20, true),
+      localOffset: view.getUint32(p + 42, true),
+    });
+    p += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readEntry(bytes: Uint8Array, entry: ZipEntry): Promise<string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localOffset + 30 + view.getUint16(entry.localOffset + 26, true) + view.getUint16(entry.localOffset + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`);
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+// ─── SpreadsheetML ───
+
+function xmlText(s: string): string {
+  return s
+    .replace(/&#x([0-9a-f]+);/gi, (_, h) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(Number(d)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Concatenated <t> runs of a shared or inline string (rich text has several)
+function runsText(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), (m) => xmlText(m[1])).join('');
+}
+
+// "AB12" -> 27 (zero-based column)
+function columnIndex(ref: string): number {
+  let n = 0;
+  for (const ch of ref.replace(/\d+$/, '').toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+// Path of the first sheet in workbook order, via the workbook relationships
+function firstSheetPath(workbook: string, rels: string): string {
+  const rid = workbook.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  const target = rid && rels.match(new RegExp(`<Relationship\\b[^>]*\\bId="${rid}"[^>]*\\bTarget="([^"]+)"`))?.[1]
+    || rid && rels.match(new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${rid}"`))?.[1];
+  if (!target) return 'xl/worksheets/sheet1.xml';
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+export async function readXlsx(bytes: Uint8Array): Promise<SheetGrid> {
+  const entries = zipEntries(bytes);
+  const part = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readEntry(bytes, entry) : '';
+  };
+
+  const sheetPath = firstSheetPath(await part('xl/workbook.xml'), await part('xl/_rels/workbook.xml.rels'));
+  const sheet = await part(sheetPath);
+  if (!sheet) throw new Error('Workbook has no worksheet');
+  const shared = Array.from((await part('xl/sharedStrings.xml')).matchAll(/<si>([\s\S]*?)<\/si>/g), (m) => runsText(m[1]));
+
+  const grid: SheetGrid = [];
+  for (const row of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const cells: string[] = [];
+    let next = 0;
+    for (const cell of (row[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = cell[1];
+      const body = cell[2] || '';
+      const ref = attrs.match(/\br="([A-Z]+\d+)"/)?.[1];
+      const col = ref ? columnIndex(ref) : next;
+      const type = attrs.match(/\bt="([^"]+)"/)?.[1];
+      const v = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 's') value = shared[Number(v)] ?? '';
+      else if (type === 'inlineStr') value = runsText(body);
+      else if (v !== undefined) value = xmlText(v);
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+      next = col + 1;
+    }
+    const r = Number(row[1].match(/\br="(\d+)"/)?.[1]) || grid.length + 1;
+    while (grid.length < r - 1) grid.push([]);
+    grid[r - 1] = cells;
+  }
+  return grid.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+// .xlsx by extension, anything else as CSV text
+export async function readSpreadsheet(file: File): Promise<SheetGrid> {
+  if (/\.xlsx$/i.test(file.name)) return readXlsx(new Uint8Array(await file.arrayBuffer()));
+  return parseCsv(await file.text());
+}
+
+// ─── Writing ───
+
+export interface CellStyle {
+  bold?: boolean;
+  color?: string;  // font colour, RRGGBB
+  fill?: string;   // solid background, RRGGBB
+  numFmt?: string; // e.g. '#,##0.00', 'dd/mm/yyyy'
+  align?: 'left' | 'center' | 'right';
+  border?: boolean;
+}
+
+export type CellValue = string | number | null;
+export type SheetCell = CellValue | { v: CellValue; s?: CellStyle };
+
+export interface WorkbookSheet {
+  name: string;
+  rows: SheetCell[][];
+  widths?: number[];                         // characters, per column
+  freeze?: { rows: number; cols: number };   // panes frozen above / left
+  merges?: string[];                         // e.g. 'A1:F1'
+}
+
+export const XLSX_MIME = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function zipStored(files: { name: string; data: string }[]): Uint8Array {
+  const enc = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = enc.encode(file.name);
+    const data = enc.encode(file.data);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(data, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let p = 0;
+  for (const part of [...locals, ...centrals, end]) {
+    out.set(part, p);
+    p += part.length;
+  }
+  return out;
+}
+
+function xmlEscape(s: string): string {
+  return s
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// 0 -> "A", 27 -> "AB"
+export function columnName(index: number): string {
+  let s = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+// Sheet names: at most 31 characters, none of []:*?/\, unique in the workbook
+function sheetNames(sheets: WorkbookSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)} (${n})`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+// Collects the distinct fonts / fills / formats behind every CellStyle into styles.xml
+class StyleSheet {
+  private fonts = ['<font><sz val="10"/><name val="Arial"/></font>'];
+  private fills = ['<fill><patternFill patternType="none"/></fill>', '<fill><patternFill patternType="gray125"/></fill>'];
+  private numFmts: string[] = [];
+  private xfs = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'];
+  private byKey = new Map<string, number>();
+
+  private indexOf(list: string[], xml: string): number {
+    const i = list.indexOf(xml);
+    if (i >= 0) return i;
+    list.push(xml);
+    return list.length - 1;
+  }
+
+  id(style?: CellStyle): number {
+    if (!style) return 0;
+    const key = JSON.stringify(style);
+    const known = this.byKey.get(key);
+    if (known !== undefined) return known;
+
+    const fontId = this.indexOf(this.fonts, `<font>${style.bold ? '<b/>' : ''}<sz val="10"/>${style.color ? `<color rgb="FF${style.color}"/>` : ''}<name val="Arial"/></font>`);
+    const fillId = style.fill ? this.indexOf(this.fills, `<fill><patternFill patternType="solid"><fgColor rgb="FF${style.fill}"/><bgColor indexed="64"/></patternFill></fill>`) : 0;
+    const numFmtId = style.numFmt ? 164 + this.indexOf(this.numFmts, style.numFmt) : 0;
+    const align = style.align ? `<alignment horizontal="${style.align}" vertical="center"/>` : '';
+    const xf = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${style.border ? 1 : 0}" xfId="0"`
+      + `${numFmtId ? ' applyNumberFormat="1"' : ''}${fontId ? ' applyFont="1"' : ''}${fillId ? ' applyFill="1"' : ''}${style.border ? ' applyBorder="1"' : ''}`
+      + (align ? ` applyAlignment="1">${align}</xf>` : '/>');
+    const id = this.indexOf(this.xfs, xf);
+    this.byKey.set(key, id);
+    return id;
+  }
+
+  xml(): string {
+    const thin = '<left style="thin"><color rgb="FFCBD5E1"/></left><right style="thin"><color rgb="FFCBD5E1"/></right><top style="thin"><color rgb="FFCBD5E1"/></top><bottom style="thin"><color rgb="FFCBD5E1"/></bottom><diagonal/>';
+    return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+      + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+      + (this.numFmts.length ? `<numFmts count="${this.numFmts.length}">${this.numFmts.map((f, i) => `<numFmt numFmtId="${164 + i}" formatCode="${xmlEscape(f)}"/>`).join('')}</numFmts>` : '')
+      + `<fonts count="${this.fonts.length}">${this.fonts.join('')}</fonts>`
+      + `<fills count="${this.fills.length}">${this.fills.join('')}</fills>`
+      + `<borders count="2"><border><left/><right/><top/><bottom/><diagonal/></border><border>${thin}</border></borders>`
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + `<cellXfs count="${this.xfs.length}">${this.xfs.join('')}</cellXfs>`
+      + '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>'
+      + '</styleSheet>';
+  }
+}
+
+function worksheetXml(sheet: WorkbookSheet, styles: StyleSheet): string {
+  const rows = sheet.rows.map((cells, r) => {
+    const xml = cells.map((cell, c) => {
+      const { v, s } = cell !== null && typeof cell === 'object' ? cell : { v: cell, s: undefined };
+      const ref = `${columnName(c)}${r + 1}`;
+      const sid = styles.id(s);
+      const sAttr = sid ? ` s="${sid}"` : '';
+      if (v === null || v === '') return sid ? `<c r="${ref}"${sAttr}/>` : '';
+      if (typeof v === 'number') return Number.isFinite(v) ? `<c r="${ref}"${sAttr}><v>${v}</v></c>` : `<c r="${ref}"${sAttr}/>`;
+      return `<c r="${ref}"${sAttr} t="inlineStr"><is><t xml:space="preserve">${xmlEscape(v)}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${xml}</row>`;
+  }).join('');
+
+  const { freeze } = sheet;
+  const pane = freeze && (freeze.rows || freeze.cols)
+    ? `<sheetViews><sheetView workbookViewId="0"><pane${freeze.cols ? ` xSplit="${freeze.cols}"` : ''}${freeze.rows ? ` ySplit="${freeze.rows}"` : ''} topLeftCell="${columnName(freeze.cols)}${freeze.rows + 1}" activePane="bottomRight" state="frozen"/></sheetView></sheetViews>`
+    : '';
+  const cols = sheet.widths?.length
+    ? `<cols>${sheet.widths.map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const merges = sheet.merges?.length
+    ? `<mergeCells count="${sheet.merges.length}">${sheet.merges.map((m) => `<mergeCell ref="${m}"/>`).join('')}</mergeCells>`
+    : '';
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + pane + cols + `<sheetData>${rows}</sheetData>` + merges
+    + '</worksheet>';
+}
+
+export function writeXlsx(sheets: WorkbookSheet[]): Uint8Array {
+  const styles = new StyleSheet();
+  const names = sheetNames(sheets);
+  const worksheets = sheets.map((sheet) => worksheetXml(sheet, styles));
+  const head = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+  return zipStored([
+    {
+      name: '[Content_Types].xml',
+      data: head + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + worksheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+        + '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      data: head + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      data: head + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>'
+        + names.map((name, i) => `<sheet name="${xmlEscape(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+        + '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: head + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + worksheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+        + `<Relationship Id="rId${worksheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+        + '</Relationships>',
+    },
+    { name: 'xl/styles.xml', data: styles.xml() },
+    ...worksheets.map((data, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data })),
+  ]);
+}
+
+// Browser download of a workbook
+export function downloadXlsx(fileName: string, sheets: WorkbookSheet[]): void {
+  const blob = new Blob([writeXlsx(sheets) as BlobPart], { type: XLSX_MIME });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName.endsWith('.xlsx') ? fileName : `${fileName}.xlsx`;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
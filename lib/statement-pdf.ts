@@ -0,0 +1,248 @@
+import type { StatementRow } from './pay-calc'
+import { shortenPost } from './logic'
+import { PdfDocument, A4_LANDSCAPE, fitText, type PdfImage, type PdfTextStyle } from './pdf'
+
+// ---------------------------------------------------------------------------
+// Statement PDF -- the monthly allowance statement laid out as the issued
+// document: letterhead, per-crew table (same columns as the Statement page),
+// client subtotals, grand total and the submitted-by / approved-by block from
+// the approval record. Page breaks repeat the table header; the approval block
+// is never split. Rendered by lib/actions.ts, which archives approved copies.
+// ---------------------------------------------------------------------------
+
+export const STATEMENT_LOGO_URL =
+  'https://cptffqgvibhwjzvklual.supabase.co/storage/v1/object/public/branding/BOSH%20LOGO-trf.png'
+
+export type StatementPdfStatus = 'Draft' | 'Submitted' | 'Approved'
+
+export interface StatementPdfApproval {
+  submitted_by?: string;
+  submitted_at?: string;
+  approved_by?: string;
+  approved_role?: string;
+  approved_at?: string;
+}
+
+export interface StatementPdfInput {
+  rows: StatementRow[];
+  projectCode: string;
+  monthYear: string; // YYYY-MM
+  client: string; // SBA | SKA | ALL
+  status: StatementPdfStatus;
+  approval: StatementPdfApproval | null;
+  version?: number | null; // snapshot version the document was issued from
+  displayName?: (row: StatementRow) => string;
+  logo?: PdfImage | null;
+  generatedAt?: Date;
+}
+
+const MONTHS = ['JANUARY', 'FEBRUARY', 'MARCH', 'APRIL', 'MAY', 'JUNE', 'JULY', 'AUGUST', 'SEPTEMBER', 'OCTOBER', 'NOVEMBER', 'DECEMBER']
+
+const NAVY = '1E3A8A'
+const MUTED = '64748B'
+const RULE = 'CBD5E1'
+const STRIPE = 'F1F5F9'
+
+const MARGIN = 28
+const ROW_H = 13
+const FOOTER_Y = A4_LANDSCAPE.height - 18
+const BODY_BOTTOM = FOOTER_Y - 14
+const APPROVAL_H = 92
+
+interface Column {
+  label: string;
+  width: number;
+  align: 'left' | 'right' | 'center';
+  value: (row: StatementRow, index: number, name: string) => string;
+}
+
+const fmtNum = (v: number) => (v === 0 ? '-' : String(v))
+const fmtAmt = (v: number) => (v === 0 ? '-' : v.toLocaleString('en-MY', { minimumFractionDigits: 2, maximumFractionDigits: 2 }))
+const fmtRate = (v: number) => (v > 0 ? fmtAmt(v) : '-')
+
+// Group header spans (label, first column, column count) over COLUMNS
+const GROUPS: [string, number, number][] = [['OFFSHORE', 4, 2], ['RELIEF', 6, 3], ['STANDBY', 9, 3], ['MEDEVAC', 12, 2]]
+
+const COLUMNS: Column[] = [
+  { label: 'No', width: 20, align: 'center', value: (_r, i) => String(i + 1) },
+  { label: 'Crew Name', width: 160, align: 'left', value: (_r, _i, name) => name },
+  { label: 'Trade', width: 34, align: 'center', value: (r) => shortenPost(r.post) || '' },
+  { label: 'Location', width: 58, align: 'left', value: (r) => r.displayLocation || r.location },
+  { label: 'Days', width: 30, align: 'center', value: (r) => fmtNum(r.offshoreDays) },
+  { label: 'Total', width: 58, align: 'right', value: (r) => fmtAmt(r.offshoreTotal) },
+  { label: 'Days', width: 30, align: 'center', value: (r) => fmtNum(r.reliefDays) },
+  { label: 'Rate', width: 44, align: 'right', value: (r) => fmtRate(r.reliefRate) },
+  { label: 'Total', width: 58, align: 'right', value: (r) => fmtAmt(r.reliefTotal) },
+  { label: 'Days', width: 30, align: 'center', value: (r) => fmtNum(r.standbyDays) },
+  { label: 'Rate', width: 44, align: 'right', value: (r) => fmtRate(r.standbyRate) },
+  { label: 'Total', width: 58, align: 'right', value: (r) => fmtAmt(r.standbyTotal) },
+  { label: 'Days', width: 30, align: 'center', value: (r) => fmtNum(r.medevacDays) },
+  { label: 'Total', width: 58, align: 'right', value: (r) => fmtAmt(r.medevacTotal) },
+  { label: 'Grand Total', width: 68, align: 'right', value: (r) => fmtAmt(r.grandTotal) },
+]
+
+const colX: number[] = COLUMNS.reduce<number[]>((xs, c, i) => [...xs, i === 0 ? MARGIN : xs[i - 1] + COLUMNS[i - 1].width], [])
+const TABLE_W = COLUMNS.reduce((s, c) => s + c.width, 0)
+
+export function statementPeriod(monthYear: string): string {
+  const [y, m] = monthYear.split('-').map(Number)
+  return `${MONTHS[m - 1] || ''} ${y}`.trim()
+}
+
+export function statementPdfFileName(projectCode: string, monthYear: string, client: string, version?: number | null): string {
+  return `Statement_${projectCode}_${monthYear}_${client}${version ? `_v${version}` : ''}.pdf`
+}
+
+function cellText(doc: PdfDocument, text: string, col: number, y: number, style: PdfTextStyle) {
+  const c = COLUMNS[col]
+  const size = style.size ?? 7.5
+  const fitted = fitText(text, c.width - 6, size, style.bold)
+  const x = c.align === 'left' ? colX[col] + 3 : c.align === 'right' ? colX[col] + c.width - 3 : colX[col] + c.width / 2
+  doc.text(fitted, x, y, { ...style, size, align: c.align })
+}
+
+function totalsOf(rows: StatementRow[]) {
+  const sum = (pick: (r: StatementRow) => number) => Math.round(rows.reduce((s, r) => s + pick(r), 0) * 100) / 100
+  return {
+    offshoreDays: sum((r) => r.offshoreDays), offshoreTotal: sum((r) => r.offshoreTotal),
+    reliefDays: sum((r) => r.reliefDays), reliefTotal: sum((r) => r.reliefTotal),
+    standbyDays: sum((r) => r.standbyDays), standbyTotal: sum((r) => r.standbyTotal),
+    medevacDays: sum((r) => r.medevacDays), medevacTotal: sum((r) => r.medevacTotal),
+    grandTotal: sum((r) => r.grandTotal),
+  }
+}
+
+export function renderStatementPdf(input: StatementPdfInput): Uint8Array {
+  const doc = new PdfDocument(A4_LANDSCAPE)
+  const W = doc.width
+  const period = statementPeriod(input.monthYear)
+  const clientLabel = input.client === 'ALL' ? 'ALL CLIENTS' : `CLIENT ${input.client}`
+  const nameOf = input.displayName || ((r: StatementRow) => r.crew_name)
+  const generated = input.generatedAt || new Date()
+  const fileName = statementPdfFileName(input.projectCode, input.monthYear, input.client, input.version)
+  let y = 0
+
+  const letterhead = () => {
+    doc.addPage()
+    if (input.logo) {
+      const h = 34
+      doc.image(input.logo, MARGIN, 22, (input.logo.width / input.logo.height) * h, h)
+    }
+    doc.text('STATEMENT OF ALLOWANCE PAYABLE', W - MARGIN, 36, { size: 13, bold: true, color: NAVY, align: 'right' })
+    doc.text(`${period}  |  ${clientLabel}  |  PROJECT ${input.projectCode}`, W - MARGIN, 49, { size: 8, bold: true, color: MUTED, align: 'right' })
+    const stamp = input.status === 'Approved'
+      ? { text: `CERTIFIED & APPROVED FOR PAYMENT${input.version ? `  |  VERSION ${input.version}` : ''}`, color: '047857' }
+      : { text: input.status === 'Submitted' ? 'PENDING APPROVAL - NOT FOR PAYMENT' : 'DRAFT - NOT FOR PAYMENT', color: 'DC2626' }
+    doc.text(stamp.text, W - MARGIN, 61, { size: 7.5, bold: true, color: stamp.color, align: 'right' })
+    doc.line(MARGIN, 68, W - MARGIN, 68, NAVY, 1.2)
+    y = 78
+  }
+
+  const tableHeader = () => {
+    doc.rect(MARGIN, y, TABLE_W, ROW_H * 2, { fill: NAVY })
+    for (const [label, first, count] of GROUPS) {
+      const w = COLUMNS.slice(first, first + count).reduce((s, c) => s + c.width, 0)
+      doc.text(label, colX[first] + w / 2, y + 9, { size: 7, bold: true, color: 'FFFFFF', align: 'center' })
+      doc.line(colX[first] + 2, y + ROW_H, colX[first] + w - 2, y + ROW_H, '3B5BB5')
+    }
+    COLUMNS.forEach((c, i) => {
+      const grouped = GROUPS.some(([, first, count]) => i >= first && i < first + count)
+      const textY = grouped ? y + ROW_H + 9 : y + ROW_H + 2.5
+      doc.text(c.label.toUpperCase(), c.align === 'left' ? colX[i] + 3 : colX[i] + c.width / 2, textY, {
+        size: grouped ? 6.5 : 7, bold: true, color: grouped ? 'DBEAFE' : 'FFFFFF', align: c.align === 'left' ? 'left' : 'center',
+      })
+    })
+    y += ROW_H * 2
+  }
+
+  const ensureRoom = (height: number) => {
+    if (y + height <= BODY_BOTTOM) return
+    letterhead()
+    tableHeader()
+  }
+
+  const totalRow = (label: string, rows: StatementRow[], fill: string, color: string) => {
+    ensureRoom(ROW_H + 2)
+    const t = totalsOf(rows)
+    doc.rect(MARGIN, y, TABLE_W, ROW_H + 2, { fill })
+    const style = { bold: true, color }
+    const baseline = y + 10
+    doc.text(fitText(label, colX[4] - MARGIN - 6, 7.5, true), MARGIN + 3, baseline, { size: 7.5, ...style })
+    const values = [
+      fmtNum(t.offshoreDays), fmtAmt(t.offshoreTotal), fmtNum(t.reliefDays), '', fmtAmt(t.reliefTotal),
+      fmtNum(t.standbyDays), '', fmtAmt(t.standbyTotal), fmtNum(t.medevacDays), fmtAmt(t.medevacTotal), fmtAmt(t.grandTotal),
+    ]
+    values.forEach((v, i) => { if (v) cellText(doc, v, i + 4, baseline, style) })
+    y += ROW_H + 2
+  }
+
+  letterhead()
+  tableHeader()
+
+  const clients = Array.from(new Set(input.rows.map((r) => r.client)))
+  const sectioned = clients.length > 1
+  let index = 0
+  for (const client of clients) {
+    const rows = input.rows.filter((r) => r.client === client)
+    if (sectioned) {
+      ensureRoom(ROW_H * 2)
+      doc.text(`CLIENT ${client}`, MARGIN + 3, y + 10, { size: 7.5, bold: true, color: NAVY })
+      y += ROW_H
+    }
+    rows.forEach((row, i) => {
+      ensureRoom(ROW_H)
+      if (i % 2 === 1) doc.rect(MARGIN, y, TABLE_W, ROW_H, { fill: STRIPE })
+      const name = nameOf(row)
+      COLUMNS.forEach((_, col) => {
+        cellText(doc, COLUMNS[col].value(row, index, name), col, y + 9, { bold: col === 1 || col === COLUMNS.length - 1 })
+      })
+      doc.line(MARGIN, y + ROW_H, MARGIN + TABLE_W, y + ROW_H, 'E2E8F0', 0.3)
+      y += ROW_H
+      index++
+    })
+    if (sectioned) totalRow(`${client} SUBTOTAL (${rows.length} CREW)`, rows, 'E2E8F0', '0F172A')
+  }
+  if (input.rows.length === 0) {
+    doc.text(`No payable rotations for ${period}.`, MARGIN + TABLE_W / 2, y + 16, { size: 8, color: MUTED, align: 'center' })
+    y += ROW_H * 2
+  }
+  totalRow(`GRAND TOTAL (${input.rows.length} CREW)  RM`, input.rows, NAVY, 'FFFFFF')
+
+  // Approval block -- kept whole on one page
+  y += 16
+  if (y + APPROVAL_H > BODY_BOTTOM) {
+    letterhead()
+  }
+  const a = input.approval
+  const approved = input.status === 'Approved'
+  const boxes = [
+    { title: 'PREPARED & SUBMITTED BY', name: a?.submitted_by, role: '', date: a?.submitted_at, pending: 'Not yet submitted' },
+    { title: 'CERTIFIED & APPROVED BY', name: approved ? a?.approved_by : '', role: approved ? a?.approved_role || 'Project Manager' : '', date: approved ? a?.approved_at : '', pending: 'Pending approval' },
+  ]
+  const boxW = 250
+  boxes.forEach((b, i) => {
+    const x = MARGIN + i * (boxW + 24)
+    doc.rect(x, y, boxW, APPROVAL_H - 10, { stroke: RULE, lineWidth: 0.6 })
+    doc.text(b.title, x + 10, y + 14, { size: 7, bold: true, color: NAVY })
+    if (b.name) {
+      doc.text(fitText(b.name.toUpperCase(), boxW - 20, 9, true), x + 10, y + 30, { size: 9, bold: true })
+      if (b.role) doc.text(b.role, x + 10, y + 41, { size: 7.5, color: MUTED })
+    } else {
+      doc.text(b.pending, x + 10, y + 30, { size: 8, color: MUTED })
+    }
+    doc.line(x + 10, y + 64, x + 140, y + 64, '94A3B8')
+    doc.text('Signature', x + 10, y + 73, { size: 6.5, color: MUTED })
+    doc.text(`Date: ${b.date || ''}`, x + 150, y + 73, { size: 6.5, color: MUTED })
+  })
+
+  // Footer on every page once the page count is known
+  const stampedAt = generated.toLocaleString('en-MY', { day: '2-digit', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' })
+  for (let p = 0; p < doc.pageCount; p++) {
+    doc.setPage(p)
+    doc.line(MARGIN, FOOTER_Y - 9, W - MARGIN, FOOTER_Y - 9, RULE, 0.4)
+    doc.text(`${fileName}  |  Generated ${stampedAt}`, MARGIN, FOOTER_Y, { size: 6.5, color: MUTED })
+    doc.text(`Page ${p + 1} of ${doc.pageCount}`, W - MARGIN, FOOTER_Y, { size: 6.5, color: MUTED, align: 'right' })
+  }
+
+  return doc.save()
+}
@@ -0,0 +1,19 @@
+// PostgREST caps a response at 1000 rows; tables that outgrow that are read in pages
+const PAGE_SIZE = 1000
+
+type PageResult = { data: unknown[] | null; error: { code?: string; message: string } | null }
+
+// Every row of a query, fetched one .range() page at a time until a short page
+// comes back. `page` builds the query for one page and must order it so pages
+// do not overlap.
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult>
+): Promise<{ data: T[]; error: { code?: string; message: string } | null }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1)
+    if (error) return { data: rows, error }
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) return { data: rows, error: null }
+  }
+}
@@ -0,0 +1,122 @@
+import { toISODay } from './rate-card';
+
+// ---------------------------------------------------------------------------
+// Training sessions -- providers run dated sessions of a course at a venue with
+// a seat limit; crew are enrolled into sessions. Enrolling sets the crew's
+// plan_date for that course in cms_pcsb_matrix, attendance rolls attended_date
+// and the computed expiry_date forward. Pure types and checks shared by the
+// server actions and the Training page.
+// ---------------------------------------------------------------------------
+
+export interface TrainingProvider {
+  id?: number;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  active: boolean;
+}
+
+export type SessionStatus = 'OPEN' | 'CANCELLED';
+
+export interface TrainingSession {
+  id?: number;
+  provider_id: number | null;
+  course: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string;   // YYYY-MM-DD, inclusive
+  venue: string;
+  capacity: number;
+  status: SessionStatus;
+  notes: string | null;
+  created_by?: string;
+  created_at?: string;
+}
+
+export type EnrolmentStatus = 'ENROLLED' | 'ATTENDED' | 'NO_SHOW' | 'CANCELLED';
+
+export interface TrainingEnrolment {
+  id: number;
+  session_id: number;
+  crew_id: string;
+  crew_name: string;
+  status: EnrolmentStatus;
+  enrolled_by: string;
+  created_at?: string;
+  attended_at?: string | null;
+  // Matrix values attendance replaced, restored if it is later undone
+  prior_attended_date?: string | null;
+  prior_expiry_date?: string | null;
+  prior_expiry_override?: boolean | null;
+}
+
+export interface SessionWithEnrolments extends TrainingSession {
+  id: number;
+  provider_name: string | null;
+  enrolments: TrainingEnrolment[];
+}
+
+// A roster cycle that overlaps a session's dates
+export interface SessionClash {
+  cycle_number: number;
+  sign_on: string;
+  sign_off: string;
+  location: string;
+}
+
+// Seats held by enrolled or attended crew; cancelled and no-show seats are free again
+export function seatsTaken(session: SessionWithEnrolments): number {
+  return session.enrolments.filter((e) => e.status === 'ENROLLED' || e.status === 'ATTENDED').length;
+}
+
+export function seatsLeft(session: SessionWithEnrolments): number {
+  return Math.max(0, session.capacity - seatsTaken(session));
+}
+
+// Why an enrolment cannot move to `to`, or null. Attendance is only recorded for
+// enrolled crew once an open session has ended.
+export function enrolmentTransitionError(
+  session: { status: SessionStatus; end_date: string },
+  from: EnrolmentStatus,
+  to: Exclude<EnrolmentStatus, 'ENROLLED'>,
+  today: string
+): string | null {
+  if (from === to) return `Enrolment is already ${to.replace('_', ' ').toLowerCase()}`;
+  if (to !== 'ATTENDED') return null;
+  if (session.status === 'CANCELLED') return 'Session was cancelled; attendance cannot be recorded';
+  if (from !== 'ENROLLED') return 'Only enrolled crew can be marked attended';
+  if (session.end_date > today) return `Attendance can be recorded from ${session.end_date}, when the session ends`;
+  return null;
+}
+
+export function validateSession(session: TrainingSession): string | null {
+  if (!session.course.trim()) return 'Course is required';
+  if (!toISODay(session.start_date) || !toISODay(session.end_date)) return 'Start and end dates are required';
+  if (session.end_date < session.start_date) return 'End date must not be before start date';
+  if (!session.venue.trim()) return 'Venue is required';
+  if (!Number.isInteger(session.capacity) || session.capacity < 1) return 'Capacity must be at least 1';
+  return null;
+}
+
+// Cycles with the crew on board (sign_on up to, not including, sign_off) on any session day
+export function sessionClashes(
+  session: { start_date: string; end_date: string },
+  cycles: { cycle_number: number; sign_on: string | null; sign_off: string | null; location: string }[]
+): SessionClash[] {
+  const clashes: SessionClash[] = [];
+  for (const c of cycles) {
+    const on = toISODay(c.sign_on);
+    const off = toISODay(c.sign_off);
+    if (!on || !off) continue;
+    if (on <= session.end_date && off > session.start_date) {
+      clashes.push({ cycle_number: c.cycle_number, sign_on: on, sign_off: off, location: c.location });
+    }
+  }
+  return clashes;
+}
+
+export function describeClashes(crewName: string, clashes: SessionClash[]): string {
+  return `${crewName} is rostered on board during the session: ${clashes
+    .map((c) => `cycle ${c.cycle_number} at ${c.location} (${c.sign_on} - ${c.sign_off})`)
+    .join(', ')}`;
+}
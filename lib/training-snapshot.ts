@@ -0,0 +1,78 @@
+import { createAdminClient } from '@/lib/supabase/server'
+import { DEFAULT_COURSES, courseFromRow } from './courses'
+import { buildSnapshot, type SnapshotPerson } from './training-trend'
+
+// ---------------------------------------------------------------------------
+// Monthly training compliance snapshot -- evaluates the PCSB Training Matrix
+// as at today and stores it under the current month in
+// cms_training_snapshot_counts / cms_training_snapshot_crew. Re-running in the
+// same month replaces that month, so the scheduler runs it on each of the last
+// days of the month and the month-end state is what is kept. Runs with the
+// service role from /api/cron/training-snapshot and the Training page; server-only.
+// ---------------------------------------------------------------------------
+
+export interface TrainingSnapshotSummary {
+  month: string;
+  crew: number;
+  counts: number;
+  errors: string[];
+}
+
+export async function runTrainingSnapshot(options: { today?: Date } = {}): Promise<TrainingSnapshotSummary> {
+  const today = new Date(options.today || Date.now())
+  today.setHours(0, 0, 0, 0)
+  const month = `${today.getFullYear()}-${String(today.getMonth() + 1).padStart(2, '0')}`
+  const summary: TrainingSnapshotSummary = { month, crew: 0, counts: 0, errors: [] }
+
+  const admin = createAdminClient()
+  const [crewRes, matrixRes, courseRes] = await Promise.all([
+    admin.from('cms_master_crew').select('id, crew_name, client, post, status').eq('project_code', 'PCSB'),
+    admin.from('cms_pcsb_matrix').select('crew_id, cert_type, expiry_date, plan_date'),
+    admin.from('cms_course_catalogue').select('*').eq('project_code', 'PCSB').eq('active', true).order('display_order'),
+  ])
+  for (const res of [crewRes, matrixRes]) {
+    if (res.error) {
+      console.error('[TrainingSnapshot] fetch error:', res.error.message)
+      summary.errors.push(res.error.message)
+      return summary
+    }
+  }
+  // Same fallback as the Training page when the catalogue is not set up
+  const courses = courseRes.error || !courseRes.data?.length ? DEFAULT_COURSES : courseRes.data.map(courseFromRow)
+
+  const certsByCrew = new Map<string, SnapshotPerson['certs']>()
+  for (const m of matrixRes.data || []) {
+    const id = String(m.crew_id)
+    if (!certsByCrew.has(id)) certsByCrew.set(id, [])
+    certsByCrew.get(id)!.push({ cert_type: m.cert_type || '', expiry_date: m.expiry_date, plan_date: m.plan_date })
+  }
+  const people: SnapshotPerson[] = (crewRes.data || []).map((c) => ({
+    crew_id: String(c.id),
+    crew_name: c.crew_name || '',
+    client: c.client || '',
+    post: c.post || '',
+    status: c.status || '',
+    certs: certsByCrew.get(String(c.id)) || [],
+  }))
+
+  const snapshot = buildSnapshot(month, people, courses, today)
+  const taken_at = new Date().toISOString()
+
+  for (const table of ['cms_training_snapshot_counts', 'cms_training_snapshot_crew']) {
+    const { error } = await admin.from(table).delete().eq('month', month)
+    if (error) {
+      console.error('[TrainingSnapshot] clear error:', error.message)
+      summary.errors.push(error.message)
+      return summary
+    }
+  }
+  const { error: countError } = await admin.from('cms_training_snapshot_counts').insert(snapshot.counts.map((c) => ({ ...c, taken_at })))
+  if (countError) summary.errors.push(countError.message)
+  else summary.counts = snapshot.counts.length
+  const { error: crewError } = await admin.from('cms_training_snapshot_crew').insert(snapshot.crew.map((c) => ({ ...c, taken_at })))
+  if (crewError) summary.errors.push(crewError.message)
+  else summary.crew = new Set(snapshot.crew.map((c) => c.crew_id)).size
+
+  for (const e of summary.errors) console.error('[TrainingSnapshot] write error:', e)
+  return summary
+}
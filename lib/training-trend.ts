@@ -0,0 +1,159 @@
+import { getStatusTier, type ExpiryTier } from './cert-expiry';
+import { getTradeType } from './logic';
+import type { CourseConfig } from './courses';
+
+// ---------------------------------------------------------------------------
+// Training compliance trend -- once a month the Training Matrix is frozen into
+// per client / trade / course tier counts (the S/W/C/E boxes) plus each crew
+// member's tier per course, so the trend view can chart compliance over time
+// and list who moved tier between two snapshots. Pure; shared by the snapshot
+// job, the server actions and the Training page.
+// ---------------------------------------------------------------------------
+
+export interface SnapshotCount {
+  month: string; // YYYY-MM
+  client: string;
+  trade: string;
+  course: string;
+  green: number;
+  yellow: number;
+  orange: number;
+  red: number;
+  plan: number;
+}
+
+export interface SnapshotCrewTier {
+  month: string;
+  crew_id: string;
+  crew_name: string;
+  client: string;
+  trade: string;
+  course: string;
+  tier: ExpiryTier;
+}
+
+export interface TrendPoint {
+  month: string;
+  green: number;
+  yellow: number;
+  orange: number;
+  red: number;
+  plan: number;
+  pct: number | null; // share of held certificates not yet expired
+}
+
+export interface TierChange {
+  crew_id: string;
+  crew_name: string;
+  client: string;
+  trade: string;
+  course: string;
+  from: ExpiryTier;
+  to: ExpiryTier;
+  improved: boolean;
+}
+
+export interface TrendFilter {
+  client?: string;
+  trade?: string;
+  course?: string;
+}
+
+export interface SnapshotPerson {
+  crew_id: string;
+  crew_name: string;
+  client: string;
+  post: string;
+  status?: string;
+  certs: { cert_type: string; expiry_date: string | null; plan_date: string | null }[];
+}
+
+// Best to worst; no-data ranks below expired so a first record counts as an improvement
+const TIER_RANK: Record<ExpiryTier, number> = { green: 4, yellow: 3, orange: 2, red: 1, 'no-data': 0 };
+
+export function tradeLabel(post: string): string {
+  return getTradeType(post) || 'OTHER';
+}
+
+// Freeze the matrix as at `asOf`; resigned crew are left out as on the Training page
+export function buildSnapshot(
+  month: string,
+  people: SnapshotPerson[],
+  courses: CourseConfig[],
+  asOf: Date
+): { counts: SnapshotCount[]; crew: SnapshotCrewTier[] } {
+  const counts = new Map<string, SnapshotCount>();
+  const crew: SnapshotCrewTier[] = [];
+
+  for (const p of people) {
+    if ((p.status || '').toLowerCase() === 'resigned') continue;
+    const trade = tradeLabel(p.post);
+    const certs = new Map(p.certs.map((c) => [c.cert_type.toUpperCase().trim(), c]));
+    for (const course of courses) {
+      const cert = certs.get(course.name.toUpperCase());
+      const tier = getStatusTier(cert?.expiry_date || null, asOf);
+      crew.push({ month, crew_id: p.crew_id, crew_name: p.crew_name, client: p.client, trade, course: course.name, tier });
+
+      const key = `${p.client}|${trade}|${course.name}`;
+      if (!counts.has(key)) {
+        counts.set(key, { month, client: p.client, trade, course: course.name, green: 0, yellow: 0, orange: 0, red: 0, plan: 0 });
+      }
+      const c = counts.get(key)!;
+      if (tier !== 'no-data') c[tier]++;
+      if (cert?.plan_date) c.plan++;
+    }
+  }
+  return { counts: Array.from(counts.values()), crew };
+}
+
+export function compliancePct(c: { green: number; yellow: number; orange: number; red: number }): number | null {
+  const held = c.green + c.yellow + c.orange + c.red;
+  return held ? Math.round(((held - c.red) / held) * 1000) / 10 : null;
+}
+
+function matches(row: { client: string; trade: string; course: string }, filter: TrendFilter): boolean {
+  return (!filter.client || row.client === filter.client)
+    && (!filter.trade || row.trade === filter.trade)
+    && (!filter.course || row.course === filter.course);
+}
+
+// One point per snapshot month, oldest first
+export function trendSeries(counts: SnapshotCount[], filter: TrendFilter = {}): TrendPoint[] {
+  const byMonth = new Map<string, TrendPoint>();
+  for (const c of counts) {
+    if (!matches(c, filter)) continue;
+    if (!byMonth.has(c.month)) byMonth.set(c.month, { month: c.month, green: 0, yellow: 0, orange: 0, red: 0, plan: 0, pct: null });
+    const p = byMonth.get(c.month)!;
+    p.green += c.green;
+    p.yellow += c.yellow;
+    p.orange += c.orange;
+    p.red += c.red;
+    p.plan += c.plan;
+  }
+  return Array.from(byMonth.values())
+    .map((p) => ({ ...p, pct: compliancePct(p) }))
+    .sort((a, b) => a.month.localeCompare(b.month));
+}
+
+// Crew whose tier for a course differs between the previous and the current snapshot
+export function tierChanges(previous: SnapshotCrewTier[], current: SnapshotCrewTier[], filter: TrendFilter = {}): TierChange[] {
+  const before = new Map(previous.map((r) => [`${r.crew_id}|${r.course}`, r.tier]));
+  const changes: TierChange[] = [];
+  for (const r of current) {
+    if (!matches(r, filter)) continue;
+    const from = before.get(`${r.crew_id}|${r.course}`) ?? 'no-data';
+    if (from === r.tier) continue;
+    changes.push({
+      crew_id: r.crew_id,
+      crew_name: r.crew_name,
+      client: r.client,
+      trade: r.trade,
+      course: r.course,
+      from,
+      to: r.tier,
+      improved: TIER_RANK[r.tier] > TIER_RANK[from],
+    });
+  }
+  // Worsened first -- those need action
+  return changes.sort((a, b) => Number(a.improved) - Number(b.improved) || a.crew_name.localeCompare(b.crew_name) || a.course.localeCompare(b.course));
+}
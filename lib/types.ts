@@ -84,6 +84,7 @@ export interface MatrixRecord {
   expiry_date: string | null;
   attended_date: string | null;
   plan_date: string | null;
+  expiry_override?: boolean; // expiry_date set by hand, not from the course rule
   // Joined from cms_pcsb_master
   crew_name: string;
   post: string;
@@ -91,3 +92,39 @@ export interface MatrixRecord {
   location: string;
   status?: string;
 }
+
+// Rate card: cms_rate_card -- dated allowance rates per project / client / trade
+export type RateType = 'OFFSHORE' | 'MEDEVAC';
+
+// One uploaded version of a certificate document (cms_cert_documents)
+export interface CertDocumentVersion {
+  id: number;
+  matrix_id: string;
+  crew_id: string;
+  cert_type: string;
+  version: number;
+  storage_path: string;        // path in the "certificates" bucket
+  file_name: string | null;
+  content_type: string | null;
+  size_bytes: number | null;
+  cert_no: string | null;
+  attended_date: string | null;
+  expiry_date: string | null;
+  restored_from: number | null; // version this one re-instates
+  uploaded_by: string;
+  uploaded_at: string;
+}
+
+export interface RateCardEntry {
+  id?: number;
+  rate_type: RateType;
+  project_code: string;
+  client: string | null;       // null = applies to every client
+  trade: TradeType | null;     // null = applies to every trade
+  amount: number;
+  effective_from: string;      // date string (YYYY-MM-DD), inclusive
+  effective_to: string | null; // date string (YYYY-MM-DD), inclusive; null = open-ended
+  notes?: string | null;
+  updated_by?: string | null;
+  updated_at?: string;
+}
@@ -0,0 +1,305 @@
+import type { StatementRow } from './pay-calc';
+import type { CourseConfig } from './courses';
+import { getStatusTier, type ExpiryTier } from './cert-expiry';
+import { toISODay } from './rate-card';
+import { shortenPost } from './logic';
+import { columnName, isoToExcelSerial, type CellStyle, type SheetCell, type WorkbookSheet } from './spreadsheet';
+
+// ---------------------------------------------------------------------------
+// Excel exports -- workbooks for the Statement, Roster and Training Matrix
+// pages, built from the rows each page already has on screen so the file
+// matches the current project and filters. Amounts and dates are written as
+// numbers with Excel formats, not text, so Finance can total them directly.
+// ---------------------------------------------------------------------------
+
+// Shown under the title, e.g. { Project: 'PCSB', Client: 'SBA' }
+export type ExportFilters = Record<string, string>;
+
+const MONEY: CellStyle = { numFmt: '#,##0.00', border: true };
+const DATE: CellStyle = { numFmt: 'dd/mm/yyyy', align: 'center', border: true };
+const TEXT: CellStyle = { border: true };
+const NUM: CellStyle = { align: 'center', border: true };
+const HEAD: CellStyle = { bold: true, color: 'FFFFFF', fill: '1E3A8A', align: 'center', border: true };
+const TOTAL: CellStyle = { bold: true, fill: 'DBEAFE', border: true };
+
+const cell = (v: string | number | null, s: CellStyle = TEXT): SheetCell => ({ v, s });
+
+function dateCell(value: string | null | undefined, extra: CellStyle = {}): SheetCell {
+  const day = toISODay(value);
+  const serial = day ? isoToExcelSerial(day) : null;
+  return { v: serial, s: { ...DATE, ...extra } };
+}
+
+// Title, subtitle and one "Label: value" line for the filters in effect
+function titleBlock(title: string, subtitle: string, filters: ExportFilters, width: number): { rows: SheetCell[][]; merges: string[] } {
+  const last = columnName(Math.max(0, width - 1));
+  const filterText = Object.entries(filters).map(([k, v]) => `${k}: ${v}`).join('   ');
+  return {
+    rows: [
+      [cell(title, { bold: true, color: '0F172A' })],
+      [cell(subtitle, { color: '475569' })],
+      [cell(filterText, { color: '64748B' })],
+      [],
+    ],
+    merges: [`A1:${last}1`, `A2:${last}2`, `A3:${last}3`],
+  };
+}
+
+// ─── Statement ───
+
+export function statementWorkbook(
+  rows: StatementRow[],
+  opts: { period: string; status: string; filters: ExportFilters; displayName: (row: StatementRow) => string }
+): WorkbookSheet[] {
+  const summaryHeader = [
+    'No', 'Crew Name', 'Client', 'Trade', 'Location',
+    'Offshore Days', 'Offshore Total',
+    'Relief Days', 'Relief Rate', 'Relief Total',
+    'Standby Days', 'Standby Rate', 'Standby Total',
+    'MEDEVAC Days', 'MEDEVAC Total', 'Grand Total',
+  ];
+  const summaryTitle = titleBlock('Monthly Allowance Statement', `${opts.period} -- ${opts.status}`, opts.filters, summaryHeader.length);
+
+  const summary: SheetCell[][] = [
+    ...summaryTitle.rows,
+    summaryHeader.map((h) => cell(h, HEAD)),
+    ...rows.map((r, i) => [
+      cell(i + 1, NUM),
+      cell(opts.displayName(r)),
+      cell(r.client),
+      cell(shortenPost(r.post)),
+      cell(r.displayLocation),
+      cell(r.offshoreDays, NUM),
+      cell(r.offshoreTotal, MONEY),
+      cell(r.reliefDays, NUM),
+      cell(r.reliefRate || null, MONEY),
+      cell(r.reliefTotal, MONEY),
+      cell(r.standbyDays, NUM),
+      cell(r.standbyRate || null, MONEY),
+      cell(r.standbyTotal, MONEY),
+      cell(r.medevacDays, NUM),
+      cell(r.medevacTotal, MONEY),
+      cell(r.grandTotal, { ...MONEY, bold: true }),
+    ]),
+  ];
+
+  // Totals written as values, matching the page footer
+  const sum = (pick: (r: StatementRow) => number) => Math.round(rows.reduce((acc, r) => acc + pick(r), 0) * 100) / 100;
+  summary.push([
+    cell(`Total (${rows.length} crew)`, TOTAL), cell(null, TOTAL), cell(null, TOTAL), cell(null, TOTAL), cell(null, TOTAL),
+    cell(sum((r) => r.offshoreDays), TOTAL), cell(sum((r) => r.offshoreTotal), { ...TOTAL, numFmt: '#,##0.00' }),
+    cell(sum((r) => r.reliefDays), TOTAL), cell(null, TOTAL), cell(sum((r) => r.reliefTotal), { ...TOTAL, numFmt: '#,##0.00' }),
+    cell(sum((r) => r.standbyDays), TOTAL), cell(null, TOTAL), cell(sum((r) => r.standbyTotal), { ...TOTAL, numFmt: '#,##0.00' }),
+    cell(sum((r) => r.medevacDays), TOTAL), cell(sum((r) => r.medevacTotal), { ...TOTAL, numFmt: '#,##0.00' }),
+    cell(sum((r) => r.grandTotal), { ...TOTAL, numFmt: '#,##0.00' }),
+  ]);
+
+  const detailHeader = [
+    'Crew Name', 'Client', 'Trade', 'Location', 'Cycle', 'Sign On', 'Sign Off', 'Days',
+    'Offshore', 'Offshore Rate',
+    'Relief Days', 'Relief Rate', 'Relief Total',
+    'Standby Days', 'Standby Rate', 'Standby Total',
+    'MEDEVAC Dates', 'MEDEVAC Total', 'Notes',
+  ];
+  const detailTitle = titleBlock('Statement Cycle Detail', opts.period, opts.filters, detailHeader.length);
+  const detail: SheetCell[][] = [...detailTitle.rows, detailHeader.map((h) => cell(h, HEAD))];
+  for (const r of rows) {
+    for (const c of r.cycles) {
+      detail.push([
+        cell(opts.displayName(r)),
+        cell(r.client),
+        cell(shortenPost(r.post)),
+        cell(r.displayLocation),
+        cell(c.cycleNum, NUM),
+        dateCell(c.sign_on),
+        dateCell(c.sign_off),
+        cell(c.days, NUM),
+        cell(c.is_offshore ? 'Yes' : '', NUM),
+        cell(c.is_offshore ? c.offshore_rate : null, MONEY),
+        cell(c.day_relief || null, NUM),
+        cell(c.day_relief ? c.relief_rate : null, MONEY),
+        cell(c.day_relief ? Math.round(c.day_relief * c.relief_rate * 100) / 100 : null, MONEY),
+        cell(c.day_standby || null, NUM),
+        cell(c.day_standby ? c.standby_rate : null, MONEY),
+        cell(c.day_standby ? Math.round(c.day_standby * c.standby_rate * 100) / 100 : null, MONEY),
+        cell(c.medevac_dates.map((d) => toISODay(d) || d).join(', ')),
+        cell(c.medevac_dates.length ? c.medevac_total : null, MONEY),
+        cell(c.notes || ''),
+      ]);
+    }
+  }
+
+  return [
+    {
+      name: 'Summary',
+      rows: summary,
+      widths: [5, 34, 8, 8, 22, 9, 12, 9, 10, 12, 9, 10, 12, 9, 12, 14],
+      freeze: { rows: summaryTitle.rows.length + 1, cols: 2 },
+      merges: summaryTitle.merges,
+    },
+    {
+      name: 'Cycle Detail',
+      rows: detail,
+      widths: [34, 8, 8, 22, 7, 12, 12, 7, 9, 12, 9, 10, 12, 9, 10, 12, 26, 12, 30],
+      freeze: { rows: detailTitle.rows.length + 1, cols: 1 },
+      merges: detailTitle.merges,
+    },
+  ];
+}
+
+// ─── Roster ───
+
+export type RosterDayStatus = 'PRIMARY' | 'SECONDARY' | 'OHN_WEEKDAY' | 'OHN_WEEKEND' | 'AL' | 'MEDEVAC' | 'OFF';
+
+export interface RosterExportGroup {
+  label: string;
+  rows: { name: string; days: RosterDayStatus[] }[];
+}
+
+// Same colours and labels as the Rotation Map bars
+const ROSTER_FILLS: Record<Exclude<RosterDayStatus, 'OFF'>, { fill: string; label: string; text: string; legend: string }> = {
+  PRIMARY: { fill: '3B82F6', label: '', text: 'FFFFFF', legend: 'Primary / OHN Weekday' },
+  OHN_WEEKDAY: { fill: '3B82F6', label: '', text: 'FFFFFF', legend: '' },
+  SECONDARY: { fill: '7DD3FC', label: '', text: '0F172A', legend: 'Secondary (S) / (R)' },
+  OHN_WEEKEND: { fill: '94A3B8', label: '', text: 'FFFFFF', legend: 'OHN Weekend' },
+  AL: { fill: 'FACC15', label: 'AL', text: '000000', legend: 'Annual Leave (OHN)' },
+  MEDEVAC: { fill: 'EF4444', label: 'MV', text: 'FFFFFF', legend: 'Medevac (EM)' },
+};
+
+export function rosterWorkbook(groups: RosterExportGroup[], opts: { year: number; month: number; title: string; filters: ExportFilters }): WorkbookSheet[] {
+  const dayCount = new Date(opts.year, opts.month + 1, 0).getDate();
+  const days = Array.from({ length: dayCount }, (_, i) => new Date(opts.year, opts.month, i + 1).getDay());
+  const weekend = (i: number) => days[i] === 0 || days[i] === 6;
+  const head = titleBlock('Rotation Map', opts.title, opts.filters, dayCount + 1);
+
+  const rows: SheetCell[][] = [
+    ...head.rows,
+    [cell('Crew / Trade', HEAD), ...days.map((d) => cell('SMTWTFS'[d], HEAD))],
+    [cell('', HEAD), ...days.map((_, i) => cell(i + 1, HEAD))],
+  ];
+  const merges = [...head.merges];
+
+  for (const group of groups) {
+    rows.push([cell(group.label, { bold: true, fill: 'CBD5E1', border: true }), ...days.map(() => cell(null, { fill: 'CBD5E1', border: true }))]);
+    merges.push(`A${rows.length}:${columnName(dayCount)}${rows.length}`);
+    for (const r of group.rows) {
+      rows.push([
+        cell(r.name),
+        ...r.days.map((status, i) => {
+          if (status === 'OFF') return cell(null, weekend(i) ? { fill: 'F1F5F9', border: true } : TEXT);
+          const look = ROSTER_FILLS[status];
+          return cell(look.label, { fill: look.fill, color: look.text, bold: true, align: 'center', border: true });
+        }),
+      ]);
+    }
+  }
+
+  rows.push([]);
+  for (const look of Object.values(ROSTER_FILLS)) {
+    if (!look.legend) continue;
+    rows.push([cell(look.legend), cell(look.label, { fill: look.fill, color: look.text, bold: true, align: 'center', border: true })]);
+  }
+
+  return [{
+    name: opts.title,
+    rows,
+    widths: [36, ...days.map(() => 4)],
+    freeze: { rows: head.rows.length + 2, cols: 1 },
+    merges,
+  }];
+}
+
+// ─── Training Matrix ───
+
+export interface TrainingExportPerson {
+  crew_name: string;
+  post: string;
+  client: string;
+  location: string;
+  certs: Record<string, { cert_no: string | null; attended_date: string | null; expiry_date: string | null; plan_date: string | null; expiry_override?: boolean } | undefined>;
+}
+
+// Expiry cell fills, as the matrix (emerald / amber / orange / red -100)
+const TIER_FILLS: Record<ExpiryTier, string | undefined> = {
+  green: 'D1FAE5',
+  yellow: 'FEF3C7',
+  orange: 'FFEDD5',
+  red: 'FEE2E2',
+  'no-data': undefined,
+};
+
+export function trainingWorkbook(people: TrainingExportPerson[], courses: CourseConfig[], opts: { filters: ExportFilters; today: Date }): WorkbookSheet[] {
+  const fixed = ['No', 'Crew Name', 'Client', 'Trade', 'Location'];
+  const subHeaders = (c: CourseConfig) =>
+    c.colType === 'apc' ? ['Cert No', 'Expiry', 'Plan'] : c.colType === 'standard' ? ['Attended', 'Expiry', 'Plan'] : ['Expiry'];
+  const width = fixed.length + courses.reduce((n, c) => n + subHeaders(c).length, 0);
+  const head = titleBlock('Training Matrix', `As at ${toISODay(opts.today)}`, opts.filters, width);
+
+  const courseRow: SheetCell[] = fixed.map(() => cell('', HEAD));
+  const subRow: SheetCell[] = fixed.map((h) => cell(h, HEAD));
+  const merges = [...head.merges];
+  const headerRow = head.rows.length + 1;
+  for (const c of courses) {
+    const subs = subHeaders(c);
+    const start = subRow.length;
+    const courseStyle: CellStyle = { ...HEAD, fill: c.headerBg.replace('#', '').toUpperCase() };
+    subs.forEach((s, i) => {
+      courseRow.push(cell(i === 0 ? c.name : null, courseStyle));
+      subRow.push(cell(s, { bold: true, fill: 'F1F5F9', align: 'center', border: true }));
+    });
+    if (subs.length > 1) merges.push(`${columnName(start)}${headerRow}:${columnName(start + subs.length - 1)}${headerRow}`);
+  }
+
+  const body = people.map((p, i) => {
+    const row: SheetCell[] = [cell(i + 1, NUM), cell(p.crew_name), cell(p.client), cell(shortenPost(p.post)), cell(p.location)];
+    for (const c of courses) {
+      const cert = p.certs[c.name];
+      const tier = getStatusTier(cert?.expiry_date || null, opts.today);
+      const expiry = dateCell(cert?.expiry_date, { fill: TIER_FILLS[tier], bold: tier !== 'no-data', color: cert?.expiry_override ? '7C3AED' : undefined });
+      const plan = dateCell(cert?.plan_date, { color: '1D4ED8' });
+      if (c.colType === 'apc') row.push(cell(cert?.cert_no || null), expiry, plan);
+      else if (c.colType === 'standard') row.push(dateCell(cert?.attended_date), expiry, plan);
+      else row.push(expiry);
+    }
+    return row;
+  });
+
+  // S/W/C/E/Plan per course over the exported crew, as on the pie charts
+  const counts: SheetCell[][] = [
+    ['Course', 'Safe', 'Warning', 'Critical', 'Expired', 'No Record', 'Plan'].map((h) => cell(h, HEAD)),
+    ...courses.map((c) => {
+      const n: Record<ExpiryTier, number> = { green: 0, yellow: 0, orange: 0, red: 0, 'no-data': 0 };
+      let plan = 0;
+      for (const p of people) {
+        n[getStatusTier(p.certs[c.name]?.expiry_date || null, opts.today)]++;
+        if (p.certs[c.name]?.plan_date) plan++;
+      }
+      return [
+        cell(c.name, { bold: true, border: true }),
+        cell(n.green, { ...NUM, fill: TIER_FILLS.green }),
+        cell(n.yellow, { ...NUM, fill: TIER_FILLS.yellow }),
+        cell(n.orange, { ...NUM, fill: TIER_FILLS.orange }),
+        cell(n.red, { ...NUM, fill: TIER_FILLS.red }),
+        cell(n['no-data'], NUM),
+        cell(plan, NUM),
+      ];
+    }),
+  ];
+  const countsHead = titleBlock('Training Matrix Summary', `As at ${toISODay(opts.today)}`, opts.filters, 7);
+
+  return [
+    {
+      name: 'Training Matrix',
+      rows: [...head.rows, courseRow, subRow, ...body],
+      widths: [5, 34, 8, 8, 20, ...courses.flatMap((c) => subHeaders(c).map(() => 12))],
+      freeze: { rows: head.rows.length + 2, cols: 2 },
+      merges,
+    },
+    {
+      name: 'Summary',
+      rows: [...countsHead.rows, ...counts],
+      widths: [16, 10, 10, 10, 10, 11, 8],
+      merges: countsHead.merges,
+    },
+  ];
+}
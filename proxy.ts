@@ -0,0 +1,41 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { updateSession } from '@/lib/supabase/proxy'
+import { loadSessionUser, loadAccessMatrix } from '@/lib/session'
+import { pageRouteOf, canOpenPage, firstOpenPage } from '@/lib/authz'
+
+// Route protection: every page needs a Supabase session, and the cms_users role
+// must have VIEW or EDIT on the page in cms_access_matrix. Browser storage plays no part.
+export async function proxy(request: NextRequest) {
+  const { supabase, response } = await updateSession(request)
+  const { pathname } = request.nextUrl
+
+  const user = await loadSessionUser(supabase)
+  // Server actions post to the page URL; they run their own authorize() checks
+  if (pathname === '/login' || request.headers.has('next-action')) return response()
+
+  if (!user) return redirectTo(request, '/login', response())
+
+  const route = pageRouteOf(pathname)
+  if (!route) return response()
+
+  const matrix = await loadAccessMatrix()
+  if (!canOpenPage(matrix, route, user.role)) {
+    return redirectTo(request, firstOpenPage(matrix, user.role) || '/login', response())
+  }
+  return response()
+}
+
+// Redirect while keeping any auth cookies refreshed on this request
+function redirectTo(request: NextRequest, pathname: string, from: NextResponse) {
+  const url = request.nextUrl.clone()
+  url.pathname = pathname
+  url.search = ''
+  const redirect = NextResponse.redirect(url)
+  from.cookies.getAll().forEach((cookie) => redirect.cookies.set(cookie))
+  return redirect
+}
+
+export const config = {
+  // Pages only -- API routes and server actions answer for themselves
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)'],
+}
@@ -0,0 +1,21 @@
+-- Migration: Freeze statement amounts on cms_pcsb_approvals at approval time
+-- Adds: frozen_lines (per-crew totals + per-cycle rates), frozen_total
+-- Used by the back-pay report to compare approved amounts against a re-run
+-- under the current rate card.
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cms_pcsb_approvals' AND column_name = 'frozen_lines'
+  ) THEN
+    ALTER TABLE cms_pcsb_approvals ADD COLUMN frozen_lines jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'cms_pcsb_approvals' AND column_name = 'frozen_total'
+  ) THEN
+    ALTER TABLE cms_pcsb_approvals ADD COLUMN frozen_total numeric(12, 2);
+  END IF;
+END $$;
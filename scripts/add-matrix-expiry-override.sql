@@ -0,0 +1,4 @@
+-- Marks training matrix expiries typed by hand that differ from the course
+-- validity rule, so the bulk "recompute expiries" check leaves them unticked.
+ALTER TABLE public.cms_pcsb_matrix
+  ADD COLUMN IF NOT EXISTS expiry_override BOOLEAN NOT NULL DEFAULT FALSE;
@@ -0,0 +1,28 @@
+-- Create cms_access_matrix_audit: one row per cms_access_matrix cell change
+-- (page, project, role, old -> new level), written by updateAccessMatrixRow.
+-- Browsed from the Users page; append-only.
+CREATE TABLE IF NOT EXISTS public.cms_access_matrix_audit (
+  id BIGSERIAL PRIMARY KEY,
+  page_code TEXT NOT NULL,
+  project_scope TEXT NOT NULL CHECK (project_scope IN ('PCSB', 'OTHERS')),
+  role TEXT NOT NULL CHECK (role IN ('L1', 'L2A', 'L2B', 'L4', 'L5A', 'L5B', 'L6', 'L7')),
+  old_value TEXT NOT NULL CHECK (old_value IN ('EDIT', 'VIEW', 'NONE')),
+  new_value TEXT NOT NULL CHECK (new_value IN ('EDIT', 'VIEW', 'NONE')),
+  changed_by TEXT NOT NULL,
+  changed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_access_matrix_audit_changed_at
+  ON public.cms_access_matrix_audit (changed_at DESC);
+
+CREATE OR REPLACE FUNCTION public.cms_access_matrix_audit_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'cms_access_matrix_audit is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_access_matrix_audit_immutable ON public.cms_access_matrix_audit;
+CREATE TRIGGER trg_cms_access_matrix_audit_immutable
+  BEFORE UPDATE OR DELETE ON public.cms_access_matrix_audit
+  FOR EACH ROW EXECUTE FUNCTION public.cms_access_matrix_audit_immutable();
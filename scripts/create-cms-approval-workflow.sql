@@ -0,0 +1,46 @@
+-- Multi-stage statement approval workflow.
+-- cms_pcsb_approvals.current_stage is the index of the stage awaiting action
+-- (0 = Draft, n = Approved); legacy rows keep NULL and are mapped from
+-- submission_status by the app. Stage lists live in cms_settings under
+-- approval_workflow_<PROJECT>; missing keys fall back to the built-in defaults.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'cms_pcsb_approvals' AND column_name = 'current_stage'
+  ) THEN
+    ALTER TABLE public.cms_pcsb_approvals ADD COLUMN current_stage INTEGER;
+  END IF;
+END $$;
+
+-- Every submit / approve / reject / reset, in order. Never updated or deleted.
+CREATE TABLE IF NOT EXISTS public.cms_approval_history (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  month_year TEXT NOT NULL,
+  client TEXT NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('SUBMIT', 'APPROVE', 'REJECT', 'RESET')),
+  from_stage INTEGER NOT NULL,
+  to_stage INTEGER NOT NULL,
+  stage_label TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  actor_role TEXT NOT NULL,
+  comment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (action NOT IN ('REJECT', 'RESET') OR length(trim(coalesce(comment, ''))) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_approval_history_period
+  ON public.cms_approval_history (project_code, month_year, client, created_at);
+
+CREATE OR REPLACE FUNCTION public.cms_approval_history_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'cms_approval_history is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_approval_history_immutable ON public.cms_approval_history;
+CREATE TRIGGER trg_cms_approval_history_immutable
+  BEFORE UPDATE OR DELETE ON public.cms_approval_history
+  FOR EACH ROW EXECUTE FUNCTION public.cms_approval_history_immutable();
@@ -0,0 +1,38 @@
+-- Versioned certificate documents for cms_pcsb_matrix rows. Every upload adds
+-- a version (file in the "certificates" bucket under <crew_id>/<course>/), with
+-- the cert_no and dates it shows; restoring an older version adds a new
+-- version pointing at the same file. The highest version is the current one.
+CREATE TABLE IF NOT EXISTS public.cms_cert_documents (
+  id BIGSERIAL PRIMARY KEY,
+  matrix_id TEXT NOT NULL,
+  crew_id TEXT NOT NULL,
+  cert_type TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  storage_path TEXT NOT NULL,
+  file_name TEXT,
+  content_type TEXT,
+  size_bytes BIGINT,
+  cert_no TEXT,
+  attended_date DATE,
+  expiry_date DATE,
+  restored_from INTEGER,
+  uploaded_by TEXT NOT NULL,
+  uploaded_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (matrix_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_cert_documents_crew
+  ON public.cms_cert_documents (crew_id, cert_type);
+
+-- Upload history is append-only
+CREATE OR REPLACE FUNCTION public.cms_cert_documents_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'cms_cert_documents is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_cert_documents_immutable ON public.cms_cert_documents;
+CREATE TRIGGER trg_cms_cert_documents_immutable
+  BEFORE UPDATE OR DELETE ON public.cms_cert_documents
+  FOR EACH ROW EXECUTE FUNCTION public.cms_cert_documents_immutable();
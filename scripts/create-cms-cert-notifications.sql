@@ -0,0 +1,37 @@
+-- Certificates already reported by the nightly expiry digest. One row per
+-- matrix record per tier per expiry date per audience ('crew' for the crew
+-- member's own mail, 'team' for the consolidated PMT / data lodger digest),
+-- so each tier is mailed once to each and a renewed certificate (new
+-- expiry_date) is tracked afresh. A failed send leaves its audience unrecorded
+-- and is retried the next night without repeating the other.
+CREATE TABLE IF NOT EXISTS public.cms_cert_notifications (
+  id BIGSERIAL PRIMARY KEY,
+  matrix_id TEXT NOT NULL,
+  crew_id TEXT NOT NULL,
+  cert_type TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('yellow', 'orange', 'red')),
+  audience TEXT NOT NULL DEFAULT 'crew' CHECK (audience IN ('crew', 'team')),
+  notified_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables created before the audience column: earlier rows were only written
+-- once both digests had gone out, so they count for the team as well
+ALTER TABLE public.cms_cert_notifications
+  ADD COLUMN IF NOT EXISTS audience TEXT NOT NULL DEFAULT 'crew' CHECK (audience IN ('crew', 'team'));
+ALTER TABLE public.cms_cert_notifications
+  DROP CONSTRAINT IF EXISTS cms_cert_notifications_matrix_id_tier_expiry_date_key;
+INSERT INTO public.cms_cert_notifications (matrix_id, crew_id, cert_type, expiry_date, tier, audience, notified_at)
+SELECT n.matrix_id, n.crew_id, n.cert_type, n.expiry_date, n.tier, 'team', n.notified_at
+FROM public.cms_cert_notifications n
+WHERE n.audience = 'crew'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.cms_cert_notifications t
+    WHERE t.audience = 'team' AND t.matrix_id = n.matrix_id AND t.tier = n.tier AND t.expiry_date = n.expiry_date
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cms_cert_notifications_once
+  ON public.cms_cert_notifications (matrix_id, tier, expiry_date, audience);
+
+CREATE INDEX IF NOT EXISTS idx_cms_cert_notifications_crew
+  ON public.cms_cert_notifications (crew_id, notified_at DESC);
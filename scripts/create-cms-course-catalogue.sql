@@ -0,0 +1,44 @@
+-- Training course catalogue per project: the Training Matrix columns, colour,
+-- validity rule and which trades / clients must hold each course.
+-- mandatory: {"OM": "BLOCK", "EM": "WARN", ...}; clients empty = every client.
+CREATE TABLE IF NOT EXISTS public.cms_course_catalogue (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  name TEXT NOT NULL,
+  col_type TEXT NOT NULL CHECK (col_type IN ('apc', 'standard', 'single')),
+  header_bg TEXT NOT NULL DEFAULT '#475569',
+  validity_months INTEGER CHECK (validity_months IS NULL OR validity_months > 0),
+  mandatory JSONB NOT NULL DEFAULT '{}'::jsonb,
+  clients TEXT[] NOT NULL DEFAULT '{}',
+  display_order INTEGER NOT NULL DEFAULT 0,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_code, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_course_catalogue_order
+  ON public.cms_course_catalogue (project_code, display_order);
+
+-- Seed the twelve courses that were previously hard-coded in the app, for every project
+INSERT INTO public.cms_course_catalogue (project_code, name, col_type, header_bg, validity_months, mandatory, display_order, updated_by)
+SELECT p.project_code, v.name, v.col_type, v.header_bg, v.validity_months, v.mandatory::jsonb, v.display_order, 'system'
+FROM (VALUES
+  ('APC',    'apc',      '#4f46e5', 36, '{"OM": "WARN", "EM": "WARN"}', 1),
+  ('BLS',    'standard', '#0284c7', 24, '{"OM": "WARN", "EM": "WARN", "IMP/OHN": "WARN"}', 2),
+  ('ACLS',   'standard', '#7c3aed', 24, '{}', 3),
+  ('ATLS',   'standard', '#db2777', 48, '{}', 4),
+  ('AMRO',   'standard', '#d97706', 36, '{}', 5),
+  ('BOSIET', 'standard', '#0d9488', 48, '{"OM": "BLOCK"}', 6),
+  ('HACCP',  'standard', '#0891b2', 36, '{}', 7),
+  ('H2S',    'standard', '#ea580c', 24, '{"OM": "BLOCK"}', 8),
+  ('MCM',    'standard', '#65a30d', 36, '{}', 9),
+  ('MED',    'single',   '#dc2626', 12, '{"OM": "BLOCK", "EM": "BLOCK", "IMP/OHN": "WARN"}', 10),
+  ('OSP',    'single',   '#059669', 24, '{}', 11),
+  ('CCC',    'single',   '#9333ea', 36, '{}', 12)
+) AS v(name, col_type, header_bg, validity_months, mandatory, display_order)
+CROSS JOIN (VALUES ('PCSB'), ('OTHERS')) AS p(project_code)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.cms_course_catalogue c WHERE c.project_code = p.project_code
+);
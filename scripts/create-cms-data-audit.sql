@@ -0,0 +1,33 @@
+-- Before/after audit of every roster, crew master and training matrix write.
+-- changes holds { field: { before, after } } for the fields that actually
+-- changed; record_id is the row id in table_name. Never updated or deleted.
+CREATE TABLE IF NOT EXISTS public.cms_data_audit (
+  id BIGSERIAL PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id TEXT NOT NULL,
+  crew_id TEXT,
+  crew_name TEXT,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  actor TEXT NOT NULL,
+  actor_role TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_data_audit_record
+  ON public.cms_data_audit (table_name, record_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cms_data_audit_crew
+  ON public.cms_data_audit (table_name, crew_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.cms_data_audit_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'cms_data_audit is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_data_audit_immutable ON public.cms_data_audit;
+CREATE TRIGGER trg_cms_data_audit_immutable
+  BEFORE UPDATE OR DELETE ON public.cms_data_audit
+  FOR EACH ROW EXECUTE FUNCTION public.cms_data_audit_immutable();
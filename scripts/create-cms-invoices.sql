@@ -0,0 +1,42 @@
+-- Create cms_invoices: client invoices raised from approved statements.
+-- One live (non-VOID) invoice per project / client / month; invoice numbers run
+-- per project + client via `sequence`. Overdue is not stored -- it is an ISSUED
+-- invoice past its due_date. Tax settings live in cms_settings under
+-- invoice_settings_<project> (see lib/invoicing.ts).
+CREATE TABLE IF NOT EXISTS public.cms_invoices (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  client TEXT NOT NULL,
+  month_year TEXT NOT NULL,
+  invoice_no TEXT NOT NULL UNIQUE,
+  sequence INTEGER NOT NULL CHECK (sequence > 0),
+  snapshot_version INTEGER,
+  bill_to TEXT NOT NULL DEFAULT '',
+  tax_reg_no TEXT,
+  issue_date DATE NOT NULL,
+  due_date DATE NOT NULL,
+  lines JSONB NOT NULL DEFAULT '[]',
+  subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  tax_label TEXT NOT NULL DEFAULT 'SST',
+  tax_rate NUMERIC(5, 2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'ISSUED' CHECK (status IN ('ISSUED', 'PAID', 'VOID')),
+  paid_date DATE,
+  paid_amount NUMERIC(12, 2),
+  payment_ref TEXT,
+  void_reason TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_code, client, sequence),
+  CHECK (status <> 'PAID' OR paid_date IS NOT NULL)
+);
+
+-- A voided invoice frees the month for a replacement
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cms_invoices_live
+  ON public.cms_invoices (project_code, client, month_year)
+  WHERE status <> 'VOID';
+
+CREATE INDEX IF NOT EXISTS idx_cms_invoices_month
+  ON public.cms_invoices (project_code, month_year);
@@ -0,0 +1,42 @@
+-- Create cms_payroll_runs: monthly payroll exports for HR.
+-- Each export stores the employee lines, the layout used and the exact file, and
+-- locks the month (status LOCKED). An L1 reopen keeps the row as REOPENED for the
+-- record; the next export is a new version. The export layout lives in
+-- cms_settings under payroll_layout_<project> (see lib/payroll.ts).
+CREATE TABLE IF NOT EXISTS public.cms_payroll_runs (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  month_year TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  status TEXT NOT NULL DEFAULT 'LOCKED' CHECK (status IN ('LOCKED', 'REOPENED')),
+  lines JSONB NOT NULL DEFAULT '[]',
+  layout JSONB NOT NULL,
+  file_name TEXT NOT NULL,
+  file_content TEXT NOT NULL,
+  employee_count INTEGER NOT NULL DEFAULT 0,
+  gross_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  exported_by TEXT NOT NULL,
+  exported_at TIMESTAMPTZ DEFAULT NOW(),
+  reopened_by TEXT,
+  reopened_at TIMESTAMPTZ,
+  reopen_reason TEXT,
+  UNIQUE (project_code, month_year, version),
+  CHECK (status <> 'REOPENED' OR reopen_reason IS NOT NULL)
+);
+
+-- At most one locked run per project and month
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cms_payroll_runs_locked
+  ON public.cms_payroll_runs (project_code, month_year)
+  WHERE status = 'LOCKED';
+
+-- Register the Payroll page (P10) in the access matrix
+INSERT INTO public.cms_access_matrix (page_code, project_scope, page_name, description, l1_access, l2a_access, l2b_access, l4_access, l5a_access, l5b_access, l6_access, l7_access)
+SELECT v.*
+FROM (VALUES
+  ('P10', 'PCSB',   'Payroll', 'Monthly payroll run and export', 'E', 'NO', 'NO', 'NO', 'NO', 'NO', 'E', 'V'),
+  ('P10', 'OTHERS', 'Payroll', 'Monthly payroll run and export', 'E', 'NO', 'NO', 'NO', 'NO', 'NO', 'E', 'V')
+) AS v(page_code, project_scope, page_name, description, l1_access, l2a_access, l2b_access, l4_access, l5a_access, l5b_access, l6_access, l7_access)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.cms_access_matrix m
+  WHERE m.page_code = v.page_code AND m.project_scope = v.project_scope
+);
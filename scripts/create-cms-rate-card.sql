@@ -0,0 +1,46 @@
+-- Create cms_rate_card table: dated allowance rates per project / client / trade
+-- client / trade NULL = applies to all; effective_to NULL = open-ended
+CREATE TABLE IF NOT EXISTS public.cms_rate_card (
+  id BIGSERIAL PRIMARY KEY,
+  rate_type TEXT NOT NULL CHECK (rate_type IN ('OFFSHORE', 'MEDEVAC')),
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  client TEXT,
+  trade TEXT CHECK (trade IS NULL OR trade IN ('OM', 'EM', 'IMP/OHN')),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  effective_from DATE NOT NULL,
+  effective_to DATE,
+  notes TEXT,
+  updated_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (effective_to IS NULL OR effective_to >= effective_from)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_rate_card_lookup
+  ON public.cms_rate_card (project_code, rate_type, effective_from);
+
+-- Seed the rates that were previously hard-coded in the app
+INSERT INTO public.cms_rate_card (rate_type, project_code, client, trade, amount, effective_from, notes, updated_by)
+SELECT v.rate_type, v.project_code, NULL, v.trade, v.amount, DATE '2020-01-01', 'Initial rate (migrated from app default)', 'system'
+FROM (VALUES
+  ('OFFSHORE', 'PCSB',   'OM', 200.00),
+  ('MEDEVAC',  'PCSB',   'EM', 500.00),
+  ('OFFSHORE', 'OTHERS', 'OM', 200.00),
+  ('MEDEVAC',  'OTHERS', 'EM', 500.00)
+) AS v(rate_type, project_code, trade, amount)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.cms_rate_card r
+  WHERE r.rate_type = v.rate_type AND r.project_code = v.project_code
+);
+
+-- Register the Rate Card page (P9) in the access matrix
+INSERT INTO public.cms_access_matrix (page_code, project_scope, page_name, description, l1_access, l2a_access, l2b_access, l4_access, l5a_access, l5b_access, l6_access, l7_access)
+SELECT v.*
+FROM (VALUES
+  ('P9', 'PCSB',   'Rate Card', 'Offshore / MEDEVAC allowance rates', 'E', 'NO', 'NO', 'V', 'V', 'NO', 'V', 'V'),
+  ('P9', 'OTHERS', 'Rate Card', 'Offshore / MEDEVAC allowance rates', 'E', 'NO', 'NO', 'V', 'NO', 'V', 'V', 'V')
+) AS v(page_code, project_scope, page_name, description, l1_access, l2a_access, l2b_access, l4_access, l5a_access, l5b_access, l6_access, l7_access)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.cms_access_matrix m
+  WHERE m.page_code = v.page_code AND m.project_scope = v.project_scope
+);
@@ -0,0 +1,18 @@
+-- Create cms_roster_lock_overrides: every L1 override of a roster change that
+-- touches a month/client whose statement is already approved.
+-- One row per (change, locked period); written by the roster server actions.
+CREATE TABLE IF NOT EXISTS public.cms_roster_lock_overrides (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  month_year TEXT NOT NULL,
+  client TEXT NOT NULL,
+  roster_id BIGINT,
+  crew_name TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  overridden_by TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_roster_lock_overrides_period
+  ON public.cms_roster_lock_overrides (project_code, month_year, client);
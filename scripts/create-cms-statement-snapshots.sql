@@ -0,0 +1,29 @@
+-- Create cms_statement_snapshots: immutable, versioned copy of the computed
+-- statement (StatementRow[] incl. cycles, rates and totals) written on approval.
+-- Re-approving after a reset appends a new version; old versions are kept.
+CREATE TABLE IF NOT EXISTS public.cms_statement_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  project_code TEXT NOT NULL DEFAULT 'PCSB' CHECK (project_code IN ('PCSB', 'OTHERS')),
+  month_year TEXT NOT NULL,
+  client TEXT NOT NULL,
+  version INTEGER NOT NULL CHECK (version > 0),
+  rows JSONB NOT NULL,
+  grand_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  crew_count INTEGER NOT NULL DEFAULT 0,
+  approved_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (project_code, month_year, client, version)
+);
+
+-- Snapshots are append-only
+CREATE OR REPLACE FUNCTION public.cms_statement_snapshots_immutable()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'cms_statement_snapshots is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_statement_snapshots_immutable ON public.cms_statement_snapshots;
+CREATE TRIGGER trg_cms_statement_snapshots_immutable
+  BEFORE UPDATE OR DELETE ON public.cms_statement_snapshots
+  FOR EACH ROW EXECUTE FUNCTION public.cms_statement_snapshots_immutable();
@@ -0,0 +1,7 @@
+-- Private storage bucket for issued statement PDFs. Approved statements are
+-- archived once per snapshot version at <project>/<month_year>/<client>-v<n>.pdf
+-- and served back unchanged. Only the service role reads or writes it (the app
+-- checks /statement access first), so no storage policies are needed.
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('cms-statements', 'cms-statements', false)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,82 @@
+-- Training plan scheduler: providers run dated sessions of a course with a
+-- seat limit, and PCSB crew are enrolled into them. Enrolment sets the crew's
+-- plan_date in cms_pcsb_matrix; attendance sets attended_date / expiry_date.
+CREATE TABLE IF NOT EXISTS public.cms_training_providers (
+  id BIGSERIAL PRIMARY KEY,
+  name TEXT NOT NULL UNIQUE,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.cms_training_sessions (
+  id BIGSERIAL PRIMARY KEY,
+  provider_id BIGINT REFERENCES public.cms_training_providers(id) ON DELETE SET NULL,
+  course TEXT NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  venue TEXT NOT NULL,
+  capacity INTEGER NOT NULL CHECK (capacity > 0),
+  status TEXT NOT NULL DEFAULT 'OPEN' CHECK (status IN ('OPEN', 'CANCELLED')),
+  notes TEXT,
+  created_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_training_sessions_course
+  ON public.cms_training_sessions (course, start_date);
+
+CREATE TABLE IF NOT EXISTS public.cms_training_enrolments (
+  id BIGSERIAL PRIMARY KEY,
+  session_id BIGINT NOT NULL REFERENCES public.cms_training_sessions(id) ON DELETE CASCADE,
+  crew_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'ENROLLED' CHECK (status IN ('ENROLLED', 'ATTENDED', 'NO_SHOW', 'CANCELLED')),
+  enrolled_by TEXT,
+  attended_at TIMESTAMPTZ,
+  -- Matrix values attendance replaced, restored if it is later undone
+  prior_attended_date DATE,
+  prior_expiry_date DATE,
+  prior_expiry_override BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (session_id, crew_id)
+);
+
+ALTER TABLE public.cms_training_enrolments ADD COLUMN IF NOT EXISTS prior_attended_date DATE;
+ALTER TABLE public.cms_training_enrolments ADD COLUMN IF NOT EXISTS prior_expiry_date DATE;
+ALTER TABLE public.cms_training_enrolments ADD COLUMN IF NOT EXISTS prior_expiry_override BOOLEAN;
+
+CREATE INDEX IF NOT EXISTS idx_cms_training_enrolments_crew
+  ON public.cms_training_enrolments (crew_id);
+
+-- Seat limit: enrolled and attended crew hold a seat. The session row is locked
+-- so two bookings of the last seat cannot both pass the count.
+CREATE OR REPLACE FUNCTION public.cms_training_enrolments_capacity()
+RETURNS trigger AS $$
+DECLARE
+  seat_limit INTEGER;
+  taken INTEGER;
+BEGIN
+  IF NEW.status NOT IN ('ENROLLED', 'ATTENDED') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' AND OLD.status IN ('ENROLLED', 'ATTENDED') AND OLD.session_id = NEW.session_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT capacity INTO seat_limit FROM public.cms_training_sessions WHERE id = NEW.session_id FOR UPDATE;
+  SELECT COUNT(*) INTO taken FROM public.cms_training_enrolments
+  WHERE session_id = NEW.session_id AND status IN ('ENROLLED', 'ATTENDED') AND id <> NEW.id;
+  IF taken >= seat_limit THEN
+    RAISE EXCEPTION 'Session is full' USING ERRCODE = 'check_violation';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_cms_training_enrolments_capacity ON public.cms_training_enrolments;
+CREATE TRIGGER trg_cms_training_enrolments_capacity
+  BEFORE INSERT OR UPDATE OF status, session_id ON public.cms_training_enrolments
+  FOR EACH ROW EXECUTE FUNCTION public.cms_training_enrolments_capacity();
@@ -0,0 +1,34 @@
+-- Monthly training compliance snapshots. Counts hold the S/W/C/E tier totals
+-- per client / trade / course; crew rows hold each crew member's tier per
+-- course so the trend view can list who changed tier between months.
+-- A month is replaced as a whole when its snapshot is re-taken.
+CREATE TABLE IF NOT EXISTS public.cms_training_snapshot_counts (
+  id BIGSERIAL PRIMARY KEY,
+  month TEXT NOT NULL CHECK (month ~ '^\d{4}-\d{2}$'),
+  client TEXT NOT NULL,
+  trade TEXT NOT NULL,
+  course TEXT NOT NULL,
+  green INTEGER NOT NULL DEFAULT 0,
+  yellow INTEGER NOT NULL DEFAULT 0,
+  orange INTEGER NOT NULL DEFAULT 0,
+  red INTEGER NOT NULL DEFAULT 0,
+  plan INTEGER NOT NULL DEFAULT 0,
+  taken_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (month, client, trade, course)
+);
+
+CREATE TABLE IF NOT EXISTS public.cms_training_snapshot_crew (
+  id BIGSERIAL PRIMARY KEY,
+  month TEXT NOT NULL CHECK (month ~ '^\d{4}-\d{2}$'),
+  crew_id TEXT NOT NULL,
+  crew_name TEXT NOT NULL,
+  client TEXT NOT NULL,
+  trade TEXT NOT NULL,
+  course TEXT NOT NULL,
+  tier TEXT NOT NULL CHECK (tier IN ('green', 'yellow', 'orange', 'red', 'no-data')),
+  taken_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (month, crew_id, course)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cms_training_snapshot_crew_month
+  ON public.cms_training_snapshot_crew (month, course);